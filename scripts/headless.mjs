@@ -0,0 +1,71 @@
+// Headless simulation runner: boots the game with no browser and steps the
+// fixed 60Hz simulation as fast as the CPU allows.
+//
+//   npm run simulate -- [seconds] [--seed n] [--difficulty story|standard|hardcore] [--log]
+//   npm run simulate -- --replay astra-replay.json [--log]
+//
+// Vite's SSR module loader compiles src/headless.ts (TypeScript + `?raw`
+// shader imports) on the fly, so no build step is needed. Balance scripts can
+// copy this pattern and drive `sim` directly instead of printing a summary.
+import { readFile } from "node:fs/promises";
+import { createServer } from "vite";
+
+const args = process.argv.slice(2);
+const valueOf = (flag) => {
+  const i = args.indexOf(flag);
+  return i >= 0 ? args[i + 1] : null;
+};
+const replayPath = valueOf("--replay");
+const seedArg = valueOf("--seed");
+if (seedArg !== null && !/^\d+$/.test(seedArg)) {
+  console.error(`--seed takes a whole number, not "${seedArg}"`);
+  process.exit(1);
+}
+const seed = seedArg !== null ? Number(seedArg) : undefined;
+const difficulty = valueOf("--difficulty") ?? undefined;
+const seconds = Number(
+  args.find((a, i) => !a.startsWith("--") && !args[i - 1]?.match(/^--(replay|seed|difficulty)$/)) ??
+    60,
+);
+const log = args.includes("--log");
+const replay = replayPath ? JSON.parse(await readFile(replayPath, "utf8")) : undefined;
+
+const server = await createServer({
+  appType: "custom",
+  logLevel: "error",
+  server: { middlewareMode: true, hmr: false, ws: false },
+});
+
+try {
+  const { bootHeadless } = await server.ssrLoadModule("/src/headless.ts");
+
+  const bootStart = performance.now();
+  const sim = await bootHeadless({ log, replay, seed, difficulty });
+  const bootMs = performance.now() - bootStart;
+
+  const runStart = performance.now();
+  if (replay) {
+    sim.runReplay();
+  } else {
+    sim.runUntil(() => false, seconds);
+  }
+  const runMs = performance.now() - runStart;
+
+  console.log(
+    JSON.stringify(
+      {
+        ...sim.summary(),
+        wall: {
+          bootMs: Math.round(bootMs),
+          runMs: Math.round(runMs),
+          speedup: Math.round((sim.engine.simTime * 1000) / Math.max(1, runMs)),
+        },
+      },
+      null,
+      2,
+    ),
+  );
+  if (replay && sim.replay.desyncTick !== null) process.exitCode = 1;
+} finally {
+  await server.close();
+}
@@ -1,7 +1,8 @@
 /**
- * Player-tunable camera settings, persisted to localStorage and edited live
- * through the in-game settings panel (C key). CameraSystem reads this object
- * every frame, so slider changes apply instantly.
+ * Player-tunable camera and controller-stick settings, persisted to
+ * localStorage and edited live through the in-game settings panel (C key).
+ * CameraSystem and InputManager read this object every frame, so slider
+ * changes apply instantly.
  */
 
 export interface CameraSettingsData {
@@ -16,6 +17,10 @@ export interface CameraSettingsData {
   smoothing: number;
   /** Landing/impact screen shake. */
   shake: boolean;
+  /** Gamepad sticks: deflection (0..1) ignored around center. */
+  stickDeadZone: number;
+  /** Gamepad sticks: response exponent past the dead zone (1 = linear). */
+  stickCurve: number;
 }
 
 export const CAMERA_DEFAULTS: CameraSettingsData = {
@@ -25,6 +30,8 @@ export const CAMERA_DEFAULTS: CameraSettingsData = {
   distance: 5.5,
   smoothing: 0.35,
   shake: true,
+  stickDeadZone: 0.15,
+  stickCurve: 1.6,
 };
 
 export const CAMERA_LIMITS = {
@@ -32,6 +39,8 @@ export const CAMERA_LIMITS = {
   fov: { min: 60, max: 95, step: 1 },
   distance: { min: 3.0, max: 9.0, step: 0.25 },
   smoothing: { min: 0, max: 1, step: 0.05 },
+  stickDeadZone: { min: 0, max: 0.4, step: 0.01 },
+  stickCurve: { min: 1, max: 3, step: 0.1 },
 } as const;
 
 const STORAGE_KEY = "astra.camera.v1";
@@ -0,0 +1,164 @@
+import { events } from "../utils/EventBus";
+
+/**
+ * Difficulty: one set of balance multipliers the systems read instead of
+ * their raw constants — oxygen drain (OxygenSystem), storm-spawn contact
+ * drain and hits on the suit, speed and wave sizes (CreatureSystem, BeaconSystem, mission waves),
+ * the act countdown (MissionManager) and how many O₂ canisters the world
+ * scatters (PickupFactory). Chosen on the start screen and persisted;
+ * replays and saves carry the difficulty they were played on.
+ *
+ * STANDARD is every multiplier at 1 — the game as balanced. HARDCORE adds
+ * permadeath: dying wipes the run's saves, and the run counts toward the
+ * hardcore record below.
+ */
+
+export type DifficultyPreset = "story" | "standard" | "hardcore" | "custom";
+
+export interface DifficultyData {
+  preset: DifficultyPreset;
+  /** × walking and sprinting O₂ drain. */
+  oxygenDrain: number;
+  /** × storm-spawn O₂ drain on contact, and the suit damage their hits do (0: neither). */
+  creatureDrain: number;
+  /** × storm-spawn hunting speed. */
+  creatureSpeed: number;
+  /** × storm-spawn per wave. */
+  waveSize: number;
+  /** × act countdown length (the storm). */
+  stormTime: number;
+  /** × O₂ canisters on the surface. */
+  pickups: number;
+  /** Death wipes the run's saves. */
+  permadeath: boolean;
+}
+
+export const DIFFICULTY_PRESETS: Record<Exclude<DifficultyPreset, "custom">, DifficultyData> = {
+  story: {
+    preset: "story",
+    oxygenDrain: 0.7,
+    creatureDrain: 0,
+    creatureSpeed: 0.85,
+    waveSize: 0.6,
+    stormTime: 1.5,
+    pickups: 1.35,
+    permadeath: false,
+  },
+  standard: {
+    preset: "standard",
+    oxygenDrain: 1,
+    creatureDrain: 1,
+    creatureSpeed: 1,
+    waveSize: 1,
+    stormTime: 1,
+    pickups: 1,
+    permadeath: false,
+  },
+  hardcore: {
+    preset: "hardcore",
+    oxygenDrain: 1.25,
+    creatureDrain: 1.4,
+    creatureSpeed: 1.15,
+    waveSize: 1.35,
+    stormTime: 0.8,
+    pickups: 0.6,
+    permadeath: true,
+  },
+};
+
+/** Custom slider ranges. */
+export const DIFFICULTY_LIMITS = {
+  oxygenDrain: { min: 0.5, max: 2, step: 0.05 },
+  creatureDrain: { min: 0, max: 2, step: 0.1 },
+  creatureSpeed: { min: 0.7, max: 1.4, step: 0.05 },
+  waveSize: { min: 0.4, max: 2, step: 0.1 },
+  stormTime: { min: 0.5, max: 2, step: 0.05 },
+  pickups: { min: 0.4, max: 1.5, step: 0.05 },
+} as const;
+
+export const DIFFICULTY_LABELS: Record<DifficultyPreset, string> = {
+  story: "STORY",
+  standard: "STANDARD",
+  hardcore: "HARDCORE",
+  custom: "CUSTOM",
+};
+
+const STORAGE_KEY = "astra.difficulty.v1";
+
+function load(): DifficultyData {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) return { ...DIFFICULTY_PRESETS.standard, ...JSON.parse(raw) };
+  } catch {
+    // Corrupt/blocked storage falls back to defaults.
+  }
+  return { ...DIFFICULTY_PRESETS.standard };
+}
+
+export const difficulty: DifficultyData = load();
+
+/**
+ * Switch difficulty. The start screen persists the choice; replays and saves
+ * apply theirs for the session only (`persist` false).
+ */
+export function setDifficulty(data: DifficultyData, persist = true) {
+  Object.assign(difficulty, data);
+  if (persist) {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(difficulty));
+    } catch {
+      // Storage may be unavailable (private mode); the choice stays session-only.
+    }
+  }
+  events.emit("difficulty:changed");
+}
+
+/** Storm-spawn in a wave of `base` on STANDARD (at least one). */
+export function waveCount(base: number): number {
+  return Math.max(1, Math.round(base * difficulty.waveSize));
+}
+
+// --- Hardcore record ----------------------------------------------------------
+
+export interface HardcoreRecord {
+  runs: number;
+  deaths: number;
+  extractions: number;
+  /** Extractions in a row since the last death. */
+  streak: number;
+  /** Fastest extraction, sim seconds (0: none yet). */
+  bestTime: number;
+}
+
+const RECORD_KEY = "astra.hardcore.v1";
+
+export function readHardcoreRecord(): HardcoreRecord {
+  const empty = { runs: 0, deaths: 0, extractions: 0, streak: 0, bestTime: 0 };
+  try {
+    const raw = localStorage.getItem(RECORD_KEY);
+    if (raw) return { ...empty, ...JSON.parse(raw) };
+  } catch {
+    // Corrupt/blocked storage: start a fresh record.
+  }
+  return empty;
+}
+
+/** Count a finished permadeath run. Returns the updated record. */
+export function recordHardcoreRun(extracted: boolean, time: number): HardcoreRecord {
+  const record = readHardcoreRecord();
+  record.runs++;
+  if (extracted) {
+    record.extractions++;
+    record.streak++;
+    record.bestTime = record.bestTime > 0 ? Math.min(record.bestTime, time) : time;
+  } else {
+    record.deaths++;
+    record.streak = 0;
+  }
+  try {
+    localStorage.setItem(RECORD_KEY, JSON.stringify(record));
+  } catch {
+    // Storage may be unavailable (private mode); the record is not kept.
+  }
+  return record;
+}
@@ -13,28 +13,49 @@ import { updateScannerSystem } from "../ecs/systems/ScannerSystem";
 import { updateWaypointSystem } from "../ecs/systems/WaypointSystem";
 import { updateBeaconSystem } from "../ecs/systems/BeaconSystem";
 import { updateOxygenSystem } from "../ecs/systems/OxygenSystem";
+import { updateSuitSystem } from "../ecs/systems/SuitSystem";
 import { updatePickupSystem, updatePickupVisuals } from "../ecs/systems/PickupSystem";
 import { updateHazardVisuals } from "../ecs/factories/HazardFactory";
 import { updateParticleSystem } from "../ecs/systems/ParticleSystem";
 import { updateDropshipSystem } from "../ecs/systems/DropshipSystem";
 import { updateCreatureSystem } from "../ecs/systems/CreatureSystem";
 import { updateWeaponSystem, updateWeaponVisuals } from "../ecs/systems/WeaponSystem";
+import { updateVehicleSystem, updateVehicleVisuals } from "../ecs/systems/VehicleSystem";
+import {
+  sunDirection,
+  updateDayNightSystem,
+  updateDayNightVisuals,
+} from "../ecs/systems/DayNightSystem";
+import { updateWeatherSystem, updateWeatherVisuals } from "../ecs/systems/WeatherSystem";
+import { updateTerrainSystem, updateTerrainVisuals } from "../ecs/systems/TerrainSystem";
 import { updateMissionSystem } from "../managers/MissionManager";
 import { inputManager } from "../managers/InputManager";
+import { replayManager } from "../managers/ReplayManager";
+import { saveManager } from "../managers/SaveManager";
 import { debugManager } from "../managers/DebugManager";
-import { updateSun } from "./Sun";
+import { orbitalMap } from "../managers/OrbitalMap";
+import { updateSun, getDaylight } from "./Sun";
+import { scheduler, whilePlaying } from "./Scheduler";
+import { gameState } from "./GameState";
+import { simTimers, frameTimers } from "./Timers";
 import { queries } from "../ecs/World";
 
 /**
  * Main loop: fixed-timestep simulation with render interpolation.
  *
- *   render frame ─┬─ poll edge-triggered input
+ *   render frame ─┬─ poll edge-triggered input (replays: recorded input + delta)
  *                 ├─ 0..N fixed ticks (character → gameplay → physics step → snapshot)
  *                 └─ render update (interpolate transforms → camera → visuals → draw)
  *
+ * Character, gameplay and visual systems are registered with the scheduler
+ * (registerCoreSystems below); the loop plumbing around them stays here.
+ *
  * Gameplay and physics always advance in exact 1/60s increments, so the game
  * plays identically at 30, 60 or 240 FPS; the render pass blends between the
  * last two physics states so motion still looks perfectly smooth.
+ *
+ * While paused the loop keeps drawing the frozen scene but takes no input,
+ * runs no fixed ticks and holds the accumulator (render systems see dt 0).
  */
 export class Engine {
   private time: Time;
@@ -56,6 +77,104 @@ export class Engine {
 
   constructor() {
     this.time = new Time();
+    this.registerCoreSystems();
+  }
+
+  /** The built-in systems, in the order the loop has always run them. */
+  private registerCoreSystems() {
+    const fixed = (name: string, order: number, update: (dt: number, t: number) => void) =>
+      scheduler.register({ name, phase: "fixed", order, update: (f) => update(f.dt, f.elapsed) });
+    const render = (name: string, order: number, update: (dt: number, t: number) => void) =>
+      scheduler.register({ name, phase: "render", order, update: (f) => update(f.dt, f.elapsed) });
+
+    // 0. The clock: night decides the oxygen drain and storm-spawn below
+    scheduler.register({
+      name: "day-night",
+      phase: "fixed",
+      order: 50,
+      runIf: whilePlaying,
+      update: (f) => updateDayNightSystem(f.dt),
+    });
+    // ...and the weather: storm wind pushes the character
+    scheduler.register({
+      name: "weather",
+      phase: "fixed",
+      order: 60,
+      runIf: whilePlaying,
+      update: (f) => updateWeatherSystem(f.dt),
+    });
+
+    // ...and the ground: collider chunks under the player and the rover
+    fixed("terrain", 90, updateTerrainSystem);
+
+    // 1. Character movement (kinematic controller, spherical gravity)
+    fixed("character", 100, updateCharacterSystem);
+    fixed("vehicles", 150, updateVehicleSystem);
+
+    // 2. Gameplay systems
+    fixed("beacons", 200, updateBeaconSystem);
+    // Suit and oxygen only tick during active play — not on the start
+    // screen, not after death, not after extraction.
+    scheduler.register({
+      name: "suit",
+      phase: "fixed",
+      order: 250,
+      runIf: whilePlaying,
+      update: (f) => updateSuitSystem(f.dt),
+    });
+    scheduler.register({
+      name: "oxygen",
+      phase: "fixed",
+      order: 300,
+      runIf: whilePlaying,
+      update: (f) => updateOxygenSystem(f.dt),
+    });
+    fixed("pickups", 400, updatePickupSystem);
+    fixed("dropship", 500, updateDropshipSystem);
+    fixed("creatures", 600, updateCreatureSystem);
+    fixed("weapon", 700, updateWeaponSystem);
+    // Sim-time timers fire after gameplay and just before the mission
+    // director, where its act transitions have always run
+    fixed("sim-timers", 790, (dt) => simTimers.update(dt));
+    fixed("mission", 800, updateMissionSystem);
+
+    // Visual-only systems (frame timers first: tweens land before the draw)
+    render("frame-timers", 50, (dt) => frameTimers.update(dt));
+    render("terrain-lod", 60, updateTerrainVisuals);
+    render("character-visuals", 100, updateCharacterVisuals);
+    render("vehicle-visuals", 150, updateVehicleVisuals);
+    render("scanner", 200, updateScannerSystem);
+    render("waypoints", 300, updateWaypointSystem);
+    render("hazard-visuals", 400, updateHazardVisuals);
+    render("pickup-visuals", 500, updatePickupVisuals);
+    render("weapon-visuals", 600, updateWeaponVisuals);
+    render("particles", 700, updateParticleSystem);
+    render("day-night-visuals", 750, updateDayNightVisuals);
+    render("weather-visuals", 760, updateWeatherVisuals);
+
+    // Sun rig: shadows, light levels and fog follow the player's time of day
+    // (and go dark under rock)
+    render("sun", 800, (dt) => {
+      const player = queries.player.first;
+      if (player?.object3d) updateSun(player.object3d.position, dt);
+    });
+
+    // Skybox: time, and the sun and daylight where the player stands
+    render("skybox", 900, (_dt, elapsed) => {
+      if (!this.skybox) {
+        const found = renderer.scene.getObjectByName("Skybox");
+        if (found instanceof THREE.Mesh) this.skybox = found;
+      }
+      if (this.skybox && this.skybox.material instanceof THREE.ShaderMaterial) {
+        const uniforms = this.skybox.material.uniforms;
+        uniforms.uTime.value = elapsed;
+        uniforms.uSunDir.value.copy(sunDirection());
+        uniforms.uDaylight.value = getDaylight();
+      }
+    });
+
+    // Orbital map overlay (its own canvas; idle while closed)
+    render("orbital-map", 1000, (_dt, elapsed) => orbitalMap.update(elapsed));
   }
 
   public async init() {
@@ -74,54 +193,94 @@ export class Engine {
     this.isRunning = false;
   }
 
+  /** Simulation seconds elapsed (fixed ticks × 1/60). */
+  public get simTime(): number {
+    return this.fixedElapsed;
+  }
+
+  /**
+   * Headless stepping: advance exactly `ticks` fixed steps, synchronously,
+   * with no requestAnimationFrame and no render pass.
+   */
+  public step(ticks = 1) {
+    for (let i = 0; i < ticks; i++) {
+      pollCharacterInput();
+      this.fixedUpdate(Engine.FIXED_DT);
+      this.syncFrame();
+      scheduler.endFrame();
+    }
+  }
+
+  /**
+   * Headless stand-in for one browser frame: input plus 0..N fixed ticks for
+   * `delta` seconds, then the frame sync at the matching alpha. Replays run
+   * through here so a browser recording repeats tick for tick.
+   */
+  public stepFrame(delta: number) {
+    const simulated = this.advance(delta);
+    this.syncFrame(this.accumulator / Engine.FIXED_DT, simulated);
+    replayManager.endFrame();
+    scheduler.endFrame();
+  }
+
+  /**
+   * The part of a render frame the simulation depends on, for headless runs:
+   * transforms synced (at alpha 1 after a plain step) and the camera rig
+   * updated — gameplay systems read object3d positions, and movement is
+   * camera-relative.
+   */
+  public syncFrame(alpha = 1, delta = Engine.FIXED_DT) {
+    updatePhysicsSystem(alpha);
+    updateCameraSystem(delta);
+    inputManager.resetMouseDelta();
+  }
+
+  /**
+   * Frame input and the fixed ticks owed for `delta`. A replay substitutes
+   * the recorded input and timing here; returns the delta actually simulated.
+   */
+  private advance(delta: number): number {
+    const frame = replayManager.beginFrame(delta, this.fixedElapsed, this.accumulator);
+    this.fixedElapsed = frame.simTime;
+
+    // Edge-triggered input is sampled per render frame so taps between
+    // physics ticks are never dropped.
+    pollCharacterInput();
+
+    this.accumulator = Math.min(frame.accumulator + frame.delta, Engine.MAX_ACCUMULATED);
+    while (this.accumulator >= Engine.FIXED_DT) {
+      this.fixedUpdate(Engine.FIXED_DT);
+      this.accumulator -= Engine.FIXED_DT;
+    }
+    return frame.delta;
+  }
+
   private fixedUpdate(dt: number) {
     this.fixedElapsed += dt;
 
-    // 1. Character movement (kinematic controller, spherical gravity)
-    updateCharacterSystem(dt);
+    // 0. Resume a saved run / write a pending autosave
+    saveManager.update();
 
-    // 2. Gameplay systems
-    updateBeaconSystem(dt, this.fixedElapsed);
-    updateOxygenSystem(dt);
-    updatePickupSystem();
-    updateDropshipSystem(dt, this.fixedElapsed);
-    updateCreatureSystem(dt, this.fixedElapsed);
-    updateWeaponSystem(dt);
-    updateMissionSystem(dt);
+    // 1–2. Character movement, then gameplay systems (scheduled)
+    scheduler.run("fixed", { dt, elapsed: this.fixedElapsed, alpha: 1 });
 
     // 3. Physics step + transform snapshot for render interpolation
     physicsManager.stepOnce();
     capturePhysicsSnapshot();
+
+    // 4. Replay checksum (recorded once per second, verified on playback)
+    replayManager.afterTick();
   }
 
   private renderUpdate(delta: number, alpha: number, elapsed: number) {
     // 1. Blend physics transforms into the scene graph
     updatePhysicsSystem(alpha);
 
-    // 2. Camera rig (uses the interpolated player position)
-    updateCameraSystem(delta);
+    // 2. Camera rig (uses the interpolated player position; held while paused)
+    if (!gameState.isPaused) updateCameraSystem(delta);
 
-    // 3. Visual-only systems
-    updateCharacterVisuals(delta);
-    updateScannerSystem(delta);
-    updateWaypointSystem();
-    updateHazardVisuals(delta, elapsed);
-    updatePickupVisuals(delta, elapsed);
-    updateWeaponVisuals(delta);
-    updateParticleSystem(delta, elapsed);
-
-    // 4. Player-following sun shadows
-    const player = queries.player.first;
-    if (player?.object3d) updateSun(player.object3d.position);
-
-    // 5. Skybox time uniform
-    if (!this.skybox) {
-      const found = renderer.scene.getObjectByName("Skybox");
-      if (found instanceof THREE.Mesh) this.skybox = found;
-    }
-    if (this.skybox && this.skybox.material instanceof THREE.ShaderMaterial) {
-      this.skybox.material.uniforms.uTime.value = elapsed;
-    }
+    // 3. Visuals, sun shadows, skybox (scheduled)
+    scheduler.run("render", { dt: delta, elapsed, alpha });
 
     debugManager.update();
     renderer.render(delta);
@@ -132,21 +291,18 @@ export class Engine {
 
     const frameStart = performance.now();
     this.time.update();
-    const delta = this.time.delta;
     const elapsed = this.time.elapsed;
 
-    // Edge-triggered input is sampled per render frame so taps between
-    // physics ticks are never dropped.
-    pollCharacterInput();
-
-    this.accumulator = Math.min(this.accumulator + delta, Engine.MAX_ACCUMULATED);
-    while (this.accumulator >= Engine.FIXED_DT) {
-      this.fixedUpdate(Engine.FIXED_DT);
-      this.accumulator -= Engine.FIXED_DT;
-    }
+    // Gamepads have no input events: sample the pad before the frame's input
+    const paused = gameState.isPaused;
+    if (!paused) inputManager.pollGamepad();
+    const delta = paused ? 0 : this.advance(this.time.delta);
 
     const alpha = this.accumulator / Engine.FIXED_DT;
     this.renderUpdate(delta, alpha, elapsed);
+    // A paused frame is not part of the run: nothing to record or verify
+    if (!paused) replayManager.endFrame();
+    scheduler.endFrame();
     this.frames++;
 
     inputManager.resetMouseDelta();
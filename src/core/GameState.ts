@@ -1,6 +1,6 @@
 import { events } from "../utils/EventBus";
 
-export type GamePhase = "boot" | "playing" | "gameover" | "won";
+export type GamePhase = "boot" | "playing" | "paused" | "gameover" | "won";
 
 /**
  * Central game state machine. Systems consult this to know whether
@@ -19,11 +19,27 @@ class GameState {
     events.on("mission:complete", () => {
       if (this.phase === "playing") this.phase = "won";
     });
+    // Pause menu and overlay menus: the Engine stops ticking the simulation
+    events.on("game:pause", () => {
+      if (this.phase === "playing") this.phase = "paused";
+    });
+    events.on("game:resume", () => {
+      if (this.phase === "paused") this.phase = "playing";
+    });
+    // In-place restart: back to the pre-start phase; the next game:start
+    // begins a fresh run.
+    events.on("game:restart", () => {
+      this.phase = "boot";
+    });
   }
 
   public get isPlaying(): boolean {
     return this.phase === "playing";
   }
+
+  public get isPaused(): boolean {
+    return this.phase === "paused";
+  }
 }
 
 export const gameState = new GameState();
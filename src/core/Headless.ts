@@ -0,0 +1,9 @@
+/**
+ * True when the game modules are loaded without a browser — the headless
+ * simulation runner (scripts/headless.mjs) used by balance scripts and CI.
+ *
+ * Modules that build DOM, canvas or GPU objects at load time check this and
+ * keep only their simulation-relevant parts (scene graph, camera, physics),
+ * so every gameplay system can be imported and stepped under plain Node.
+ */
+export const HEADLESS = typeof document === "undefined";
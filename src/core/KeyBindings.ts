@@ -0,0 +1,185 @@
+import type { InputAction } from "../managers/InputManager";
+import { events } from "../utils/EventBus";
+
+/**
+ * Player-rebindable keys, persisted to localStorage next to the camera
+ * settings and edited in the settings panel's CONTROLS section (C key).
+ *
+ * Every gameplay action and the menu/debug keys map to a list of codes:
+ * KeyboardEvent.code values ("KeyW", "ShiftLeft") or "Mouse<n>" for mouse
+ * buttons. An action may have several keys, and a key may (with a warning
+ * in the panel) drive several actions. Esc is reserved for closing menus
+ * and cancelling a rebind.
+ */
+
+/** Keys that open menus and debug tools rather than drive the astronaut. */
+export type MenuAction = "settings" | "orbital_map" | "debug" | "save_replay";
+
+export type BindableAction = InputAction | MenuAction;
+
+export type KeyBindingsData = Record<BindableAction, string[]>;
+
+export const KEY_DEFAULTS: KeyBindingsData = {
+  move_forward: ["KeyW"],
+  move_backward: ["KeyS"],
+  move_left: ["KeyA"],
+  move_right: ["KeyD"],
+  jump: ["Space"],
+  sprint: ["ShiftLeft", "ShiftRight"],
+  action: ["KeyE"],
+  free_look: ["AltLeft"],
+  camera_mode: ["KeyV"],
+  scanner: ["KeyF"],
+  fire: ["Mouse0"],
+  cutter_mode: ["KeyR"],
+  lamp: ["KeyL"],
+  settings: ["KeyC"],
+  orbital_map: ["KeyM"],
+  debug: ["F3"],
+  save_replay: ["F8"],
+};
+
+/** Panel labels, in panel order. */
+export const BINDING_LABELS: Record<BindableAction, string> = {
+  move_forward: "MOVE FORWARD",
+  move_backward: "MOVE BACK",
+  move_left: "MOVE LEFT",
+  move_right: "MOVE RIGHT",
+  jump: "JUMP / JETPACK",
+  sprint: "SPRINT",
+  fire: "ARC CUTTER",
+  cutter_mode: "CUTTER MODE",
+  action: "ROVER",
+  scanner: "SONAR PING",
+  camera_mode: "CAMERA MODE",
+  lamp: "HELMET LAMP",
+  free_look: "FREE LOOK",
+  orbital_map: "ORBITAL MAP",
+  settings: "SETTINGS",
+  debug: "DEBUG OVERLAY",
+  save_replay: "SAVE REPLAY",
+};
+
+export const MENU_ACTIONS: readonly MenuAction[] = ["settings", "orbital_map", "debug", "save_replay"];
+
+export const MAX_KEYS_PER_ACTION = 3;
+
+/** Never bindable: closes menus and cancels a rebind. */
+export const RESERVED_CODE = "Escape";
+
+const STORAGE_KEY = "astra.keys.v1";
+
+function load(): KeyBindingsData {
+  const bindings: KeyBindingsData = structuredClone(KEY_DEFAULTS);
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) {
+      const stored = JSON.parse(raw) as Partial<Record<string, unknown>>;
+      for (const action of Object.keys(KEY_DEFAULTS) as BindableAction[]) {
+        const codes = stored[action];
+        if (Array.isArray(codes) && codes.every((c) => typeof c === "string")) {
+          bindings[action] = codes.slice(0, MAX_KEYS_PER_ACTION);
+        }
+      }
+    }
+  } catch {
+    // Corrupt/blocked storage falls back to defaults.
+  }
+  return bindings;
+}
+
+export const keyBindings: KeyBindingsData = load();
+
+// Reverse index: code → the actions it drives (rebuilt on every change)
+const byCode = new Map<string, BindableAction[]>();
+
+function reindex() {
+  byCode.clear();
+  for (const [action, codes] of Object.entries(keyBindings) as [BindableAction, string[]][]) {
+    for (const code of codes) {
+      const actions = byCode.get(code);
+      if (actions) actions.push(action);
+      else byCode.set(code, [action]);
+    }
+  }
+}
+reindex();
+
+/** Actions a key or mouse button is bound to. */
+export function actionsForCode(code: string): readonly BindableAction[] {
+  return byCode.get(code) ?? [];
+}
+
+/** True if `code` is one of `action`'s keys. */
+export function isBound(action: BindableAction, code: string): boolean {
+  return keyBindings[action].includes(code);
+}
+
+/** Keys bound to more than one action. */
+export function bindingConflicts(): { code: string; actions: BindableAction[] }[] {
+  return [...byCode.entries()]
+    .filter(([, actions]) => actions.length > 1)
+    .map(([code, actions]) => ({ code, actions }));
+}
+
+export function saveKeyBindings() {
+  reindex();
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(keyBindings));
+  } catch {
+    // Storage may be unavailable (private mode); bindings stay session-only.
+  }
+  events.emit("bindings:changed");
+}
+
+/** Add a key to an action (no-op if already bound or the action is full). */
+export function bindKey(action: BindableAction, code: string) {
+  const codes = keyBindings[action];
+  if (code === RESERVED_CODE || codes.includes(code) || codes.length >= MAX_KEYS_PER_ACTION) return;
+  codes.push(code);
+  saveKeyBindings();
+}
+
+export function unbindKey(action: BindableAction, code: string) {
+  keyBindings[action] = keyBindings[action].filter((c) => c !== code);
+  saveKeyBindings();
+}
+
+export function resetKeyBindings() {
+  Object.assign(keyBindings, structuredClone(KEY_DEFAULTS));
+  saveKeyBindings();
+}
+
+const KEY_NAMES: Record<string, string> = {
+  Space: "SPACE",
+  ShiftLeft: "SHIFT",
+  ShiftRight: "R-SHIFT",
+  ControlLeft: "CTRL",
+  ControlRight: "R-CTRL",
+  AltLeft: "ALT",
+  AltRight: "R-ALT",
+  MetaLeft: "META",
+  MetaRight: "R-META",
+  Enter: "ENTER",
+  Tab: "TAB",
+  Backspace: "BKSP",
+  CapsLock: "CAPS",
+  ArrowUp: "↑",
+  ArrowDown: "↓",
+  ArrowLeft: "←",
+  ArrowRight: "→",
+  Mouse0: "LMB",
+  Mouse1: "MMB",
+  Mouse2: "RMB",
+  Mouse3: "MB4",
+  Mouse4: "MB5",
+};
+
+/** Short display name for a code: "KeyW" → "W", "Mouse0" → "LMB". */
+export function keyLabel(code: string): string {
+  if (KEY_NAMES[code]) return KEY_NAMES[code];
+  if (code.startsWith("Key")) return code.slice(3);
+  if (code.startsWith("Digit")) return code.slice(5);
+  if (code.startsWith("Numpad")) return `NUM${code.slice(6).toUpperCase()}`;
+  return code.toUpperCase();
+}
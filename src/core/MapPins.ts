@@ -0,0 +1,58 @@
+import * as THREE from "three";
+import { getPlanetHeight } from "../ecs/factories/PlanetFactory";
+import { events } from "../utils/EventBus";
+
+/**
+ * Custom route pins dropped on the orbital map (M). Each pin sits on the
+ * terrain surface; WaypointSystem gives every pin its own screen marker and
+ * the map draws a great-circle route to it. Pins are part of a save and are
+ * cleared when a new run starts.
+ */
+
+export interface MapPin {
+  /** Shown as "PIN <n>"; numbers are reused once a pin is removed. */
+  num: number;
+  /** World position on the terrain surface. */
+  position: THREE.Vector3;
+}
+
+export const MAX_MAP_PINS = 5;
+
+const PLANET_RADIUS = 200;
+
+export const mapPins: MapPin[] = [];
+
+events.on("game:restart", () => {
+  mapPins.length = 0;
+});
+
+/** Drop a pin on the surface in direction `dir` (null when all pins are used). */
+export function addMapPin(dir: THREE.Vector3): MapPin | null {
+  if (mapPins.length >= MAX_MAP_PINS) return null;
+  let num = 1;
+  while (mapPins.some((p) => p.num === num)) num++;
+
+  const n = dir.clone().normalize();
+  const pin = { num, position: n.multiplyScalar(getPlanetHeight(n, PLANET_RADIUS)) };
+  mapPins.push(pin);
+  mapPins.sort((a, b) => a.num - b.num);
+  return pin;
+}
+
+export function removeMapPin(num: number) {
+  const i = mapPins.findIndex((p) => p.num === num);
+  if (i >= 0) mapPins.splice(i, 1);
+}
+
+export function clearMapPins() {
+  mapPins.length = 0;
+}
+
+/** Replace the pins with saved positions (SaveManager). */
+export function restoreMapPins(saved: { num: number; x: number; y: number; z: number }[]) {
+  mapPins.length = 0;
+  for (const { num, x, y, z } of saved.slice(0, MAX_MAP_PINS)) {
+    mapPins.push({ num, position: new THREE.Vector3(x, y, z) });
+  }
+  mapPins.sort((a, b) => a.num - b.num);
+}
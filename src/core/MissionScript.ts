@@ -0,0 +1,164 @@
+import type { WaveMix } from "../ecs/creatures";
+
+/**
+ * Mission scripting format.
+ *
+ * A mission is plain data: a list of acts, each a sequence of objectives
+ * the player completes one at a time. The MissionManager interprets it —
+ * it picks the active objective, points the waypoint at it, fills the
+ * objective HUD and the act cards, runs the act's timed triggers and
+ * countdown, and applies rewards as objectives complete. Writing a new
+ * campaign means writing one of these objects; see missions/LostSignal.ts
+ * for the original story.
+ *
+ * Missions are checked by `validateMission()` when loaded, so a broken
+ * reference fails loudly at boot instead of soft-locking a run.
+ */
+
+/** Something in the world an objective can point at. */
+export type MissionTarget =
+  /** The Meridian supply cache. */
+  | "cache"
+  /** The dropship on its pad. */
+  | "dropship"
+  /** A relay node, by BeaconFactory index. */
+  | { relay: number }
+  /** A point on the surface, as a direction from the planet center. */
+  | { dir: [number, number, number] };
+
+/** Effects and rewards, applied in order. */
+export type MissionAction =
+  | { type: "log"; text: string; level: "info" | "warn" | "success" | "danger" }
+  /** A crew log in the transmission panel (queued behind any playing one). */
+  | { type: "transmission"; header: string; body: string }
+  | { type: "oxygen"; amount: number }
+  | { type: "integrity"; amount: number }
+  /** Hand the player the arc cutter. */
+  | { type: "cutter" }
+  /** The two-tone warning klaxon. */
+  | { type: "alarm" }
+  /**
+   * Storm-spawn around the player (skipped while unarmed if `armedOnly`),
+   * of the kinds in `creatures` (crawlers if omitted).
+   */
+  | { type: "spawnWave"; count: number; armedOnly?: boolean; creatures?: WaveMix };
+
+export interface MissionMarker {
+  label: string;
+  /** Waypoint CSS class, e.g. "waypoint-beacon". */
+  className: string;
+}
+
+interface ObjectiveBase {
+  /** Objective HUD line while this objective is active. */
+  text: string;
+  /** Waypoint for the objective's target (none if omitted or targetless). */
+  marker?: MissionMarker;
+  onStart?: MissionAction[];
+  onComplete?: MissionAction[];
+  /** Autosave once it is complete (the milestones: the cache, each relay). */
+  autosave?: boolean;
+}
+
+export type MissionObjective = ObjectiveBase &
+  (
+    /** Come within `radius` meters of the target. */
+    | { type: "reach"; target: MissionTarget; radius: number }
+    /**
+     * Bring a relay online, or board the dropship. Boarding ends the run, so
+     * a dropship objective must be the mission's last.
+     */
+    | { type: "activate"; target: { relay: number } | "dropship" }
+    /** Stay alive for `seconds`. */
+    | { type: "survive"; seconds: number }
+    /** Pick up `count` O₂ canisters/shards or Meridian data pads. */
+    | { type: "collect"; item: "o2" | "datapad"; count: number }
+    /** Destroy `count` storm-spawn. */
+    | { type: "kill"; count: number }
+  );
+
+/** Act-scoped trigger. Timers count simulation seconds from the act start. */
+export type MissionTrigger =
+  /** Once, `at` seconds into the act. */
+  | { at: number; actions: MissionAction[] }
+  /** Repeatedly: first after `first` seconds (default `every`), then every `every`. */
+  | { every: number; first?: number; actions: MissionAction[] }
+  /** Once, when the act countdown drops to `countdown` seconds. */
+  | { countdown: number; actions: MissionAction[] };
+
+/** A deadline over the whole act: when it runs out the run is lost. */
+export interface MissionCountdown {
+  seconds: number;
+  /** A planet-wide dust storm (WeatherSystem) that builds as time runs out. */
+  storm?: boolean;
+  /** Game-over reason, and the log line that goes with it. */
+  failReason: string;
+  failLog: string;
+}
+
+export interface MissionAct {
+  card: { num: string; title: string; sub: string };
+  objectives: MissionObjective[];
+  onStart?: MissionAction[];
+  countdown?: MissionCountdown;
+  triggers?: MissionTrigger[];
+  /** Seconds between finishing this act and the next act's card. */
+  nextActDelay: number;
+}
+
+export interface MissionDef {
+  id: string;
+  /** Seconds after landing before the first act card. */
+  startDelay: number;
+  /**
+   * Seconds of sim time per day/night cycle, and the landing zone's solar
+   * time at touchdown in hours (default: the tuned morning sun, ~08:16).
+   */
+  day?: { length: number; landingHour?: number };
+  acts: MissionAct[];
+  /** Mission-complete screen: the headline, and the closing line under the stats. */
+  win: { headline: string; epitaph: string };
+}
+
+/**
+ * Throw on a mission the interpreter can't run: no acts, an act without
+ * objectives, a relay index the world doesn't have, a dropship objective
+ * anywhere but last, or a wave that no kind of creature can come in.
+ */
+export function validateMission(mission: MissionDef, relayCount: number) {
+  const fail = (where: string, why: string) => {
+    throw new Error(`Mission "${mission.id}" ${where}: ${why}`);
+  };
+  if (mission.acts.length === 0) fail("", "has no acts");
+
+  mission.acts.forEach((act, a) => {
+    if (act.objectives.length === 0) fail(`act ${a}`, "has no objectives");
+    act.objectives.forEach((obj, o) => {
+      const where = `act ${a} objective ${o}`;
+      const target = "target" in obj ? obj.target : null;
+      if (target && typeof target === "object" && "relay" in target) {
+        if (!Number.isInteger(target.relay) || target.relay < 0 || target.relay >= relayCount) {
+          fail(where, `relay ${target.relay} does not exist (${relayCount} relays)`);
+        }
+      }
+      const last = a === mission.acts.length - 1 && o === act.objectives.length - 1;
+      if (obj.type === "activate" && obj.target === "dropship" && !last) {
+        fail(where, "boarding the dropship ends the run; it must be the last objective");
+      }
+      if ((obj.type === "collect" || obj.type === "kill") && obj.count < 1) {
+        fail(where, "count must be at least 1");
+      }
+    });
+    const actions = [
+      ...(act.onStart ?? []),
+      ...act.objectives.flatMap((obj) => [...(obj.onStart ?? []), ...(obj.onComplete ?? [])]),
+      ...(act.triggers ?? []).flatMap((trigger) => trigger.actions),
+    ];
+    for (const action of actions) {
+      const mix = action.type === "spawnWave" ? action.creatures : undefined;
+      if (mix && !Object.values(mix).some((weight) => (weight ?? 0) > 0)) {
+        fail(`act ${a}`, "a spawnWave's creatures give every kind a weight of 0");
+      }
+    }
+  });
+}
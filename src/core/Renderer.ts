@@ -7,14 +7,17 @@ import { FXAAShader } from "three/addons/shaders/FXAAShader.js";
 import { OutputPass } from "three/addons/postprocessing/OutputPass.js";
 import chromaticFragmentShader from "../shaders/chromatic.fragment.glsl?raw";
 import { queries } from "../ecs/World";
+import { HEADLESS } from "./Headless";
 
 export type QualityPreset = "low" | "medium" | "high";
 
 export class Renderer {
-  public renderer: THREE.WebGLRenderer;
+  // GPU side is only built in the browser; headless runs keep the scene
+  // graph and camera (gameplay reads both) and never draw.
+  public renderer!: THREE.WebGLRenderer;
   public scene: THREE.Scene;
   public camera: THREE.PerspectiveCamera;
-  public composer: EffectComposer;
+  public composer!: EffectComposer;
 
   constructor() {
     this.scene = new THREE.Scene();
@@ -25,13 +28,15 @@ export class Renderer {
 
     this.camera = new THREE.PerspectiveCamera(
       75,
-      window.innerWidth / window.innerHeight,
+      HEADLESS ? 16 / 9 : window.innerWidth / window.innerHeight,
       0.1,
       5000,
     );
     this.camera.position.set(0, 5, 10);
     this.camera.lookAt(0, 0, 0);
 
+    if (HEADLESS) return;
+
     const appElement = document.querySelector("#app");
     if (!appElement) {
       throw new Error("Could not find #app element.");
@@ -127,9 +132,9 @@ export class Renderer {
     }
   }
 
-  private bloomPass: UnrealBloomPass;
-  private fxaaPass: ShaderPass;
-  private chromaticPass: ShaderPass;
+  private bloomPass!: UnrealBloomPass;
+  private fxaaPass!: ShaderPass;
+  private chromaticPass!: ShaderPass;
   public performanceMode = false; // true when quality === "low" (legacy flag)
   public quality: QualityPreset = "high";
   private elapsed = 0;
@@ -141,6 +146,7 @@ export class Renderer {
    *   low:    DPR ≤1.0, FXAA only, no shadows
    */
   public setQuality(preset: QualityPreset) {
+    if (HEADLESS) return;
     this.quality = preset;
     this.performanceMode = preset === "low";
     const low = preset === "low";
@@ -195,6 +201,7 @@ export class Renderer {
   }
 
   public render(delta?: number) {
+    if (HEADLESS) return;
     if (delta) {
       this.elapsed += delta;
     }
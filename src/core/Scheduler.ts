@@ -0,0 +1,132 @@
+import { gameState } from "./GameState";
+
+/**
+ * System scheduler: the ordered lists of systems the Engine runs each fixed
+ * tick and each render frame.
+ *
+ * Systems register with a phase, an order (lower runs first; built-ins are
+ * spaced by 100 so others can slot in between) and an optional run
+ * condition. Any system can be switched off at runtime by name, and every
+ * run is timed — `timings()` reports milliseconds per frame (all of a
+ * frame's fixed ticks summed) for the F3 overlay and the perf probe.
+ *
+ * The Engine keeps the plumbing the loop itself depends on — physics
+ * stepping and interpolation, the camera rig, saves and replay checksums —
+ * so scheduled fixed systems run after the tick's save/resume hook and
+ * before the physics step, and render systems run after the camera rig and
+ * before the draw.
+ */
+
+export type SystemPhase = "fixed" | "render";
+
+/** What a system is given each run. */
+export interface SystemFrame {
+  /** Seconds this run covers: 1/60 for fixed ticks, the frame delta for render. */
+  dt: number;
+  /** Fixed: simulation seconds. Render: wall-clock seconds since start. */
+  elapsed: number;
+  /** Render: interpolation alpha between the last two physics states (fixed: 1). */
+  alpha: number;
+}
+
+export interface SystemDef {
+  name: string;
+  phase: SystemPhase;
+  order: number;
+  /** Run only while this holds, e.g. `whilePlaying`. */
+  runIf?: () => boolean;
+  update: (frame: SystemFrame) => void;
+}
+
+export interface SystemTiming {
+  name: string;
+  phase: SystemPhase;
+  order: number;
+  enabled: boolean;
+  /** Milliseconds spent in the last completed frame. */
+  ms: number;
+  /** Smoothed milliseconds per frame. */
+  avgMs: number;
+}
+
+/** Run condition: only during active play. */
+export const whilePlaying = () => gameState.isPlaying;
+
+interface ScheduledSystem extends SystemDef {
+  enabled: boolean;
+  frameMs: number;
+  lastMs: number;
+  avgMs: number;
+}
+
+const AVG_WEIGHT = 0.05; // ~20-frame smoothing
+
+class Scheduler {
+  private systems: Record<SystemPhase, ScheduledSystem[]> = { fixed: [], render: [] };
+
+  /** Add a system. Returns a function that removes it again. */
+  public register(def: SystemDef): () => void {
+    if (this.find(def.name)) throw new Error(`System "${def.name}" is already registered`);
+    const system: ScheduledSystem = { ...def, enabled: true, frameMs: 0, lastMs: 0, avgMs: 0 };
+    const list = this.systems[def.phase];
+    // Stable: equal orders keep registration order
+    const at = list.findIndex((s) => s.order > def.order);
+    list.splice(at < 0 ? list.length : at, 0, system);
+    return () => {
+      const i = list.indexOf(system);
+      if (i >= 0) list.splice(i, 1);
+    };
+  }
+
+  /** Switch a system on or off. Returns false if no system has that name. */
+  public setEnabled(name: string, enabled: boolean): boolean {
+    const system = this.find(name);
+    if (!system) return false;
+    system.enabled = enabled;
+    return true;
+  }
+
+  public isEnabled(name: string): boolean {
+    return this.find(name)?.enabled ?? false;
+  }
+
+  /** Run every enabled system of `phase` whose run condition holds. */
+  public run(phase: SystemPhase, frame: SystemFrame) {
+    for (const system of this.systems[phase]) {
+      if (!system.enabled || (system.runIf && !system.runIf())) continue;
+      const start = performance.now();
+      system.update(frame);
+      system.frameMs += performance.now() - start;
+    }
+  }
+
+  /** Close the frame's timing window (the Engine calls this once per frame). */
+  public endFrame() {
+    for (const phase of ["fixed", "render"] as const) {
+      for (const system of this.systems[phase]) {
+        system.lastMs = system.frameMs;
+        system.avgMs += (system.frameMs - system.avgMs) * AVG_WEIGHT;
+        system.frameMs = 0;
+      }
+    }
+  }
+
+  /** Every registered system in run order (fixed phase first). */
+  public timings(): SystemTiming[] {
+    return [...this.systems.fixed, ...this.systems.render].map((s) => ({
+      name: s.name,
+      phase: s.phase,
+      order: s.order,
+      enabled: s.enabled,
+      ms: s.lastMs,
+      avgMs: s.avgMs,
+    }));
+  }
+
+  private find(name: string): ScheduledSystem | undefined {
+    return this.systems.fixed.find((s) => s.name === name) ??
+      this.systems.render.find((s) => s.name === name);
+  }
+}
+
+export const scheduler = new Scheduler();
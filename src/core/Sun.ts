@@ -1,29 +1,76 @@
 import * as THREE from "three";
+import { sunDirection, sunElevation } from "../ecs/systems/DayNightSystem";
+import { caveShelter } from "../ecs/factories/Caves";
 
 /**
- * Sun rig with a player-following shadow frustum.
+ * Sun rig: the sun with a player-following shadow frustum, plus the sky
+ * bounce, ambient and fill lights and the fog color, all following the
+ * local time of day (DayNightSystem).
  *
  * A single static shadow camera can't cover a whole planet at useful
  * resolution, so the light (and its ~50m ortho frustum) tracks the player:
  * shadows stay crisp wherever you are on the sphere.
+ *
+ * Underground (the caves under the Scar) the sky is shut out: sun and fill
+ * go dark, the bounce lights fall to a glimmer and the fog to black, so the
+ * helmet lamp is what lights a cave. The sun's shadow map stops updating
+ * while nothing of the sun reaches the player.
  */
 
-// Low over the horizon from the landing zone (~35° elevation at the pole):
-// grazing light keeps the painted terrain in warm mid-tones instead of
-// noon-flat beige, and mountain ranges throw long readable shadows.
-export const SUN_DIRECTION = new THREE.Vector3(0.68, 0.52, 0.36).normalize();
 const SUN_DISTANCE = 180;
+// 2.4 with the vertex-color terrain: 3.8 was tuned against dark photo
+// textures and blows the painted palette out to beige.
+const SUN_INTENSITY = 2.4;
+const SUN_COLOR_DAY = new THREE.Color(0xffdcb0);
+const SUN_COLOR_LOW = new THREE.Color(0xff9a5c); // sunrise/sunset
+
+// Day → night levels for the bounce lights. Night stays readable: the
+// terrain should go blue-violet, never a black void.
+const HEMI = { day: 0.7, night: 0.26 };
+const AMBIENT = { day: 0.45, night: 0.24 };
+const FILL = { day: 0.4, night: 0.3 };
+
+// Fog: dusty mauve matched to the sky horizon by day, deep indigo by night,
+// and storm slate as an act's storm closes in (MissionManager)
+const FOG_DAY = new THREE.Color(0x38203e);
+const FOG_NIGHT = new THREE.Color(0x0d0b1c);
+const FOG_STORM = new THREE.Color(0x1d242c);
+
+// Deep in the caves: just enough bounce to tell rock from nothing
+const CAVE = { hemi: 0.025, ambient: 0.04 };
+const FOG_CAVE = new THREE.Color(0x020203);
+const SHELTER_RATE = 2.5; // how fast light levels follow the player in and out (1/s)
 
 let sunLight: THREE.DirectionalLight | null = null;
+let hemiLight: THREE.HemisphereLight | null = null;
+let ambientLight: THREE.AmbientLight | null = null;
+let fillLight: THREE.DirectionalLight | null = null;
+let fog: THREE.FogExp2 | null = null;
+let stormLevel = 0;
+/** 0 at night, 1 in full day, where the player stands (skybox reads it). */
+let daylight = 1;
+/** How much rock is over the player, eased (caveShelter). */
+let shelter = 0;
 
 const _sunPos = new THREE.Vector3();
 
 export function createSun(scene: THREE.Scene): THREE.DirectionalLight {
-  // 2.7 with the vertex-color terrain: 3.8 was tuned against dark photo
-  // textures and blows the painted palette out to beige.
-  sunLight = new THREE.DirectionalLight(0xffdcb0, 2.4);
+  // Hemisphere light for natural ambient bounce — strong enough that the
+  // shadow side of objects still reads as shape, never as a black cutout.
+  hemiLight = new THREE.HemisphereLight(
+    0x9d8bd6, // Sky color (nebula violet)
+    0x5a3a28, // Ground color (warm rust bounce)
+    HEMI.day,
+  );
+  scene.add(hemiLight);
+
+  // Ambient fill
+  ambientLight = new THREE.AmbientLight(0x353050, AMBIENT.day);
+  scene.add(ambientLight);
+
+  sunLight = new THREE.DirectionalLight(SUN_COLOR_DAY, SUN_INTENSITY);
   sunLight.name = "SunLight";
-  sunLight.position.copy(SUN_DIRECTION).multiplyScalar(SUN_DISTANCE);
+  sunLight.position.copy(sunDirection()).multiplyScalar(SUN_DISTANCE);
   sunLight.castShadow = true;
   sunLight.shadow.mapSize.width = 2048;
   sunLight.shadow.mapSize.height = 2048;
@@ -35,17 +82,56 @@ export function createSun(scene: THREE.Scene): THREE.DirectionalLight {
   sunLight.shadow.camera.bottom = -50;
   sunLight.shadow.bias = -0.0005;
   sunLight.shadow.normalBias = 0.05;
-
   scene.add(sunLight);
   scene.add(sunLight.target);
+
+  // Opposite fill light (weaker, cool-toned) — the moonlight at night
+  fillLight = new THREE.DirectionalLight(0x7799dd, FILL.day);
+  fillLight.position.set(-50, -20, -30);
+  scene.add(fillLight);
+
+  // Atmospheric haze: terrain dissolves into the sky instead of gray soup
+  fog = new THREE.FogExp2(FOG_DAY.getHex(), 0.004);
+  scene.fog = fog;
+
   return sunLight;
 }
 
-/** Keep the shadow frustum centered on the player. Call once per frame. */
-export function updateSun(playerPos: THREE.Vector3) {
+/** How far an act's storm has closed in, 0..1 (tints the fog). */
+export function setStormLevel(level: number) {
+  stormLevel = level;
+}
+
+export function getDaylight(): number {
+  return daylight;
+}
+
+/**
+ * Follow the player: shadow frustum centered on them, and every light level
+ * and the fog color set by the sun's elevation where they stand — and by
+ * the rock over them. Call once per frame.
+ */
+export function updateSun(playerPos: THREE.Vector3, dt: number) {
   if (!sunLight) return;
-  _sunPos.copy(playerPos).addScaledVector(SUN_DIRECTION, SUN_DISTANCE);
+  const elevation = sunElevation(playerPos);
+  daylight = THREE.MathUtils.smoothstep(elevation, -0.15, 0.2);
+
+  _sunPos.copy(playerPos).addScaledVector(sunDirection(), SUN_DISTANCE);
   sunLight.position.copy(_sunPos);
   sunLight.target.position.copy(playerPos);
   sunLight.target.updateMatrixWorld();
+  shelter = THREE.MathUtils.damp(shelter, caveShelter(playerPos), SHELTER_RATE, dt);
+  const open = 1 - shelter;
+  // Fades out as it sets (it would light the terrain from underneath)
+  sunLight.intensity = SUN_INTENSITY * THREE.MathUtils.smoothstep(elevation, -0.04, 0.12) * open;
+  sunLight.shadow.autoUpdate = sunLight.intensity > 0;
+  sunLight.color
+    .copy(SUN_COLOR_LOW)
+    .lerp(SUN_COLOR_DAY, THREE.MathUtils.smoothstep(elevation, 0.05, 0.45));
+
+  const lerp = THREE.MathUtils.lerp;
+  if (hemiLight) hemiLight.intensity = lerp(CAVE.hemi, lerp(HEMI.night, HEMI.day, daylight), open);
+  if (ambientLight) ambientLight.intensity = lerp(CAVE.ambient, lerp(AMBIENT.night, AMBIENT.day, daylight), open);
+  if (fillLight) fillLight.intensity = lerp(FILL.night, FILL.day, daylight) * open;
+  fog?.color.copy(FOG_NIGHT).lerp(FOG_DAY, daylight).lerp(FOG_STORM, stormLevel).lerp(FOG_CAVE, shelter);
 }
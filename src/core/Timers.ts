@@ -0,0 +1,138 @@
+import { events } from "../utils/EventBus";
+
+/**
+ * Delayed callbacks, tweens and sequences on game time instead of
+ * window.setTimeout / requestAnimationFrame. The Engine ticks two queues:
+ *
+ *   simTimers   — fixed ticks (1/60s). Deterministic: story beats and
+ *                 anything gameplay depends on replay and run headless
+ *                 exactly as in the browser. Cleared on restart.
+ *   frameTimers — render frames. Visual-only effects and HUD beats; dt is 0
+ *                 while paused, so they hold with the game.
+ *
+ * Neither runs while the game is paused, and both follow the time scale.
+ */
+
+export interface TimerHandle {
+  /** Seconds until the timer (or the current step of a sequence) fires. */
+  readonly remaining: number;
+  readonly done: boolean;
+  cancel(): void;
+}
+
+/** A sequence step: a number waits that many seconds, a function runs. */
+export type SequenceStep = number | (() => void);
+
+interface Timer extends TimerHandle {
+  remaining: number;
+  duration: number;
+  done: boolean;
+  onUpdate?: (t: number) => void;
+  onDone?: () => void;
+}
+
+export class TimerQueue {
+  private timers: Timer[] = [];
+
+  /** Call `fn` once, `seconds` from now. */
+  public after(seconds: number, fn: () => void): TimerHandle {
+    return this.add(seconds, undefined, fn);
+  }
+
+  /**
+   * Call `onUpdate(t)` every tick for `seconds`, t rising from 0 to exactly
+   * 1 on the last call, then `onDone`.
+   */
+  public tween(seconds: number, onUpdate: (t: number) => void, onDone?: () => void): TimerHandle {
+    return this.add(seconds, onUpdate, onDone);
+  }
+
+  /** Run steps in order: `[fn, 1.5, fn2, 0.7, fn3]`. Cancelling stops the rest. */
+  public sequence(steps: SequenceStep[]): TimerHandle {
+    let current: TimerHandle | null = null;
+    let cancelled = false;
+    let finished = false;
+    const run = (from: number) => {
+      for (let i = from; i < steps.length; i++) {
+        const step = steps[i];
+        if (typeof step === "number") {
+          current = this.after(step, () => run(i + 1));
+          return;
+        }
+        step();
+        if (cancelled) return;
+      }
+      finished = true;
+    };
+    const handle: TimerHandle = {
+      get remaining() {
+        return current?.done === false ? current.remaining : 0;
+      },
+      get done() {
+        return finished || cancelled;
+      },
+      cancel() {
+        cancelled = true;
+        current?.cancel();
+      },
+    };
+    run(0);
+    return handle;
+  }
+
+  /**
+   * Advance every timer by `dt` seconds, in creation order. Timers created
+   * by a callback start counting on the next update.
+   */
+  public update(dt: number) {
+    if (this.timers.length === 0 || dt <= 0) return;
+    const active = this.timers;
+    this.timers = [];
+    for (const timer of active) {
+      if (timer.done) continue;
+      timer.remaining -= dt;
+      const finished = timer.remaining <= 0;
+      if (timer.onUpdate) {
+        timer.onUpdate(finished ? 1 : 1 - timer.remaining / timer.duration);
+      }
+      if (!finished) {
+        if (!timer.done) this.timers.push(timer);
+        continue;
+      }
+      if (timer.done) continue; // cancelled from its own onUpdate
+      timer.done = true;
+      timer.onDone?.();
+    }
+  }
+
+  /** Drop every pending timer. */
+  public clear() {
+    for (const timer of this.timers) timer.done = true;
+    this.timers = [];
+  }
+
+  public get size(): number {
+    return this.timers.length;
+  }
+
+  private add(seconds: number, onUpdate?: (t: number) => void, onDone?: () => void): Timer {
+    const timer: Timer = {
+      remaining: seconds,
+      duration: Math.max(seconds, 1e-6),
+      done: false,
+      onUpdate,
+      onDone,
+      cancel() {
+        timer.done = true;
+      },
+    };
+    this.timers.push(timer);
+    return timer;
+  }
+}
+
+export const simTimers = new TimerQueue();
+export const frameTimers = new TimerQueue();
+
+// A new run must not inherit the last run's story beats
+events.on("game:restart", () => simTimers.clear());
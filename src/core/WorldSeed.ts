@@ -0,0 +1,64 @@
+import { HEADLESS } from "./Headless";
+
+/**
+ * The world seed: one number that reproduces a whole planet — terrain, the
+ * Scar and the mountain bands, relay/cache/vent/data-pad placement, canister
+ * scatter and rock clutter.
+ *
+ * 1337 is the original hand-tuned world. For it every generator keeps its
+ * legacy RNG stream and fixed layout, so that planet (and every replay and
+ * save made on it) generates exactly as before. Any other seed mixes into
+ * those streams and lays the mission out procedurally (WorldLayout).
+ *
+ * Chosen once per page load — `?seed=` in the URL (the start screen's seed
+ * field just navigates there) or `bootHeadless({ seed })` — because the
+ * planet (and its chunk worker) is seeded once and kept across restarts.
+ */
+
+export const DEFAULT_WORLD_SEED = 1337;
+
+let worldSeed = HEADLESS ? DEFAULT_WORLD_SEED : (readUrlSeed() ?? DEFAULT_WORLD_SEED);
+
+export function getWorldSeed(): number {
+  return worldSeed;
+}
+
+/** Select the seed. Only meaningful before createWorld() runs. */
+export function setWorldSeed(seed: number) {
+  worldSeed = seed >>> 0;
+}
+
+/**
+ * RNG seed for one generator. `legacy` is the constant that generator used
+ * before seeds existed; the default world keeps it unchanged.
+ */
+export function seedStream(legacy: number): number {
+  if (worldSeed === DEFAULT_WORLD_SEED) return legacy;
+  let h = Math.imul(worldSeed ^ 0x9e3779b9, 0x85ebca6b) ^ legacy;
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return (h ^ (h >>> 16)) >>> 0;
+}
+
+/**
+ * Seed from user text: digits are taken as the number itself, anything else
+ * ("dusty-moon") is hashed. Returns null for blank input.
+ */
+export function parseWorldSeed(text: string): number | null {
+  const trimmed = text.trim();
+  if (!trimmed) return null;
+  if (/^\d{1,10}$/.test(trimmed)) return Number(trimmed) >>> 0;
+  let h = 0x811c9dc5;
+  for (let i = 0; i < trimmed.length; i++) {
+    h ^= trimmed.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+function readUrlSeed(): number | null {
+  try {
+    return parseWorldSeed(new URLSearchParams(window.location.search).get("seed") ?? "");
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,146 @@
+import type { MissionAction, MissionDef } from "../MissionScript";
+import { BEACON_ORDER } from "../MissionData";
+
+/**
+ * LOST SIGNAL — the original campaign.
+ *
+ *   Act I   — reach the Meridian supply cache (learn to navigate)
+ *   Act II  — bring the three relay nodes online, in sequence
+ *   Act III — storm breaks; reach the dropship before the countdown ends
+ */
+
+/** Transmission played when each relay node (in BEACON_ORDER) comes online. */
+const RELAY_LOGS: MissionAction[] = [
+  {
+    type: "transmission",
+    header: "MERIDIAN LOG 114 — CARTOGRAPHER I. RENN",
+    body: "“We mapped the ranges today. The dust here sings against the visor. Wind from the west every nineteen hours, regular as a heartbeat. It doesn't feel like weather. It feels like breathing.”",
+  },
+  {
+    type: "transmission",
+    header: "MERIDIAN LOG 201 — DR. A. SOL",
+    body: "“Renn hasn't reported in two cycles. The storms are getting closer together — eleven hours now. We found his rover at the rim of the canyon. Empty. His last waypoint points down, into the Scar.”",
+  },
+  {
+    type: "transmission",
+    header: "MERIDIAN LOG 233 — CMDR. E. VASQUEZ",
+    body: "“Last node. If anyone hears this: the cycle isn't nineteen hours anymore. It's NOW. We're going down into the Scar — the rock holds off the worst of it. If we don't come back up, the network stays dark. Whoever you are: bring it online. Then leave before the sky closes.”",
+  },
+];
+
+/**
+ * Act III: seconds (sim time) to reach the dropship once the storm breaks.
+ * The final relay is ~374m of surface from the pad — ~55s walking, ~32s at a
+ * sprint — so 180s is a real threat over rough ground without being cruel.
+ */
+const EVAC_SECONDS = 180;
+
+const stormWarning = (seconds: number) => ({
+  countdown: seconds,
+  actions: [
+    { type: "log", text: `STORM WALL: T-${seconds} SECONDS`, level: "danger" },
+    { type: "alarm" },
+  ] satisfies MissionAction[],
+});
+
+export const LOST_SIGNAL: MissionDef = {
+  id: "lost-signal",
+  // Let the landing settle before the first title card
+  startDelay: 1.6,
+  // Sixteen minutes: night falls on the pad ~7 minutes in (the second
+  // relay is already dark at landing), so most runs
+  // finish the relays — and the evacuation — in the dark.
+  day: { length: 960 },
+
+  acts: [
+    {
+      card: { num: "ACT I", title: "SYSTEMS CHECK", sub: "The pad is stable. Nothing else is." },
+      objectives: [
+        {
+          type: "reach",
+          target: "cache",
+          radius: 5,
+          text: "RECOVER THE MERIDIAN SUPPLY CACHE",
+          marker: { label: "SUPPLY CACHE", className: "waypoint-cache" },
+          autosave: true,
+          onComplete: [
+            {
+              type: "transmission",
+              header: "SUPPLY CACHE — MERIDIAN MANIFEST",
+              body: "O₂ cells, intact after three years. A note in grease pencil: “Whoever reads this — we staged oxygen at the relay nodes. Trust the network, not the open ground.” — Vasquez",
+            },
+            { type: "oxygen", amount: 25 },
+            // Vasquez's arc cutter — the run's power-up lives in the cache
+            { type: "cutter" },
+            { type: "log", text: "ARC CUTTER SALVAGED — HOLD [LMB] TO FIRE", level: "success" },
+            { type: "log", text: "SUPPLY CACHE RECOVERED — O₂ +25%", level: "success" },
+          ],
+        },
+      ],
+      nextActDelay: 2.6,
+    },
+
+    {
+      card: {
+        num: "ACT II",
+        title: "THE RELAY NETWORK",
+        sub: "Three nodes. Three echoes of the Meridian crew.",
+      },
+      objectives: BEACON_ORDER.map((relay, leg) => ({
+        type: "activate" as const,
+        target: { relay },
+        text: `BRING RELAY NODE ${leg + 1}/3 ONLINE`,
+        marker: { label: `RELAY ${leg + 1}/3`, className: "waypoint-beacon" },
+        onStart:
+          leg > 0
+            ? [{ type: "log" as const, text: `NEXT RELAY NODE MARKED — ${leg + 1}/3`, level: "warn" as const }]
+            : undefined,
+        onComplete: [RELAY_LOGS[leg]],
+        autosave: true,
+      })),
+      nextActDelay: 3.2,
+    },
+
+    {
+      card: { num: "ACT III", title: "EVACUATION", sub: "The sky is closing. Run." },
+      onStart: [
+        { type: "log", text: "STORM FRONT INBOUND — RETURN TO THE DROPSHIP", level: "danger" },
+        { type: "alarm" },
+      ],
+      countdown: {
+        seconds: EVAC_SECONDS,
+        storm: true,
+        failReason: "THE STORM CLOSED IN",
+        failLog: "ATMOSPHERIC COLLAPSE — SUIT INTEGRITY LOST",
+      },
+      triggers: [
+        stormWarning(120),
+        stormWarning(60),
+        stormWarning(30),
+        stormWarning(10),
+        // The storm hunts: pursuers along the evac run, after a breather
+        // following the final arena — crawlers, and swarms fast enough to
+        // keep up. Killing them drops the O₂ that keeps the sprint alive.
+        {
+          first: 9,
+          every: 22,
+          actions: [{ type: "spawnWave", count: 2, armedOnly: true, creatures: { crawler: 3, swarmer: 1 } }],
+        },
+      ],
+      objectives: [
+        {
+          type: "activate",
+          target: "dropship",
+          text: "REACH THE DROPSHIP",
+          marker: { label: "DROPSHIP", className: "waypoint-extract" },
+        },
+      ],
+      nextActDelay: 0,
+    },
+  ],
+
+  win: {
+    headline: "The relay network carries your voice off-world. Rescue is inbound.",
+    epitaph: "Somewhere below, the Scar keeps its dead — and the network carries their story home.",
+  },
+};
@@ -27,6 +27,9 @@ export const queries = {
   // Oxygen canister pickups
   pickups: world.with("isPickup", "object3d", "pickup"),
 
+  // Drivable rovers
+  vehicles: world.with("isVehicle", "object3d", "rigidBody", "collider", "vehicle"),
+
   // Storm-spawn creatures
   creatures: world.with("isCreature", "object3d", "creature"),
 };
@@ -1,6 +1,8 @@
 import * as THREE from "three";
 import { Object3D } from "three";
 import RAPIER from "@dimforge/rapier3d-compat";
+import type { Biome } from "../factories/Terrain";
+import type { CreatureState, CreatureType } from "../creatures/Archetype";
 
 // Define all possible components an entity can have
 export type Entity = {
@@ -49,6 +51,24 @@ export type Entity = {
     maxJetpackFuel?: number;
     isJetpacking?: boolean;
     hasCutter?: boolean; // arc cutter salvaged at the supply cache
+    seated?: boolean; // driving the rover: the vehicle system moves the player
+    ground?: { biome: Biome; slope: number }; // terrain underfoot (CharacterSystem, per tick)
+  };
+
+  // Surface rover: suspension state, momentum and battery
+  vehicle?: {
+    occupied: boolean;
+    velocity: { x: number; y: number; z: number }; // world space, like playerControl
+    battery: number;
+    maxBattery: number;
+    throttle: number; // -1..1 this tick (engine audio, brake lights)
+    steer: number; // -1..1, smoothed (front wheel angle)
+    wheelSpin: number; // accumulated wheel roll angle (radians)
+    compression: number[]; // per-wheel spring compression (m), FL FR RL RR; 0 = airborne
+    park: {
+      position: { x: number; y: number; z: number };
+      rotation: { x: number; y: number; z: number; w: number };
+    };
   };
 
   // Respawn anchor + kill-radius for fell-through-world recovery
@@ -60,6 +80,7 @@ export type Entity = {
     signalBoost: number;
     pulsePhase: number;
     booting?: boolean; // arena wave in progress; node comes online when it's cleared
+    discovered?: boolean; // caught by a scanner ping: shown on the orbital map
   };
 
   // Collectible: oxygen canister or a Meridian crew data pad
@@ -69,17 +90,26 @@ export type Entity = {
     bobPhase: number;
     kind?: "o2" | "datapad";
     loreIndex?: number; // index into the data-pad lore table
+    scanned?: boolean; // caught by a scanner ping: shown on the orbital map
   };
 
   // Storm-spawn: crystalline creatures that drain O₂ on contact
   creature?: {
+    type: CreatureType; // its archetype (creatures/index.ts)
     hp: number;
     maxHp: number;
-    state: "burrow" | "hunt" | "telegraph" | "lunge" | "dying";
+    state: CreatureState;
     stateTime: number; // seconds in the current state
     speed: number;
     phase: number; // animation phase offset
-    lungeDir?: { x: number; y: number; z: number };
+    lungeDir?: { x: number; y: number; z: number }; // heading of a lunge or dart
+    lungeHit?: boolean; // this lunge already struck the suit
+    cooldown?: number; // seconds to its next shot or dart
+    attack?: "volley" | "slam"; // what a boss's telegraph winds up to
+    stage?: number; // a boss's fight phase, from 1
+    weakHp?: number[]; // hp left on each of a boss's weak points
+    brood?: boolean; // vented by a boss's phase change: dies with it
+    collapsed?: boolean; // went down with its boss: no kill, no drops
     hitFlash: number; // seconds of damage flash remaining
   };
 
@@ -0,0 +1,123 @@
+import type * as THREE from "three";
+import type { Entity } from "../components";
+
+/**
+ * Creature archetypes: everything that makes one kind of storm-spawn
+ * different from another, as data. CreatureSystem runs them all the same
+ * way — it ticks the state the creature is in, lets the archetype pose it,
+ * drains O₂ on contact, and shatters it when it dies — so a new creature is
+ * an archetype object registered in creatures/index.ts, not a new branch
+ * in the system. Generic surface-locked movement lives in Behaviors.ts.
+ */
+
+/** Registry keys, one per archetype. */
+export type CreatureType = "crawler" | "spitter" | "burrower" | "swarmer" | "stormHeart";
+
+/** Every state any archetype's machine uses. "dying" is the system's own. */
+export type CreatureState =
+  | "burrow"
+  | "hunt"
+  | "telegraph"
+  | "lunge"
+  | "stalk"
+  | "aim"
+  | "buried"
+  | "erupt"
+  | "dig"
+  | "rise"
+  | "circle"
+  | "dart"
+  | "emerge"
+  | "watch"
+  | "slam"
+  | "shield"
+  | "dying";
+
+export type CreatureEntity = Entity & {
+  object3d: THREE.Object3D;
+  creature: NonNullable<Entity["creature"]>;
+};
+
+/** What a state handler gets to see and move, one creature per call. */
+export interface CreatureContext {
+  dt: number;
+  elapsed: number;
+  /** False while paused in a menu or after the run ended: look, don't act. */
+  playing: boolean;
+  playerPos: THREE.Vector3;
+  /** The player's direction from the planet center (unit). */
+  playerDir: THREE.Vector3;
+  /**
+   * The creature's direction from the planet center (unit). Handlers move
+   * it and re-place the body; the pose and contact drain see the result.
+   */
+  dir: THREE.Vector3;
+  /** Distance to the player at the start of the tick. */
+  dist: number;
+  /** How much it is night where the player stands, 0..1: creatures grow bolder. */
+  night: number;
+  /** The creature RNG (deterministic: replays see the same fights). */
+  rand: () => number;
+}
+
+/**
+ * One state of a machine: runs every tick the creature is in it and
+ * returns the state to switch to (its clock restarts), or nothing to stay.
+ */
+export type StateHandler = (entity: CreatureEntity, ctx: CreatureContext) => CreatureState | void;
+
+/** A place on a big body the cutter can hurt; `id` is the archetype's own. */
+export interface WeakPoint {
+  position: THREE.Vector3;
+  id: number;
+}
+
+/** One row of a drop table, rolled on its own when the creature dies. */
+export interface CreatureDrop {
+  item: "o2Shard";
+  /** 0..1; 1 always drops. */
+  chance: number;
+}
+
+export interface CreatureArchetype {
+  /** Entity name. */
+  name: string;
+  hp: number;
+  /** Base ground speed (m/s), before difficulty and a little per-creature spread. */
+  speed: number;
+  /** How many vent together per slot of a wave. */
+  pack?: number;
+  buildBody(): THREE.Group;
+  /** Where it appears: on (or sunk `sink` m into) the ground at `dir`. */
+  spawn(group: THREE.Group, dir: THREE.Vector3): void;
+  /** The state it vents in. */
+  initial: CreatureState;
+  states: Partial<Record<CreatureState, StateHandler>>;
+  /** After the state has run: facing, squash, glow. */
+  pose?(entity: CreatureEntity, ctx: CreatureContext): void;
+  /** States the arc cutter can't reach it in (it's under the ground). */
+  hidden?: CreatureState[];
+  /** O₂ it breathes out of the suit while this close, per second (× difficulty). */
+  drain?: { range: number; rate: number; states: CreatureState[] };
+  /** Crater its death burst blows where it stood (none for fliers). */
+  blast?: { radius: number; depth: number };
+  drops: CreatureDrop[];
+  /** A boss: its health is on the HUD and its death ends the fight. */
+  boss?: boolean;
+  /**
+   * Where the cutter can hurt a big, armored body, in world space: the
+   * weak points exposed now. Without this, the whole body is a target.
+   */
+  weakPoints?(entity: CreatureEntity): readonly WeakPoint[];
+  /**
+   * The armor round the weak points now, as a sphere in world space (into
+   * `center`; returns its radius, or 0 while it's open). A beam that meets
+   * it before a weak point glances off.
+   */
+  armor?(entity: CreatureEntity, center: THREE.Vector3): number;
+  /**
+   * Damage coming in, on weak point `weakPoint` (-1: not the cutter, e.g.
+   * a script). Returns what actually comes off its hp.
+   */
+  hurt?(entity: CreatureEntity, amount: number, weakPoint: number): number;
+}
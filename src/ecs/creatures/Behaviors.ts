@@ -0,0 +1,111 @@
+import * as THREE from "three";
+import { events } from "../../utils/EventBus";
+import { getPlanetHeight } from "../factories/PlanetFactory";
+import { damageSuit } from "../systems/SuitSystem";
+import { difficulty } from "../../core/Difficulty";
+import type { CreatureState, StateHandler } from "./Archetype";
+import type { Entity } from "../components";
+
+/**
+ * Shared creature behavior: surface-locked movement (a creature is a
+ * direction on the sphere plus a height over the terrain, never a physics
+ * body), facing, and what touching the suit does. Archetypes build their
+ * state machines out of these.
+ */
+
+const PLANET_RADIUS = 200;
+const UP = new THREE.Vector3(0, 1, 0);
+
+const _axis = new THREE.Vector3();
+const _quat = new THREE.Quaternion();
+const _fwd = new THREE.Vector3();
+const _right = new THREE.Vector3();
+const _matrix = new THREE.Matrix4();
+
+/** Set a body on the ground at `dir`, or sunk `sink` m into it. */
+export function surfacePlace(group: THREE.Object3D, dir: THREE.Vector3, sink = 0) {
+  const h = getPlanetHeight(dir, PLANET_RADIUS);
+  group.position.copy(dir).multiplyScalar(h - sink);
+}
+
+/** Hold a body `altitude` m over the ground at `dir`. */
+export function hover(group: THREE.Object3D, dir: THREE.Vector3, altitude: number) {
+  surfacePlace(group, dir, -altitude);
+}
+
+/**
+ * Great-circle pursuit: turn `dir` toward `target` (both unit) by `arc`
+ * radians, never past it. A negative arc backs away. Returns the angle
+ * that was left to go.
+ */
+export function pursue(dir: THREE.Vector3, target: THREE.Vector3, arc: number): number {
+  const totalAngle = dir.angleTo(target);
+  if (totalAngle > 1e-4) {
+    _axis.crossVectors(dir, target).normalize();
+    _quat.setFromAxisAngle(_axis, Math.min(arc, totalAngle));
+    dir.applyQuaternion(_quat);
+  }
+  return totalAngle;
+}
+
+/** Circle `dir` around `center` (both unit), `arc` radians of ground along the way. */
+export function orbit(dir: THREE.Vector3, center: THREE.Vector3, arc: number) {
+  const radius = Math.sin(dir.angleTo(center));
+  if (radius < 1e-4) return;
+  dir.applyAxisAngle(center, arc / radius).normalize();
+}
+
+/** Turn a body standing on `up` to face `target`, easing at `rate`. */
+export function faceToward(
+  group: THREE.Object3D,
+  up: THREE.Vector3,
+  target: THREE.Vector3,
+  dt: number,
+  rate = 10,
+) {
+  _fwd.copy(target).sub(group.position).projectOnPlane(up);
+  if (_fwd.lengthSq() <= 1e-4) return;
+  _fwd.normalize();
+  _right.crossVectors(up, _fwd).normalize();
+  _matrix.makeBasis(_right, up, _fwd.negate());
+  _quat.setFromRotationMatrix(_matrix);
+  group.quaternion.slerp(_quat, 1 - Math.exp(-rate * dt));
+}
+
+/** Stand a body upright on `up`, keeping no particular heading. */
+export function standOn(group: THREE.Object3D, up: THREE.Vector3) {
+  group.quaternion.setFromUnitVectors(UP, up);
+}
+
+/**
+ * A state that raises the body out of the ground, from `sink` m under to
+ * standing, over `time` seconds, then hands over to `next`.
+ */
+export function rise(time: number, sink: number, next: CreatureState): StateHandler {
+  return ({ object3d, creature }, { dir }) => {
+    const p = Math.min(1, creature.stateTime / time);
+    surfacePlace(object3d, dir, sink * (1 - p));
+    if (p >= 1) return next;
+  };
+}
+
+/**
+ * A lunge, strike or slam landing on the suit: `amount` integrity, scaled
+ * like the contact drain (none on STORY).
+ */
+export function strikeSuit(amount: number) {
+  damageSuit(amount * difficulty.creatureDrain);
+  events.emit("creature:lunge:hit");
+}
+
+/** Breathe `amount` O₂ out of the player's suit; empty is the end of the run. */
+export function siphonOxygen(player: Entity, amount: number) {
+  const pc = player.playerControl;
+  if (!pc) return;
+  pc.oxygen = Math.max(0, pc.oxygen - amount);
+  events.emit("player:oxygen:changed", pc.oxygen, pc.maxOxygen);
+  if (pc.oxygen <= 0) {
+    events.emit("game:over", "SUIT BREACHED BY STORM-SPAWN");
+    events.emit("log:message", "SUIT FAILURE — O₂ VENTED", "danger");
+  }
+}
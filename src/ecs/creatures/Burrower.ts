@@ -0,0 +1,135 @@
+import * as THREE from "three";
+import { audioManager } from "../../managers/AudioManager";
+import { faceToward, pursue, strikeSuit, surfacePlace } from "./Behaviors";
+import { navigate } from "./Navigation";
+import type { CreatureArchetype } from "./Archetype";
+
+/**
+ * The burrower: an armored dome that travels under the ground, only its
+ * spines breaking the dust, and bursts up under you when you're close.
+ * Out of reach of the cutter while buried; after a short brawl it digs
+ * back down and stalks again. Keep moving and watch the ground.
+ */
+
+const PLANET_RADIUS = 200;
+
+const BURIED_SINK = 0.62; // spine tips just show
+const AMBUSH_RANGE = 4.2; // erupts when the player is this close over it
+const ERUPT_TIME = 0.35;
+const STRIKE_RANGE = 2.6; // the eruption strikes the suit this close (once)
+const STRIKE_DAMAGE = 18;
+const BRAWL_TIME = 6; // above ground before it digs back in
+const LOSE_RANGE = 14; // digs back in early when the player gets this far
+const DIG_TIME = 0.9;
+const CREEP = 0.5; // share of its speed while tunneling
+// Night: it surfaces from farther off
+const NIGHT_AMBUSH_REACH = 1.5;
+
+let plateGeo: THREE.IcosahedronGeometry | null = null;
+let spineGeo: THREE.ConeGeometry | null = null;
+let coreGeo: THREE.OctahedronGeometry | null = null;
+
+function buildBody(): THREE.Group {
+  if (!plateGeo) plateGeo = new THREE.IcosahedronGeometry(0.6, 0);
+  if (!spineGeo) spineGeo = new THREE.ConeGeometry(0.1, 0.6, 4);
+  if (!coreGeo) coreGeo = new THREE.OctahedronGeometry(0.18, 0);
+
+  const group = new THREE.Group();
+  const shellMat = new THREE.MeshStandardMaterial({
+    color: 0x2e2226,
+    emissive: 0xaa2244,
+    emissiveIntensity: 0.5,
+    roughness: 0.45,
+    metalness: 0.3,
+    flatShading: true,
+  });
+  const coreMat = new THREE.MeshStandardMaterial({
+    color: 0xffffff,
+    emissive: 0xff4466,
+    emissiveIntensity: 2.2,
+    roughness: 0.1,
+    transparent: true, // fades out in the death shatter
+  });
+
+  // A low, plated dome with a ridge of spines down its back
+  const shell = new THREE.Mesh(plateGeo, shellMat);
+  shell.position.y = 0.3;
+  shell.scale.set(1.1, 0.6, 1.3);
+  group.add(shell);
+  for (let i = 0; i < 4; i++) {
+    const spine = new THREE.Mesh(spineGeo, shellMat);
+    spine.position.set(0, 0.68, -0.45 + i * 0.3);
+    spine.rotation.x = 0.35; // swept back
+    group.add(spine);
+  }
+  const core = new THREE.Mesh(coreGeo, coreMat);
+  core.position.set(0, 0.3, -0.72); // the front
+  group.add(core);
+  group.userData.coreMat = coreMat;
+  group.userData.shardMat = shellMat;
+  return group;
+}
+
+export const burrower: CreatureArchetype = {
+  name: "Burrower",
+  hp: 140,
+  speed: 3.4,
+  buildBody,
+  spawn: (group, dir) => surfacePlace(group, dir, BURIED_SINK),
+  initial: "buried",
+  states: {
+    buried: ({ object3d: group, creature: c }, { dt, playing, playerDir, dir, dist, night }) => {
+      if (!playing) return;
+      pursue(dir, playerDir, (c.speed * CREEP * dt) / PLANET_RADIUS);
+      surfacePlace(group, dir, BURIED_SINK);
+      if (dist < AMBUSH_RANGE + NIGHT_AMBUSH_REACH * night) {
+        audioManager.playCreatureAlert();
+        c.lungeHit = false;
+        return "erupt";
+      }
+    },
+
+    erupt: ({ object3d: group, creature: c }, { playing, dir, dist }) => {
+      const p = Math.min(1, c.stateTime / ERUPT_TIME);
+      surfacePlace(group, dir, BURIED_SINK * (1 - p));
+      if (p < 1) return;
+      if (playing && !c.lungeHit && dist < STRIKE_RANGE) {
+        c.lungeHit = true;
+        strikeSuit(STRIKE_DAMAGE);
+      }
+      return "hunt";
+    },
+
+    hunt: (entity, ctx) => {
+      const { object3d: group, creature: c } = entity;
+      const { dt, playing, playerDir, dir, dist } = ctx;
+      if (!playing) return;
+      // Up top it has to go round the rocks like anything else
+      navigate(entity, ctx, playerDir, (c.speed * dt) / PLANET_RADIUS);
+      surfacePlace(group, dir);
+      if (c.stateTime > BRAWL_TIME || dist > LOSE_RANGE) return "dig";
+    },
+
+    dig: ({ object3d: group, creature: c }, { dir }) => {
+      const p = Math.min(1, c.stateTime / DIG_TIME);
+      surfacePlace(group, dir, BURIED_SINK * p);
+      if (p >= 1) return "buried";
+    },
+  },
+
+  pose: ({ object3d: group, creature: c }, { dt, elapsed, playerPos, dir }) => {
+    const ud = group.userData;
+    ud.coreMat.emissiveIntensity = c.hitFlash > 0 ? 6.0 : 1.8 + Math.sin(elapsed * 4 + c.phase) * 0.5;
+    ud.shardMat.emissive.setHex(c.hitFlash > 0 ? 0xffffff : 0xaa2244);
+    // Spines-first while tunneling: it always heads for the player
+    faceToward(group, dir, playerPos, dt, c.state === "buried" ? 4 : 8);
+  },
+
+  hidden: ["buried"],
+  drain: { range: 1.9, rate: 8.0, states: ["erupt", "hunt"] },
+  blast: { radius: 1.8, depth: 0.55 },
+  drops: [
+    { item: "o2Shard", chance: 1 },
+    { item: "o2Shard", chance: 1 },
+  ],
+};
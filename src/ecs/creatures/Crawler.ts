@@ -0,0 +1,147 @@
+import * as THREE from "three";
+import { faceToward, rise, strikeSuit, surfacePlace } from "./Behaviors";
+import { navigate } from "./Navigation";
+import type { CreatureArchetype } from "./Archetype";
+
+/**
+ * The crawler, the storm-spawn everyone meets first: a crown of shards
+ * that skitters at you round the rocks (a wave splits to come from both
+ * sides), winds up, and lunges. The wind-up is the dodge window.
+ */
+
+const PLANET_RADIUS = 200;
+
+const HUNT_SPEED = 5.2; // m/s along the surface (player walks 7, sprints 12)
+const LUNGE_SPEED = 13.0;
+const LUNGE_RANGE = 4.5; // start telegraph inside this range
+const TELEGRAPH_TIME = 0.45; // wind-up — the player's dodge window
+const LUNGE_TIME = 0.45;
+const BURROW_TIME = 0.9; // rise-from-ground intro
+const BURROW_SINK = 0.9;
+const LUNGE_HIT_RANGE = 1.9; // a lunge this close strikes the suit (once)
+const LUNGE_DAMAGE = 12.0; // suit integrity per lunge hit
+// Night makes them bolder: faster, longer reach, a shorter wind-up to dodge
+const NIGHT_SPEED_BONUS = 0.3;
+const NIGHT_LUNGE_REACH = 1.5;
+const NIGHT_TELEGRAPH_CUT = 0.3;
+
+// Shared geometry across all crawlers
+let shardGeo: THREE.ConeGeometry | null = null;
+let coreGeo: THREE.OctahedronGeometry | null = null;
+
+const _fwd = new THREE.Vector3();
+
+const telegraphTime = (night: number) => TELEGRAPH_TIME * (1 - NIGHT_TELEGRAPH_CUT * night);
+
+function buildBody(): THREE.Group {
+  if (!shardGeo) shardGeo = new THREE.ConeGeometry(0.16, 0.85, 5);
+  if (!coreGeo) coreGeo = new THREE.OctahedronGeometry(0.22, 0);
+
+  const group = new THREE.Group();
+
+  const shardMat = new THREE.MeshStandardMaterial({
+    color: 0x2b1b3d,
+    emissive: 0x7733cc,
+    emissiveIntensity: 0.9,
+    roughness: 0.25,
+    metalness: 0.2,
+    flatShading: true,
+  });
+  const coreMat = new THREE.MeshStandardMaterial({
+    color: 0xffffff,
+    emissive: 0xcc66ff,
+    emissiveIntensity: 2.4,
+    roughness: 0.1,
+    transparent: true, // fades out in the death shatter
+  });
+
+  // A crown of leaning shards around a bright core — the planet's crystal
+  // motif turned predatory.
+  const shardCount = 6;
+  for (let i = 0; i < shardCount; i++) {
+    const s = new THREE.Mesh(shardGeo, shardMat);
+    const a = (i / shardCount) * Math.PI * 2;
+    s.position.set(Math.cos(a) * 0.28, 0.34, Math.sin(a) * 0.28);
+    s.rotation.set(Math.sin(a) * 0.55, 0, -Math.cos(a) * 0.55);
+    s.castShadow = false;
+    group.add(s);
+  }
+  const core = new THREE.Mesh(coreGeo, coreMat);
+  core.position.y = 0.42;
+  group.add(core);
+  group.userData.core = core;
+  group.userData.coreMat = coreMat;
+  group.userData.shardMat = shardMat;
+
+  return group;
+}
+
+export const crawler: CreatureArchetype = {
+  name: "StormSpawn",
+  hp: 100,
+  speed: HUNT_SPEED,
+  buildBody,
+  spawn: (group, dir) => surfacePlace(group, dir, BURROW_SINK), // start sunk into the ground
+  initial: "burrow",
+  states: {
+    burrow: rise(BURROW_TIME, BURROW_SINK, "hunt"),
+
+    hunt: (entity, ctx) => {
+      const { object3d: group, creature: c } = entity;
+      const { dt, elapsed, playing, playerDir, dir, dist, night } = ctx;
+      if (!playing) return;
+      navigate(entity, ctx, playerDir, (c.speed * (1 + NIGHT_SPEED_BONUS * night) * dt) / PLANET_RADIUS, true);
+      surfacePlace(group, dir);
+      // Skitter bob
+      group.position.addScaledVector(dir, Math.abs(Math.sin(elapsed * 9 + c.phase)) * 0.16);
+      if (dist < LUNGE_RANGE + NIGHT_LUNGE_REACH * night) return "telegraph";
+    },
+
+    // Wind up: crouch and flare. This is the dodge window.
+    telegraph: ({ object3d: group, creature: c }, { playerPos, night }) => {
+      if (c.stateTime < telegraphTime(night)) return;
+      const lunge = playerPos.clone().sub(group.position).normalize();
+      c.lungeDir = { x: lunge.x, y: lunge.y, z: lunge.z };
+      c.lungeHit = false;
+      return "lunge";
+    },
+
+    lunge: ({ object3d: group, creature: c }, { dt, playing, dir, dist }) => {
+      if (c.lungeDir) {
+        group.position.addScaledVector(_fwd.set(c.lungeDir.x, c.lungeDir.y, c.lungeDir.z), LUNGE_SPEED * dt);
+        // Keep clamped to the surface
+        dir.copy(group.position).normalize();
+        surfacePlace(group, dir);
+      }
+      if (playing && !c.lungeHit && dist < LUNGE_HIT_RANGE) {
+        c.lungeHit = true;
+        strikeSuit(LUNGE_DAMAGE);
+      }
+      if (c.stateTime >= LUNGE_TIME) return "hunt";
+    },
+  },
+
+  pose: ({ object3d: group, creature: c }, { dt, elapsed, playerPos, dir, night }) => {
+    const ud = group.userData;
+    // Damage flash + core pulse
+    ud.coreMat.emissiveIntensity = c.hitFlash > 0 ? 6.0 : 2.0 + Math.sin(elapsed * 6 + c.phase) * 0.6;
+    ud.shardMat.emissive.setHex(c.hitFlash > 0 ? 0xffffff : 0x7733cc);
+
+    // Face the player while hunting and winding up (a lunge keeps its heading)
+    if (c.state !== "hunt" && c.state !== "telegraph") return;
+    faceToward(group, dir, playerPos, dt);
+    // Telegraph crouch
+    if (c.state === "telegraph") {
+      const s = 1 - 0.25 * Math.sin(Math.min(1, c.stateTime / telegraphTime(night)) * Math.PI);
+      group.scale.set(1.15, s, 1.15);
+    } else {
+      group.scale.setScalar(1);
+    }
+  },
+
+  // The storm-spawn breathes your O₂ out of the suit
+  drain: { range: 1.7, rate: 7.0, states: ["hunt", "telegraph", "lunge"] },
+  blast: { radius: 1.4, depth: 0.45 },
+  // Death pays out: an O₂ shard where it fell
+  drops: [{ item: "o2Shard", chance: 1 }],
+};
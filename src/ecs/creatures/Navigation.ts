@@ -0,0 +1,121 @@
+import * as THREE from "three";
+import { findPath, getNavGrid, isWalkable, nodeDirection } from "../factories/NavGrid";
+import { pursue } from "./Behaviors";
+import type { CreatureContext, CreatureEntity } from "./Archetype";
+
+/**
+ * Routed movement for surface creatures: instead of the great circle
+ * straight at the player, walk the nav grid's route round the rocks, the
+ * mountain faces and the vents, and come at the player from the side.
+ *
+ * A route is planned now and then, not every tick, and kept here rather
+ * than on the creature (it isn't saved: a resumed creature plans afresh).
+ */
+
+const PLANET_RADIUS = 200;
+
+const REPLAN_TIME = 0.5; // s between plans
+const DIRECT_RANGE = 5; // m: close enough to go straight in
+const FLANK_RANGE = 12; // m: farther out than this, swing wide
+const FLANK_OFFSET = 7; // m to the side of the player a flank aims for
+
+interface Route {
+  nodes: number[];
+  next: number; // index into nodes of the waypoint being walked to
+  age: number;
+}
+
+const routes = new Map<CreatureEntity, Route>();
+
+const _goal = new THREE.Vector3();
+const _waypoint = new THREE.Vector3();
+const _side = new THREE.Vector3();
+const _before = new THREE.Vector3();
+
+/**
+ * Where a flanker heads for: `target` (unit), shifted FLANK_OFFSET m to
+ * one side of the line it is coming in on. Its phase picks the side, so a
+ * wave splits and comes at the player from both.
+ */
+function flankGoal(entity: CreatureEntity, dir: THREE.Vector3, target: THREE.Vector3, out: THREE.Vector3) {
+  _side.crossVectors(target, dir);
+  if (_side.lengthSq() < 1e-8) return out.copy(target);
+  _side.normalize().multiplyScalar(entity.creature.phase < Math.PI ? 1 : -1);
+  return out.copy(target).addScaledVector(_side, FLANK_OFFSET / PLANET_RADIUS).normalize();
+}
+
+/**
+ * Turn `ctx.dir` toward `target` (unit) by `arc` radians, along a route
+ * round whatever is in the way; with `flank`, swinging out to the side
+ * while still far off. Returns the angle left to the target.
+ */
+export function navigate(
+  entity: CreatureEntity,
+  ctx: CreatureContext,
+  target: THREE.Vector3,
+  arc: number,
+  flank = false,
+): number {
+  const { dir, dt } = ctx;
+  const left = dir.angleTo(target);
+  const grid = getNavGrid();
+  if (!grid || left * PLANET_RADIUS < DIRECT_RANGE) {
+    routes.delete(entity);
+    return pursue(dir, target, arc);
+  }
+
+  let route = routes.get(entity);
+  if (!route || route.age >= REPLAN_TIME || route.next >= route.nodes.length) {
+    const goal = flank && left * PLANET_RADIUS > FLANK_RANGE ? flankGoal(entity, dir, target, _goal) : target;
+    route = { nodes: findPath(dir, goal), next: 0, age: 0 };
+    routes.set(entity, route);
+  }
+  route.age += dt;
+
+  // Walk to the next waypoint; once on it, on to the one after
+  while (route.next < route.nodes.length) {
+    nodeDirection(route.nodes[route.next], _waypoint);
+    if (dir.angleTo(_waypoint) > grid.spacing * 0.5) break;
+    route.next++;
+  }
+  if (route.next >= route.nodes.length) return pursue(dir, target, arc);
+  pursue(dir, _waypoint, arc);
+  return left;
+}
+
+/**
+ * Step `dir` by `move` (which turns it some way, e.g. `pursue` backing off
+ * or `orbit`), unless that would put the creature on a rock.
+ */
+export function stepClear(dir: THREE.Vector3, move: (dir: THREE.Vector3) => void) {
+  _before.copy(dir);
+  move(dir);
+  // One already stuck on a rock may still walk off it
+  if (!isWalkable(dir) && isWalkable(_before)) dir.copy(_before);
+}
+
+/** Drop a creature's route (it died, or was cleared away). */
+export function forgetRoute(entity: CreatureEntity) {
+  routes.delete(entity);
+}
+
+export function clearRoutes() {
+  routes.clear();
+}
+
+/** Debug lines for every live route, from the creature through its waypoints (cyan). */
+export function appendRouteLines(vertices: number[], colors: number[]) {
+  const grid = getNavGrid();
+  if (!grid) return;
+  const LIFT = 0.4;
+  for (const [entity, route] of routes) {
+    let from = entity.object3d.position;
+    for (let i = route.next; i < route.nodes.length; i++) {
+      const node = route.nodes[i];
+      const to = nodeDirection(node, new THREE.Vector3()).multiplyScalar(grid.heights[node] + LIFT);
+      vertices.push(from.x, from.y, from.z, to.x, to.y, to.z);
+      colors.push(0.2, 0.9, 1, 0.2, 0.9, 1);
+      from = to;
+    }
+  }
+}
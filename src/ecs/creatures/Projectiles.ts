@@ -0,0 +1,88 @@
+import * as THREE from "three";
+import { renderer } from "../../core/Renderer";
+import { events } from "../../utils/EventBus";
+import { difficulty } from "../../core/Difficulty";
+import { getPlanetHeight } from "../factories/PlanetFactory";
+import { siphonOxygen } from "./Behaviors";
+import type { Entity } from "../components";
+
+/**
+ * Globs creatures spit: slow, glowing, and easy to sidestep if you're
+ * watching. One that reaches the suit siphons a mouthful of O₂. They fly
+ * in an arc (gravity toward the planet's center) until they hit the
+ * player, the ground, or run out of life. Short-lived, so they aren't part
+ * of the save.
+ */
+
+const PLANET_RADIUS = 200;
+const HIT_RANGE = 0.85; // from the player's center
+// Lighter than a dropped rock: a slow, readable lob (m/s²)
+export const PROJECTILE_GRAVITY = 4;
+
+interface Projectile {
+  mesh: THREE.Mesh;
+  velocity: THREE.Vector3;
+  life: number;
+  drain: number;
+}
+
+const projectiles: Projectile[] = [];
+
+let globGeo: THREE.IcosahedronGeometry | null = null;
+const globMats = new Map<number, THREE.MeshBasicMaterial>();
+
+const _down = new THREE.Vector3();
+
+/**
+ * Fire a glob from `from` along `velocity` (m/s) for `life` seconds; it
+ * siphons `drain` O₂ (× difficulty) if it reaches the suit.
+ */
+export function launchProjectile(
+  from: THREE.Vector3,
+  velocity: THREE.Vector3,
+  options: { life: number; drain: number; color: number; size?: number },
+) {
+  if (!globGeo) globGeo = new THREE.IcosahedronGeometry(1, 1);
+  let mat = globMats.get(options.color);
+  if (!mat) {
+    mat = new THREE.MeshBasicMaterial({ color: options.color, transparent: true, opacity: 0.85 });
+    globMats.set(options.color, mat);
+  }
+  const mesh = new THREE.Mesh(globGeo, mat);
+  mesh.scale.setScalar(options.size ?? 0.22);
+  mesh.position.copy(from);
+  renderer.scene.add(mesh);
+  projectiles.push({ mesh, velocity: velocity.clone(), life: options.life, drain: options.drain });
+}
+
+/** Fixed tick, from CreatureSystem: fly, and land on the suit or the ground. */
+export function updateProjectiles(dt: number, player: Entity, playing: boolean) {
+  const playerPos = player.object3d!.position;
+  for (let i = projectiles.length - 1; i >= 0; i--) {
+    const p = projectiles[i];
+    p.life -= dt;
+    _down.copy(p.mesh.position).normalize().negate();
+    p.velocity.addScaledVector(_down, PROJECTILE_GRAVITY * dt);
+    p.mesh.position.addScaledVector(p.velocity, dt);
+    // Wobble like something liquid
+    p.mesh.rotation.x += dt * 5;
+    p.mesh.rotation.y += dt * 3;
+
+    let spent = p.life <= 0;
+    if (!spent && playing && p.mesh.position.distanceTo(playerPos) < HIT_RANGE) {
+      spent = true;
+      events.emit("creature:spit:hit");
+      if (difficulty.creatureDrain > 0) siphonOxygen(player, p.drain * difficulty.creatureDrain);
+    }
+    if (!spent && p.mesh.position.length() < getPlanetHeight(p.mesh.position, PLANET_RADIUS)) spent = true;
+    if (spent) {
+      renderer.scene.remove(p.mesh);
+      projectiles.splice(i, 1);
+    }
+  }
+}
+
+export function clearProjectiles() {
+  for (const p of projectiles) renderer.scene.remove(p.mesh);
+  projectiles.length = 0;
+}
@@ -0,0 +1,144 @@
+import * as THREE from "three";
+import { audioManager } from "../../managers/AudioManager";
+import { faceToward, orbit, pursue, rise, surfacePlace } from "./Behaviors";
+import { navigate, stepClear } from "./Navigation";
+import { launchProjectile, PROJECTILE_GRAVITY } from "./Projectiles";
+import type { CreatureArchetype } from "./Archetype";
+
+/**
+ * The spitter: a squat crystal bulb that keeps its distance and lobs slow
+ * globs of siphon-gel. It circles at range rather than closing in, so it
+ * is the one worth running down; the swelling sac before each shot says
+ * when to step aside.
+ */
+
+const PLANET_RADIUS = 200;
+
+// Keeps within this band of the player, drifting sideways while it waits
+const NEAR = 9;
+const FAR = 16;
+const STRAFE = 0.45; // share of its speed spent circling
+const RANGE = 22; // won't spit from farther out
+const AIM_TIME = 0.7; // the sac swells: the player's cue
+const COOLDOWN = { min: 2.6, max: 3.8 };
+const FIRST_SHOT = 1.2; // after it has risen
+const SHOT_SPEED = 8.5; // m/s — slow enough to sidestep
+const SHOT_LIFE = 3.2;
+const SHOT_DRAIN = 9; // O₂ per glob that lands
+const MOUTH_HEIGHT = 0.75;
+// Night: it spits sooner
+const NIGHT_COOLDOWN_CUT = 0.3;
+
+const SAC_COLOR = 0xffa040;
+
+let legGeo: THREE.ConeGeometry | null = null;
+let bulbGeo: THREE.IcosahedronGeometry | null = null;
+let sacGeo: THREE.SphereGeometry | null = null;
+
+const _muzzle = new THREE.Vector3();
+const _aim = new THREE.Vector3();
+
+function buildBody(): THREE.Group {
+  if (!legGeo) legGeo = new THREE.ConeGeometry(0.09, 0.55, 4);
+  if (!bulbGeo) bulbGeo = new THREE.IcosahedronGeometry(0.36, 0);
+  if (!sacGeo) sacGeo = new THREE.SphereGeometry(0.2, 10, 8);
+
+  const group = new THREE.Group();
+  const bodyMat = new THREE.MeshStandardMaterial({
+    color: 0x2a1d18,
+    emissive: 0x8a3a10,
+    emissiveIntensity: 0.7,
+    roughness: 0.3,
+    metalness: 0.2,
+    flatShading: true,
+  });
+  const sacMat = new THREE.MeshStandardMaterial({
+    color: 0xffffff,
+    emissive: SAC_COLOR,
+    emissiveIntensity: 2.0,
+    roughness: 0.1,
+    transparent: true, // fades out in the death shatter
+  });
+
+  // Three splayed legs under a faceted bulb, the glowing sac on top
+  for (let i = 0; i < 3; i++) {
+    const leg = new THREE.Mesh(legGeo, bodyMat);
+    const a = (i / 3) * Math.PI * 2;
+    leg.position.set(Math.cos(a) * 0.26, 0.22, Math.sin(a) * 0.26);
+    leg.rotation.set(-Math.sin(a) * 0.5 + Math.PI, 0, Math.cos(a) * 0.5);
+    group.add(leg);
+  }
+  const bulb = new THREE.Mesh(bulbGeo, bodyMat);
+  bulb.position.y = 0.48;
+  bulb.scale.y = 0.75;
+  group.add(bulb);
+  const sac = new THREE.Mesh(sacGeo, sacMat);
+  sac.position.set(0, MOUTH_HEIGHT, -0.08);
+  group.add(sac);
+  group.userData.sac = sac;
+  group.userData.coreMat = sacMat;
+  group.userData.shardMat = bodyMat;
+  return group;
+}
+
+const cooldown = (rand: () => number, night: number) =>
+  (COOLDOWN.min + rand() * (COOLDOWN.max - COOLDOWN.min)) * (1 - NIGHT_COOLDOWN_CUT * night);
+
+export const spitter: CreatureArchetype = {
+  name: "Spitter",
+  hp: 60,
+  speed: 3.6,
+  buildBody,
+  spawn: (group, dir) => surfacePlace(group, dir, 0.8),
+  initial: "burrow",
+  states: {
+    burrow: rise(1.1, 0.8, "stalk"),
+
+    stalk: (entity, ctx) => {
+      const { object3d: group, creature: c } = entity;
+      const { dt, playing, playerDir, dir, dist } = ctx;
+      if (!playing) return;
+      const arc = (c.speed * dt) / PLANET_RADIUS;
+      // Close in (from the side), back off, or hold the band and drift
+      // round; backing and drifting stop short of a rock
+      if (dist > FAR) navigate(entity, ctx, playerDir, arc, true);
+      else if (dist < NEAR) stepClear(dir, (d) => pursue(d, playerDir, -arc));
+      else stepClear(dir, (d) => orbit(d, playerDir, arc * STRAFE * (c.phase < Math.PI ? 1 : -1)));
+      surfacePlace(group, dir);
+
+      c.cooldown = (c.cooldown ?? FIRST_SHOT) - dt;
+      if (c.cooldown <= 0 && dist < RANGE) return "aim";
+    },
+
+    aim: ({ object3d: group, creature: c }, { playerPos, dir, night, rand }) => {
+      if (c.stateTime < AIM_TIME) return;
+      // Spit where the player is, from the sac
+      _muzzle.copy(group.position).addScaledVector(dir, MOUTH_HEIGHT);
+      // Lobbed: aimed straight, plus enough loft to fall onto the suit
+      _aim.copy(playerPos).sub(_muzzle);
+      const flight = _aim.length() / SHOT_SPEED;
+      _aim.normalize().multiplyScalar(SHOT_SPEED).addScaledVector(dir, (PROJECTILE_GRAVITY * flight) / 2);
+      launchProjectile(_muzzle, _aim, { life: SHOT_LIFE, drain: SHOT_DRAIN, color: SAC_COLOR });
+      audioManager.playCreatureSpit();
+      c.cooldown = cooldown(rand, night);
+      return "stalk";
+    },
+  },
+
+  pose: ({ object3d: group, creature: c }, { dt, elapsed, playerPos, dir }) => {
+    const ud = group.userData;
+    // The sac swells and brightens while it aims
+    const swell = c.state === "aim" ? Math.min(1, c.stateTime / AIM_TIME) : 0;
+    ud.sac.scale.setScalar(1 + swell * 0.7);
+    ud.coreMat.emissiveIntensity = c.hitFlash > 0 ? 6.0 : 1.6 + swell * 3 + Math.sin(elapsed * 3 + c.phase) * 0.3;
+    ud.shardMat.emissive.setHex(c.hitFlash > 0 ? 0xffffff : 0x8a3a10);
+    if (c.state === "stalk" || c.state === "aim") faceToward(group, dir, playerPos, dt, 6);
+  },
+
+  drain: { range: 1.5, rate: 4.0, states: ["stalk", "aim"] },
+  blast: { radius: 1.2, depth: 0.35 },
+  drops: [
+    { item: "o2Shard", chance: 1 },
+    { item: "o2Shard", chance: 0.5 },
+  ],
+};
@@ -0,0 +1,364 @@
+import * as THREE from "three";
+import { events } from "../../utils/EventBus";
+import { audioManager } from "../../managers/AudioManager";
+import { getPlanetHeight } from "../factories/PlanetFactory";
+import { standOn, strikeSuit, surfacePlace } from "./Behaviors";
+import { launchProjectile, PROJECTILE_GRAVITY } from "./Projectiles";
+import type { CreatureArchetype, CreatureEntity, WeakPoint } from "./Archetype";
+
+/**
+ * The storm heart: what the final relay's boot wakes. A rooted tower of
+ * storm crystal, armored all over; the cutter only bites its weak points.
+ *
+ * Phase 1: three crown crystals wheel round its top — break all three.
+ * Phase 2: the cage splits open round the core, and the core takes hits.
+ * Phase 3: the core cracks past half and it rages: faster, wider volleys.
+ *
+ * Each new phase starts behind a shield, with adds venting round it (the
+ * relay's BeaconSystem sends them on "boss:stage"). Both attacks wind up
+ * first, like a crawler's telegraph: the core flares before a volley of
+ * shards, and the body crouches before a slam that sends a ring along the
+ * ground — jump it.
+ */
+
+const PLANET_RADIUS = 200;
+
+const CROWN = 3; // crystals, ids 0..2; the core is id CORE
+const CORE = CROWN;
+const CROWN_HP = 160;
+const CORE_HP = 520;
+const ENRAGE_AT = 0.5; // share of the core left when phase 3 starts
+const CROWN_RADIUS = 1.7;
+const CROWN_HEIGHT = 3.1;
+const CROWN_SPIN = 0.5; // rad/s: the crystals move; track them
+const CORE_HEIGHT = 1.9;
+const ARMOR_RADIUS = 1.6; // the cage, as a sphere round the core
+const ARMOR_HEIGHT = 1.9;
+
+const EMERGE_TIME = 2.4;
+const EMERGE_SINK = 4.5;
+const SHIELD_TIME = 2.2; // untouchable while its adds vent
+const WATCH_TIME = [3.0, 2.4, 1.6]; // between attacks, by phase
+const TELEGRAPH_TIME = { volley: 0.9, slam: 1.2 };
+const RAGE_TELEGRAPH_CUT = 0.25; // phase 3 winds up this much quicker
+// Volley: a fan of shards lobbed at the suit
+const VOLLEY = [3, 5, 7]; // shards, by phase
+const VOLLEY_FAN = 0.22; // rad between neighbors
+const SHOT_SPEED = 10;
+const SHOT_LIFE = 3.5;
+const SHOT_DRAIN = 7;
+const SHOT_COLOR = 0xcc66ff;
+// Slam: a ring racing out along the ground
+const SLAM_SPEED = 9; // m/s
+const SLAM_REACH = 16;
+const SLAM_BAND = 0.9; // m: how thick the ring is where it hits
+const SLAM_DAMAGE = 16;
+const JUMP_CLEAR = 0.6; // feet this far off the ground and it passes under
+
+const BASE_EMISSIVE = 0x5522aa;
+
+let shardGeo: THREE.ConeGeometry | null = null;
+let crystalGeo: THREE.OctahedronGeometry | null = null;
+let coreGeo: THREE.IcosahedronGeometry | null = null;
+let ringGeo: THREE.RingGeometry | null = null;
+
+const _up = new THREE.Vector3();
+const _aim = new THREE.Vector3();
+const _side = new THREE.Vector3();
+const _shot = new THREE.Vector3();
+const _muzzle = new THREE.Vector3();
+// What weakPoints hands out (valid until its next call)
+const _weak: WeakPoint[] = Array.from({ length: CROWN + 1 }, () => ({ position: new THREE.Vector3(), id: 0 }));
+const _exposed: WeakPoint[] = [];
+
+function buildBody(): THREE.Group {
+  if (!shardGeo) shardGeo = new THREE.ConeGeometry(0.45, 3.6, 5);
+  if (!crystalGeo) crystalGeo = new THREE.OctahedronGeometry(0.4, 0);
+  if (!coreGeo) coreGeo = new THREE.IcosahedronGeometry(0.75, 1);
+  if (!ringGeo) ringGeo = new THREE.RingGeometry(0.85, 1, 48);
+
+  const group = new THREE.Group();
+  const shellMat = new THREE.MeshStandardMaterial({
+    color: 0x1e1430,
+    emissive: BASE_EMISSIVE,
+    emissiveIntensity: 0.6,
+    roughness: 0.3,
+    metalness: 0.35,
+    flatShading: true,
+  });
+  const coreMat = new THREE.MeshStandardMaterial({
+    color: 0xffffff,
+    emissive: 0xdd88ff,
+    emissiveIntensity: 2.5,
+    roughness: 0.1,
+    transparent: true, // fades out in the death shatter
+  });
+  const crystalMat = new THREE.MeshStandardMaterial({
+    color: 0xffffff,
+    emissive: 0x66ffee,
+    emissiveIntensity: 2.2,
+    roughness: 0.1,
+  });
+  const ringMat = new THREE.MeshBasicMaterial({
+    color: SHOT_COLOR,
+    transparent: true,
+    opacity: 0,
+    side: THREE.DoubleSide,
+    depthWrite: false,
+  });
+
+  // A cage of leaning shards round the core; phase 2 splays them open
+  const cage = new THREE.Group();
+  for (let i = 0; i < 8; i++) {
+    const pivot = new THREE.Group();
+    pivot.rotation.y = (i / 8) * Math.PI * 2;
+    const shard = new THREE.Mesh(shardGeo, shellMat);
+    shard.position.set(0, 1.7, 1.0);
+    shard.rotation.x = -0.32;
+    pivot.add(shard);
+    cage.add(pivot);
+  }
+  group.add(cage);
+
+  const core = new THREE.Mesh(coreGeo, coreMat);
+  core.position.y = CORE_HEIGHT;
+  group.add(core);
+
+  // The crown: the phase 1 weak points
+  const crown = new THREE.Group();
+  crown.position.y = CROWN_HEIGHT;
+  const crystals: THREE.Mesh[] = [];
+  for (let i = 0; i < CROWN; i++) {
+    const a = (i / CROWN) * Math.PI * 2;
+    const crystal = new THREE.Mesh(crystalGeo, crystalMat);
+    crystal.position.set(Math.cos(a) * CROWN_RADIUS, 0, Math.sin(a) * CROWN_RADIUS);
+    crystal.scale.set(1, 1.8, 1);
+    crown.add(crystal);
+    crystals.push(crystal);
+  }
+  group.add(crown);
+
+  // The slam's ground ring, flat on the ground round the base
+  const ring = new THREE.Mesh(ringGeo, ringMat);
+  ring.rotation.x = -Math.PI / 2;
+  ring.position.y = 0.25;
+  ring.visible = false;
+  group.add(ring);
+
+  Object.assign(group.userData, { cage, core, crown, crystals, ring, coreMat, shardMat: shellMat });
+  return group;
+}
+
+/** The phase the damage so far has earned: crown standing, core open, core cracked. */
+function stageOf(c: CreatureEntity["creature"]): number {
+  if (c.weakHp?.some((hp) => hp > 0)) return 1;
+  return c.hp > CORE_HP * ENRAGE_AT ? 2 : 3;
+}
+
+/** Moves into the next phase once the damage calls for it (behind a shield). */
+function nextStage(entity: CreatureEntity) {
+  const c = entity.creature;
+  const stage = stageOf(c);
+  if (stage <= (c.stage ?? 1)) return;
+  c.stage = stage;
+  audioManager.playBossRoar();
+  events.emit(
+    "log:message",
+    stage === 2 ? "⚠ CROWN BROKEN — THE HEART'S CAGE IS OPENING" : "⚠ THE HEART IS CRACKING — IT'S ENRAGED",
+    "danger",
+  );
+  events.emit("boss:stage", stage, entity.object3d.position);
+  events.emit("boss:health:changed", c.hp, c.maxHp, stage);
+  return "shield" as const;
+}
+
+function telegraphTime(c: CreatureEntity["creature"]): number {
+  const base = TELEGRAPH_TIME[c.attack ?? "volley"];
+  return c.stage === 3 ? base * (1 - RAGE_TELEGRAPH_CUT) : base;
+}
+
+/** A fan of shards at the suit, from the core: lobbed to land where it stands. */
+function volley(entity: CreatureEntity, playerPos: THREE.Vector3) {
+  const stage = entity.creature.stage ?? 1;
+  _up.copy(entity.object3d.position).normalize();
+  _muzzle.copy(entity.object3d.position).addScaledVector(_up, CORE_HEIGHT);
+  _aim.copy(playerPos).sub(_muzzle);
+  const flight = _aim.length() / SHOT_SPEED;
+  _aim.normalize();
+  _side.crossVectors(_up, _aim).normalize();
+  const count = VOLLEY[stage - 1];
+  for (let i = 0; i < count; i++) {
+    const angle = (i - (count - 1) / 2) * VOLLEY_FAN;
+    _shot
+      .copy(_aim)
+      .multiplyScalar(Math.cos(angle))
+      .addScaledVector(_side, Math.sin(angle))
+      .multiplyScalar(SHOT_SPEED)
+      .addScaledVector(_up, (PROJECTILE_GRAVITY * flight) / 2);
+    launchProjectile(_muzzle, _shot, { life: SHOT_LIFE, drain: SHOT_DRAIN, color: SHOT_COLOR, size: 0.3 });
+  }
+  audioManager.playCreatureSpit();
+}
+
+export const stormHeart: CreatureArchetype = {
+  name: "StormHeart",
+  hp: CROWN * CROWN_HP + CORE_HP,
+  speed: 0, // rooted
+  buildBody,
+  spawn: (group, dir) => {
+    surfacePlace(group, dir, EMERGE_SINK);
+    standOn(group, dir);
+  },
+  initial: "emerge",
+  states: {
+    emerge: ({ object3d: group, creature: c }, { dir }) => {
+      if (!c.weakHp) {
+        c.weakHp = Array(CROWN).fill(CROWN_HP);
+        c.stage = 1;
+        audioManager.playBossRoar();
+      }
+      const p = Math.min(1, c.stateTime / EMERGE_TIME);
+      surfacePlace(group, dir, EMERGE_SINK * (1 - p) * (1 - p));
+      standOn(group, dir);
+      if (p < 1) return;
+      c.cooldown = WATCH_TIME[0];
+      return "watch";
+    },
+
+    watch: (entity, { dt, playing, dist }) => {
+      const c = entity.creature;
+      const shield = nextStage(entity);
+      if (shield) return shield;
+      if (!playing) return;
+      c.cooldown = (c.cooldown ?? 0) - dt;
+      if (c.cooldown > 0) return;
+      // Volley and slam by turns, a rhythm to learn; out of the ring's
+      // reach it only shoots
+      c.attack = dist < SLAM_REACH && c.attack === "volley" ? "slam" : "volley";
+      audioManager.playCreatureAlert();
+      return "telegraph";
+    },
+
+    // Wind up: the core flares (volley) or the body crouches (slam)
+    telegraph: (entity, { playerPos }) => {
+      const c = entity.creature;
+      if (c.stateTime < telegraphTime(c)) return;
+      c.cooldown = WATCH_TIME[(c.stage ?? 1) - 1];
+      if (c.attack === "slam") {
+        c.lungeHit = false;
+        audioManager.playBossRoar();
+        return "slam";
+      }
+      volley(entity, playerPos);
+      return "watch";
+    },
+
+    slam: ({ creature: c }, { playing, playerPos, dist }) => {
+      const reach = c.stateTime * SLAM_SPEED;
+      if (playing && !c.lungeHit && Math.abs(dist - reach) < SLAM_BAND) {
+        const lift = playerPos.length() - getPlanetHeight(playerPos, PLANET_RADIUS);
+        if (lift < JUMP_CLEAR) {
+          c.lungeHit = true;
+          strikeSuit(SLAM_DAMAGE);
+        }
+      }
+      if (reach >= SLAM_REACH) return "watch";
+    },
+
+    shield: ({ creature: c }) => {
+      if (c.stateTime < SHIELD_TIME) return;
+      c.cooldown = WATCH_TIME[(c.stage ?? 1) - 1];
+      return "watch";
+    },
+  },
+
+  pose: ({ object3d: group, creature: c }, { dt, elapsed }) => {
+    const ud = group.userData;
+    const stage = c.stage ?? 1;
+    ud.crown.rotation.y = elapsed * CROWN_SPIN;
+    // Broken crown crystals are gone
+    ud.crystals.forEach((crystal: THREE.Mesh, i: number) => (crystal.visible = (c.weakHp?.[i] ?? CROWN_HP) > 0));
+    // The cage splays open from phase 2
+    const open = stage >= 2 ? 0.55 : 0;
+    for (const pivot of ud.cage.children) {
+      const shard = pivot.children[0];
+      shard.rotation.x = THREE.MathUtils.damp(shard.rotation.x, -0.32 + open, 3, dt);
+    }
+
+    // The telegraph reads: the core swells and burns for a volley, the body
+    // sinks for a slam; a shield is a white glare
+    const windup = c.state === "telegraph" ? Math.min(1, c.stateTime / telegraphTime(c)) : 0;
+    const volleying = c.attack === "volley" ? windup : 0;
+    const slamming = c.attack === "slam" ? windup : 0;
+    ud.core.scale.setScalar(1 + volleying * 0.5 + (stage === 3 ? Math.sin(elapsed * 9) * 0.08 : 0));
+    const flash = c.hitFlash > 0 || c.state === "shield";
+    ud.coreMat.emissiveIntensity = flash ? 6.0 : 2.2 + volleying * 4 + Math.sin(elapsed * 3) * 0.4;
+    ud.shardMat.emissive.setHex(flash ? 0xffffff : BASE_EMISSIVE);
+    ud.shardMat.emissiveIntensity = 0.6 + slamming * 1.5;
+    ud.cage.scale.y = 1 - slamming * 0.18;
+
+    // The slam ring races out along the ground
+    const ring = ud.ring as THREE.Mesh;
+    ring.visible = c.state === "slam";
+    if (ring.visible) {
+      const reach = Math.max(0.1, c.stateTime * SLAM_SPEED);
+      ring.scale.setScalar(reach);
+      (ring.material as THREE.MeshBasicMaterial).opacity = 0.8 * (1 - reach / SLAM_REACH);
+    }
+  },
+
+  weakPoints: ({ object3d: group, creature: c }) => {
+    _exposed.length = 0;
+    if ((c.stage ?? 1) === 1) {
+      // Crown crystals, where the spin has them now
+      const spin = group.userData.crown.rotation.y;
+      for (let i = 0; i < CROWN; i++) {
+        if ((c.weakHp?.[i] ?? 0) <= 0) continue;
+        const a = (i / CROWN) * Math.PI * 2 - spin;
+        const point = _weak[i];
+        point.id = i;
+        point.position.set(Math.cos(a) * CROWN_RADIUS, CROWN_HEIGHT, Math.sin(a) * CROWN_RADIUS);
+        point.position.applyQuaternion(group.quaternion).add(group.position);
+        _exposed.push(point);
+      }
+    } else {
+      const point = _weak[CORE];
+      point.id = CORE;
+      point.position.set(0, CORE_HEIGHT, 0).applyQuaternion(group.quaternion).add(group.position);
+      _exposed.push(point);
+    }
+    return _exposed;
+  },
+  // The closed cage; open, there's nothing between the beam and the core
+  armor: ({ object3d: group, creature: c }, center) => {
+    if ((c.stage ?? 1) > 1) return 0;
+    center.copy(group.position).normalize().multiplyScalar(ARMOR_HEIGHT).add(group.position);
+    return ARMOR_RADIUS;
+  },
+
+  hurt: ({ creature: c }, amount, weakPoint) => {
+    const crown = c.weakHp;
+    if (!crown || weakPoint === CORE) return amount;
+    // A crystal takes what it has left; a hit from anywhere else (a script)
+    // goes through the standing crystals first
+    const targets = weakPoint >= 0 ? [weakPoint] : crown.map((_, i) => i);
+    let taken = 0;
+    for (const i of targets) {
+      const bite = Math.min(amount - taken, crown[i]);
+      if (bite <= 0) continue;
+      crown[i] -= bite;
+      taken += bite;
+      if (crown[i] <= 0) {
+        audioManager.playCreatureDeath();
+        events.emit("log:message", `CROWN CRYSTAL SHATTERED — ${crown.filter((hp) => hp > 0).length} LEFT`, "success");
+      }
+    }
+    return weakPoint >= 0 ? taken : amount;
+  },
+
+  hidden: ["emerge", "shield"],
+  drain: { range: 2.6, rate: 10, states: ["watch", "telegraph", "slam"] },
+  blast: { radius: 3, depth: 0.8 },
+  drops: Array.from({ length: 6 }, () => ({ item: "o2Shard" as const, chance: 1 })),
+  boss: true,
+};
@@ -0,0 +1,136 @@
+import * as THREE from "three";
+import { getPlanetHeight } from "../factories/PlanetFactory";
+import { faceToward, hover, orbit, pursue, surfacePlace } from "./Behaviors";
+import type { CreatureArchetype } from "./Archetype";
+
+/**
+ * Swarmers: fragile crystal moths that vent in a flock and wheel round the
+ * player a couple of meters up, each darting in now and then for a sip of
+ * O₂. One hit kills; the trouble is there are always more, and they are
+ * hard to track against the sky.
+ */
+
+const PLANET_RADIUS = 200;
+
+const ALTITUDE = 2.2; // m over the ground while circling
+const RISE_TIME = 0.8;
+const RING = { min: 4.5, max: 7.5 }; // circling distance from the player
+const CIRCLE_TIME = { min: 1.4, max: 3.2 }; // before the next dart
+const DART_SPEED = 11;
+const DART_TIME = 0.9; // long enough to pass through and pull out
+const SKIM = 0.5; // lowest a dart flies over the ground
+// Night: they dart more often
+const NIGHT_CIRCLE_CUT = 0.35;
+
+let wingGeo: THREE.BufferGeometry | null = null;
+let bodyGeo: THREE.OctahedronGeometry | null = null;
+
+const _dart = new THREE.Vector3();
+
+function buildBody(): THREE.Group {
+  if (!wingGeo) {
+    // A thin crystal vane, root at the body
+    wingGeo = new THREE.BufferGeometry();
+    wingGeo.setAttribute(
+      "position",
+      new THREE.Float32BufferAttribute([0, 0, -0.08, 0.42, 0.02, 0.04, 0, 0, 0.12], 3),
+    );
+    wingGeo.computeVertexNormals();
+  }
+  if (!bodyGeo) bodyGeo = new THREE.OctahedronGeometry(0.11, 0);
+
+  const group = new THREE.Group();
+  const wingMat = new THREE.MeshStandardMaterial({
+    color: 0x1c2a33,
+    emissive: 0x33bbaa,
+    emissiveIntensity: 1.1,
+    roughness: 0.2,
+    side: THREE.DoubleSide,
+    transparent: true, // fades out in the death shatter
+    opacity: 0.9,
+  });
+  const body = new THREE.Mesh(bodyGeo, wingMat);
+  body.scale.z = 2;
+  group.add(body);
+  const wings: THREE.Mesh[] = [];
+  for (const side of [1, -1]) {
+    const wing = new THREE.Mesh(wingGeo, wingMat);
+    wing.scale.x = side;
+    group.add(wing);
+    wings.push(wing);
+  }
+  group.userData.wings = wings;
+  group.userData.coreMat = wingMat;
+  group.userData.shardMat = wingMat;
+  return group;
+}
+
+// Each keeps its own ring (by its animation phase) so the flock spreads out
+const ring = (phase: number) => RING.min + (phase / (Math.PI * 2)) * (RING.max - RING.min);
+const circleTime = (rand: () => number) => CIRCLE_TIME.min + rand() * (CIRCLE_TIME.max - CIRCLE_TIME.min);
+
+export const swarmer: CreatureArchetype = {
+  name: "Swarmer",
+  hp: 18,
+  speed: 6.5,
+  pack: 4,
+  buildBody,
+  spawn: (group, dir) => surfacePlace(group, dir),
+  initial: "rise",
+  states: {
+    rise: ({ object3d: group, creature: c }, { dir, rand }) => {
+      const p = Math.min(1, c.stateTime / RISE_TIME);
+      hover(group, dir, ALTITUDE * p);
+      if (p < 1) return;
+      c.cooldown = circleTime(rand);
+      return "circle";
+    },
+
+    circle: ({ object3d: group, creature: c }, { dt, elapsed, playing, playerPos, playerDir, dir, dist, night, rand }) => {
+      if (!playing) return;
+      const arc = (c.speed * dt) / PLANET_RADIUS;
+      // Close to its ring round the player, then wheel along it
+      const radius = ring(c.phase);
+      if (Math.abs(dist - radius) > 1) pursue(dir, playerDir, dist > radius ? arc : -arc);
+      orbit(dir, playerDir, arc);
+      // Bobbing, and climbing back up after a dart
+      const height = group.position.length() - getPlanetHeight(dir, PLANET_RADIUS);
+      const want = ALTITUDE + Math.sin(elapsed * 2.3 + c.phase) * 0.5;
+      hover(group, dir, THREE.MathUtils.damp(height, want, 4, dt));
+
+      c.cooldown = (c.cooldown ?? 0) - dt * (1 + NIGHT_CIRCLE_CUT * night);
+      if (c.cooldown > 0) return;
+      // Dive through where the suit is now, and out the other side
+      c.cooldown = circleTime(rand);
+      _dart.copy(playerPos).sub(group.position).normalize();
+      c.lungeDir = { x: _dart.x, y: _dart.y, z: _dart.z };
+      return "dart";
+    },
+
+    dart: ({ object3d: group, creature: c }, { dt, dir }) => {
+      if (c.lungeDir) {
+        group.position.addScaledVector(_dart.set(c.lungeDir.x, c.lungeDir.y, c.lungeDir.z), DART_SPEED * dt);
+        dir.copy(group.position).normalize();
+        // Skims the ground rather than going into it
+        const floor = getPlanetHeight(dir, PLANET_RADIUS) + SKIM;
+        if (group.position.length() < floor) group.position.setLength(floor);
+      }
+      if (c.stateTime >= DART_TIME) return "circle";
+    },
+  },
+
+  pose: ({ object3d: group, creature: c }, { dt, elapsed, playerPos, dir }) => {
+    const ud = group.userData;
+    ud.coreMat.emissiveIntensity = c.hitFlash > 0 ? 6.0 : 1.1 + Math.sin(elapsed * 8 + c.phase) * 0.3;
+    // Wingbeat
+    const beat = Math.sin(elapsed * 30 + c.phase) * 0.6;
+    ud.wings[0].rotation.z = beat;
+    ud.wings[1].rotation.z = -beat;
+    // Moths to a lamp: always turned to the suit
+    faceToward(group, dir, playerPos, dt, c.state === "dart" ? 14 : 6);
+  },
+
+  // The sip: what it takes as it brushes past on a dart
+  drain: { range: 1.2, rate: 12, states: ["dart"] },
+  drops: [{ item: "o2Shard", chance: 0.3 }],
+};
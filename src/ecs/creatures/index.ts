@@ -0,0 +1,26 @@
+import { burrower } from "./Burrower";
+import { crawler } from "./Crawler";
+import { spitter } from "./Spitter";
+import { stormHeart } from "./StormHeart";
+import { swarmer } from "./Swarmer";
+import type { CreatureArchetype, CreatureType } from "./Archetype";
+
+export type { CreatureArchetype, CreatureState, CreatureType, WeakPoint } from "./Archetype";
+
+/** Every kind of storm-spawn, by type. Add an archetype here to make it spawnable. */
+export const ARCHETYPES: Record<CreatureType, CreatureArchetype> = {
+  crawler,
+  spitter,
+  burrower,
+  swarmer,
+  stormHeart,
+};
+
+/**
+ * What a wave is made of: relative weights per type (e.g. `{ crawler: 3,
+ * spitter: 1 }`); each slot of the wave rolls one. Types left out never come.
+ */
+export type WaveMix = Partial<Record<CreatureType, number>>;
+
+/** Crawlers only: the first waves, and any spawner that doesn't say. */
+export const CRAWLERS: WaveMix = { crawler: 1 };
@@ -7,6 +7,7 @@ import RAPIER from "@dimforge/rapier3d-compat";
 /**
  * Places beacons on the planet surface in 3 distinct 3D directions.
  * Each beacon is aligned to stand upright along the surface normal.
+ * Hand-placed for the default world; other seeds overwrite them (WorldLayout).
  */
 export const BEACON_DIRECTIONS = [
   new THREE.Vector3(0.5, 0.4, 0.77).normalize(),
@@ -0,0 +1,476 @@
+import * as THREE from "three";
+import RAPIER from "@dimforge/rapier3d-compat";
+import { renderer } from "../../core/Renderer";
+import { physicsManager } from "../../managers/PhysicsManager";
+import { seedStream } from "../../core/WorldSeed";
+import { DATA_PADS } from "../../core/MissionData";
+import { getPlanetHeight, SCAR_DIR } from "./PlanetTerrain";
+import {
+  CHAMBER_FLOOR,
+  TUNNEL_FLOOR,
+  caveDistance,
+  caveFloor,
+  caveNormal,
+  setCaveNetwork,
+  type CaveChamber,
+  type CaveNetwork,
+  type CaveTunnel,
+} from "./Caves";
+
+function mulberry32(seed: number) {
+  return () => {
+    seed |= 0;
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * The caves under the Scar, where the Meridian crew went to ride out the
+ * storm. One passage spirals down from a mouth in the basin floor, hall to
+ * hall, to a vault under the Scar's center; side passages squeeze off to
+ * two sealed air pockets and a dead end. Seeded like the rest of the
+ * world: the same seed digs the same caves.
+ *
+ * The network (Caves.ts) is a distance field; here it is meshed with
+ * surface nets, clipped at the ground (the planet chunks carry the surface
+ * and leave the mouth open), and handed to Rapier as one static trimesh.
+ * Must run before createPlanet(): the chunk worker is sent the network when
+ * the planet is attached.
+ */
+
+const MOUTH_RING = 13; // m from under the Scar's center
+// The entry passage carries on this far up past the mouth, out of the
+// ground, so its floor comes up through the surface as a slope, not a step
+const MOUTH_RUN = 4;
+// Passages join a chamber this far out from its middle (× its radius): past
+// the edge of its flat floor, so a sloping passage comes down to the floor
+// instead of the floor running out to meet it in a ledge
+const CHAMBER_JOIN = 0.97;
+// How steeply every floor falls, m down per m along (~17°). Depths follow
+// from the layout's runs, so no leg comes out steeper than the suit's boots
+// can walk back up.
+const GRADE = 0.3;
+const CELL = 0.5; // mesh grid spacing (m)
+const BLOCK = 4; // cells per side of a sampling block
+// Steepest the cave field gets (m per m): walls plus their roughness
+const FIELD_SLOPE = 1.8;
+
+// Cave rock: slate-violet strata like the Scar's walls, dustier floors
+const COL_STRATA_A = new THREE.Color(0.085, 0.07, 0.115);
+const COL_STRATA_B = new THREE.Color(0.15, 0.11, 0.12);
+const COL_FLOOR = new THREE.Color(0.2, 0.16, 0.15);
+
+/** A waypoint of the layout: distance and bearing around the Scar's center. */
+interface Node {
+  rho: number;
+  bearing: number;
+  /** Floor depth below the basin floor, set by the passage that reaches it. */
+  floor?: number;
+  /** Radius of the chamber dug here, if any. */
+  size?: number;
+}
+
+const _dir = new THREE.Vector3();
+const _p = new THREE.Vector3();
+const _n = new THREE.Vector3();
+const _t1 = new THREE.Vector3();
+const _t2 = new THREE.Vector3();
+
+/** Lay out the network under the Scar as it sits in this world. */
+function layoutNetwork(planetRadius: number): CaveNetwork {
+  const R = planetRadius;
+  const rand = mulberry32(seedStream(0xca7e));
+  const up = SCAR_DIR.clone();
+  _t1.set(0, 1, 0);
+  if (Math.abs(up.y) > 0.9) _t1.set(1, 0, 0);
+  _t1.cross(up).normalize();
+  _t2.crossVectors(up, _t1);
+  const basin = getPlanetHeight(up, R);
+
+  const direction = (rho: number, bearing: number) =>
+    up
+      .clone()
+      .addScaledVector(_t1, (Math.cos(bearing) * rho) / R)
+      .addScaledVector(_t2, (Math.sin(bearing) * rho) / R)
+      .normalize();
+  const at = (dir: THREE.Vector3, floor: number, lift: number) => dir.clone().multiplyScalar(basin - floor + lift);
+  const run = (from: THREE.Vector3, to: THREE.Vector3) => from.angleTo(to) * basin;
+  const plain = (v: THREE.Vector3) => ({ x: v.x, y: v.y, z: v.z });
+  // Where a passage toward `toward` (a direction) leaves a node: out at a
+  // chamber's wall, `floor` (about) deep
+  const rim = (node: Node, toward: THREE.Vector3, floor: number) => {
+    const dir = direction(node.rho, node.bearing);
+    if (!node.size) return dir;
+    const out = toward.clone().projectOnPlane(dir).normalize();
+    return dir.addScaledVector(out, (node.size * CHAMBER_JOIN) / (basin - floor)).normalize();
+  };
+
+  const tunnels: CaveTunnel[] = [];
+  const chambers: CaveChamber[] = [];
+  // Passages run straight from rim to rim and fall at GRADE all the way,
+  // which sets the floor of the node they reach
+  const passage = (from: Node, to: Node, radius: number) => {
+    const start = rim(from, direction(to.rho, to.bearing), from.floor!);
+    const end = rim(to, direction(from.rho, from.bearing), from.floor!);
+    to.floor = from.floor! + run(start, end) * GRADE;
+    const lift = radius * TUNNEL_FLOOR;
+    tunnels.push({ a: plain(at(start, from.floor!, lift)), b: plain(at(end, to.floor, lift)), radius });
+  };
+  const chamber = (node: Node, kind: CaveChamber["kind"]) => {
+    const radius = node.size!;
+    const dir = direction(node.rho, node.bearing);
+    chambers.push({ center: plain(at(dir, node.floor!, radius * CHAMBER_FLOOR)), radius, kind });
+  };
+  const jitter = (node: Node): Node => ({
+    ...node,
+    rho: node.rho + (rand() - 0.5) * 3,
+    bearing: node.bearing + (rand() - 0.5) * 0.2,
+  });
+
+  // The mouth opens a way round the floor from Renn's last waypoint (the
+  // rim data pad), so the pad never hangs over it
+  const spin = rand() < 0.5 ? 1 : -1;
+  const pad = DATA_PADS[2]?.dir ?? _dir.copy(_t1);
+  const padBearing = Math.atan2(pad.dot(_t2), pad.dot(_t1));
+  const mouth = padBearing + spin * (1.6 + rand() * 0.6);
+  const turn = (k: number) => mouth + spin * k;
+
+  const hall = jitter({ rho: 16, bearing: turn(1.9), size: 3 });
+  const junction = jitter({ rho: 18, bearing: turn(2.9), size: 3.2 });
+  const bend = jitter({ rho: 14, bearing: turn(4.2), size: 2.6 });
+  const landing = jitter({ rho: 12, bearing: turn(5.3), size: 2.8 });
+  const vault: Node = { rho: 0, bearing: 0, size: 5.5 };
+
+  // Entry: a straight ramp down from the basin floor. Its axis passes
+  // through the ground at the mouth, the floor a little below it.
+  const mouthDir = direction(MOUTH_RING, mouth);
+  const ground = getPlanetHeight(mouthDir, R);
+  const lift = 2.4 * TUNNEL_FLOOR;
+  const bottomDir = rim(hall, mouthDir, basin - ground);
+  hall.floor = basin - ground + lift + run(mouthDir, bottomDir) * GRADE;
+  const foot = mouthDir.multiplyScalar(ground);
+  const bottom = at(bottomDir, hall.floor, lift);
+  const top = foot.addScaledVector(_p.copy(bottom).sub(foot).normalize(), -MOUTH_RUN);
+  tunnels.push({ a: plain(top), b: plain(bottom), radius: 2.4 });
+
+  chamber(hall, "hall");
+  passage(hall, junction, 2.2);
+  chamber(junction, "hall");
+  passage(junction, bend, 2.1);
+  chamber(bend, "hall");
+  passage(bend, landing, 2.0);
+  chamber(landing, "hall");
+  passage(landing, vault, 2.2);
+  chamber(vault, "vault");
+
+  // Side squeezes: two sealed pockets of air, and a dead end (a blind
+  // alcove: a passage's bare end is a cup the boots can't turn round in)
+  const pocketA = jitter({ rho: 26, bearing: junction.bearing + spin * 0.25, size: 3.4 });
+  passage(junction, pocketA, 1.4);
+  chamber(pocketA, "pocket");
+  const pocketB = jitter({ rho: 20, bearing: landing.bearing + spin * 0.3, size: 3.2 });
+  passage(landing, pocketB, 1.4);
+  chamber(pocketB, "pocket");
+  const alcove = jitter({ rho: 24, bearing: hall.bearing - spin * 0.35, size: 2 });
+  passage(hall, alcove, 1.7);
+  chamber(alcove, "hall");
+
+  // Bounding sphere around everything, roughness included
+  const center = up.clone().multiplyScalar(basin - vault.floor! / 2);
+  let reach = 0;
+  for (const { a, b, radius } of tunnels) {
+    reach = Math.max(reach, center.distanceTo(_p.set(a.x, a.y, a.z)) + radius, center.distanceTo(_p.set(b.x, b.y, b.z)) + radius);
+  }
+  for (const { center: c, radius } of chambers) {
+    reach = Math.max(reach, center.distanceTo(_p.set(c.x, c.y, c.z)) + radius);
+  }
+  return {
+    seed: seedStream(0xca7f),
+    tunnels,
+    chambers,
+    center: { x: center.x, y: center.y, z: center.z },
+    reach: reach + 1,
+  };
+}
+
+/**
+ * Mesh the cave field with surface nets on a grid aligned to the basin
+ * (so the grid hugs the network), keeping only what lies below the ground.
+ */
+function meshCaves(net: CaveNetwork, planetRadius: number): THREE.BufferGeometry {
+  const up = _n.set(net.center.x, net.center.y, net.center.z).normalize().clone();
+  const t1 = new THREE.Vector3(0, 1, 0);
+  if (Math.abs(up.y) > 0.9) t1.set(1, 0, 0);
+  t1.cross(up).normalize();
+  const t2 = new THREE.Vector3().crossVectors(up, t1);
+  const axes = [t1, t2, up];
+
+  // Grid bounds in the basin frame
+  const lo = [Infinity, Infinity, Infinity];
+  const hi = [-Infinity, -Infinity, -Infinity];
+  const grow = (p: { x: number; y: number; z: number }, r: number) => {
+    _p.set(p.x, p.y, p.z);
+    axes.forEach((axis, i) => {
+      const c = _p.dot(axis);
+      lo[i] = Math.min(lo[i], c - r - 1);
+      hi[i] = Math.max(hi[i], c + r + 1);
+    });
+  };
+  for (const { a, b, radius } of net.tunnels) {
+    grow(a, radius);
+    grow(b, radius);
+  }
+  for (const { center, radius } of net.chambers) grow(center, radius);
+
+  const [nx, ny, nz] = lo.map((l, i) => Math.ceil((hi[i] - l) / CELL) + 1);
+  const point = (i: number, j: number, k: number, out: THREE.Vector3) =>
+    out
+      .copy(t1)
+      .multiplyScalar(lo[0] + i * CELL)
+      .addScaledVector(t2, lo[1] + j * CELL)
+      .addScaledVector(up, lo[2] + k * CELL);
+
+  // Sample the field — exactly only near the walls. A block of cells whose
+  // middle is far from any wall is all rock (or all air): its grid points
+  // just take the middle's value, as no surface can cross them.
+  const values = new Float32Array(nx * ny * nz).fill(NaN);
+  const span = BLOCK * CELL * 0.5 * Math.sqrt(3);
+  for (let bk = 0; bk < nz - 1; bk += BLOCK) {
+    for (let bj = 0; bj < ny - 1; bj += BLOCK) {
+      for (let bi = 0; bi < nx - 1; bi += BLOCK) {
+        const ei = Math.min(bi + BLOCK, nx - 1);
+        const ej = Math.min(bj + BLOCK, ny - 1);
+        const ek = Math.min(bk + BLOCK, nz - 1);
+        point((bi + ei) / 2, (bj + ej) / 2, (bk + ek) / 2, _p);
+        const middle = caveDistance(_p.x, _p.y, _p.z);
+        const exact = Math.abs(middle) < span * FIELD_SLOPE + 1;
+        for (let k = bk; k <= ek; k++) {
+          for (let j = bj; j <= ej; j++) {
+            for (let i = bi; i <= ei; i++) {
+              const idx = i + nx * (j + ny * k);
+              if (exact) {
+                point(i, j, k, _p);
+                values[idx] = caveDistance(_p.x, _p.y, _p.z);
+              } else if (Number.isNaN(values[idx])) {
+                values[idx] = middle;
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+  const value = (i: number, j: number, k: number) => values[i + nx * (j + ny * k)];
+
+  // One vertex per cell the surface crosses, at the mean of its edge crossings
+  const cellVertex = new Int32Array((nx - 1) * (ny - 1) * (nz - 1)).fill(-1);
+  const cellIndex = (i: number, j: number, k: number) => i + (nx - 1) * (j + (ny - 1) * k);
+  const positions: number[] = [];
+  const corner = new Float32Array(8);
+  for (let k = 0; k < nz - 1; k++) {
+    for (let j = 0; j < ny - 1; j++) {
+      for (let i = 0; i < nx - 1; i++) {
+        let mask = 0;
+        for (let c = 0; c < 8; c++) {
+          corner[c] = value(i + (c & 1), j + ((c >> 1) & 1), k + ((c >> 2) & 1));
+          if (corner[c] < 0) mask |= 1 << c;
+        }
+        if (mask === 0 || mask === 255) continue;
+
+        let fx = 0;
+        let fy = 0;
+        let fz = 0;
+        let crossings = 0;
+        for (let c = 0; c < 8; c++) {
+          for (const bit of [1, 2, 4]) {
+            if (c & bit) continue;
+            const d = c | bit;
+            if (((mask >> c) & 1) === ((mask >> d) & 1)) continue;
+            const t = corner[c] / (corner[c] - corner[d]);
+            fx += (c & 1) + (bit === 1 ? t : 0);
+            fy += ((c >> 1) & 1) + (bit === 2 ? t : 0);
+            fz += ((c >> 2) & 1) + (bit === 4 ? t : 0);
+            crossings++;
+          }
+        }
+        point(i + fx / crossings, j + fy / crossings, k + fz / crossings, _p);
+        cellVertex[cellIndex(i, j, k)] = positions.length / 3;
+        positions.push(_p.x, _p.y, _p.z);
+      }
+    }
+  }
+
+  // Which vertices are above the ground (the heightfield's business there).
+  // Those are pressed down onto it: a triangle across the ground line then
+  // meets the surface instead of standing proud of it as a lip.
+  const count = positions.length / 3;
+  const basin = getPlanetHeight(up, planetRadius);
+  const above = new Uint8Array(count);
+  for (let v = 0; v < count; v++) {
+    _p.fromArray(positions, v * 3);
+    const r = _p.length();
+    if (basin - r > 6) continue;
+    const ground = getPlanetHeight(_p, planetRadius);
+    if (r <= ground) continue;
+    above[v] = 1;
+    _p.setLength(ground).toArray(positions, v * 3);
+  }
+
+  // A quad across every grid edge the surface cuts, facing the open air
+  const indices: number[] = [];
+  const _a = new THREE.Vector3();
+  const _b = new THREE.Vector3();
+  const _c = new THREE.Vector3();
+  const triangle = (a: number, b: number, c: number, facing: THREE.Vector3) => {
+    if (above[a] && above[b] && above[c]) return;
+    _a.fromArray(positions, a * 3);
+    _b.fromArray(positions, b * 3).sub(_a);
+    _c.fromArray(positions, c * 3).sub(_a);
+    if (_b.cross(_c).dot(facing) >= 0) indices.push(a, b, c);
+    else indices.push(a, c, b);
+  };
+  const facing = new THREE.Vector3();
+  for (let k = 1; k < nz - 1; k++) {
+    for (let j = 1; j < ny - 1; j++) {
+      for (let i = 1; i < nx - 1; i++) {
+        const v = value(i, j, k);
+        for (let axis = 0; axis < 3; axis++) {
+          const w = axis === 0 ? value(i + 1, j, k) : axis === 1 ? value(i, j + 1, k) : value(i, j, k + 1);
+          if (v < 0 === w < 0) continue;
+          // The four cells around the edge
+          let q: number[];
+          if (axis === 0) q = [cellIndex(i, j - 1, k - 1), cellIndex(i, j, k - 1), cellIndex(i, j, k), cellIndex(i, j - 1, k)];
+          else if (axis === 1) q = [cellIndex(i - 1, j, k - 1), cellIndex(i, j, k - 1), cellIndex(i, j, k), cellIndex(i - 1, j, k)];
+          else q = [cellIndex(i - 1, j - 1, k), cellIndex(i, j - 1, k), cellIndex(i, j, k), cellIndex(i - 1, j, k)];
+          const [a, b, c, d] = q.map((cell) => cellVertex[cell]);
+          if (a < 0 || b < 0 || c < 0 || d < 0) continue;
+          facing.copy(axes[axis]).multiplyScalar(v < 0 ? -1 : 1);
+          triangle(a, b, c, facing);
+          triangle(a, c, d, facing);
+        }
+      }
+    }
+  }
+
+  // Normals from the field; strata banded by depth, dust on the floors
+  const normals = new Float32Array(count * 3);
+  const colors = new Float32Array(count * 3);
+  const color = new THREE.Color();
+  for (let v = 0; v < count; v++) {
+    _p.fromArray(positions, v * 3);
+    caveNormal(_p, _n).toArray(normals, v * 3);
+    const band = 0.5 + 0.5 * Math.sin(_p.length() * 1.7 + _p.dot(t1) * 0.15);
+    color.copy(COL_STRATA_A).lerp(COL_STRATA_B, band);
+    color.lerp(COL_FLOOR, THREE.MathUtils.smoothstep(_n.dot(_dir.copy(_p).normalize()), 0.55, 0.9) * 0.6);
+    color.toArray(colors, v * 3);
+  }
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute("position", new THREE.BufferAttribute(new Float32Array(positions), 3));
+  geometry.setAttribute("normal", new THREE.BufferAttribute(normals, 3));
+  geometry.setAttribute("color", new THREE.BufferAttribute(colors, 3));
+  geometry.setIndex(new THREE.BufferAttribute(new Uint32Array(indices), 1));
+  geometry.computeBoundingSphere();
+  return geometry;
+}
+
+/**
+ * Crystals on a chamber's floor: frost in the air pockets (the O₂ shards'
+ * color — air here), violet elsewhere to find the way by.
+ */
+function placeCrystals(
+  net: CaveNetwork,
+  rand: () => number,
+  mesh: THREE.InstancedMesh,
+  kinds: CaveChamber["kind"][],
+  perChamber: number,
+) {
+  const dummy = new THREE.Object3D();
+  const Y = new THREE.Vector3(0, 1, 0);
+  let placed = 0;
+  for (const { center, radius, kind } of net.chambers) {
+    if (!kinds.includes(kind)) continue;
+    const up = new THREE.Vector3(center.x, center.y, center.z);
+    const r = up.length();
+    up.divideScalar(r);
+    _t1.set(0, 1, 0);
+    if (Math.abs(up.y) > 0.9) _t1.set(1, 0, 0);
+    _t1.cross(up).normalize();
+    _t2.crossVectors(up, _t1);
+
+    for (let n = 0; n < perChamber && placed < mesh.count; n++) {
+      const angle = rand() * Math.PI * 2;
+      const out = radius * (0.35 + rand() * 0.4);
+      _dir
+        .copy(up)
+        .addScaledVector(_t1, (Math.cos(angle) * out) / r)
+        .addScaledVector(_t2, (Math.sin(angle) * out) / r)
+        .normalize();
+      const floor = caveFloor(_dir);
+      if (floor === null) continue;
+      dummy.position.copy(_dir).multiplyScalar(floor + 0.15);
+      dummy.quaternion.setFromUnitVectors(Y, _dir);
+      dummy.rotateX((rand() - 0.5) * 0.9);
+      dummy.rotateZ((rand() - 0.5) * 0.9);
+      dummy.scale.set(0.6 + rand() * 0.5, 0.5 + rand() * 1.1, 0.6 + rand() * 0.5);
+      dummy.updateMatrix();
+      mesh.setMatrixAt(placed++, dummy.matrix);
+    }
+  }
+  mesh.count = placed;
+}
+
+export function createCaves(planetRadius: number) {
+  const net = layoutNetwork(planetRadius);
+  setCaveNetwork(net);
+
+  const geometry = meshCaves(net, planetRadius);
+  const material = new THREE.MeshStandardMaterial({
+    vertexColors: true,
+    roughness: 0.95,
+    metalness: 0.02,
+  });
+  const mesh = new THREE.Mesh(geometry, material);
+  mesh.name = "Caves";
+  // The planet chunks don't cast shadows; the rock has to keep the sun out itself
+  mesh.castShadow = true;
+  mesh.receiveShadow = true;
+  renderer.scene.add(mesh);
+
+  const body = physicsManager.world.createRigidBody(RAPIER.RigidBodyDesc.fixed());
+  const positions = geometry.getAttribute("position").array as Float32Array;
+  const indices = geometry.getIndex()!.array as Uint32Array;
+  physicsManager.world.createCollider(RAPIER.ColliderDesc.trimesh(positions, indices), body);
+
+  // Visual only, like the surface crystals: walk straight through
+  const rand = mulberry32(seedStream(0xca80));
+  const crystalGeo = new THREE.ConeGeometry(0.16, 0.9, 5);
+  const frost = new THREE.InstancedMesh(
+    crystalGeo,
+    new THREE.MeshStandardMaterial({
+      color: 0x66ccdd,
+      emissive: 0x33ddff,
+      emissiveIntensity: 1.6,
+      roughness: 0.15,
+      flatShading: true,
+    }),
+    16,
+  );
+  placeCrystals(net, rand, frost, ["pocket"], 8);
+  const glow = new THREE.InstancedMesh(
+    crystalGeo,
+    new THREE.MeshStandardMaterial({
+      color: 0x8844cc,
+      emissive: 0xaa55ff,
+      emissiveIntensity: 1.1,
+      roughness: 0.2,
+      flatShading: true,
+    }),
+    14,
+  );
+  placeCrystals(net, rand, glow, ["hall", "vault"], 4);
+  renderer.scene.add(frost, glow);
+}
@@ -0,0 +1,278 @@
+import * as THREE from "three";
+import { createNoise3D } from "simplex-noise";
+import { getPlanetHeight } from "./PlanetTerrain";
+
+/**
+ * The caves under the Scar: passages and chambers carved into the rock
+ * below the basin floor, as a signed-distance field. A heightfield can't
+ * overhang, so the caves are a mesh of their own (CaveFactory lays them out
+ * and meshes this field), and the planet chunks leave a hole where the
+ * entrance breaks the surface. DOM-free like the terrain function: the
+ * chunk worker cuts that hole too.
+ *
+ * Gameplay reads the queries here: how much rock is overhead (darkness, no
+ * wind), the sealed air pockets that refill O₂, and the cave floors things
+ * are set down on.
+ */
+
+const PLANET_RADIUS = 200;
+
+type Vec3 = { x: number; y: number; z: number };
+
+/** A hall on the way, a sealed air pocket, or the deepest chamber. */
+export type ChamberKind = "hall" | "pocket" | "vault";
+
+/**
+ * A passage: a capsule between two points with a flattened floor, which
+ * runs from one end's floor level to the other's.
+ */
+export interface CaveTunnel {
+  a: Vec3;
+  b: Vec3;
+  radius: number;
+}
+
+/** A chamber: a sphere with a flat floor. */
+export interface CaveChamber {
+  center: Vec3;
+  radius: number;
+  kind: ChamberKind;
+}
+
+/** The whole network, planet space (m). Plain data: it is posted to the chunk worker. */
+export interface CaveNetwork {
+  /** Seeds the wall roughness. */
+  seed: number;
+  tunnels: CaveTunnel[];
+  chambers: CaveChamber[];
+  /** Bounding sphere (walls and their roughness included), for quick rejects. */
+  center: Vec3;
+  reach: number;
+}
+
+// Floors: a passage's sits this far below its axis, a chamber's below its
+// center (× radius), so neither is a round-bottomed tube to walk in
+export const TUNNEL_FLOOR = 0.6;
+export const CHAMBER_FLOOR = 0.45;
+const BLEND = 0.8; // m: how softly passages run into each other and the chambers
+// Wall roughness, and how far from the walls it is worth evaluating
+const ROUGH = [
+  { scale: 0.32, amp: 0.36 },
+  { scale: 1.1, amp: 0.12 },
+];
+const ROUGH_REACH = 1.5;
+const FLOOR_ROUGH = 0.15; // share of it left on the floors: walkable rubble, not ledges
+
+function mulberry32(seed: number) {
+  return () => {
+    seed |= 0;
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+let network: CaveNetwork | null = null;
+let noise3D = createNoise3D(mulberry32(1));
+
+/** Install the cave network (CaveFactory on the main thread; the chunk worker from its message). */
+export function setCaveNetwork(next: CaveNetwork | null) {
+  network = next;
+  if (next) noise3D = createNoise3D(mulberry32(next.seed));
+}
+
+export function caveNetwork(): CaveNetwork | null {
+  return network;
+}
+
+/** Polynomial smooth minimum: the union of two fields with a rounded seam. */
+function smin(a: number, b: number, k: number): number {
+  if (k <= 0) return Math.min(a, b);
+  const h = Math.max(k - Math.abs(a - b), 0) / k;
+  return Math.min(a, b) - h * h * k * 0.25;
+}
+
+/**
+ * Signed distance from a point (planet space) to the cave walls: negative
+ * in open cave air, positive in rock. Outside the network's bounds it is
+ * only a lower bound, which is all anyone needs there.
+ */
+export function caveDistance(x: number, y: number, z: number): number {
+  if (!network) return Infinity;
+  const { center, reach } = network;
+  // Math.sqrt over Math.hypot throughout: this runs per grid point when meshing
+  const far = Math.sqrt((x - center.x) ** 2 + (y - center.y) ** 2 + (z - center.z) ** 2) - reach;
+  if (far > 0) return far;
+
+  const r = Math.sqrt(x * x + y * y + z * z);
+  let d = Infinity;
+  // How much the nearest surface is floor rather than wall, 0..1
+  let flat = 0;
+  let nearest = Infinity;
+  for (const { a, b, radius } of network.tunnels) {
+    const bx = b.x - a.x;
+    const by = b.y - a.y;
+    const bz = b.z - a.z;
+    const along = (x - a.x) * bx + (y - a.y) * by + (z - a.z) * bz;
+    const length2 = bx * bx + by * by + bz * bz;
+    const t = THREE.MathUtils.clamp(along / length2, 0, 1);
+    const qx = a.x + bx * t;
+    const qy = a.y + by * t;
+    const qz = a.z + bz * t;
+    const wall = Math.sqrt((x - qx) ** 2 + (y - qy) ** 2 + (z - qz) ** 2) - radius;
+    // The floor's height goes by how far along the passage the point is
+    // across the ground (not through it, which would sink a sloped floor)
+    const up = (bx * x + by * y + bz * z) / r;
+    const rise = ((x - a.x) * x + (y - a.y) * y + (z - a.z) * z) / r;
+    const across = length2 - up * up;
+    const s = across > 1e-6 ? THREE.MathUtils.clamp((along - rise * up) / across, 0, 1) : t;
+    const ra = Math.sqrt(a.x * a.x + a.y * a.y + a.z * a.z);
+    const rb = Math.sqrt(b.x * b.x + b.y * b.y + b.z * b.z);
+    const floor = ra + (rb - ra) * s - radius * TUNNEL_FLOOR - r;
+    const e = Math.max(wall, floor);
+    const f = THREE.MathUtils.smoothstep(floor - wall, -0.4, 0.4);
+    d = smin(d, e, BLEND * (1 - Math.max(f, flat)));
+    if (e < nearest) {
+      nearest = e;
+      flat = f;
+    }
+  }
+  for (const { center: c, radius } of network.chambers) {
+    const wall = Math.sqrt((x - c.x) ** 2 + (y - c.y) ** 2 + (z - c.z) ** 2) - radius;
+    const floor = Math.sqrt(c.x * c.x + c.y * c.y + c.z * c.z) - radius * CHAMBER_FLOOR - r;
+    const e = Math.max(wall, floor);
+    const f = THREE.MathUtils.smoothstep(floor - wall, -0.4, 0.4);
+    d = smin(d, e, BLEND * (1 - Math.max(f, flat)));
+    if (e < nearest) {
+      nearest = e;
+      flat = f;
+    }
+  }
+  if (d > ROUGH_REACH) return d;
+  const rough = 1 - (1 - FLOOR_ROUGH) * flat;
+  for (const { scale, amp } of ROUGH) d += noise3D(x * scale, y * scale, z * scale) * amp * rough;
+  return d;
+}
+
+/** Whether anything of the caves lies within `margin` of a point (planet space). */
+export function caveReaches(point: Vec3, margin: number): boolean {
+  if (!network) return false;
+  const { center, reach } = network;
+  return Math.hypot(point.x - center.x, point.y - center.y, point.z - center.z) < reach + margin;
+}
+
+const _p = new THREE.Vector3();
+const _n = new THREE.Vector3();
+
+/**
+ * Whether the surface in direction `dir` opens into the caves — or lies
+ * within `margin` m of an opening. Placement keeps things off the mouth.
+ */
+export function isCaveMouth(dir: THREE.Vector3, margin = 0): boolean {
+  if (!network) return false;
+  _p.copy(dir).normalize();
+  _p.multiplyScalar(getPlanetHeight(_p, PLANET_RADIUS));
+  if (!caveReaches(_p, margin)) return false;
+  return caveDistance(_p.x, _p.y, _p.z) < margin;
+}
+
+/**
+ * How sheltered a position is, 0 (open sky) .. 1 (solid rock overhead):
+ * a few meters under a cave roof is full shelter; an open shaft only
+ * grows dim toward the bottom. Darkness and the wind both read it.
+ */
+export function caveShelter(position: THREE.Vector3): number {
+  if (!network || !caveReaches(position, 0)) return 0;
+  const r = position.length();
+  const surface = getPlanetHeight(position, PLANET_RADIUS);
+  const depth = surface - r;
+  if (depth <= 0) return 0;
+
+  // Rock anywhere straight up means a roof
+  _n.copy(position).divideScalar(r);
+  let roofed = false;
+  for (let h = r + 0.5; h < surface && !roofed; h += 0.5) {
+    _p.copy(_n).multiplyScalar(h);
+    roofed = caveDistance(_p.x, _p.y, _p.z) > 0;
+  }
+  return roofed
+    ? THREE.MathUtils.smoothstep(depth, 0.5, 4)
+    : THREE.MathUtils.smoothstep(depth, 4, 16) * 0.6;
+}
+
+/** Whether a position is inside one of the sealed air pockets. */
+export function inAirPocket(position: THREE.Vector3): boolean {
+  if (!network) return false;
+  return network.chambers.some(
+    ({ center: c, radius, kind }) =>
+      kind === "pocket" &&
+      (position.x - c.x) ** 2 + (position.y - c.y) ** 2 + (position.z - c.z) ** 2 < radius * radius,
+  );
+}
+
+const FLOOR_STEP = 0.25;
+
+/** Whether the point at `h` m out along the unit direction `dir` is cave air. */
+function openAt(dir: THREE.Vector3, h: number): boolean {
+  _p.copy(dir).multiplyScalar(h);
+  return caveDistance(_p.x, _p.y, _p.z) < 0;
+}
+
+/** Given air at `hi` and rock at `lo` (along `dir`), bisect to the floor between. */
+function bisectFloor(dir: THREE.Vector3, lo: number, hi: number): number {
+  for (let i = 0; i < 10; i++) {
+    const mid = (lo + hi) / 2;
+    if (openAt(dir, mid)) hi = mid;
+    else lo = mid;
+  }
+  return hi;
+}
+
+/**
+ * Distance from the planet center to the lowest cave floor in direction
+ * `dir`, or null when there are no caves below it.
+ */
+export function caveFloor(dir: THREE.Vector3): number | null {
+  if (!network) return null;
+  _n.copy(dir).normalize();
+  const top = getPlanetHeight(_n, PLANET_RADIUS);
+  const bottom = Math.hypot(network.center.x, network.center.y, network.center.z) - network.reach;
+  let floor: number | null = null;
+  let wasOpen = false;
+  for (let h = top; h > bottom; h -= FLOOR_STEP) {
+    const isOpen = openAt(_n, h);
+    // Open above, rock below
+    if (wasOpen && !isOpen) floor = bisectFloor(_n, h, h + FLOOR_STEP);
+    wasOpen = isOpen;
+  }
+  return floor;
+}
+
+/**
+ * Distance from the planet center to the cave floor right under a point in
+ * cave air (the first rock below it), or null when the point is in rock.
+ */
+export function caveFloorBelow(point: THREE.Vector3): number | null {
+  if (!network) return null;
+  const r = point.length();
+  _n.copy(point).divideScalar(r);
+  if (!openAt(_n, r)) return null;
+  for (let h = r - FLOOR_STEP; h > 0; h -= FLOOR_STEP) {
+    if (!openAt(_n, h)) return bisectFloor(_n, h, h + FLOOR_STEP);
+  }
+  return null;
+}
+
+/** Unit normal of the cave wall nearest a point, pointing into open air. */
+export function caveNormal(position: Vec3, out: THREE.Vector3): THREE.Vector3 {
+  const E = 0.1;
+  const { x, y, z } = position;
+  return out
+    .set(
+      caveDistance(x - E, y, z) - caveDistance(x + E, y, z),
+      caveDistance(x, y - E, z) - caveDistance(x, y + E, z),
+      caveDistance(x, y, z - E) - caveDistance(x, y, z + E),
+    )
+    .normalize();
+}
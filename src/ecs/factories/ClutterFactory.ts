@@ -0,0 +1,175 @@
+import * as THREE from "three";
+import RAPIER from "@dimforge/rapier3d-compat";
+import { renderer } from "../../core/Renderer";
+import { physicsManager } from "../../managers/PhysicsManager";
+import { getPlanetHeight } from "./PlanetFactory";
+import { queryTerrain, type Biome } from "./Terrain";
+import { BEACON_DIRECTIONS } from "./BeaconFactory";
+import { isCaveMouth } from "./Caves";
+import { seedStream } from "../../core/WorldSeed";
+
+function mulberry32(seed: number) {
+  return () => {
+    seed |= 0;
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Every rock's collider: where it sits and its radius (the nav grid routes round them). */
+export const ROCKS: { position: THREE.Vector3; radius: number }[] = [];
+
+/**
+ * Scatter rock formations across the spherical surface.
+ * Keeps the landing zone and beacon sites clear.
+ *
+ * Seeded RNG: rocks carry colliders, so they must land in the same places
+ * every run or recorded replays drift the moment the player brushes one.
+ */
+export function createWorldClutter(planetRadius: number) {
+  const rand = mulberry32(seedStream(2024));
+  const count = 160;
+  ROCKS.length = 0;
+
+  const geometries = [
+    new THREE.DodecahedronGeometry(1.0, 0),
+    new THREE.OctahedronGeometry(1.2, 0),
+    new THREE.TetrahedronGeometry(1.4, 0),
+  ];
+
+  const material = new THREE.MeshStandardMaterial({
+    color: 0x8a6a52,
+    roughness: 0.9,
+    metalness: 0.05,
+    flatShading: true,
+  });
+
+  const rocksPerType = Math.floor(count / geometries.length);
+  const dummy = new THREE.Object3D();
+  const pole = new THREE.Vector3(0, 1, 0);
+
+  const isClearOf = (dir: THREE.Vector3) => {
+    if (dir.dot(pole) > 0.95) return false; // landing zone
+    for (const beaconDir of BEACON_DIRECTIONS) {
+      if (dir.dot(beaconDir) > 0.997) return false; // ~15m around each beacon
+    }
+    return !isCaveMouth(dir, 3); // nothing floating over (or plugging) the caves
+
+  };
+
+  geometries.forEach((geo) => {
+    const mesh = new THREE.InstancedMesh(geo, material, rocksPerType);
+
+    for (let i = 0; i < rocksPerType; i++) {
+      let dir;
+      do {
+        dir = new THREE.Vector3(
+          rand() - 0.5,
+          rand() - 0.5,
+          rand() - 0.5
+        ).normalize();
+      } while (!isClearOf(dir));
+
+      const height = getPlanetHeight(dir, planetRadius);
+      const pos = dir.clone().multiplyScalar(height);
+
+      dummy.position.set(pos.x, pos.y, pos.z);
+
+      const uprightQuat = new THREE.Quaternion().setFromUnitVectors(new THREE.Vector3(0, 1, 0), dir);
+      dummy.quaternion.copy(uprightQuat);
+
+      dummy.rotateY(rand() * Math.PI * 2);
+      dummy.rotateX((rand() - 0.5) * 0.3);
+      dummy.rotateZ((rand() - 0.5) * 0.3);
+
+      const scale = 0.4 + rand() * 1.8;
+      dummy.scale.setScalar(scale);
+      dummy.updateMatrix();
+      mesh.setMatrixAt(i, dummy.matrix);
+
+      // Physical collider for each rock
+      const rigidBodyDesc = RAPIER.RigidBodyDesc.fixed()
+        .setTranslation(pos.x, pos.y, pos.z)
+        .setRotation(uprightQuat);
+      const rockBody = physicsManager.world.createRigidBody(rigidBodyDesc);
+      const colliderDesc = RAPIER.ColliderDesc.ball(scale * 0.75);
+      physicsManager.world.createCollider(colliderDesc, rockBody);
+      ROCKS.push({ position: pos, radius: scale * 0.75 });
+    }
+
+    mesh.castShadow = true;
+    mesh.receiveShadow = true;
+    renderer.scene.add(mesh);
+  });
+
+  // Emissive crystal clusters — night-side landmarks and pure eye candy.
+  // Visual only: no colliders, players walk straight through. They grow on
+  // open ground and the Scar's walls, never on cliffs, peaks or silt.
+  const CRYSTAL_GROUND = new Set<Biome>(["plains", "range", "scar"]);
+  const crystalGeo = new THREE.ConeGeometry(0.22, 1.4, 5);
+  const crystalMat = new THREE.MeshStandardMaterial({
+    color: 0x8844cc,
+    emissive: 0xaa55ff,
+    emissiveIntensity: 1.3,
+    roughness: 0.2,
+    metalness: 0.1,
+    flatShading: true,
+  });
+
+  const clusterCount = 22;
+  const crystalsPerCluster = 5;
+  const crystalMesh = new THREE.InstancedMesh(
+    crystalGeo,
+    crystalMat,
+    clusterCount * crystalsPerCluster,
+  );
+
+  let ci = 0;
+  for (let c = 0; c < clusterCount; c++) {
+    let dir;
+    do {
+      dir = new THREE.Vector3(
+        rand() - 0.5,
+        rand() - 0.5,
+        rand() - 0.5,
+      ).normalize();
+    } while (!isClearOf(dir) || !CRYSTAL_GROUND.has(queryTerrain(dir).biome));
+
+    const clusterUpright = new THREE.Quaternion().setFromUnitVectors(
+      new THREE.Vector3(0, 1, 0),
+      dir,
+    );
+
+    for (let k = 0; k < crystalsPerCluster; k++) {
+      // Jitter each shard around the cluster center along the surface
+      const jitter = dir
+        .clone()
+        .add(
+          new THREE.Vector3(
+            (rand() - 0.5) * 0.012,
+            (rand() - 0.5) * 0.012,
+            (rand() - 0.5) * 0.012,
+          ),
+        )
+        .normalize();
+      const height = getPlanetHeight(jitter, planetRadius);
+      const pos = jitter.clone().multiplyScalar(height + 0.2);
+
+      dummy.position.copy(pos);
+      dummy.quaternion.copy(clusterUpright);
+      dummy.rotateX((rand() - 0.5) * 0.9);
+      dummy.rotateZ((rand() - 0.5) * 0.9);
+      dummy.scale.set(
+        0.7 + rand() * 0.6,
+        0.6 + rand() * 1.3,
+        0.7 + rand() * 0.6,
+      );
+      dummy.updateMatrix();
+      crystalMesh.setMatrixAt(ci++, dummy.matrix);
+    }
+  }
+  crystalMesh.castShadow = true;
+  renderer.scene.add(crystalMesh);
+}
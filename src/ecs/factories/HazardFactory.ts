@@ -1,6 +1,26 @@
 import * as THREE from "three";
 import { world, queries } from "../World";
 import { renderer } from "../../core/Renderer";
+import { seedStream } from "../../core/WorldSeed";
+
+function mulberry32(seed: number) {
+  return () => {
+    seed |= 0;
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Vent sites (unit directions). Relocated by WorldLayout for non-default seeds. */
+export const HAZARD_DIRECTIONS = [
+  new THREE.Vector3(0.15, 0.8, 0.1).normalize(),
+  new THREE.Vector3(-0.1, -0.7, -0.15).normalize(),
+  new THREE.Vector3(-0.5, 0.2, 0.5).normalize(),
+  new THREE.Vector3(0.5, -0.2, -0.5).normalize(),
+  new THREE.Vector3(-0.32, 0.5, -0.8).normalize(),
+];
 
 /**
  * Creates toxic gas vents scattered across the planet surface in 5 distinct directions.
@@ -10,18 +30,15 @@ export function createHazards(
   planetRadius: number,
   getPlanetHeightFn: (dir: THREE.Vector3, radius: number) => number,
 ) {
-  const directions = [
-    new THREE.Vector3(0.15, 0.8, 0.1).normalize(),
-    new THREE.Vector3(-0.1, -0.7, -0.15).normalize(),
-    new THREE.Vector3(-0.5, 0.2, 0.5).normalize(),
-    new THREE.Vector3(0.5, -0.2, -0.5).normalize(),
-    new THREE.Vector3(-0.32, 0.5, -0.8).normalize(),
-  ];
+  const directions = HAZARD_DIRECTIONS;
+
+  // Seeded: vent radius is gameplay (the drain zone), so it can't vary per run
+  const rand = mulberry32(seedStream(555));
 
   directions.forEach((dir, index) => {
     const height = getPlanetHeightFn(dir, planetRadius);
     const pos = dir.clone().multiplyScalar(height);
-    createHazard({ x: pos.x, y: pos.y, z: pos.z }, dir, index);
+    createHazard({ x: pos.x, y: pos.y, z: pos.z }, dir, index, rand);
   });
 }
 
@@ -29,6 +46,7 @@ function createHazard(
   position: { x: number; y: number; z: number },
   normal: THREE.Vector3,
   index: number,
+  rand: () => number,
 ) {
   const group = new THREE.Group();
   group.position.set(position.x, position.y, position.z);
@@ -37,7 +55,7 @@ function createHazard(
   const uprightQuat = new THREE.Quaternion().setFromUnitVectors(new THREE.Vector3(0, 1, 0), normal);
   group.quaternion.copy(uprightQuat);
 
-  const radius = 6 + Math.random() * 4;
+  const radius = 6 + rand() * 4;
 
   // Ground glow disc
   const discGeo = new THREE.CircleGeometry(radius, 32);
@@ -66,9 +84,9 @@ function createHazard(
 
   // Gas particle columns (simple rising cylinders)
   for (let i = 0; i < 5; i++) {
-    const angle = (i / 5) * Math.PI * 2 + Math.random();
-    const dist = radius * 0.3 + Math.random() * radius * 0.4;
-    const gasGeo = new THREE.CylinderGeometry(0.15, 0.4, 3 + Math.random() * 2, 6, 1, true);
+    const angle = (i / 5) * Math.PI * 2 + rand();
+    const dist = radius * 0.3 + rand() * radius * 0.4;
+    const gasGeo = new THREE.CylinderGeometry(0.15, 0.4, 3 + rand() * 2, 6, 1, true);
     const gasMat = new THREE.MeshBasicMaterial({
       color: 0x99ff22,
       transparent: true,
@@ -78,7 +96,7 @@ function createHazard(
     const gas = new THREE.Mesh(gasGeo, gasMat);
     gas.position.set(
       Math.cos(angle) * dist,
-      1.5 + Math.random(),
+      1.5 + rand(),
       Math.sin(angle) * dist,
     );
     group.add(gas);
@@ -0,0 +1,383 @@
+import * as THREE from "three";
+import { mergeVertices } from "three/addons/utils/BufferGeometryUtils.js";
+import { getPlanetHeight } from "./PlanetFactory";
+import { ROCKS } from "./ClutterFactory";
+import { queries } from "../World";
+
+/**
+ * The navigation grid surface creatures route on: a geodesic grid (the
+ * vertices of a subdivided icosahedron, ~3.3m apart on the 200m planet)
+ * with an edge to each of a node's six neighbors.
+ *
+ * Built once with the world, from what is already there:
+ * - rocks block the nodes under and round them, so no route brushes one,
+ * - an edge up or down a grade steeper than MAX_GRADE is no edge at all,
+ *   and gentler ones cost more the steeper they are (mountain faces),
+ * - nodes in and around a toxic vent cost several times their length, so
+ *   a route goes round unless round is much farther.
+ *
+ * `findPath` is a capped A* over it. Heights are the terrain at build time:
+ * a crater blown later is too shallow to change a route.
+ */
+
+const SUBDIVISIONS = 71; // 72 segments per icosahedron edge → 51,842 nodes
+
+const CLEARANCE = 0.6; // m: half a creature's width, kept off a rock
+const MAX_GRADE = 0.75; // rise over run (~37°): steeper is a wall to them
+const GRADE_COST = 3; // extra cost per unit of grade
+const VENT_MARGIN = 2; // m round a vent's drain zone also avoided
+const VENT_COST = 6; // × length through a vent
+const MAX_EXPAND = 2000; // nodes an A* may settle before it gives up
+
+export interface NavGrid {
+  radius: number;
+  count: number;
+  /** Unit directions, xyz per node. */
+  dirs: Float32Array;
+  /** Ground height (distance from the center) per node. */
+  heights: Float32Array;
+  /** 1 where a rock is in the way. */
+  blocked: Uint8Array;
+  /** Cost multiplier for entering a node (vents). */
+  cost: Float32Array;
+  /** Neighbors of node i: adjacency[adjacencyStart[i] .. adjacencyStart[i + 1]). */
+  adjacencyStart: Int32Array;
+  adjacency: Int32Array;
+  /** Cost of each adjacency entry (Infinity: too steep). */
+  edgeCost: Float32Array;
+  /** Node spacing, as an angle. */
+  spacing: number;
+}
+
+let grid: NavGrid | null = null;
+// Direction → nodes lookup: a hash of cubic cells one spacing wide
+let buckets = new Map<number, number[]>();
+let cellSize = 1;
+
+/** The grid, once the world is built (null before). */
+export function getNavGrid(): NavGrid | null {
+  return grid;
+}
+
+const cellKey = (x: number, y: number, z: number) => ((x + 512) * 1024 + (y + 512)) * 1024 + (z + 512);
+
+/** Build the grid over the generated world. Call after the rocks and vents exist. */
+export function createNavGrid(planetRadius: number) {
+  const ico = new THREE.IcosahedronGeometry(1, SUBDIVISIONS);
+  ico.deleteAttribute("normal");
+  ico.deleteAttribute("uv");
+  const merged = mergeVertices(ico);
+  ico.dispose();
+  const positions = merged.getAttribute("position");
+  const index = merged.getIndex()!;
+  const count = positions.count;
+
+  const dirs = new Float32Array(count * 3);
+  const heights = new Float32Array(count);
+  const dir = new THREE.Vector3();
+  for (let i = 0; i < count; i++) {
+    dir.fromBufferAttribute(positions, i).normalize();
+    dirs[i * 3] = dir.x;
+    dirs[i * 3 + 1] = dir.y;
+    dirs[i * 3 + 2] = dir.z;
+    heights[i] = getPlanetHeight(dir, planetRadius);
+  }
+
+  // Neighbors from the triangles (each edge is shared by two)
+  const neighbors: number[][] = Array.from({ length: count }, () => []);
+  const link = (a: number, b: number) => {
+    if (!neighbors[a].includes(b)) neighbors[a].push(b);
+    if (!neighbors[b].includes(a)) neighbors[b].push(a);
+  };
+  for (let t = 0; t < index.count; t += 3) {
+    const a = index.getX(t);
+    const b = index.getX(t + 1);
+    const c = index.getX(t + 2);
+    link(a, b);
+    link(b, c);
+    link(c, a);
+  }
+  merged.dispose();
+
+  const adjacencyStart = new Int32Array(count + 1);
+  for (let i = 0; i < count; i++) adjacencyStart[i + 1] = adjacencyStart[i] + neighbors[i].length;
+  const adjacency = new Int32Array(adjacencyStart[count]);
+  const edgeCost = new Float32Array(adjacencyStart[count]);
+  let spacing = 0;
+  for (let i = 0; i < count; i++) {
+    let k = adjacencyStart[i];
+    for (const j of neighbors[i]) {
+      const angle = angleBetween(dirs, i, j);
+      const run = angle * planetRadius;
+      const grade = Math.abs(heights[j] - heights[i]) / run;
+      adjacency[k] = j;
+      edgeCost[k++] = grade > MAX_GRADE ? Infinity : run * (1 + grade * GRADE_COST);
+      spacing += angle;
+    }
+  }
+  spacing /= adjacency.length;
+
+  grid = {
+    radius: planetRadius,
+    count,
+    dirs,
+    heights,
+    blocked: new Uint8Array(count),
+    cost: new Float32Array(count).fill(1),
+    adjacencyStart,
+    adjacency,
+    edgeCost,
+    spacing,
+  };
+
+  cellSize = spacing;
+  buckets = new Map();
+  for (let i = 0; i < count; i++) {
+    const key = cellKey(
+      Math.floor(dirs[i * 3] / cellSize),
+      Math.floor(dirs[i * 3 + 1] / cellSize),
+      Math.floor(dirs[i * 3 + 2] / cellSize),
+    );
+    const bucket = buckets.get(key);
+    if (bucket) bucket.push(i);
+    else buckets.set(key, [i]);
+  }
+
+  // Rocks: the nodes near enough that a route between open ones could
+  // clip them, and always the one nearest
+  const reach = CLEARANCE + (spacing * planetRadius) / 2;
+  for (const rock of ROCKS) {
+    grid.blocked[nearestNode(rock.position)] = 1;
+    nodesNear(rock.position, rock.radius + reach, (i) => (grid!.blocked[i] = 1));
+  }
+
+  // Vents: everything within the drain zone plus a margin
+  for (const { object3d, hazard } of queries.hazards) {
+    const reach = Math.cos((hazard.radius + VENT_MARGIN) / planetRadius);
+    dir.copy(object3d.position).normalize();
+    for (let i = 0; i < count; i++) {
+      if (dirs[i * 3] * dir.x + dirs[i * 3 + 1] * dir.y + dirs[i * 3 + 2] * dir.z >= reach) {
+        grid.cost[i] = VENT_COST;
+      }
+    }
+  }
+}
+
+function angleBetween(dirs: Float32Array, a: number, b: number): number {
+  const dot = dirs[a * 3] * dirs[b * 3] + dirs[a * 3 + 1] * dirs[b * 3 + 1] + dirs[a * 3 + 2] * dirs[b * 3 + 2];
+  return Math.acos(Math.min(1, Math.max(-1, dot)));
+}
+
+/**
+ * Visit the cells round a direction (any length), `span` cells out each
+ * way, calling `visit` with each node in them.
+ */
+function forEachCandidate(direction: THREE.Vector3, visit: (node: number) => void, span = 1) {
+  const len = direction.length();
+  const cx = Math.floor(direction.x / len / cellSize);
+  const cy = Math.floor(direction.y / len / cellSize);
+  const cz = Math.floor(direction.z / len / cellSize);
+  for (let x = cx - span; x <= cx + span; x++) {
+    for (let y = cy - span; y <= cy + span; y++) {
+      for (let z = cz - span; z <= cz + span; z++) {
+        const bucket = buckets.get(cellKey(x, y, z));
+        if (bucket) for (const node of bucket) visit(node);
+      }
+    }
+  }
+}
+
+/** The node nearest a direction (any length; a world position works). -1 before the grid exists. */
+export function nearestNode(direction: THREE.Vector3): number {
+  if (!grid) return -1;
+  const { dirs } = grid;
+  const len = direction.length();
+  let best = -1;
+  let bestDot = -2;
+  forEachCandidate(direction, (i) => {
+    const dot = (dirs[i * 3] * direction.x + dirs[i * 3 + 1] * direction.y + dirs[i * 3 + 2] * direction.z) / len;
+    if (dot > bestDot) {
+      bestDot = dot;
+      best = i;
+    }
+  });
+  return best;
+}
+
+/** Every node within `range` m of the ground under a direction. */
+function nodesNear(direction: THREE.Vector3, range: number, visit: (node: number) => void) {
+  const { dirs, radius } = grid!;
+  const len = direction.length();
+  const reach = Math.cos(range / radius);
+  forEachCandidate(direction, (i) => {
+    const dot = (dirs[i * 3] * direction.x + dirs[i * 3 + 1] * direction.y + dirs[i * 3 + 2] * direction.z) / len;
+    if (dot >= reach) visit(i);
+  }, Math.ceil(range / radius / cellSize));
+}
+
+/** A node's unit direction, into `out`. */
+export function nodeDirection(node: number, out: THREE.Vector3): THREE.Vector3 {
+  const { dirs } = grid!;
+  return out.set(dirs[node * 3], dirs[node * 3 + 1], dirs[node * 3 + 2]);
+}
+
+/** Whether a creature can stand at a direction: off the rocks (and inside the grid). */
+export function isWalkable(direction: THREE.Vector3): boolean {
+  const node = nearestNode(direction);
+  return node < 0 || grid!.blocked[node] === 0;
+}
+
+// A* scratch, reused across searches: a node's entries are current only
+// while its stamp matches this search's
+let search = 0;
+let stamp = new Uint32Array(0);
+let closed = new Uint32Array(0);
+let gScore = new Float32Array(0);
+let parent = new Int32Array(0);
+// Binary min-heap of (f, node)
+let heapNodes = new Int32Array(0);
+let heapF = new Float32Array(0);
+let heapSize = 0;
+
+function heapPush(node: number, f: number) {
+  let i = heapSize++;
+  while (i > 0) {
+    const up = (i - 1) >> 1;
+    // Ties go to the lower node index: the same search always walks the same way
+    if (heapF[up] < f || (heapF[up] === f && heapNodes[up] < node)) break;
+    heapNodes[i] = heapNodes[up];
+    heapF[i] = heapF[up];
+    i = up;
+  }
+  heapNodes[i] = node;
+  heapF[i] = f;
+}
+
+function heapPop(): number {
+  const top = heapNodes[0];
+  const node = heapNodes[--heapSize];
+  const f = heapF[heapSize];
+  let i = 0;
+  for (;;) {
+    let child = i * 2 + 1;
+    if (child >= heapSize) break;
+    const right = child + 1;
+    if (
+      right < heapSize &&
+      (heapF[right] < heapF[child] || (heapF[right] === heapF[child] && heapNodes[right] < heapNodes[child]))
+    ) {
+      child = right;
+    }
+    if (heapF[child] > f || (heapF[child] === f && heapNodes[child] > node)) break;
+    heapNodes[i] = heapNodes[child];
+    heapF[i] = heapF[child];
+    i = child;
+  }
+  heapNodes[i] = node;
+  heapF[i] = f;
+  return top;
+}
+
+/**
+ * The cheapest route from one direction to another (any length; world
+ * positions work), as the nodes to walk through after the start, the goal
+ * last. When the goal can't be reached — it's on a rock, walled off, or
+ * farther than the search will go — the route ends at the node that got
+ * nearest. Empty before the grid exists or when already there.
+ */
+export function findPath(from: THREE.Vector3, to: THREE.Vector3): number[] {
+  if (!grid) return [];
+  const { count, dirs, blocked, cost, adjacencyStart, adjacency, edgeCost, radius } = grid;
+  if (stamp.length !== count) {
+    stamp = new Uint32Array(count);
+    closed = new Uint32Array(count);
+    gScore = new Float32Array(count);
+    parent = new Int32Array(count);
+    heapNodes = new Int32Array(adjacency.length + 1);
+    heapF = new Float32Array(adjacency.length + 1);
+  }
+  const start = nearestNode(from);
+  const goal = nearestNode(to);
+  if (start < 0 || goal < 0 || start === goal) return [];
+
+  search++;
+  heapSize = 0;
+  // Great-circle distance: never more than the cost, so the route is the cheapest
+  const gx = dirs[goal * 3];
+  const gy = dirs[goal * 3 + 1];
+  const gz = dirs[goal * 3 + 2];
+  const h = (i: number) =>
+    Math.acos(Math.min(1, dirs[i * 3] * gx + dirs[i * 3 + 1] * gy + dirs[i * 3 + 2] * gz)) * radius;
+
+  stamp[start] = search;
+  gScore[start] = 0;
+  parent[start] = -1;
+  heapPush(start, h(start));
+  let nearest = start;
+  let nearestH = h(start);
+  let expanded = 0;
+
+  while (heapSize > 0 && expanded < MAX_EXPAND) {
+    const node = heapPop();
+    if (closed[node] === search) continue;
+    closed[node] = search;
+    expanded++;
+    const left = h(node);
+    if (left < nearestH) {
+      nearest = node;
+      nearestH = left;
+    }
+    if (node === goal) break;
+
+    for (let k = adjacencyStart[node]; k < adjacencyStart[node + 1]; k++) {
+      const next = adjacency[k];
+      if (blocked[next] || closed[next] === search || edgeCost[k] === Infinity) continue;
+      const g = gScore[node] + edgeCost[k] * cost[next];
+      if (stamp[next] === search && g >= gScore[next]) continue;
+      stamp[next] = search;
+      gScore[next] = g;
+      parent[next] = node;
+      heapPush(next, g + h(next));
+    }
+  }
+
+  const path: number[] = [];
+  for (let node = nearest; node !== start; node = parent[node]) path.push(node);
+  return path.reverse();
+}
+
+/**
+ * Debug lines for the grid within `range` m of a position: open edges
+ * green, edges through a vent amber, too-steep edges red, and a red post
+ * on each node a rock blocks. Appended to `vertices`/`colors` (xyz / rgb).
+ */
+export function appendNavGridLines(center: THREE.Vector3, range: number, vertices: number[], colors: number[]) {
+  if (!grid) return;
+  const { count, dirs, heights, blocked, cost, adjacencyStart, adjacency, edgeCost, radius } = grid;
+  const len = center.length();
+  const reach = Math.cos(range / radius);
+  const LIFT = 0.15;
+  const point = (i: number, up = 0) => {
+    const r = heights[i] + LIFT + up;
+    vertices.push(dirs[i * 3] * r, dirs[i * 3 + 1] * r, dirs[i * 3 + 2] * r);
+  };
+  for (let i = 0; i < count; i++) {
+    const dot = (dirs[i * 3] * center.x + dirs[i * 3 + 1] * center.y + dirs[i * 3 + 2] * center.z) / len;
+    if (dot < reach) continue;
+    if (blocked[i]) {
+      point(i);
+      point(i, 1.2);
+      colors.push(1, 0.2, 0.2, 1, 0.2, 0.2);
+      continue;
+    }
+    for (let k = adjacencyStart[i]; k < adjacencyStart[i + 1]; k++) {
+      const j = adjacency[k];
+      if (j < i || blocked[j]) continue; // each edge once
+      point(i);
+      point(j);
+      if (edgeCost[k] === Infinity) colors.push(0.8, 0.15, 0.1, 0.8, 0.15, 0.1);
+      else if (cost[i] > 1 || cost[j] > 1) colors.push(1, 0.6, 0.1, 1, 0.6, 0.1);
+      else colors.push(0.2, 0.55, 0.3, 0.2, 0.55, 0.3);
+    }
+  }
+}
@@ -3,7 +3,10 @@ import { world } from "../World";
 import { renderer } from "../../core/Renderer";
 import { getPlanetHeight } from "./PlanetFactory";
 import { BEACON_DIRECTIONS } from "./BeaconFactory";
+import { caveFloor, isCaveMouth } from "./Caves";
 import { DATA_PADS } from "../../core/MissionData";
+import { seedStream } from "../../core/WorldSeed";
+import { difficulty } from "../../core/Difficulty";
 
 /**
  * Oxygen canisters scattered across the planet. They turn every traverse into
@@ -26,8 +29,16 @@ function mulberry32(seed: number) {
 const PICKUP_COUNT = 26;
 const OXYGEN_AMOUNT = 30;
 
+/**
+ * Canisters on the current difficulty. The field is one seeded sequence, so
+ * a sparser field is a prefix of the standard one and a denser one extends it.
+ */
+export function pickupCount(): number {
+  return Math.round(PICKUP_COUNT * difficulty.pickups);
+}
+
 export function createPickups(planetRadius: number) {
-  const rand = mulberry32(777);
+  const rand = mulberry32(seedStream(777));
   const pole = new THREE.Vector3(0, 1, 0);
 
   // Shared geometry/material across all canisters
@@ -51,8 +62,9 @@ export function createPickups(planetRadius: number) {
     metalness: 0.6,
   });
 
+  const count = pickupCount();
   let placed = 0;
-  while (placed < PICKUP_COUNT) {
+  while (placed < count) {
     const dir = new THREE.Vector3(
       rand() - 0.5,
       rand() - 0.5,
@@ -63,6 +75,7 @@ export function createPickups(planetRadius: number) {
     // stack directly on beacon sites (those already refill).
     if (dir.dot(pole) > 0.9) continue;
     if (BEACON_DIRECTIONS.some((b) => dir.dot(b) > 0.995)) continue;
+    if (isCaveMouth(dir, 2)) continue;
 
     const height = getPlanetHeight(dir, planetRadius);
     const pos = dir.clone().multiplyScalar(height + 0.45);
@@ -129,7 +142,7 @@ export function createO2Shard(position: THREE.Vector3) {
 
   renderer.scene.add(group);
 
-  world.add({
+  return world.add({
     name: `O2Shard_${shardCounter++}`,
     isPickup: true,
     object3d: group,
@@ -165,7 +178,7 @@ export function createDataPads(planetRadius: number) {
 
   DATA_PADS.forEach((pad, i) => {
     const dir = pad.dir.clone();
-    const height = getPlanetHeight(dir, planetRadius);
+    const height = (pad.cave && caveFloor(dir)) || getPlanetHeight(dir, planetRadius);
     const pos = dir.clone().multiplyScalar(height + 0.5);
 
     const group = new THREE.Group();
@@ -0,0 +1,39 @@
+import { setWorldSeed } from "../../core/WorldSeed";
+import { seedTerrain, setTerrainStamps } from "./PlanetTerrain";
+import { setCaveNetwork } from "./Caves";
+import { buildChunkSurface, type ChunkWorkerRequest, type ChunkWorkerResult } from "./PlanetChunks";
+
+/**
+ * Planet chunk worker: builds render chunks (positions, normals, colors) off
+ * the main thread for TerrainSystem's LOD. Seeded with the page's world seed
+ * first and sent every change to the deformation layer, and the cave
+ * network, so its terrain function (and the cave mouth) is the main thread's.
+ */
+
+self.onmessage = (e: MessageEvent<ChunkWorkerRequest>) => {
+  const msg = e.data;
+  if (msg.type === "seed") {
+    setWorldSeed(msg.seed);
+    seedTerrain();
+    return;
+  }
+  if (msg.type === "stamps") {
+    setTerrainStamps(msg.stamps);
+    return;
+  }
+  if (msg.type === "caves") {
+    setCaveNetwork(msg.caves);
+    return;
+  }
+  const surface = buildChunkSurface(msg.chunk, msg.radius, true);
+  const result: ChunkWorkerResult = {
+    id: msg.id,
+    positions: surface.positions,
+    normals: surface.normals!,
+    colors: surface.colors!,
+    indices: surface.indices,
+  };
+  const transfer = [result.positions.buffer, result.normals.buffer, result.colors.buffer];
+  if (result.indices) transfer.push(result.indices.buffer);
+  self.postMessage(result, { transfer });
+};
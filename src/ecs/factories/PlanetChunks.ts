@@ -0,0 +1,325 @@
+import * as THREE from "three";
+import { paintTerrain, sampleTerrain, type TerrainStamp } from "./PlanetTerrain";
+import { caveDistance, caveFloorBelow, caveReaches, type CaveNetwork } from "./Caves";
+
+/**
+ * Planet chunks: the surface cut into a quadtree on a cube sphere. Each of
+ * the cube's six faces is a root chunk; a chunk at `level` is one cell of a
+ * 2^level × 2^level grid on its face, and every chunk, at every level, is
+ * the same CHUNK_RES × CHUNK_RES vertex grid — a deeper chunk is just a
+ * smaller one, so the detail follows the camera (TerrainSystem).
+ *
+ * Vertices sit on one global grid per face and per level, computed from
+ * integers, so neighbouring chunks share their edge vertices bit for bit
+ * (across cube edges too): the physics chunks close without gaps. Like the
+ * terrain function, this module is DOM-free and runs in the chunk worker.
+ *
+ * Where the caves break the surface, a chunk drops the triangles that lie
+ * wholly over the opening and carries its own index list.
+ */
+
+/** Segments along a chunk's edge. */
+export const CHUNK_RES = 16;
+
+/** Deepest level: 9.8m chunks, a vertex every ~0.6m (at R=200). */
+export const MAX_CHUNK_LEVEL = 5;
+
+export interface ChunkAddress {
+  /** Cube face, 0..5 (±X, ±Y, ±Z). */
+  face: number;
+  level: number;
+  /** Cell on the face's 2^level grid. */
+  x: number;
+  y: number;
+}
+
+/** A built chunk surface, ready to upload or to hand to Rapier. */
+export interface ChunkSurface {
+  positions: Float32Array;
+  /** Render chunks only: outward normals and biome colors. */
+  normals?: Float32Array;
+  colors?: Float32Array;
+  /** Only over a cave mouth: the chunk's triangles with the opening cut out. */
+  indices?: Uint32Array;
+}
+
+/** Main thread → chunk worker. */
+export type ChunkWorkerRequest =
+  | { type: "seed"; seed: number }
+  | { type: "stamps"; stamps: TerrainStamp[] }
+  | { type: "caves"; caves: CaveNetwork | null }
+  | { type: "build"; id: number; chunk: ChunkAddress; radius: number };
+
+/** Chunk worker → main thread (buffers transferred). */
+export interface ChunkWorkerResult {
+  id: number;
+  positions: Float32Array;
+  normals: Float32Array;
+  colors: Float32Array;
+  indices?: Uint32Array;
+}
+
+// Face frames: normal, then the face's u and v axes, with u × v = normal so
+// every face winds the same way and one index buffer serves them all.
+const FACES: readonly (readonly [number, number, number])[][] = [
+  [[1, 0, 0], [0, 1, 0], [0, 0, 1]],
+  [[-1, 0, 0], [0, 0, 1], [0, 1, 0]],
+  [[0, 1, 0], [0, 0, 1], [1, 0, 0]],
+  [[0, -1, 0], [1, 0, 0], [0, 0, 1]],
+  [[0, 0, 1], [1, 0, 0], [0, 1, 0]],
+  [[0, 0, -1], [0, 1, 0], [1, 0, 0]],
+];
+
+export const chunkKey = (c: ChunkAddress) => `${c.face}/${c.level}/${c.x}/${c.y}`;
+
+// Tangent warp: evens out cell areas across a face (an unwarped cube sphere
+// crowds its cells 1.7× tighter at the face corners). Exactly odd, and exactly
+// ±1 at the face edges, so faces meeting at an edge share its coordinates.
+const TAN_QUARTER = Math.tan(Math.PI / 4);
+function warp(s: number): number {
+  const w = Math.tan((Math.abs(s) * Math.PI) / 4) / TAN_QUARTER;
+  return s < 0 ? -w : w;
+}
+function unwarp(w: number): number {
+  const s = (Math.atan(Math.abs(w) * TAN_QUARTER) * 4) / Math.PI;
+  return w < 0 ? -s : s;
+}
+
+/** Unit direction for face coordinates (−1..1 across the face, pre-warp). */
+export function faceDirection(face: number, s: number, t: number, out: THREE.Vector3): THREE.Vector3 {
+  const [n, u, v] = FACES[face];
+  const a = warp(s);
+  const b = warp(t);
+  return out
+    .set(n[0] + u[0] * a + v[0] * b, n[1] + u[1] * a + v[1] * b, n[2] + u[2] * a + v[2] * b)
+    .normalize();
+}
+
+/** The chunk at `level` that contains direction `dir` (any length), into `out`. */
+export function locateChunk(dir: THREE.Vector3, level: number, out: ChunkAddress): ChunkAddress {
+  const ax = Math.abs(dir.x);
+  const ay = Math.abs(dir.y);
+  const az = Math.abs(dir.z);
+  let face: number;
+  if (ax >= ay && ax >= az) face = dir.x >= 0 ? 0 : 1;
+  else if (ay >= az) face = dir.y >= 0 ? 2 : 3;
+  else face = dir.z >= 0 ? 4 : 5;
+
+  const [n, u, v] = FACES[face];
+  const depth = dir.x * n[0] + dir.y * n[1] + dir.z * n[2];
+  const s = unwarp((dir.x * u[0] + dir.y * u[1] + dir.z * u[2]) / depth);
+  const t = unwarp((dir.x * v[0] + dir.y * v[1] + dir.z * v[2]) / depth);
+  const cells = 1 << level;
+  out.face = face;
+  out.level = level;
+  out.x = Math.min(cells - 1, Math.floor(((s + 1) / 2) * cells));
+  out.y = Math.min(cells - 1, Math.floor(((t + 1) / 2) * cells));
+  return out;
+}
+
+/** The surface point in the middle of a chunk, for a planet of `radius`. */
+export function chunkCenter(c: ChunkAddress, radius: number, out: THREE.Vector3): THREE.Vector3 {
+  const cells = 1 << c.level;
+  faceDirection(c.face, -1 + (2 * c.x + 1) / cells, -1 + (2 * c.y + 1) / cells, out);
+  return out.multiplyScalar(radius * (1 + sampleTerrain(out.x, out.y, out.z).h));
+}
+
+/** Approximate edge length of a chunk at `level` (m). */
+export function chunkSize(level: number, radius: number): number {
+  return (radius * Math.PI) / 2 / (1 << level);
+}
+
+/** The four quadrants of a chunk, one level down. */
+export function subdivideChunk(c: ChunkAddress): ChunkAddress[] {
+  const level = c.level + 1;
+  const x = c.x * 2;
+  const y = c.y * 2;
+  return [
+    { face: c.face, level, x, y },
+    { face: c.face, level, x: x + 1, y },
+    { face: c.face, level, x, y: y + 1 },
+    { face: c.face, level, x: x + 1, y: y + 1 },
+  ];
+}
+
+const GRID = CHUNK_RES + 1;
+const GRID_VERTS = GRID * GRID;
+const SKIRT_VERTS = CHUNK_RES * 4;
+
+// Border vertices in order around the chunk (counter-clockwise from outside):
+// the skirt hangs one vertex below each.
+const PERIMETER: number[] = [];
+for (let i = 0; i < CHUNK_RES; i++) PERIMETER.push(i);
+for (let j = 0; j < CHUNK_RES; j++) PERIMETER.push(j * GRID + CHUNK_RES);
+for (let i = CHUNK_RES; i > 0; i--) PERIMETER.push(CHUNK_RES * GRID + i);
+for (let j = CHUNK_RES; j > 0; j--) PERIMETER.push(j * GRID);
+
+/**
+ * Triangle indices for a chunk's vertex grid (every chunk shares the layout).
+ * Render chunks add a skirt: a strip hanging from the border that hides the
+ * cracks where a chunk meets a coarser neighbour.
+ */
+export function chunkIndices(skirt: boolean): Uint32Array {
+  const indices: number[] = [];
+  for (let j = 0; j < CHUNK_RES; j++) {
+    for (let i = 0; i < CHUNK_RES; i++) {
+      const a = j * GRID + i;
+      const b = a + 1;
+      const c = a + GRID + 1;
+      const d = a + GRID;
+      indices.push(a, b, c, a, c, d);
+    }
+  }
+  if (skirt) {
+    for (let k = 0; k < SKIRT_VERTS; k++) {
+      const a = PERIMETER[k];
+      const b = PERIMETER[(k + 1) % SKIRT_VERTS];
+      const a2 = GRID_VERTS + k;
+      const b2 = GRID_VERTS + ((k + 1) % SKIRT_VERTS);
+      indices.push(a, a2, b2, a, b2, b);
+    }
+  }
+  return new Uint32Array(indices);
+}
+
+/**
+ * A chunk's triangles minus those over a cave opening (all three corners in
+ * cave air; a skirt vertex goes with the border vertex it hangs from), or
+ * undefined when the chunk keeps the shared index buffer. Corners left in
+ * the air at the opening's edge, with the cave floor just under them, are
+ * let down onto it: where a passage's floor comes up to the surface, the
+ * ground slopes into it instead of overhanging it in a lip.
+ */
+const MOUTH_LIP = 0.75; // m: deepest a corner is let down
+
+function cutCaveMouth(c: ChunkAddress, positions: Float32Array, radius: number, skirt: boolean): Uint32Array | undefined {
+  _dir.fromArray(positions, 0);
+  if (!caveReaches(_dir, chunkSize(c.level, radius) * 1.5)) return undefined;
+  const open = new Uint8Array(GRID_VERTS);
+  let any = false;
+  for (let v = 0; v < GRID_VERTS; v++) {
+    open[v] = caveDistance(positions[v * 3], positions[v * 3 + 1], positions[v * 3 + 2]) < 0 ? 1 : 0;
+    any ||= open[v] === 1;
+  }
+  if (!any) return undefined;
+
+  const isOpen = (v: number) => (v < GRID_VERTS ? open[v] : open[PERIMETER[v - GRID_VERTS]]);
+  const all = chunkIndices(skirt);
+  const kept: number[] = [];
+  const edge = new Set<number>();
+  for (let t = 0; t < all.length; t += 3) {
+    if (isOpen(all[t]) && isOpen(all[t + 1]) && isOpen(all[t + 2])) continue;
+    kept.push(all[t], all[t + 1], all[t + 2]);
+    for (let k = 0; k < 3; k++) if (all[t + k] < GRID_VERTS && open[all[t + k]]) edge.add(all[t + k]);
+  }
+
+  for (const v of edge) {
+    _dir.fromArray(positions, v * 3);
+    const r = _dir.length();
+    const floor = caveFloorBelow(_dir);
+    if (floor === null || r - floor > MOUTH_LIP) continue;
+    _dir.multiplyScalar(floor / r).toArray(positions, v * 3);
+    if (!skirt) continue;
+    const k = PERIMETER.indexOf(v);
+    if (k < 0) continue;
+    // The skirt drops with it
+    _dir.fromArray(positions, (GRID_VERTS + k) * 3);
+    _dir.setLength(_dir.length() - (r - floor)).toArray(positions, (GRID_VERTS + k) * 3);
+  }
+  return new Uint32Array(kept);
+}
+
+const _dir = new THREE.Vector3();
+const _du = new THREE.Vector3();
+const _dv = new THREE.Vector3();
+const _n = new THREE.Vector3();
+const _col = new THREE.Color();
+
+/**
+ * Build a chunk's surface at `radius`. Collision chunks (`render` false) are
+ * the bare vertex grid. Render chunks also get normals — by central
+ * differences over a one-vertex apron, so they match across chunk borders —
+ * biome colors from the shared paint pass, and the skirt.
+ */
+export function buildChunkSurface(c: ChunkAddress, radius: number, render: boolean): ChunkSurface {
+  const cells = 1 << c.level;
+  const segments = cells * CHUNK_RES;
+  const i0 = c.x * CHUNK_RES;
+  const j0 = c.y * CHUNK_RES;
+  // Grid coordinate of global vertex g: exact (dyadic) for every g
+  const coord = (g: number) => -1 + (2 * g) / segments;
+
+  if (!render) {
+    const positions = new Float32Array(GRID_VERTS * 3);
+    for (let j = 0; j < GRID; j++) {
+      for (let i = 0; i < GRID; i++) {
+        faceDirection(c.face, coord(i0 + i), coord(j0 + j), _dir);
+        const h = radius * (1 + sampleTerrain(_dir.x, _dir.y, _dir.z).h);
+        const k = (j * GRID + i) * 3;
+        positions[k] = _dir.x * h;
+        positions[k + 1] = _dir.y * h;
+        positions[k + 2] = _dir.z * h;
+      }
+    }
+    return { positions, indices: cutCaveMouth(c, positions, radius, false) };
+  }
+
+  // Surface points over the grid plus a one-vertex apron, for the normals
+  const APRON = GRID + 2;
+  const points = new Float32Array(APRON * APRON * 3);
+  const dirs = new Float32Array(APRON * APRON * 3);
+  const samples = new Array<ReturnType<typeof sampleTerrain>>(APRON * APRON);
+  for (let j = 0; j < APRON; j++) {
+    for (let i = 0; i < APRON; i++) {
+      faceDirection(c.face, coord(i0 + i - 1), coord(j0 + j - 1), _dir);
+      const s = sampleTerrain(_dir.x, _dir.y, _dir.z);
+      const h = radius * (1 + s.h);
+      const k = j * APRON + i;
+      samples[k] = s;
+      dirs.set([_dir.x, _dir.y, _dir.z], k * 3);
+      points.set([_dir.x * h, _dir.y * h, _dir.z * h], k * 3);
+    }
+  }
+
+  const count = GRID_VERTS + SKIRT_VERTS;
+  const positions = new Float32Array(count * 3);
+  const normals = new Float32Array(count * 3);
+  const colors = new Float32Array(count * 3);
+  const at = (i: number, j: number) => ((j + 1) * APRON + (i + 1)) * 3;
+
+  for (let j = 0; j < GRID; j++) {
+    for (let i = 0; i < GRID; i++) {
+      const p = at(i, j);
+      const r = at(i + 1, j);
+      const l = at(i - 1, j);
+      const u = at(i, j + 1);
+      const d = at(i, j - 1);
+      _du.set(points[r] - points[l], points[r + 1] - points[l + 1], points[r + 2] - points[l + 2]);
+      _dv.set(points[u] - points[d], points[u + 1] - points[d + 1], points[u + 2] - points[d + 2]);
+      _n.crossVectors(_du, _dv).normalize();
+      _dir.set(dirs[p], dirs[p + 1], dirs[p + 2]);
+      paintTerrain(_dir, samples[p / 3], 1 - Math.max(0, _n.dot(_dir)), _col);
+
+      const k = (j * GRID + i) * 3;
+      positions.set([points[p], points[p + 1], points[p + 2]], k);
+      normals.set([_n.x, _n.y, _n.z], k);
+      colors.set([_col.r, _col.g, _col.b], k);
+    }
+  }
+
+  // Skirt: each border vertex again, dropped toward the center. Deep enough
+  // to cover the gap to a neighbour one level coarser.
+  const drop = (chunkSize(c.level, radius) / CHUNK_RES) * 0.5 + 0.5;
+  for (let k = 0; k < SKIRT_VERTS; k++) {
+    const src = PERIMETER[k] * 3;
+    const dst = (GRID_VERTS + k) * 3;
+    _dir.set(positions[src], positions[src + 1], positions[src + 2]);
+    const len = _dir.length();
+    _dir.multiplyScalar((len - drop) / len);
+    positions.set([_dir.x, _dir.y, _dir.z], dst);
+    normals.copyWithin(dst, src, src + 3);
+    colors.copyWithin(dst, src, src + 3);
+  }
+
+  return { positions, normals, colors, indices: cutCaveMouth(c, positions, radius, true) };
+}
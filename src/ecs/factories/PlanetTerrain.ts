@@ -0,0 +1,263 @@
+import * as THREE from "three";
+import { createNoise3D } from "simplex-noise";
+import { DEFAULT_WORLD_SEED, getWorldSeed, seedStream } from "../../core/WorldSeed";
+
+/**
+ * The terrain function: height, region masks and paint color for any
+ * direction from the planet's center. No scene, renderer or physics here —
+ * the planet chunk worker (PlanetChunk.worker.ts) imports this module too,
+ * so the main thread and the worker evaluate the very same surface.
+ */
+
+// Deterministic seed: the same world seed generates the same planet on every
+// load, so beacon routes, spawn safety and terrain tuning are reproducible.
+function mulberry32(seed: number) {
+  return () => {
+    seed |= 0;
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+let noise3D = createNoise3D(mulberry32(DEFAULT_WORLD_SEED));
+
+/**
+ * Terrain v2 — a sculpted place instead of uniform fractal noise.
+ *
+ * The surface is composed of purposeful regions:
+ *  - PLAINS   — gentle dune swells covering most of the planet. Near-flat, so
+ *               traversal is readable and the horizon shows real landmarks.
+ *  - RANGES   — two ridged mountain arcs, masked by continent noise. These are
+ *               the silhouettes you navigate by.
+ *  - THE SCAR — a deep canyon basin carved around a fixed direction, with a
+ *               raised rim. A destination, not decoration.
+ *  - THE MESA — a flattened polar rise where the dropship landed.
+ */
+
+// Where the Scar basin is carved (unit direction from planet center).
+export const SCAR_DIR = new THREE.Vector3(0.62, -0.15, 0.77).normalize();
+
+// Domain offset of the continent-band noise: moves the mountain ranges.
+const BAND_OFFSET = new THREE.Vector3(7.1, -3.2, 1.8);
+
+/**
+ * Seed the terrain from the world seed (see core/WorldSeed). The default
+ * world keeps its hand-placed Scar and ranges; any other seed relocates the
+ * Scar (well clear of the landing mesa) and shifts the mountain bands. Must
+ * run before createPlanet() or any height query.
+ */
+export function seedTerrain() {
+  noise3D = createNoise3D(mulberry32(seedStream(1337)));
+  if (getWorldSeed() === DEFAULT_WORLD_SEED) return;
+
+  const rand = mulberry32(seedStream(4099));
+  // Southern two-thirds of the globe: ≥ ~50° of arc (175m) from the pad
+  do {
+    SCAR_DIR.set(rand() * 2 - 1, rand() * 2 - 1, rand() * 2 - 1);
+  } while (SCAR_DIR.lengthSq() > 1 || SCAR_DIR.lengthSq() < 0.01 || SCAR_DIR.y / SCAR_DIR.length() > 0.6);
+  SCAR_DIR.normalize();
+  BAND_OFFSET.set(rand() * 20 - 10, rand() * 20 - 10, rand() * 20 - 10);
+}
+
+// Maximum relative displacement (fraction of radius), used by shading
+// and the terrain queries' biome cut-offs.
+export const MAX_H = 0.09;
+
+function smoothstep(edge0: number, edge1: number, x: number): number {
+  const t = THREE.MathUtils.clamp((x - edge0) / (edge1 - edge0), 0, 1);
+  return t * t * (3 - 2 * t);
+}
+
+export interface TerrainSample {
+  /** Relative height as a fraction of the base radius. */
+  h: number;
+  /** 0..1 mountain-range mask (continent band × ridge). */
+  mount: number;
+  /** 0..1 how deep inside the Scar basin this point is. */
+  scar: number;
+  /** 0..1 polar landing-mesa blend. */
+  mesa: number;
+  /** 0..1 scorched ground in and around a blast crater. */
+  crater: number;
+  /** 0..1 freshly dug subsoil in a cutter scoop. */
+  dug: number;
+}
+
+// --- Deformation -------------------------------------------------------------
+// A sparse layer of stamps on top of the generated terrain: blast craters
+// (bowl, raised rim, scorch) and cutter scoops (bowl, bare subsoil). The
+// list is owned by TerrainSystem, which keeps the chunk worker's copy and
+// the collider chunks in step with it.
+
+export type StampKind = "crater" | "scoop";
+
+/** One dent in the terrain. Sizes are relative, like the terrain function's. */
+export interface TerrainStamp {
+  kind: StampKind;
+  /** Unit direction of the center. */
+  dir: { x: number; y: number; z: number };
+  /** Bowl radius, radians of arc. */
+  radius: number;
+  /** Depth at the center, fraction of the planet radius. */
+  depth: number;
+}
+
+const CRATER_RIM = 0.3; // rim lift, × depth
+const STAMP_REACH = 1.5; // × radius: the rim runs past the bowl
+
+const stamps: TerrainStamp[] = [];
+const stampReachCos: number[] = [];
+
+/** Replace the deformation layer (TerrainSystem does; nothing else should). */
+export function setTerrainStamps(list: readonly TerrainStamp[]) {
+  stamps.length = 0;
+  stampReachCos.length = 0;
+  for (const stamp of list) {
+    stamps.push(stamp);
+    stampReachCos.push(Math.cos(stamp.radius * STAMP_REACH));
+  }
+}
+
+/** Ring-shaped bump peaking just outside a crater's bowl (t = distance / radius). */
+function rimBump(t: number): number {
+  const u = (t - 1.05) / 0.4;
+  return u >= 1 || u <= -1 ? 0 : (1 - u * u) ** 2;
+}
+
+/** All terrain layers for a unit direction. Single source of truth. */
+export function sampleTerrain(x: number, y: number, z: number): TerrainSample {
+  // Plains: long-wavelength dune swells, ±0.9% of radius (±1.8m at R=200)
+  const plains =
+    noise3D(x * 2.0, y * 2.0, z * 2.0) * 0.6 +
+    noise3D(x * 5.5, y * 5.5, z * 5.5) * 0.28 +
+    noise3D(x * 14.0, y * 14.0, z * 14.0) * 0.12;
+  let h = plains * 0.009;
+
+  // Mountain arcs: sharp ridges confined to continent bands so they read as
+  // two distinct ranges on the horizon instead of planet-wide roughness.
+  const ridgeSample = noise3D(x * 3.0, y * 3.0, z * 3.0);
+  const ridge = (1.0 - Math.abs(ridgeSample)) ** 2.4;
+  const bandSample = noise3D(
+    x * 1.15 + BAND_OFFSET.x,
+    y * 1.15 + BAND_OFFSET.y,
+    z * 1.15 + BAND_OFFSET.z,
+  );
+  const band = smoothstep(0.18, 0.75, bandSample);
+  const mount = ridge * band;
+  // Foothill lift makes ranges rise out of the plains instead of spiking up.
+  h += mount * 0.075 + band * 0.012;
+
+  // The Scar: a bowl carved around SCAR_DIR with a raised rim. Angular radius
+  // ~12.6° (≈44m of surface), depth 4.5% of radius (9m), rim lift 1%.
+  const scarDot = x * SCAR_DIR.x + y * SCAR_DIR.y + z * SCAR_DIR.z;
+  const scar = smoothstep(0.976, 0.994, scarDot);
+  const rim = smoothstep(0.968, 0.977, scarDot) * (1.0 - smoothstep(0.977, 0.986, scarDot));
+  // The basin flattens whatever terrain it cuts through.
+  h = h * (1.0 - scar * 0.85) - scar * 0.045 + rim * 0.01;
+
+  // Rock-scale detail: lumps and ledges a metre or two across, ±12cm on the
+  // plains, rougher on the ranges and the basin walls. Only the nearest LOD
+  // chunks (and the physics chunks) are fine enough to carry it.
+  const grit =
+    noise3D(x * 60.0, y * 60.0, z * 60.0) * 0.65 +
+    noise3D(x * 120.0, y * 120.0, z * 120.0) * 0.35;
+  h += grit * (0.0006 + mount * 0.0012 + scar * 0.0008);
+
+  // Polar mesa: blend everything toward a fixed gentle rise near the pole so
+  // the landing pad sits on believable, flat ground.
+  const mesa = smoothstep(0.985, 0.9965, y); // y == dot(dir, POLE) on unit sphere
+  h = THREE.MathUtils.lerp(h, 0.008, mesa);
+
+  // Deformation stamps, on top of everything (the mesa included)
+  let crater = 0;
+  let dug = 0;
+  for (let i = 0; i < stamps.length; i++) {
+    const stamp = stamps[i];
+    const dot = x * stamp.dir.x + y * stamp.dir.y + z * stamp.dir.z;
+    if (dot <= stampReachCos[i]) continue;
+    const t = Math.acos(Math.min(1, dot)) / stamp.radius;
+    if (t < 1) h -= stamp.depth * (1 - t * t) ** 2;
+    if (stamp.kind === "crater") {
+      h += stamp.depth * CRATER_RIM * rimBump(t);
+      crater = Math.max(crater, 1 - smoothstep(0.6, 1.4, t));
+    } else {
+      dug = Math.max(dug, 1 - smoothstep(0.5, 1.1, t));
+    }
+  }
+
+  return { h, mount, scar, mesa, crater, dug };
+}
+
+/**
+ * Surface distance from the planet center in a given direction.
+ * Sampled on the unit sphere so terrain shape is independent of radius;
+ * shared by the render chunks, the physics chunks and entity placement so
+ * they always agree.
+ */
+export function getPlanetHeight(direction: THREE.Vector3, baseRadius: number): number {
+  const len = direction.length();
+  const s = sampleTerrain(direction.x / len, direction.y / len, direction.z / len);
+  return baseRadius * (1 + s.h);
+}
+
+/**
+ * Terrain layers (height, range/Scar/mesa masks) in a given direction. For
+ * normal, slope and biome as well, use queryTerrain (Terrain.ts).
+ */
+export function sampleTerrainAt(direction: THREE.Vector3): TerrainSample {
+  const len = direction.length();
+  return sampleTerrain(direction.x / len, direction.y / len, direction.z / len);
+}
+
+// --- Biome palette (vertex colors) -----------------------------------------
+// Painted per-vertex instead of triplanar photo textures: art-directed color
+// zones, zero texture fetches, and banding broken by a cheap fragment grain.
+// Albedos are deliberately dark (~0.1–0.25): total scene illumination is
+// ~1.9x, so anything brighter tone-maps to washed-out beige. These values
+// land the lit ground at a saturated mid-tone.
+const COL_PLAINS = new THREE.Color(0.25, 0.14, 0.13); // dusty mauve-rose
+const COL_PLAINS_DARK = new THREE.Color(0.15, 0.09, 0.11); // mottled patches
+const COL_ROCK = new THREE.Color(0.14, 0.095, 0.09); // range rock
+const COL_PEAK = new THREE.Color(0.44, 0.36, 0.31); // pale ash caps
+const COL_CLIFF = new THREE.Color(0.1, 0.075, 0.075); // steep faces
+const COL_SCAR = new THREE.Color(0.1, 0.085, 0.16); // basin slate-violet
+const COL_SCAR_FLOOR = new THREE.Color(0.07, 0.1, 0.12); // cold canyon floor
+const COL_MESA = new THREE.Color(0.19, 0.14, 0.125); // landing mesa
+const COL_SCORCH = new THREE.Color(0.055, 0.045, 0.045); // blast-crater burn
+const COL_SUBSOIL = new THREE.Color(0.32, 0.19, 0.12); // fresh cutter scoop
+
+type Vec3 = { x: number; y: number; z: number };
+
+const mottleNoise = (d: Vec3) => noise3D(d.x * 4.3 + 11.7, d.y * 4.3 - 5.1, d.z * 4.3 + 2.9);
+
+/**
+ * Biome color for the surface in unit direction `dir`, from its terrain
+ * sample and slope (1 − normal·up), into `out`.
+ */
+export function paintTerrain(dir: Vec3, s: TerrainSample, slope: number, out: THREE.Color): THREE.Color {
+  const hNorm = THREE.MathUtils.clamp(s.h / MAX_H, -1, 1);
+
+  // Plains base with large mottled patches so flat ground isn't one flat color
+  const mottle = smoothstep(-0.2, 0.6, mottleNoise(dir));
+  out.copy(COL_PLAINS).lerp(COL_PLAINS_DARK, mottle * 0.55);
+
+  // Mountain rock takes over where ranges rise, snow caps above ~60% height
+  out.lerp(COL_ROCK, smoothstep(0.1, 0.5, s.mount));
+  out.lerp(COL_PEAK, smoothstep(0.55, 0.85, hNorm));
+
+  // Steep faces read as bare cliff regardless of biome
+  out.lerp(COL_CLIFF, smoothstep(0.18, 0.5, slope));
+
+  // Scar basin: cold slate walls, darker floor at full depth
+  out.lerp(COL_SCAR, s.scar * 0.9);
+  out.lerp(COL_SCAR_FLOOR, smoothstep(0.75, 1.0, s.scar));
+
+  // Landing mesa: clean, uniform ground around the pad
+  out.lerp(COL_MESA, s.mesa * 0.8);
+
+  // Deformation: scorched craters, ochre subsoil where the cutter dug
+  out.lerp(COL_SCORCH, s.crater * 0.75);
+  return out.lerp(COL_SUBSOIL, s.dug * 0.7);
+}
@@ -0,0 +1,124 @@
+import * as THREE from "three";
+import { MAX_H, sampleTerrainAt } from "./PlanetTerrain";
+
+/**
+ * Terrain queries: everything about the ground in a direction — surface
+ * height, normal, slope, biome and the region masks — straight from the
+ * terrain function (PlanetTerrain), so there's no raycast and the answer is
+ * the same on the render chunks, the physics chunks and in a headless run.
+ *
+ * Gameplay reads it instead of re-deriving its own rules: the player's
+ * ground (CharacterSystem → footstep audio, dust color, O₂ exertion),
+ * where storm-spawn can vent, where crystals grow.
+ */
+
+const PLANET_RADIUS = 200;
+
+// Normal by central differences this far apart on the surface (m)
+const NORMAL_STEP = 0.5;
+
+/**
+ * Ground type, in the painted palette's terms — plus "cave", the rock floor
+ * underground, which only CharacterSystem sets (queryTerrain reads the
+ * surface).
+ */
+export type Biome = "plains" | "range" | "peak" | "cliff" | "scar" | "scarFloor" | "mesa" | "cave";
+
+export interface TerrainInfo {
+  /** Distance from the planet center to the surface (m). */
+  height: number;
+  /** Height relative to the base radius (fraction of it; negative below). */
+  elevation: number;
+  /** Outward surface normal (unit). */
+  normal: THREE.Vector3;
+  /** 0 on flat ground .. 1 on a vertical face (1 − normal·up, as painted). */
+  slope: number;
+  biome: Biome;
+  /** Region masks, 0..1: mountain ranges, the Scar basin, the landing mesa. */
+  mount: number;
+  scar: number;
+  mesa: number;
+}
+
+export function createTerrainInfo(): TerrainInfo {
+  return {
+    height: 0,
+    elevation: 0,
+    normal: new THREE.Vector3(),
+    slope: 0,
+    biome: "plains",
+    mount: 0,
+    scar: 0,
+    mesa: 0,
+  };
+}
+
+/**
+ * Biome from the region masks, relative height and slope — the cut-offs sit
+ * midway through the paint pass's color blends, so the biome is what the
+ * ground looks like.
+ */
+function classify(info: TerrainInfo): Biome {
+  if (info.mesa > 0.5) return "mesa";
+  if (info.scar > 0.85) return "scarFloor";
+  if (info.scar > 0.4) return "scar";
+  if (info.slope > 0.34) return "cliff";
+  if (info.elevation / MAX_H > 0.7) return "peak";
+  if (info.mount > 0.3) return "range";
+  return "plains";
+}
+
+const _up = new THREE.Vector3();
+const _t1 = new THREE.Vector3();
+const _t2 = new THREE.Vector3();
+const _a = new THREE.Vector3();
+const _b = new THREE.Vector3();
+const _c = new THREE.Vector3();
+const _d = new THREE.Vector3();
+
+function surfacePoint(dir: THREE.Vector3, radius: number, out: THREE.Vector3): THREE.Vector3 {
+  out.copy(dir).normalize();
+  return out.multiplyScalar(radius * (1 + sampleTerrainAt(out).h));
+}
+
+/**
+ * The ground in `direction` (any length; a world position works). Fills
+ * `out` when given — allocation-free for per-tick callers.
+ */
+export function queryTerrain(
+  direction: THREE.Vector3,
+  out: TerrainInfo = createTerrainInfo(),
+  radius = PLANET_RADIUS,
+): TerrainInfo {
+  _up.copy(direction).normalize();
+  const s = sampleTerrainAt(_up);
+  out.elevation = s.h;
+  out.height = radius * (1 + s.h);
+  out.mount = s.mount;
+  out.scar = s.scar;
+  out.mesa = s.mesa;
+
+  // Tangent pair, then the surface either side along each
+  _t1.set(0, 1, 0);
+  if (Math.abs(_up.y) > 0.9) _t1.set(1, 0, 0);
+  _t1.cross(_up).normalize();
+  _t2.crossVectors(_up, _t1);
+  const step = NORMAL_STEP / radius;
+  surfacePoint(_a.copy(_up).addScaledVector(_t1, step), radius, _a);
+  surfacePoint(_b.copy(_up).addScaledVector(_t1, -step), radius, _b);
+  surfacePoint(_c.copy(_up).addScaledVector(_t2, step), radius, _c);
+  surfacePoint(_d.copy(_up).addScaledVector(_t2, -step), radius, _d);
+  _a.sub(_b);
+  _c.sub(_d);
+  out.normal.crossVectors(_a, _c).normalize();
+  if (out.normal.dot(_up) < 0) out.normal.negate();
+
+  out.slope = 1 - Math.max(0, out.normal.dot(_up));
+  out.biome = classify(out);
+  return out;
+}
+
+/** `queryTerrain` over many directions (spawn scans, placement passes). */
+export function queryTerrainBatch(directions: readonly THREE.Vector3[], radius = PLANET_RADIUS): TerrainInfo[] {
+  return directions.map((dir) => queryTerrain(dir, createTerrainInfo(), radius));
+}
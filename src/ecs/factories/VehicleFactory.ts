@@ -0,0 +1,194 @@
+import * as THREE from "three";
+import RAPIER from "@dimforge/rapier3d-compat";
+import { world } from "../World";
+import { renderer } from "../../core/Renderer";
+import { physicsManager } from "../../managers/PhysicsManager";
+import { getPlanetHeight } from "./PlanetFactory";
+import { CACHE_DIR } from "../../core/MissionData";
+import { hullTexture } from "../../utils/ProceduralTexture";
+
+/**
+ * The Meridian surface rover, parked just off the landing pad.
+ *
+ * The body is a kinematic chassis box and each of the four wheels is a
+ * suspension raycast (VehicleSystem). Wheel meshes are children so the
+ * system can spin, steer and drop them onto the ground every frame.
+ */
+
+/** Wheel mount points in chassis space: FL, FR, RL, RR (forward is -Z). */
+export const WHEEL_MOUNTS = [
+  new THREE.Vector3(-1.05, -0.25, -1.25),
+  new THREE.Vector3(1.05, -0.25, -1.25),
+  new THREE.Vector3(-1.05, -0.25, 1.25),
+  new THREE.Vector3(1.05, -0.25, 1.25),
+];
+export const WHEEL_RADIUS = 0.45;
+/** Suspension length at rest, mount to wheel center. */
+export const SUSPENSION_REST = 0.35;
+/** Extra wheel drop below rest before a wheel leaves the ground. */
+export const SUSPENSION_DROOP = 0.3;
+/** Chassis half-extents (the collider). */
+export const CHASSIS = { x: 0.9, y: 0.35, z: 1.6 };
+
+const PARK_DISTANCE = 13; // meters from the pole: off the pad, clear of the ship
+
+export function createRover(planetRadius: number) {
+  // Park on the far side of the pad from the supply cache, nose pointing out
+  // so the first drive leaves the pad instead of ramming the dropship.
+  const pole = new THREE.Vector3(0, 1, 0);
+  const away = CACHE_DIR.clone().projectOnPlane(pole).negate();
+  if (away.lengthSq() < 1e-6) away.set(0, 0, 1);
+  away.normalize();
+  const dir = pole.clone().multiplyScalar(Math.cos(PARK_DISTANCE / planetRadius));
+  dir.addScaledVector(away, Math.sin(PARK_DISTANCE / planetRadius)).normalize();
+
+  const surface = getPlanetHeight(dir, planetRadius);
+  const rideHeight = -WHEEL_MOUNTS[0].y + SUSPENSION_REST + WHEEL_RADIUS;
+  const pos = dir.clone().multiplyScalar(surface + rideHeight);
+
+  // Chassis frame: up = surface normal, forward (-Z) = away from the pad
+  const forward = away.clone().projectOnPlane(dir).normalize();
+  const right = forward.clone().cross(dir).normalize();
+  const rotation = new THREE.Quaternion().setFromRotationMatrix(
+    new THREE.Matrix4().makeBasis(right, dir, forward.clone().negate()),
+  );
+
+  const group = new THREE.Group();
+  group.position.copy(pos);
+  group.quaternion.copy(rotation);
+  const mesh = buildRoverMesh();
+  group.add(mesh);
+  group.userData.wheels = mesh.userData.wheels;
+  group.userData.tailMat = mesh.userData.tailMat;
+  renderer.scene.add(group);
+
+  const rigidBody = physicsManager.world.createRigidBody(
+    RAPIER.RigidBodyDesc.kinematicPositionBased()
+      .setTranslation(pos.x, pos.y, pos.z)
+      .setRotation(rotation),
+  );
+  const collider = physicsManager.world.createCollider(
+    RAPIER.ColliderDesc.cuboid(CHASSIS.x, CHASSIS.y, CHASSIS.z).setFriction(0.4),
+    rigidBody,
+  );
+
+  // Chassis KCC: blocks the rover on rocks and steep walls. The suspension
+  // rays hold it off the ground, so it never needs to climb or snap.
+  const characterController = physicsManager.world.createCharacterController(0.05);
+  characterController.setSlideEnabled(true);
+  characterController.setMaxSlopeClimbAngle(THREE.MathUtils.degToRad(80));
+
+  return world.add({
+    name: "Rover",
+    isVehicle: true,
+    object3d: group,
+    rigidBody,
+    collider,
+    characterController,
+    vehicle: {
+      occupied: false,
+      velocity: { x: 0, y: 0, z: 0 },
+      battery: 100,
+      maxBattery: 100,
+      throttle: 0,
+      steer: 0,
+      wheelSpin: 0,
+      compression: [0, 0, 0, 0],
+      park: {
+        position: { x: pos.x, y: pos.y, z: pos.z },
+        rotation: { x: rotation.x, y: rotation.y, z: rotation.z, w: rotation.w },
+      },
+    },
+  });
+}
+
+/** Procedural rover: flat-bed chassis, open cab with roll cage, mesh wheels. */
+function buildRoverMesh(): THREE.Group {
+  const root = new THREE.Group();
+
+  const hull = hullTexture();
+  const bodyMat = new THREE.MeshStandardMaterial({
+    map: hull.map,
+    bumpMap: hull.bump,
+    bumpScale: 0.015,
+    roughness: 0.5,
+    metalness: 0.65,
+    color: 0xc8ccd2,
+  });
+  const frameMat = new THREE.MeshStandardMaterial({ color: 0x3a4048, roughness: 0.6, metalness: 0.7 });
+  const tireMat = new THREE.MeshStandardMaterial({ color: 0x1c1d20, roughness: 0.95, metalness: 0.1 });
+
+  // Chassis tub
+  const tub = new THREE.Mesh(new THREE.BoxGeometry(1.8, 0.5, 3.2), bodyMat);
+  tub.castShadow = true;
+  tub.receiveShadow = true;
+  root.add(tub);
+
+  // Cargo bed rails at the back, seat block in the middle
+  const bed = new THREE.Mesh(new THREE.BoxGeometry(1.7, 0.25, 1.1), frameMat);
+  bed.position.set(0, 0.37, 0.95);
+  root.add(bed);
+  const seat = new THREE.Mesh(new THREE.BoxGeometry(1.1, 0.45, 0.6), frameMat);
+  seat.position.set(0, 0.45, 0.05);
+  seat.castShadow = true;
+  root.add(seat);
+
+  // Roll cage: two hoops over the cab
+  const barGeo = new THREE.CylinderGeometry(0.04, 0.04, 1.1, 6);
+  for (const z of [-0.55, 0.4]) {
+    for (const x of [-0.8, 0.8]) {
+      const post = new THREE.Mesh(barGeo, frameMat);
+      post.position.set(x, 0.8, z);
+      root.add(post);
+    }
+    const top = new THREE.Mesh(new THREE.CylinderGeometry(0.04, 0.04, 1.6, 6), frameMat);
+    top.rotation.z = Math.PI / 2;
+    top.position.set(0, 1.35, z);
+    root.add(top);
+  }
+
+  // Headlamps (emissive only) and a Meridian-amber light bar
+  const lampMat = new THREE.MeshBasicMaterial({ color: 0xe8f4ff });
+  for (const x of [-0.6, 0.6]) {
+    const lamp = new THREE.Mesh(new THREE.BoxGeometry(0.3, 0.12, 0.05), lampMat);
+    lamp.position.set(x, 0.12, -1.62);
+    root.add(lamp);
+  }
+  const barMat = new THREE.MeshStandardMaterial({
+    color: 0xffaa44,
+    emissive: 0xffaa44,
+    emissiveIntensity: 1.8,
+  });
+  const lightBar = new THREE.Mesh(new THREE.BoxGeometry(1.2, 0.08, 0.1), barMat);
+  lightBar.position.set(0, 1.42, -0.55);
+  root.add(lightBar);
+
+  // Tail lights brighten while braking (VehicleSystem)
+  const tailMat = new THREE.MeshBasicMaterial({ color: 0x661111 });
+  for (const x of [-0.7, 0.7]) {
+    const tail = new THREE.Mesh(new THREE.BoxGeometry(0.25, 0.1, 0.05), tailMat);
+    tail.position.set(x, 0.12, 1.62);
+    root.add(tail);
+  }
+
+  // Wheels: a steer pivot (front only turns) holding a spinning tire
+  const tireGeo = new THREE.CylinderGeometry(WHEEL_RADIUS, WHEEL_RADIUS, 0.36, 16);
+  tireGeo.rotateZ(Math.PI / 2);
+  const hubGeo = new THREE.CylinderGeometry(0.18, 0.18, 0.38, 8);
+  hubGeo.rotateZ(Math.PI / 2);
+  const wheels = WHEEL_MOUNTS.map((mount) => {
+    const pivot = new THREE.Group();
+    pivot.position.copy(mount);
+    pivot.position.y -= SUSPENSION_REST;
+    const tire = new THREE.Mesh(tireGeo, tireMat);
+    tire.castShadow = true;
+    tire.add(new THREE.Mesh(hubGeo, frameMat));
+    pivot.add(tire);
+    root.add(pivot);
+    return pivot;
+  });
+
+  root.userData.wheels = wheels;
+  root.userData.tailMat = tailMat;
+  return root;
+}
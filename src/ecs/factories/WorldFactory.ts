@@ -0,0 +1,157 @@
+import * as THREE from "three";
+import { createPlanet, getPlanetHeight, seedTerrain } from "./PlanetFactory";
+import { layoutWorld } from "./WorldLayout";
+import { createCaves } from "./CaveFactory";
+import { createLandingZone } from "./DropshipFactory";
+import { createWorldClutter } from "./ClutterFactory";
+import { createBeacons } from "./BeaconFactory";
+import { createHazards } from "./HazardFactory";
+import { createPickups, createDataPads, pickupCount } from "./PickupFactory";
+import { createSupplyCache } from "./CacheFactory";
+import { createPlayer } from "./PlayerFactory";
+import { createRover } from "./VehicleFactory";
+import { createNavGrid } from "./NavGrid";
+import { world, queries } from "../World";
+import type { Entity } from "../components";
+import { renderer } from "../../core/Renderer";
+import { physicsManager } from "../../managers/PhysicsManager";
+import { events } from "../../utils/EventBus";
+import { teleportEntity } from "../systems/PhysicsSystem";
+
+// A 200m-radius planet: ~1.25km around the equator. Big enough to feel like
+// a world, small enough that every beacon is a purposeful 1–3 minute traverse
+// against the oxygen clock.
+export const PLANET_RADIUS = 200;
+
+/**
+ * Everything the simulation needs: terrain, landing zone, rock colliders,
+ * gameplay entities and the player. Lights, sky and particles are render-only
+ * and stay in main.ts — the browser and the headless runner share this so
+ * they always generate the same world.
+ */
+export function createWorld() {
+  // --- World Generation (Spherical Planet) ---
+  // The seed shapes the terrain first; the mission layout is placed on it
+  seedTerrain();
+  layoutWorld(PLANET_RADIUS);
+  createCaves(PLANET_RADIUS);
+  createPlanet({ x: 0, y: 0, z: 0 }, PLANET_RADIUS);
+  createLandingZone(PLANET_RADIUS);
+  createWorldClutter(PLANET_RADIUS);
+
+  // Gameplay entities
+  createBeacons(PLANET_RADIUS, getPlanetHeight);
+  createHazards(PLANET_RADIUS, getPlanetHeight);
+  createPickups(PLANET_RADIUS);
+  createSupplyCache(PLANET_RADIUS);
+  createDataPads(PLANET_RADIUS);
+  createRover(PLANET_RADIUS);
+  // Storm-spawn routes: over the terrain, round the rocks and vents above
+  createNavGrid(PLANET_RADIUS);
+
+  // Spawn player on the landing pad next to the dropship. Height is derived
+  // from the pad surface (which sits at pole height − 0.05), not the noise
+  // field under the spawn point, so the capsule always drops cleanly onto it.
+  const poleHeight = getPlanetHeight(new THREE.Vector3(0, 1, 0), PLANET_RADIUS);
+  const spawnDir = new THREE.Vector3(0.02, 1.0, 0.0).normalize();
+  const spawnPos = spawnDir.clone().multiplyScalar(poleHeight + 1.5);
+  return createPlayer({ x: spawnPos.x, y: spawnPos.y, z: spawnPos.z });
+}
+
+/** Take an entity out of the scene, the physics world and the ECS. */
+function removeEntity(entity: Entity) {
+  if (entity.object3d) {
+    renderer.scene.remove(entity.object3d);
+    entity.object3d.traverse((child) => {
+      const mesh = child as THREE.Mesh;
+      mesh.geometry?.dispose();
+      const mat = mesh.material;
+      if (Array.isArray(mat)) mat.forEach((m) => m.dispose());
+      else mat?.dispose();
+    });
+  }
+  if (entity.rigidBody) physicsManager.world.removeRigidBody(entity.rigidBody);
+  world.remove(entity);
+}
+
+/**
+ * In-place restart: respawn what a run consumes (relays, canisters, data
+ * pads, dropped shards), stand the dropship back on its pad, park the rover
+ * with a full battery and put the player back at the spawn point with a
+ * fresh suit. Terrain, rock colliders
+ * and the renderer are untouched — nothing is re-downloaded or rebuilt.
+ */
+export function resetWorld() {
+  for (const entity of [...queries.beacons.entities, ...queries.pickups.entities]) {
+    removeEntity(entity);
+  }
+  createBeacons(PLANET_RADIUS, getPlanetHeight);
+  createPickups(PLANET_RADIUS);
+  createDataPads(PLANET_RADIUS);
+
+  const dropshipEntity = queries.dropships.first;
+  if (dropshipEntity) {
+    dropshipEntity.dropship.activated = false;
+    dropshipEntity.dropship.extractionActive = false;
+    const shipGroup = dropshipEntity.object3d.children.find((c) => c instanceof THREE.Group);
+    if (shipGroup) {
+      const ud = shipGroup.userData;
+      ud.launchT = 0;
+      shipGroup.visible = true;
+      shipGroup.position.y = 0.25;
+      shipGroup.rotation.set(0, 0, 0);
+      if (ud.leftLight) ud.leftLight.intensity = 0;
+      if (ud.rightLight) ud.rightLight.intensity = 0;
+      // Both nozzles share one material
+      ud.leftNozzle?.material.color.setHex(0x0f3b4c);
+    }
+  }
+
+  const rover = queries.vehicles.first;
+  if (rover) {
+    const v = rover.vehicle;
+    teleportEntity(rover, v.park.position, v.park.rotation);
+    v.occupied = false;
+    v.velocity = { x: 0, y: 0, z: 0 };
+    v.battery = v.maxBattery;
+    v.throttle = 0;
+    v.steer = 0;
+    v.compression = [0, 0, 0, 0];
+  }
+
+  const player = queries.player.first;
+  if (player?.spawnPoint) {
+    const pc = player.playerControl;
+    const { x, y, z } = player.spawnPoint;
+    teleportEntity(player, { x, y, z }, { x: 0, y: 0, z: 0, w: 1 });
+    player.object3d.visible = true;
+    player.collider?.setEnabled(true);
+    pc.seated = false;
+    pc.velocity = { x: 0, y: 0, z: 0 };
+    pc.grounded = false;
+    pc.isSprinting = false;
+    pc.isJetpacking = false;
+    pc.oxygen = pc.maxOxygen;
+    pc.jetpackFuel = pc.maxJetpackFuel;
+    pc.hasCutter = false;
+    if (player.health) player.health.current = player.health.max;
+    // The camera rig re-seeds the default look on its next update
+    pc.yaw = undefined;
+    pc.pitch = undefined;
+    events.emit("player:oxygen:changed", pc.oxygen, pc.maxOxygen);
+    events.emit("player:fuel:changed", pc.jetpackFuel ?? 0, pc.maxJetpackFuel ?? 0);
+    if (player.health) events.emit("player:health:changed", player.health.current, player.health.max);
+  }
+}
+
+events.on("game:restart", resetWorld);
+
+// A new difficulty (start screen, or a save/replay resuming on its own)
+// changes how many canisters the field holds: regenerate it to match.
+events.on("difficulty:changed", () => {
+  if (!queries.player.first) return; // world not generated yet
+  const canisters = queries.pickups.entities.filter((e) => e.name?.startsWith("O2Canister_"));
+  if (canisters.length === pickupCount()) return;
+  canisters.forEach(removeEntity);
+  createPickups(PLANET_RADIUS);
+});
@@ -0,0 +1,261 @@
+import * as THREE from "three";
+import { getPlanetHeight, sampleTerrainAt, SCAR_DIR } from "./PlanetFactory";
+import { BEACON_DIRECTIONS } from "./BeaconFactory";
+import { HAZARD_DIRECTIONS } from "./HazardFactory";
+import { BEACON_ORDER, CACHE_DIR, DATA_PADS } from "../../core/MissionData";
+import { DEFAULT_WORLD_SEED, getWorldSeed, seedStream } from "../../core/WorldSeed";
+
+function mulberry32(seed: number) {
+  return () => {
+    seed |= 0;
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Procedural mission layout for non-default world seeds.
+ *
+ * The hand-tuned world is a run of legs that each ask a little more of the
+ * player: pad → cache 25m, pad → first relay 230m, then 287m and 353m between
+ * relays, and a ~378m evacuation sprint home that the Act III countdown is
+ * tuned for. Here the same legs are rejection-sampled on the seeded terrain:
+ * every site must be open ground (out of the ranges and the Scar, no steep
+ * footing) and every relay leg a walkable great-circle route — no cliff
+ * steps, little mountain — so the compass line is always a legitimate way to
+ * go.
+ *
+ * Sites are written into the shared direction tables (BEACON_DIRECTIONS,
+ * CACHE_DIR, HAZARD_DIRECTIONS, DATA_PADS) that the factories already read.
+ * The default seed keeps its hand-placed layout untouched.
+ */
+
+const PAD_DIR = new THREE.Vector3(0, 1, 0);
+
+/** Relay legs in BEACON_ORDER, surface meters (first one from the pad). */
+const RELAY_LEGS = [230, 287, 353];
+const LEG_TOLERANCE = 0.1;
+/** Final relay → pad: the evac run the Act III countdown was tuned for (~378m). */
+const EVAC_RANGE = [300, 400];
+/** Relays stay this far from each other and from the pad. */
+const RELAY_SPACING = 150;
+/** Each relaxed pass loosens the legs, spacing and evac range by this much more. */
+const RELAX_STEP = 0.5;
+const RELAX_PASSES = 6;
+
+const ROUTE_STEP = 4; // meters between route samples
+const ROUTE_MAX_GRADE = 0.7; // rise/run per step a walker can take (~35°)
+const ROUTE_MAX_CLIFFS = 2; // steeper steps tolerated (jetpack hops)
+const ROUTE_MAX_MOUNTAIN = 0.12; // fraction of the route inside a range
+
+const _t1 = new THREE.Vector3();
+const _t2 = new THREE.Vector3();
+const _a = new THREE.Vector3();
+const _b = new THREE.Vector3();
+
+function arcDistance(a: THREE.Vector3, b: THREE.Vector3, radius: number): number {
+  return Math.acos(THREE.MathUtils.clamp(a.dot(b), -1, 1)) * radius;
+}
+
+/** The direction `distance` meters of surface from `from`, along `bearing`. */
+function offsetDir(
+  from: THREE.Vector3,
+  distance: number,
+  bearing: number,
+  radius: number,
+): THREE.Vector3 {
+  _t1.crossVectors(from, Math.abs(from.y) < 0.9 ? PAD_DIR : _a.set(1, 0, 0)).normalize();
+  _t2.crossVectors(from, _t1);
+  const axis = _t1.multiplyScalar(Math.cos(bearing)).addScaledVector(_t2, Math.sin(bearing));
+  const angle = distance / radius;
+  return from.clone().multiplyScalar(Math.cos(angle)).addScaledVector(axis, Math.sin(angle)).normalize();
+}
+
+/** Open, level ground: out of the ranges and the Scar, no steep footing. */
+function isOpenGround(dir: THREE.Vector3, radius: number): boolean {
+  const s = sampleTerrainAt(dir);
+  if (s.mount > 0.2 || s.scar > 0.05) return false;
+  const h = getPlanetHeight(dir, radius);
+  for (let i = 0; i < 4; i++) {
+    const probe = offsetDir(dir, 2, (i * Math.PI) / 2, radius);
+    if (Math.abs(getPlanetHeight(probe, radius) - h) > 0.7) return false;
+  }
+  return true;
+}
+
+/** Whether the great-circle route a → b is walkable. */
+function isWalkableRoute(a: THREE.Vector3, b: THREE.Vector3, radius: number): boolean {
+  const length = arcDistance(a, b, radius);
+  const steps = Math.ceil(length / ROUTE_STEP);
+  const omega = length / radius;
+  let cliffs = 0;
+  let mountain = 0;
+  let lastH = getPlanetHeight(a, radius);
+
+  for (let i = 1; i <= steps; i++) {
+    // Slerp along the arc
+    const t = i / steps;
+    _b.copy(a).multiplyScalar(Math.sin((1 - t) * omega));
+    _b.addScaledVector(b, Math.sin(t * omega)).normalize();
+    const h = getPlanetHeight(_b, radius);
+    if (Math.abs(h - lastH) > ROUTE_STEP * ROUTE_MAX_GRADE && ++cliffs > ROUTE_MAX_CLIFFS) {
+      return false;
+    }
+    if (sampleTerrainAt(_b).mount > 0.5) mountain++;
+    lastH = h;
+  }
+  return mountain / steps <= ROUTE_MAX_MOUNTAIN;
+}
+
+/** Point a fraction of the way along a → b, pushed sideways off the line. */
+function nearRoute(
+  a: THREE.Vector3,
+  b: THREE.Vector3,
+  t: number,
+  sideways: number,
+  bearing: number,
+  radius: number,
+): THREE.Vector3 {
+  const omega = Math.acos(THREE.MathUtils.clamp(a.dot(b), -1, 1));
+  const onLine = a.clone().multiplyScalar(Math.sin((1 - t) * omega));
+  onLine.addScaledVector(b, Math.sin(t * omega)).normalize();
+  return offsetDir(onLine, sideways, bearing, radius);
+}
+
+/**
+ * Sample `make()` until `accept` holds (up to `tries`); the last candidate
+ * wins if none does, so generation always finishes.
+ */
+function pick(
+  make: () => THREE.Vector3,
+  accept: (dir: THREE.Vector3) => boolean,
+  tries = 60,
+): THREE.Vector3 {
+  let dir = make();
+  for (let i = 1; i < tries && !accept(dir); i++) dir = make();
+  return dir;
+}
+
+/**
+ * Try to chain the three relay legs; null if this attempt dead-ends.
+ * `slack` above 1 loosens the leg lengths, the spacing and the evac range
+ * (never the open-ground check).
+ */
+function chainRelays(
+  rand: () => number,
+  radius: number,
+  checkRoutes: boolean,
+  slack = 1,
+): THREE.Vector3[] | null {
+  const sites: THREE.Vector3[] = [];
+  const tolerance = LEG_TOLERANCE * slack;
+  const spacing = RELAY_SPACING / slack;
+  const evac = [EVAC_RANGE[0] / slack, EVAC_RANGE[1] * slack];
+  let prev = PAD_DIR;
+
+  for (let leg = 0; leg < RELAY_LEGS.length; leg++) {
+    const last = leg === RELAY_LEGS.length - 1;
+    let found: THREE.Vector3 | null = null;
+
+    for (let i = 0; i < 40 && !found; i++) {
+      const length = RELAY_LEGS[leg] * (1 + (rand() * 2 - 1) * tolerance);
+      const dir = offsetDir(prev, length, rand() * Math.PI * 2, radius);
+
+      if (arcDistance(dir, PAD_DIR, radius) < spacing) continue;
+      if (sites.some((s) => arcDistance(dir, s, radius) < spacing)) continue;
+      if (last) {
+        const home = arcDistance(dir, PAD_DIR, radius);
+        if (home < evac[0] || home > evac[1]) continue;
+      }
+      if (!isOpenGround(dir, radius)) continue;
+      if (checkRoutes && !isWalkableRoute(prev, dir, radius)) continue;
+      found = dir;
+    }
+
+    if (!found) return null;
+    sites.push(found);
+    prev = found;
+  }
+  return sites;
+}
+
+/**
+ * Lay out the mission for the current world seed. Runs after seedTerrain()
+ * (placement reads the seeded terrain) and before any entity is created.
+ */
+export function layoutWorld(planetRadius: number) {
+  if (getWorldSeed() === DEFAULT_WORLD_SEED) return;
+  const R = planetRadius;
+  const rand = mulberry32(seedStream(0x1a70));
+  const bearing = () => rand() * Math.PI * 2;
+
+  // Act I: the cache, a short walk off the pad
+  CACHE_DIR.copy(
+    pick(
+      () => offsetDir(PAD_DIR, 22 + rand() * 8, bearing(), R),
+      (d) => isOpenGround(d, R),
+    ),
+  );
+
+  // Act II: the relay chain. Walkable routes first; if this planet is too
+  // rugged for that, settle for open sites at the right distances, then at
+  // looser ones. The hand-placed sites were never checked on this terrain,
+  // so they are never kept.
+  let relays: THREE.Vector3[] | null = null;
+  for (let attempt = 0; attempt < 60 && !relays; attempt++) relays = chainRelays(rand, R, true);
+  for (let attempt = 0; attempt < 60 && !relays; attempt++) relays = chainRelays(rand, R, false);
+  for (let pass = 1; pass <= RELAX_PASSES && !relays; pass++) {
+    for (let attempt = 0; attempt < 60 && !relays; attempt++) {
+      relays = chainRelays(rand, R, false, 1 + pass * RELAX_STEP);
+    }
+  }
+  if (!relays) {
+    console.warn(`World seed ${getWorldSeed()}: no relay chain fits; placing each relay on its own`);
+    let prev = PAD_DIR;
+    relays = RELAY_LEGS.map((length) => {
+      const from = prev;
+      prev = pick(
+        () => offsetDir(from, length, bearing(), R),
+        (d) => isOpenGround(d, R),
+      );
+      return prev;
+    });
+  }
+  relays.forEach((dir, leg) => BEACON_DIRECTIONS[BEACON_ORDER[leg]].copy(dir));
+
+  // Gas vents: one on the plains near the pad, the rest spread out and
+  // clear of every objective
+  const objectives = [PAD_DIR, CACHE_DIR, ...BEACON_DIRECTIONS];
+  const vents: THREE.Vector3[] = [];
+  HAZARD_DIRECTIONS.forEach((vent, index) => {
+    const make = () =>
+      index === 0
+        ? offsetDir(PAD_DIR, 35 + rand() * 25, bearing(), R)
+        : new THREE.Vector3(rand() - 0.5, rand() - 0.5, rand() - 0.5).normalize();
+    const dir = pick(make, (d) => {
+      if (objectives.some((o) => arcDistance(d, o, R) < 30)) return false;
+      if (vents.some((v) => arcDistance(d, v, R) < 80)) return false;
+      return sampleTerrainAt(d).scar < 0.5;
+    });
+    vents.push(dir);
+    vent.copy(dir);
+  });
+
+  // Data pads, at the same kinds of landmark as the hand-placed ones
+  const [first, second, third] = BEACON_ORDER.map((i) => BEACON_DIRECTIONS[i]);
+  const open = (d: THREE.Vector3) => isOpenGround(d, R);
+  const pads = [
+    // On the plains along the route to the first relay
+    pick(() => nearRoute(PAD_DIR, first, 0.6 + rand() * 0.15, 10 + rand() * 15, bearing(), R), open),
+    // Beside a gas vent field
+    pick(() => offsetDir(HAZARD_DIRECTIONS[2], 12 + rand() * 3, bearing(), R), open),
+    // The Scar rim, and the caves under its floor (CaveFactory digs them there)
+    offsetDir(SCAR_DIR, 10 + rand() * 6, bearing(), R),
+    SCAR_DIR.clone(),
+    // Far plains near the last relay leg
+    pick(() => nearRoute(second, third, 0.75 + rand() * 0.15, 10 + rand() * 15, bearing(), R), open),
+  ];
+  pads.forEach((dir, i) => DATA_PADS[i]?.dir.copy(dir));
+}
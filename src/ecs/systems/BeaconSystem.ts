@@ -3,8 +3,12 @@ import { queries } from "../World";
 import { events } from "../../utils/EventBus";
 import { renderer } from "../../core/Renderer";
 import { missionState } from "../../managers/MissionManager";
-import { spawnWave, aliveCreatureCount } from "./CreatureSystem";
+import { spawnWave, spawnBoss, aliveCreatureCount, collapseCreature } from "./CreatureSystem";
 import { audioManager } from "../../managers/AudioManager";
+import { HEADLESS } from "../../core/Headless";
+import { frameTimers } from "../../core/Timers";
+import { waveCount } from "../../core/Difficulty";
+import { CRAWLERS, type WaveMix } from "../creatures";
 
 let totalBeacons = 3;
 let collectedCount = 0;
@@ -14,8 +18,22 @@ let signalStrength = 0;
 // target burns at full so the horizon always tells you where to go next.
 const IDLE_DIM = 0.22;
 
-// Arena escalation: storm-spawn per relay boot, in mission order.
-const WAVE_SIZES = [3, 5, 8];
+// Arena escalation: storm-spawn per relay boot, in mission order (STANDARD;
+// scaled by difficulty.waveSize), and what kinds come. The first relay is
+// crawlers only; the next brings spitters and swarms in. The final relay
+// wakes the storm heart instead of a wave.
+const WAVE_SIZES = [3, 5];
+const WAVE_MIXES: WaveMix[] = [CRAWLERS, { crawler: 3, spitter: 1, swarmer: 1 }];
+// The storm heart: rises this far beyond the node from where you came in,
+// and each new phase (2, 3) vents adds round it
+const BOSS_OFFSET = 11;
+const BOSS_ADDS: Record<number, { size: number; mix: WaveMix }> = {
+  2: { size: 3, mix: { crawler: 3, spitter: 1 } },
+  3: { size: 3, mix: { crawler: 2, swarmer: 1, burrower: 1 } },
+};
+
+const _bossDir = new THREE.Vector3();
+const _away = new THREE.Vector3();
 
 export function updateBeaconSystem(delta: number, elapsed: number) {
   if (queries.player.entities.length === 0) return;
@@ -75,10 +93,15 @@ export function updateBeaconSystem(delta: number, elapsed: number) {
     const dist = playerPos.distanceTo(object3d.position);
 
     if (isCurrent && !beacon.booting && dist < 3.5) {
-      const waveSize = WAVE_SIZES[Math.min(collectedCount, WAVE_SIZES.length - 1)];
+      const waveSize = waveCount(WAVE_SIZES[Math.min(collectedCount, WAVE_SIZES.length - 1)]);
+      const waveMix = WAVE_MIXES[Math.min(collectedCount, WAVE_MIXES.length - 1)];
       if (player.playerControl?.hasCutter) {
         beacon.booting = true;
-        spawnWave(waveSize, object3d.position);
+        if (collectedCount >= totalBeacons - 1) {
+          spawnBoss("stormHeart", bossSite(object3d.position, playerPos));
+        } else {
+          spawnWave(waveSize, object3d.position, waveMix);
+        }
         events.emit(
           "log:message",
           "NODE BOOT SEQUENCE STARTED — HOLD THE AREA",
@@ -91,6 +114,8 @@ export function updateBeaconSystem(delta: number, elapsed: number) {
       beacon.booting = true;
     }
 
+    // With the storm heart up, this waits for it: it's alive until it dies,
+    // and its brood dies with it
     if (beacon.booting && aliveCreatureCount() === 0) {
       // Collect the beacon
       beacon.collected = true;
@@ -102,34 +127,21 @@ export function updateBeaconSystem(delta: number, elapsed: number) {
       if (ud.beam) ud.beam.visible = false;
       if (ud.beamCore) ud.beamCore.visible = false;
 
-      // Collection effect — scale up and fade out
-      const collectAnim = { progress: 0 };
-
-      const animateCollection = () => {
-        collectAnim.progress += 0.02;
-        const p = collectAnim.progress;
-
-        if (p < 1.0) {
-          // Expand and fade
-          const scale = 1.0 + p * 3.0;
-          group.scale.setScalar(scale);
-
-          group.traverse((child) => {
-            if ((child as THREE.Mesh).material) {
-              const mat = (child as THREE.Mesh).material as THREE.Material;
-              if (mat.transparent !== undefined) {
-                mat.opacity = Math.max(0, 1.0 - p);
-              }
+      // Collection effect — scale up and fade out, then leave the scene
+      const expandAndFade = (p: number) => {
+        group.scale.setScalar(1.0 + p * 3.0);
+        group.traverse((child) => {
+          if ((child as THREE.Mesh).material) {
+            const mat = (child as THREE.Mesh).material as THREE.Material;
+            if (mat.transparent !== undefined) {
+              mat.opacity = Math.max(0, 1.0 - p);
             }
-          });
-
-          requestAnimationFrame(animateCollection);
-        } else {
-          // Remove from scene
-          renderer.scene.remove(group);
-        }
+          }
+        });
       };
-      animateCollection();
+      // No render frames headless: drop the node straight away.
+      if (HEADLESS) renderer.scene.remove(group);
+      else frameTimers.tween(0.8, expandAndFade, () => renderer.scene.remove(group));
 
       // Emit events
       events.emit("beacon:collected", collectedCount, totalBeacons);
@@ -159,7 +171,51 @@ export function updateBeaconSystem(delta: number, elapsed: number) {
   }
 }
 
+/** Where the storm heart rises: across the node from the player, on the ground. */
+function bossSite(node: THREE.Vector3, playerPos: THREE.Vector3): THREE.Vector3 {
+  const nodeDir = _bossDir.copy(node).normalize();
+  _away.copy(node).sub(playerPos).projectOnPlane(nodeDir);
+  if (_away.lengthSq() < 1e-6) _away.set(1, 0, 0).projectOnPlane(nodeDir);
+  _away.normalize();
+  return nodeDir.addScaledVector(_away, BOSS_OFFSET / node.length()).normalize().multiplyScalar(node.length());
+}
+
+// Each new phase of the storm heart vents its adds, its brood
+events.on("boss:stage", (stage, position) => {
+  const adds = BOSS_ADDS[stage];
+  if (!adds) return;
+  for (const entity of spawnWave(waveCount(adds.size), position, adds.mix)) entity.creature.brood = true;
+});
+
+// The heart's death takes its brood with it (no kills, no drops): the
+// node can come online
+events.on("boss:defeated", () => {
+  for (const entity of queries.creatures.entities) {
+    if (entity.creature.brood) collapseCreature(entity);
+  }
+  events.emit("log:message", "STORM HEART DESTROYED — ITS BROOD IS COLLAPSING", "success");
+});
+
 export function resetBeaconSystem() {
   collectedCount = 0;
   signalStrength = 0;
+  events.emit("signal:strength:changed", signalStrength);
+}
+
+events.on("game:restart", resetBeaconSystem);
+
+/**
+ * Rebuild the node count and signal from the beacons' collected flags (after
+ * a save restore) and drop collected nodes from the scene.
+ */
+export function syncBeaconProgress() {
+  collectedCount = 0;
+  signalStrength = 0;
+  for (const { beacon, object3d } of queries.beacons) {
+    if (!beacon.collected) continue;
+    collectedCount++;
+    signalStrength = Math.min(100, signalStrength + beacon.signalBoost);
+    renderer.scene.remove(object3d);
+  }
+  events.emit("signal:strength:changed", signalStrength);
 }
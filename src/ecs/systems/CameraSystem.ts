@@ -5,7 +5,9 @@ import { inputManager } from "../../managers/InputManager";
 import { renderer } from "../../core/Renderer";
 import { physicsManager } from "../../managers/PhysicsManager";
 import { events } from "../../utils/EventBus";
+import { HEADLESS } from "../../core/Headless";
 import { cameraSettings, saveCameraSettings, CAMERA_LIMITS } from "../../core/CameraSettings";
+import { caveShelter } from "../factories/Caves";
 
 /**
  * Third-person spherical camera rig, v2.
@@ -22,6 +24,14 @@ import { cameraSettings, saveCameraSettings, CAMERA_LIMITS } from "../../core/Ca
  *  - Collision is a sphere-cast (25cm ball) instead of a ray, so the lens
  *    never clips geometry and small terrain bumps no longer cause pops.
  *  - The look target leads into the movement direction for anticipation.
+ *
+ * While the player drives the rover the rig switches to DRIVE: a longer,
+ * higher boom that swings in behind the rover's heading once the mouse has
+ * been idle for a moment.
+ *
+ * Under a cave roof the on-foot boom shortens and drops toward the
+ * shoulder, so the lens stays in the passage instead of pinning to the
+ * ceiling.
  */
 
 let cameraRig: THREE.Group | null = null;
@@ -42,12 +52,23 @@ const IDENTITY_ROT = { x: 0, y: 0, z: 0, w: 1 };
 
 const HEAD_HEIGHT = 1.8;
 const BASE_SENSITIVITY = 0.0022;
+const STICK_LOOK_RATE = 2.8; // rad/s at full right-stick deflection
 
 // Focus mode: close over-the-shoulder framing.
 const FOCUS_DIST = 2.7;
 const FOCUS_SHOULDER = 0.5;
 const FOCUS_FOV_DELTA = -6;
 
+// Drive mode: chase framing behind the rover.
+const DRIVE_DIST = 8.0;
+const DRIVE_HEAD_HEIGHT = 2.2;
+const DRIVE_FOLLOW_DELAY = 1.2; // seconds of mouse idle before auto-follow
+const DRIVE_FOLLOW_RATE = 2.5;
+
+// Caves: the longest boom and the head height a passage leaves room for
+const CAVE_DIST = 3.2;
+const CAVE_HEAD_HEIGHT = 1.3;
+
 // Sphere-cast lens radius — keeps a real margin between camera and geometry.
 const LENS_RADIUS = 0.25;
 const _lensBall = new RAPIER.Ball(LENS_RADIUS);
@@ -63,8 +84,13 @@ const COLLIDE_OUT_RATE = 3.5;
 let lookVelYaw = 0;
 let lookVelPitch = 0;
 
-// Shoulder offset eases in/out on mode switches.
+// Shoulder offset and head height ease in/out on mode switches.
 let smoothedShoulder = 0;
+let smoothedHead = HEAD_HEIGHT;
+
+// Seconds since the last mouse look (drive auto-follow waits for it).
+let lookIdle = 0;
+let wasSeated = false;
 
 // Landing shake: a decaying wobble kicked by the impact speed.
 let shakeAmp = 0;
@@ -82,6 +108,18 @@ events.on("game:start", () => {
   introRemaining = INTRO_DURATION;
 });
 
+// In-place restart: drop the rig's smoothing history so the new intro
+// doesn't inherit the old run's look momentum or collision pull-in.
+events.on("game:restart", () => {
+  smoothedCamDist = null;
+  smoothedHead = HEAD_HEIGHT;
+  lookIdle = 0;
+  lookVelYaw = 0;
+  lookVelPitch = 0;
+  shakeAmp = 0;
+  shakeTime = 0;
+});
+
 function easeOutCubic(t: number) {
   return 1 - Math.pow(1 - t, 3);
 }
@@ -93,6 +131,12 @@ export function skipIntro() {
 
 const _velV = new THREE.Vector3();
 const _horiz = new THREE.Vector3();
+const _roverFwd = new THREE.Vector3();
+const _rigInv = new THREE.Quaternion();
+
+function modeLabel(mode: string, seated: boolean) {
+  return seated ? "CAM: DRIVE" : `CAM: ${mode.toUpperCase()}`;
+}
 
 export function updateCameraSystem(delta: number) {
   const player = queries.player.first;
@@ -113,41 +157,61 @@ export function updateCameraSystem(delta: number) {
     cameraRig.add(cameraPivot);
     cameraPivot.add(renderer.camera);
     renderer.camera.position.set(0, HEAD_HEIGHT, cameraSettings.distance);
-    modeDisplay = document.getElementById("camera-mode-display");
+    if (!HEADLESS) modeDisplay = document.getElementById("camera-mode-display");
     if (modeDisplay) modeDisplay.textContent = "CAM: EXPLORE";
   }
 
-  // --- Mode toggle (V) ---
+  // --- Mode toggle (V; drive mode overrides while seated) ---
+  const seated = !!playerControl.seated;
+  const rover = seated ? queries.vehicles.first : undefined;
   if (inputManager.consumePressed("camera_mode")) {
     playerControl.cameraMode = playerControl.cameraMode === "Explore" ? "Focus" : "Explore";
-    if (modeDisplay) modeDisplay.textContent = `CAM: ${playerControl.cameraMode.toUpperCase()}`;
+    if (modeDisplay) modeDisplay.textContent = modeLabel(playerControl.cameraMode, seated);
+  }
+  if (seated !== wasSeated) {
+    wasSeated = seated;
+    lookIdle = DRIVE_FOLLOW_DELAY; // swing in behind the rover right away
+    if (modeDisplay) modeDisplay.textContent = modeLabel(playerControl.cameraMode, seated);
   }
 
-  // --- Mouse look: velocity smoothing ---
+  // --- Mouse/stick look: velocity smoothing ---
   // Deltas are converted to angular velocity, damped toward the target, then
-  // integrated — smoothing 0 is 1:1 raw, 1 is a heavy cinematic lag.
-  const sens = BASE_SENSITIVITY * cameraSettings.sensitivity;
-  const invert = cameraSettings.invertY ? -1 : 1;
-  const dt = Math.max(delta, 1e-4);
-  const targetVelYaw = (-inputManager.mouseDelta.x * sens) / dt;
-  const targetVelPitch = (-inputManager.mouseDelta.y * sens * invert) / dt;
-
-  if (cameraSettings.smoothing < 0.02) {
-    lookVelYaw = targetVelYaw;
-    lookVelPitch = targetVelPitch;
-  } else {
-    const rate = THREE.MathUtils.lerp(45, 9, cameraSettings.smoothing);
-    const k = 1 - Math.exp(-rate * dt);
-    lookVelYaw += (targetVelYaw - lookVelYaw) * k;
-    lookVelPitch += (targetVelPitch - lookVelPitch) * k;
-  }
+  // integrated — smoothing 0 is 1:1 raw, 1 is a heavy cinematic lag. The
+  // right stick is already a rate and adds to the same target. Replays set
+  // yaw/pitch directly (the recording holds the post-look values).
+  if (!inputManager.isInjected) {
+    const sens = BASE_SENSITIVITY * cameraSettings.sensitivity;
+    const stickRate = STICK_LOOK_RATE * cameraSettings.sensitivity;
+    const invert = cameraSettings.invertY ? -1 : 1;
+    const dt = Math.max(delta, 1e-4);
+    const stick = inputManager.lookAxis;
+    const targetVelYaw = (-inputManager.mouseDelta.x * sens) / dt - stick.x * stickRate;
+    const targetVelPitch = ((-inputManager.mouseDelta.y * sens) / dt - stick.y * stickRate) * invert;
+
+    if (cameraSettings.smoothing < 0.02) {
+      lookVelYaw = targetVelYaw;
+      lookVelPitch = targetVelPitch;
+    } else {
+      const rate = THREE.MathUtils.lerp(45, 9, cameraSettings.smoothing);
+      const k = 1 - Math.exp(-rate * dt);
+      lookVelYaw += (targetVelYaw - lookVelYaw) * k;
+      lookVelPitch += (targetVelPitch - lookVelPitch) * k;
+    }
 
-  playerControl.yaw += lookVelYaw * dt;
-  playerControl.pitch = THREE.MathUtils.clamp(
-    playerControl.pitch + lookVelPitch * dt,
-    -1.25,
-    1.15,
-  );
+    playerControl.yaw += lookVelYaw * dt;
+    playerControl.pitch = THREE.MathUtils.clamp(
+      playerControl.pitch + lookVelPitch * dt,
+      -1.25,
+      1.15,
+    );
+
+    // Intro descent drifts the view slowly sideways
+    if (introRemaining > 0) playerControl.yaw += delta * 0.1;
+
+    const looking =
+      inputManager.mouseDelta.x !== 0 || inputManager.mouseDelta.y !== 0 || stick.x !== 0 || stick.y !== 0;
+    lookIdle = looking ? 0 : lookIdle + delta;
+  }
 
   // --- Scroll zoom (persists as the Explore boom length) ---
   if (inputManager.scrollDelta !== 0) {
@@ -156,18 +220,27 @@ export function updateCameraSystem(delta: number) {
       CAMERA_LIMITS.distance.min,
       CAMERA_LIMITS.distance.max,
     );
-    saveCameraSettings();
+    // A replay's zoom is the recorder's, not the viewer's preference
+    if (!inputManager.isInjected) saveCameraSettings();
   }
 
   // --- Mode parameters ---
-  const isFocus = playerControl.cameraMode === "Focus";
-  const targetCamDist = isFocus ? FOCUS_DIST : cameraSettings.distance;
+  const isFocus = !seated && playerControl.cameraMode === "Focus";
+  const underground = seated ? 0 : caveShelter(object3d.position);
+  const boom = seated ? DRIVE_DIST : isFocus ? FOCUS_DIST : cameraSettings.distance;
+  const targetCamDist = THREE.MathUtils.lerp(boom, Math.min(boom, CAVE_DIST), underground);
   let camFov = cameraSettings.fov + (isFocus ? FOCUS_FOV_DELTA : 0);
   smoothedShoulder = THREE.MathUtils.lerp(
     smoothedShoulder,
     isFocus ? FOCUS_SHOULDER : 0,
     1 - Math.exp(-8 * delta),
   );
+  smoothedHead = THREE.MathUtils.lerp(
+    smoothedHead,
+    seated ? DRIVE_HEAD_HEIGHT : THREE.MathUtils.lerp(HEAD_HEIGHT, CAVE_HEAD_HEIGHT, underground),
+    1 - Math.exp(-4 * delta),
+  );
+  const headHeight = smoothedHead;
 
   // --- Speed FOV kick: sprinting and jetpacking widen the lens for a sense
   // of velocity; walking stays at the base FOV.
@@ -192,13 +265,26 @@ export function updateCameraSystem(delta: number) {
   _alignQuat.setFromUnitVectors(_rigUp, _normal);
   cameraRig.quaternion.premultiply(_alignQuat);
 
+  // --- Drive auto-follow: ease yaw in behind the rover's heading ---
+  // Skipped under replay: the recording already holds the followed yaw.
+  if (rover && !inputManager.isInjected && lookIdle >= DRIVE_FOLLOW_DELAY) {
+    _roverFwd.set(0, 0, -1).applyQuaternion(rover.object3d.quaternion);
+    _roverFwd.applyQuaternion(_rigInv.copy(cameraRig.quaternion).invert());
+    if (_roverFwd.x * _roverFwd.x + _roverFwd.z * _roverFwd.z > 1e-4) {
+      const targetYaw = Math.atan2(-_roverFwd.x, -_roverFwd.z);
+      let diff = targetYaw - playerControl.yaw;
+      diff = Math.atan2(Math.sin(diff), Math.cos(diff));
+      playerControl.yaw += diff * (1 - Math.exp(-DRIVE_FOLLOW_RATE * delta));
+    }
+  }
+
   cameraPivot.rotation.set(playerControl.pitch, playerControl.yaw, 0, "YXZ");
   cameraRig.updateMatrixWorld(true);
 
   // --- Camera collision: sphere-cast the boom, pull in on hits ---
-  _camLocal.set(smoothedShoulder, HEAD_HEIGHT, targetCamDist);
+  _camLocal.set(smoothedShoulder, headHeight, targetCamDist);
   _camWorld.copy(_camLocal).applyMatrix4(cameraPivot.matrixWorld);
-  _rayOrigin.copy(playerPos).addScaledVector(_normal, HEAD_HEIGHT);
+  _rayOrigin.copy(playerPos).addScaledVector(_normal, headHeight);
   _rayDir.copy(_camWorld).sub(_rayOrigin);
   const rayLen = _rayDir.length();
 
@@ -217,6 +303,8 @@ export function updateCameraSystem(delta: number) {
       undefined,
       undefined,
       rigidBody,
+      // Don't let the rover's own chassis pull the boom in
+      rover ? (c) => c.parent()?.handle !== rover.rigidBody.handle : undefined,
     );
     if (hit) {
       desiredDist = Math.max(0.8, (hit.time_of_impact / rayLen) * targetCamDist);
@@ -243,9 +331,9 @@ export function updateCameraSystem(delta: number) {
     }
   }
 
-  renderer.camera.position.set(smoothedShoulder + shakeX, HEAD_HEIGHT + shakeY, smoothedCamDist);
+  renderer.camera.position.set(smoothedShoulder + shakeX, headHeight + shakeY, smoothedCamDist);
 
-  // --- Intro descent: swoop in from altitude on a diagonal, drifting yaw ---
+  // --- Intro descent: swoop in from altitude on a diagonal ---
   // (diagonal keeps the view direction off the up axis so lookAt never rolls)
   if (introRemaining > 0) {
     introRemaining = Math.max(0, introRemaining - delta);
@@ -253,11 +341,10 @@ export function updateCameraSystem(delta: number) {
     const drop = (1 - easeOutCubic(p)) * INTRO_HEIGHT;
     renderer.camera.position.y += drop;
     renderer.camera.position.z += drop * 0.45;
-    playerControl.yaw += delta * 0.1;
   }
 
   // --- Look target: head position, leading into the movement direction ---
-  _lookAt.set(smoothedShoulder + shakeX * 0.5, HEAD_HEIGHT + shakeY * 0.5, 0);
+  _lookAt.set(smoothedShoulder + shakeX * 0.5, headHeight + shakeY * 0.5, 0);
   cameraPivot.localToWorld(_lookAt);
   _lead.copy(_horiz);
   const leadLen = Math.min(_lead.length() * 0.06, 0.6);
@@ -7,6 +7,9 @@ import { events } from "../../utils/EventBus";
 import { audioManager } from "../../managers/AudioManager";
 import { gameState } from "../../core/GameState";
 import { updateAstronautRig, type AstronautRig } from "../factories/AstronautFactory";
+import { windAt } from "./WeatherSystem";
+import { createTerrainInfo, queryTerrain } from "../factories/Terrain";
+import { caveNormal, caveShelter } from "../factories/Caves";
 
 /**
  * Spherical-gravity kinematic character controller.
@@ -33,6 +36,8 @@ const LANDING_EVENT_SPEED = 5.0; // min impact speed to fire "player:land"
 const JETPACK_DRAIN = 38.0; // fuel per second while thrusting
 const JETPACK_REGEN = 30.0; // fuel per second while grounded
 const JETPACK_MIN_ENGAGE = 10.0; // don't sputter on an empty tank
+const WIND_GRIP = 0.3; // share of storm wind that drags a grounded player (airborne: all of it)
+const FEET_BELOW_CENTER = 0.8; // capsule half-height + radius
 
 // --- Single-player controller state ----------------------------------------
 let jumpBufferTimer = 0;
@@ -54,6 +59,10 @@ const _right = new THREE.Vector3();
 const _moveDir = new THREE.Vector3();
 const _horizontal = new THREE.Vector3();
 const _targetVel = new THREE.Vector3();
+const _wind = new THREE.Vector3();
+const _terrain = createTerrainInfo();
+const _feet = new THREE.Vector3();
+const _floorNormal = new THREE.Vector3();
 const _quat = new THREE.Quaternion();
 const _upright = new THREE.Quaternion();
 const _matrix = new THREE.Matrix4();
@@ -71,6 +80,24 @@ export const charDiag = {
   camForward: { x: 0, y: 0, z: 0 },
 };
 
+/**
+ * Forget per-run controller state (timers, last surface normal, heading) —
+ * after the player is moved somewhere new: restoring a save or restarting.
+ */
+export function resetCharacterSystem() {
+  jumpBufferTimer = 0;
+  coyoteTimer = 0;
+  wasJetpacking = false;
+  hasLastNormal = false;
+  hasHeading = false;
+}
+
+events.on("game:restart", () => {
+  resetCharacterSystem();
+  // A restarted run has no pad settle before game:start (replays read this)
+  charDiag.ticks = 0;
+});
+
 /**
  * Called once per render frame (before the fixed steps) so short key taps
  * are never lost between simulation ticks.
@@ -88,6 +115,8 @@ export function updateCharacterSystem(dt: number) {
 
   const { playerControl, rigidBody, collider, characterController: kcc } = player;
   if (!rigidBody || !collider || !kcc) return;
+  // Driving: the vehicle system carries the player
+  if (playerControl.seated) return;
 
   const t = rigidBody.translation();
   _pos.set(t.x, t.y, t.z);
@@ -105,6 +134,19 @@ export function updateCharacterSystem(dt: number) {
 
   _normal.copy(_pos).normalize();
 
+  // What's underfoot, for footsteps, dust and O₂ exertion: the surface, or
+  // the cave floor when there's rock overhead
+  const ground = (playerControl.ground ??= { biome: "plains", slope: 0 });
+  if (caveShelter(_pos) > 0.5) {
+    caveNormal(_feet.copy(_pos).addScaledVector(_normal, -FEET_BELOW_CENTER), _floorNormal);
+    ground.biome = "cave";
+    ground.slope = 1 - Math.max(0, _floorNormal.dot(_normal));
+  } else {
+    queryTerrain(_pos, _terrain);
+    ground.biome = _terrain.biome;
+    ground.slope = _terrain.slope;
+  }
+
   // --- Timers ---
   jumpBufferTimer = Math.max(0, jumpBufferTimer - dt);
   coyoteTimer = Math.max(0, coyoteTimer - dt);
@@ -138,6 +180,8 @@ export function updateCharacterSystem(dt: number) {
 
   _moveDir.set(0, 0, 0);
   const hasInput = input.x !== 0 || input.z !== 0;
+  // Keys give full speed; a partly deflected stick walks slower
+  const inputScale = Math.min(1, Math.hypot(input.x, input.z));
   if (hasInput) {
     _moveDir.addScaledVector(_right, input.x);
     _moveDir.addScaledVector(_forward, -input.z);
@@ -153,7 +197,10 @@ export function updateCharacterSystem(dt: number) {
   const targetSpeed = isSprinting ? playerControl.sprintSpeed : playerControl.speed;
 
   // Frame-rate-independent exponential acceleration toward the target velocity
-  _targetVel.copy(_moveDir).multiplyScalar(targetSpeed);
+  _targetVel.copy(_moveDir).multiplyScalar(targetSpeed * inputScale);
+  // Storm wind drifts the target: boots grip, a jetpack arc sails
+  windAt(_pos, _wind).projectOnPlane(_normal);
+  _targetVel.addScaledVector(_wind, playerControl.grounded ? WIND_GRIP : 1);
   const accelRate = playerControl.grounded ? GROUND_ACCEL_RATE : AIR_ACCEL_RATE;
   _horizontal.lerp(_targetVel, 1 - Math.exp(-accelRate * dt));
 
@@ -324,5 +371,5 @@ export function updateCharacterVisuals(delta: number) {
     },
     delta,
   );
-  if (footstep) events.emit("player:footstep");
+  if (footstep) events.emit("player:footstep", playerControl.ground?.biome ?? "plains");
 }
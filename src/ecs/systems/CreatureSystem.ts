@@ -5,7 +5,16 @@ import { events } from "../../utils/EventBus";
 import { gameState } from "../../core/GameState";
 import { audioManager } from "../../managers/AudioManager";
 import { getPlanetHeight } from "../factories/PlanetFactory";
+import { createTerrainInfo, queryTerrain } from "../factories/Terrain";
 import { createO2Shard } from "../factories/PickupFactory";
+import { difficulty } from "../../core/Difficulty";
+import { nightFactor } from "./DayNightSystem";
+import { deformTerrain } from "./TerrainSystem";
+import { ARCHETYPES, CRAWLERS, type CreatureType, type WaveMix } from "../creatures";
+import { siphonOxygen } from "../creatures/Behaviors";
+import { clearProjectiles, updateProjectiles } from "../creatures/Projectiles";
+import { clearRoutes, forgetRoute } from "../creatures/Navigation";
+import type { CreatureContext, CreatureEntity } from "../creatures/Archetype";
 import type { Entity } from "../components";
 
 /**
@@ -14,6 +23,11 @@ import type { Entity } from "../components";
  * suit*. Killing one shatters it into oxygen shards, so aggression sustains
  * the player while retreat starves them. That's the game's combat identity.
  *
+ * There are several kinds (crawlers, spitters, burrowers, swarmers), each
+ * an archetype in ecs/creatures: its body, stats, state machine and drop
+ * table. This system runs them all alike — ticks each creature's state,
+ * drains the suit on contact, shatters the dead and pays out their drops.
+ *
  * No physics bodies: creatures are surface-locked and driven analytically
  * (direction-on-sphere + terrain height), which keeps a full wave cheaper
  * than a single ragdoll.
@@ -21,21 +35,14 @@ import type { Entity } from "../components";
 
 const PLANET_RADIUS = 200;
 
-// --- Tuning ---
-const HP = 100;
-const HUNT_SPEED = 5.2; // m/s along the surface (player walks 7, sprints 12)
-const LUNGE_SPEED = 13.0;
-const LUNGE_RANGE = 4.5; // start telegraph inside this range
-const TELEGRAPH_TIME = 0.45; // wind-up — the player's dodge window
-const LUNGE_TIME = 0.45;
-const BURROW_TIME = 0.9; // rise-from-ground intro
 const DIE_TIME = 0.45;
-const DRAIN_RANGE = 1.7; // suit drain radius while hunting/lunging
-const DRAIN_RATE = 7.0; // O₂ per second on contact
 const MAX_ALIVE = 12;
+const VENT_ATTEMPTS = 4; // tries at a spot off the cliff faces
+const PACK_SPREAD = 1.5; // m between the members of a pack
 
 // Deterministic spawn placement (combat stays reproducible run-to-run)
-let seed = 4242;
+const INITIAL_SEED = 4242;
+let seed = INITIAL_SEED;
 function rand() {
   seed |= 0;
   seed = (seed + 0x6d2b79f5) | 0;
@@ -44,67 +51,26 @@ function rand() {
   return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
 }
 
-// Shared geometry/materials across all storm-spawn
-let shardGeo: THREE.ConeGeometry | null = null;
-let coreGeo: THREE.OctahedronGeometry | null = null;
-
 const _dir = new THREE.Vector3();
+const _terrain = createTerrainInfo();
 const _playerDir = new THREE.Vector3();
 const _axis = new THREE.Vector3();
-const _quat = new THREE.Quaternion();
-const _upright = new THREE.Quaternion();
-const _fwd = new THREE.Vector3();
-const _basisRight = new THREE.Vector3();
-const _matrix = new THREE.Matrix4();
+const _drop = new THREE.Vector3();
+const _side = new THREE.Vector3();
 const UP = new THREE.Vector3(0, 1, 0);
 
-function buildBody(): THREE.Group {
-  if (!shardGeo) shardGeo = new THREE.ConeGeometry(0.16, 0.85, 5);
-  if (!coreGeo) coreGeo = new THREE.OctahedronGeometry(0.22, 0);
-
-  const group = new THREE.Group();
-
-  const shardMat = new THREE.MeshStandardMaterial({
-    color: 0x2b1b3d,
-    emissive: 0x7733cc,
-    emissiveIntensity: 0.9,
-    roughness: 0.25,
-    metalness: 0.2,
-    flatShading: true,
-  });
-  const coreMat = new THREE.MeshStandardMaterial({
-    color: 0xffffff,
-    emissive: 0xcc66ff,
-    emissiveIntensity: 2.4,
-    roughness: 0.1,
-    transparent: true, // fades out in the death shatter
-  });
-
-  // A crown of leaning shards around a bright core — the planet's crystal
-  // motif turned predatory.
-  const shardCount = 6;
-  for (let i = 0; i < shardCount; i++) {
-    const s = new THREE.Mesh(shardGeo, shardMat);
-    const a = (i / shardCount) * Math.PI * 2;
-    s.position.set(Math.cos(a) * 0.28, 0.34, Math.sin(a) * 0.28);
-    s.rotation.set(Math.sin(a) * 0.55, 0, -Math.cos(a) * 0.55);
-    s.castShadow = false;
-    group.add(s);
-  }
-  const core = new THREE.Mesh(coreGeo, coreMat);
-  core.position.y = 0.42;
-  group.add(core);
-  group.userData.core = core;
-  group.userData.coreMat = coreMat;
-  group.userData.shardMat = shardMat;
-
-  return group;
-}
-
-function surfacePlace(group: THREE.Group, dir: THREE.Vector3, sink = 0) {
-  const h = getPlanetHeight(dir, PLANET_RADIUS);
-  group.position.copy(dir).multiplyScalar(h - sink);
-}
+// Handed to every state handler; refilled per creature
+const ctx: CreatureContext = {
+  dt: 0,
+  elapsed: 0,
+  playing: false,
+  playerPos: new THREE.Vector3(),
+  playerDir: _playerDir,
+  dir: _dir,
+  dist: 0,
+  night: 0,
+  rand,
+};
 
 export function aliveCreatureCount(): number {
   let n = 0;
@@ -114,14 +80,59 @@ export function aliveCreatureCount(): number {
   return n;
 }
 
+/** Whether the arc cutter can hit it: alive, and not under the ground. */
+export function isCreatureTargetable(entity: CreatureEntity): boolean {
+  const c = entity.creature;
+  return c.state !== "dying" && !ARCHETYPES[c.type].hidden?.includes(c.state);
+}
+
+/** Roll a type from a wave's weights (no roll when only one can come). */
+function rollType(mix: WaveMix): CreatureType {
+  const types = (Object.keys(mix) as CreatureType[]).filter((type) => (mix[type] ?? 0) > 0);
+  if (types.length <= 1) return types[0] ?? "crawler";
+  const total = types.reduce((sum, type) => sum + mix[type]!, 0);
+  let pick = rand() * total;
+  for (const type of types) {
+    pick -= mix[type]!;
+    if (pick < 0) return type;
+  }
+  return types[types.length - 1];
+}
+
+function addCreature(type: CreatureType, dir: THREE.Vector3): CreatureEntity {
+  const archetype = ARCHETYPES[type];
+  const group = archetype.buildBody();
+  archetype.spawn(group, dir);
+  group.quaternion.setFromUnitVectors(UP, dir);
+  renderer.scene.add(group);
+
+  return world.add({
+    name: archetype.name,
+    isCreature: true,
+    object3d: group,
+    creature: {
+      type,
+      hp: archetype.hp,
+      maxHp: archetype.hp,
+      state: archetype.initial,
+      stateTime: 0,
+      speed: archetype.speed * difficulty.creatureSpeed * (0.9 + rand() * 0.25),
+      phase: rand() * Math.PI * 2,
+      hitFlash: 0,
+    },
+  });
+}
+
 /**
  * Vent a wave of storm-spawn from the ground around a world position,
- * scattered 8–16m out so they converge instead of dog-piling.
+ * scattered 8–16m out so they converge instead of dog-piling. Each of the
+ * `count` slots rolls its type from `mix`; a pack type fills its slot
+ * with several. Returns the creatures it vented.
  */
-export function spawnWave(count: number, around: THREE.Vector3) {
+export function spawnWave(count: number, around: THREE.Vector3, mix: WaveMix = CRAWLERS): CreatureEntity[] {
   const capacity = Math.max(0, MAX_ALIVE - aliveCreatureCount());
-  const n = Math.min(count, capacity);
-  if (n <= 0) return;
+  const vented: CreatureEntity[] = [];
+  if (Math.min(count, capacity) <= 0) return vented;
 
   const center = around.clone().normalize();
   // A tangent pair for scattering around the center direction
@@ -130,209 +141,211 @@ export function spawnWave(count: number, around: THREE.Vector3) {
   const t1 = new THREE.Vector3().crossVectors(center, _axis).normalize();
   const t2 = new THREE.Vector3().crossVectors(center, t1).normalize();
 
-  for (let i = 0; i < n; i++) {
-    const angle = rand() * Math.PI * 2;
-    const arc = (8 + rand() * 8) / PLANET_RADIUS; // 8–16m of arc
-    const dir = center
-      .clone()
-      .multiplyScalar(Math.cos(arc))
-      .addScaledVector(t1, Math.sin(arc) * Math.cos(angle))
-      .addScaledVector(t2, Math.sin(arc) * Math.sin(angle))
-      .normalize();
-
-    const group = buildBody();
-    surfacePlace(group, dir, 0.9); // start sunk into the ground
-    group.quaternion.setFromUnitVectors(UP, dir);
-    renderer.scene.add(group);
-
-    world.add({
-      name: `StormSpawn`,
-      isCreature: true,
-      object3d: group,
-      creature: {
-        hp: HP,
-        maxHp: HP,
-        state: "burrow",
-        stateTime: 0,
-        speed: HUNT_SPEED * (0.9 + rand() * 0.25),
-        phase: rand() * Math.PI * 2,
-        hitFlash: 0,
-      },
-    });
+  for (let i = 0; i < count && vented.length < capacity; i++) {
+    const type = rollType(mix);
+    // They vent from open ground: re-roll a spot on a cliff face (a few tries)
+    const dir = new THREE.Vector3();
+    for (let attempt = 0; attempt < VENT_ATTEMPTS; attempt++) {
+      const angle = rand() * Math.PI * 2;
+      const arc = (8 + rand() * 8) / PLANET_RADIUS; // 8–16m of arc
+      dir
+        .copy(center)
+        .multiplyScalar(Math.cos(arc))
+        .addScaledVector(t1, Math.sin(arc) * Math.cos(angle))
+        .addScaledVector(t2, Math.sin(arc) * Math.sin(angle))
+        .normalize();
+      if (queryTerrain(dir, _terrain).biome !== "cliff") break;
+    }
+
+    // A pack comes up around the one spot
+    const pack = Math.min(ARCHETYPES[type].pack ?? 1, capacity - vented.length);
+    for (let k = 0; k < pack; k++) {
+      const at = dir.clone();
+      if (k > 0) {
+        _side.copy(k % 2 ? t1 : t2).multiplyScalar(k < 3 ? 1 : -1);
+        at.addScaledVector(_side, (PACK_SPREAD * Math.ceil(k / 2)) / PLANET_RADIUS).normalize();
+      }
+      vented.push(addCreature(type, at));
+    }
   }
 
   audioManager.playCreatureAlert();
   events.emit("log:message", "⚠ STORM-SPAWN VENTING FROM THE GROUND", "danger");
+  return vented;
+}
+
+/**
+ * Raise a boss of `type` from the ground at a world position. Its health
+ * goes up on the HUD; it fights alone until its phases call adds.
+ */
+export function spawnBoss(type: CreatureType, at: THREE.Vector3) {
+  const entity = addCreature(type, at.clone().normalize());
+  events.emit("boss:health:changed", entity.creature.hp, entity.creature.maxHp, 1);
+  events.emit("log:message", "⚠ SOMETHING VAST IS RISING UNDER THE NODE", "danger");
 }
 
-/** Damage from the arc cutter. Returns true if this hit killed it. */
-export function damageCreature(entity: Entity, amount: number): boolean {
+/** Recreate a saved creature as it was: position, facing and AI state. */
+export function restoreCreature(
+  position: { x: number; y: number; z: number },
+  quaternion: { x: number; y: number; z: number; w: number },
+  creature: Omit<NonNullable<Entity["creature"]>, "type"> & { type?: CreatureType },
+) {
+  // Saves from before the archetypes only had crawlers
+  const type = creature.type ?? "crawler";
+  const archetype = ARCHETYPES[type];
+  const group = archetype.buildBody();
+  group.position.set(position.x, position.y, position.z);
+  group.quaternion.set(quaternion.x, quaternion.y, quaternion.z, quaternion.w);
+  renderer.scene.add(group);
+  world.add({ name: archetype.name, isCreature: true, object3d: group, creature: { ...creature, type } });
+  if (archetype.boss) events.emit("boss:health:changed", creature.hp, creature.maxHp, creature.stage ?? 1);
+}
+
+/** Spawn-placement RNG state — saved so a resumed run vents the same waves. */
+export function getCreatureSeed(): number {
+  return seed;
+}
+
+export function setCreatureSeed(value: number) {
+  seed = value;
+}
+
+const _blast = new THREE.Vector3();
+
+/**
+ * Damage from the arc cutter — on weak point `weakPoint` of an armored
+ * body, or -1. Returns true if this hit killed it.
+ */
+export function damageCreature(entity: Entity, amount: number, weakPoint = -1): boolean {
   const c = entity.creature;
   if (!c || c.state === "dying") return false;
-  c.hp -= amount;
+  const archetype = ARCHETYPES[c.type];
+  c.hp -= archetype.hurt ? archetype.hurt(entity as CreatureEntity, amount, weakPoint) : amount;
   c.hitFlash = 0.12;
+  if (archetype.boss) events.emit("boss:health:changed", Math.max(0, c.hp), c.maxHp, c.stage ?? 1);
   if (c.hp <= 0) {
     c.state = "dying";
     c.stateTime = 0;
     events.emit("creature:killed");
     audioManager.playCreatureDeath();
+    if (archetype.boss) events.emit("boss:defeated", entity.object3d!.position);
+    const blast = archetype.blast;
+    if (blast) {
+      const pos = entity.object3d!.position;
+      _blast.copy(pos).setLength(getPlanetHeight(pos, PLANET_RADIUS));
+      deformTerrain(_blast, "crater", blast.radius, blast.depth);
+    }
     return true;
   }
   return false;
 }
 
+/**
+ * Put a creature down without killing it: it shatters like the dead, but
+ * counts as no kill, drops nothing and leaves no crater.
+ */
+export function collapseCreature(entity: CreatureEntity) {
+  const c = entity.creature;
+  if (c.state === "dying") return;
+  c.state = "dying";
+  c.stateTime = 0;
+  c.collapsed = true;
+}
+
 /** Remove every living creature (used on game over / mission complete). */
 export function clearCreatures() {
   for (const entity of [...queries.creatures.entities]) {
     if (entity.object3d) renderer.scene.remove(entity.object3d);
     world.remove(entity);
   }
+  clearProjectiles();
+  clearRoutes();
+}
+
+events.on("game:restart", () => {
+  clearCreatures();
+  seed = INITIAL_SEED;
+});
+
+/**
+ * The death shatter: fly apart, shrink, and pay out the drop table where
+ * it fell. Returns true once it is gone.
+ */
+function shatter(entity: CreatureEntity, dt: number): boolean {
+  const { creature: c, object3d: group } = entity;
+  const p = Math.min(1, c.stateTime / DIE_TIME);
+  group.scale.setScalar(1 + p * 1.6);
+  group.children.forEach((child, i) => {
+    child.position.y += dt * (1.5 + (i % 3));
+    child.rotation.x += dt * 6;
+  });
+  const coreMat = group.userData.coreMat as THREE.Material | undefined;
+  if (coreMat) coreMat.opacity = 1 - p;
+  if (p < 1) return false;
+
+  // Drops land on the ground, a step apart (none from the collapsed)
+  const ground = getPlanetHeight(group.position, PLANET_RADIUS);
+  _drop.copy(group.position);
+  if (_drop.length() > ground + 0.5) _drop.setLength(ground);
+  _side.crossVectors(_drop, UP).normalize();
+  if (_side.lengthSq() < 0.5) _side.set(1, 0, 0);
+  let dropped = 0;
+  for (const drop of c.collapsed ? [] : ARCHETYPES[c.type].drops) {
+    if (drop.chance < 1 && rand() >= drop.chance) continue;
+    createO2Shard(_drop.clone().addScaledVector(_side, dropped++ * 0.6));
+  }
+  renderer.scene.remove(group);
+  world.remove(entity);
+  forgetRoute(entity);
+  return true;
 }
 
 /** Fixed-tick: AI, movement, contact drain. */
 export function updateCreatureSystem(dt: number, elapsed: number) {
-  if (queries.creatures.entities.length === 0) return;
-
   const player = queries.player.first;
   if (!player?.object3d || !player.playerControl) return;
+  const playing = gameState.isPlaying;
+  updateProjectiles(dt, player, playing);
+  if (queries.creatures.entities.length === 0) return;
+
   const playerPos = player.object3d.position;
   _playerDir.copy(playerPos).normalize();
-
-  const playing = gameState.isPlaying;
+  ctx.dt = dt;
+  ctx.elapsed = elapsed;
+  ctx.playing = playing;
+  ctx.playerPos.copy(playerPos);
+  ctx.night = nightFactor(playerPos);
 
   for (const entity of [...queries.creatures.entities]) {
     const { creature: c, object3d: group } = entity;
+    const archetype = ARCHETYPES[c.type];
     c.stateTime += dt;
     c.hitFlash = Math.max(0, c.hitFlash - dt);
 
-    const ud = group.userData;
-    // Damage flash + core pulse
-    if (ud.coreMat) {
-      ud.coreMat.emissiveIntensity =
-        c.hitFlash > 0 ? 6.0 : 2.0 + Math.sin(elapsed * 6 + c.phase) * 0.6;
-    }
-    if (ud.shardMat) {
-      ud.shardMat.emissive.setHex(c.hitFlash > 0 ? 0xffffff : 0x7733cc);
-    }
-
     _dir.copy(group.position).normalize();
-    const distToPlayer = group.position.distanceTo(playerPos);
-
-    switch (c.state) {
-      case "burrow": {
-        // Rise out of the ground
-        const p = Math.min(1, c.stateTime / BURROW_TIME);
-        surfacePlace(group as THREE.Group, _dir, 0.9 * (1 - p));
-        if (p >= 1) {
-          c.state = "hunt";
-          c.stateTime = 0;
-        }
-        break;
-      }
-
-      case "hunt": {
-        if (!playing) break;
-        // Rotate this creature's direction vector toward the player's along
-        // the great circle — surface-locked pursuit.
-        const arcStep = (c.speed * dt) / PLANET_RADIUS;
-        const totalAngle = _dir.angleTo(_playerDir);
-        if (totalAngle > 1e-4) {
-          _axis.crossVectors(_dir, _playerDir).normalize();
-          _quat.setFromAxisAngle(_axis, Math.min(arcStep, totalAngle));
-          _dir.applyQuaternion(_quat);
-        }
-        surfacePlace(group as THREE.Group, _dir);
-        // Skitter bob
-        group.position.addScaledVector(_dir, Math.abs(Math.sin(elapsed * 9 + c.phase)) * 0.16);
-
-        if (distToPlayer < LUNGE_RANGE) {
-          c.state = "telegraph";
-          c.stateTime = 0;
-        }
-        break;
-      }
-
-      case "telegraph": {
-        // Wind up: crouch and flare. This is the dodge window.
-        if (c.stateTime >= TELEGRAPH_TIME) {
-          c.state = "lunge";
-          c.stateTime = 0;
-          const lunge = playerPos.clone().sub(group.position).normalize();
-          c.lungeDir = { x: lunge.x, y: lunge.y, z: lunge.z };
-        }
-        break;
-      }
-
-      case "lunge": {
-        if (c.lungeDir) {
-          group.position.addScaledVector(
-            _fwd.set(c.lungeDir.x, c.lungeDir.y, c.lungeDir.z),
-            LUNGE_SPEED * dt,
-          );
-          // Keep clamped to the surface
-          _dir.copy(group.position).normalize();
-          surfacePlace(group as THREE.Group, _dir);
-        }
-        if (c.stateTime >= LUNGE_TIME) {
-          c.state = "hunt";
-          c.stateTime = 0;
-        }
-        break;
-      }
-
-      case "dying": {
-        // Shatter: fly apart and shrink
-        const p = Math.min(1, c.stateTime / DIE_TIME);
-        group.scale.setScalar(1 + p * 1.6);
-        group.children.forEach((child, i) => {
-          child.position.y += dt * (1.5 + (i % 3));
-          child.rotation.x += dt * 6;
-        });
-        if (ud.coreMat) ud.coreMat.opacity = 1 - p;
-        if (p >= 1) {
-          // Death pays out: an O₂ shard where it fell
-          createO2Shard(group.position.clone());
-          renderer.scene.remove(group);
-          world.remove(entity);
-          continue;
-        }
-        break;
-      }
-    }
-
-    // Face the player (hunt/telegraph) or the lunge direction
-    if (c.state === "hunt" || c.state === "telegraph") {
-      _upright.setFromUnitVectors(UP, _dir);
-      _fwd.copy(playerPos).sub(group.position).projectOnPlane(_dir);
-      if (_fwd.lengthSq() > 1e-4) {
-        _fwd.normalize();
-        _basisRight.crossVectors(_dir, _fwd).normalize();
-        _matrix.makeBasis(_basisRight, _dir, _fwd.negate());
-        _quat.setFromRotationMatrix(_matrix);
-        group.quaternion.slerp(_quat, 1 - Math.exp(-10 * dt));
-      }
-      // Telegraph crouch
-      if (c.state === "telegraph") {
-        const s = 1 - 0.25 * Math.sin((c.stateTime / TELEGRAPH_TIME) * Math.PI);
-        group.scale.set(1.15, s, 1.15);
-      } else {
-        group.scale.setScalar(1);
+    ctx.dist = group.position.distanceTo(playerPos);
+
+    if (c.state === "dying") {
+      if (shatter(entity, dt)) continue;
+    } else {
+      const next = archetype.states[c.state]?.(entity, ctx);
+      if (next) {
+        c.state = next;
+        c.stateTime = 0;
       }
     }
+    archetype.pose?.(entity, ctx);
 
     // Contact drain: the storm-spawn breathes your O₂ out of the suit
+    // (none at all on STORY)
+    const drain = archetype.drain;
     if (
       playing &&
-      (c.state === "hunt" || c.state === "lunge" || c.state === "telegraph") &&
-      distToPlayer < DRAIN_RANGE
+      difficulty.creatureDrain > 0 &&
+      drain?.states.includes(c.state) &&
+      ctx.dist < drain.range
     ) {
-      const pc = player.playerControl;
-      pc.oxygen = Math.max(0, pc.oxygen - DRAIN_RATE * dt);
-      events.emit("player:oxygen:changed", pc.oxygen, pc.maxOxygen);
-      if (pc.oxygen <= 0) {
-        events.emit("game:over", "SUIT BREACHED BY STORM-SPAWN");
-        events.emit("log:message", "SUIT FAILURE — O₂ VENTED", "danger");
-      }
+      siphonOxygen(player, drain.rate * difficulty.creatureDrain * dt);
     }
   }
 }
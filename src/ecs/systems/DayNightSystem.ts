@@ -0,0 +1,219 @@
+import * as THREE from "three";
+import { queries } from "../World";
+import { renderer } from "../../core/Renderer";
+import { events } from "../../utils/EventBus";
+import { HEADLESS } from "../../core/Headless";
+import { keyBindings, keyLabel } from "../../core/KeyBindings";
+import { inputManager } from "../../managers/InputManager";
+import { caveShelter } from "../factories/Caves";
+
+/**
+ * Day/night: the sun circles the planet once per day, so the time of day is
+ * local — walk a quarter of the way around the world and it is six hours
+ * later (or earlier). The clock is sim time (advanced on fixed ticks while
+ * playing, restarted with the run, kept in saves), so night falls at the
+ * same moment in a replay or a headless run.
+ *
+ * Night is where the player stands with the sun below the horizon: the suit
+ * burns more O₂ keeping warm (OxygenSystem), storm-spawn hunt harder (each
+ * archetype in ecs/creatures), and the helmet lamp — off until toggled — is
+ * the only light worth having. The lighting rig follows the local sun
+ * (core/Sun.ts). Under a cave roof it is night at any hour, as far as the
+ * light goes.
+ */
+
+const UP = new THREE.Vector3(0, 1, 0);
+
+// The landing zone's morning sun, ~34° up: the grazing light the terrain
+// palette was tuned against (warm mid-tones, long mountain shadows). Its
+// path tilts 25° off a great circle through the pole, so the pad gets a
+// real noon and a real night.
+const LANDING_SUN = new THREE.Vector3(0.68, 0.52, 0.36).normalize();
+const AXIS_TILT = THREE.MathUtils.degToRad(25);
+const SUN_AXIS = new THREE.Vector3()
+  .crossVectors(new THREE.Vector3(LANDING_SUN.x, 0, LANDING_SUN.z).normalize(), UP)
+  .multiplyScalar(Math.cos(AXIS_TILT))
+  .addScaledVector(UP, Math.sin(AXIS_TILT))
+  .normalize();
+
+/** Signed angle from `a` to `b` around SUN_AXIS (radians, -π..π). */
+function hourAngle(a: THREE.Vector3, b: THREE.Vector3): number {
+  const pa = _pa.copy(a).projectOnPlane(SUN_AXIS);
+  const pb = _pb.copy(b).projectOnPlane(SUN_AXIS);
+  return Math.atan2(_cross.crossVectors(pa, pb).dot(SUN_AXIS), pa.dot(pb));
+}
+
+const _pa = new THREE.Vector3();
+const _pb = new THREE.Vector3();
+const _cross = new THREE.Vector3();
+const _up = new THREE.Vector3();
+
+const HOURS_PER_RADIAN = 12 / Math.PI;
+
+/** Local solar time at the landing zone when LANDING_SUN is up (~08:06). */
+export const LANDING_HOUR = 12 + hourAngle(UP, LANDING_SUN) * HOURS_PER_RADIAN;
+
+// Sun at local noon over the landing zone; every other hour rotates from it
+const NOON_SUN = LANDING_SUN.clone().applyAxisAngle(SUN_AXIS, -hourAngle(UP, LANDING_SUN));
+
+/** Seconds of sim time per full day (missions may set their own). */
+const DEFAULT_DAY_LENGTH = 960;
+
+// Night gameplay
+const NIGHT_BELOW = -0.12; // sun elevation (sine) at full night
+const DAY_ABOVE = 0.06; // ...and at full day
+
+let dayLength = DEFAULT_DAY_LENGTH;
+let landingHour = LANDING_HOUR;
+/** Local solar time at the landing zone, hours 0..24. */
+let clock = landingHour;
+const sunDir = new THREE.Vector3();
+let wasNight = false;
+let wasUnderground = false;
+
+function updateSunDirection() {
+  sunDir.copy(NOON_SUN).applyAxisAngle(SUN_AXIS, (clock - 12) / HOURS_PER_RADIAN);
+}
+updateSunDirection();
+
+/**
+ * Day length (seconds) and the landing zone's solar time at touchdown, from
+ * the mission script. Takes effect from the next run (and right away before
+ * the first).
+ */
+export function configureDay(day?: { length: number; landingHour?: number }) {
+  dayLength = day?.length ?? DEFAULT_DAY_LENGTH;
+  landingHour = day?.landingHour ?? LANDING_HOUR;
+  setDayClock(landingHour);
+}
+
+/** Direction toward the sun from the planet's center (shared; don't mutate). */
+export function sunDirection(): THREE.Vector3 {
+  return sunDir;
+}
+
+/** Sine of the sun's elevation at a surface position (below 0: set). */
+export function sunElevation(position: THREE.Vector3): number {
+  return _up.copy(position).normalize().dot(sunDir);
+}
+
+/** 0 in daylight, 1 at night, easing through dusk and dawn. */
+export function nightFactor(position: THREE.Vector3): number {
+  return 1 - THREE.MathUtils.smoothstep(sunElevation(position), NIGHT_BELOW, DAY_ABOVE);
+}
+
+/** Local solar time at a surface position, hours 0..24. */
+export function localSolarHour(position: THREE.Vector3): number {
+  _up.copy(position).normalize();
+  // At the ends of the sun's axis the hour is undefined: use the pad's
+  if (Math.abs(_up.dot(SUN_AXIS)) > 0.999) return clock;
+  const hour = 12 + hourAngle(_up, sunDir) * HOURS_PER_RADIAN;
+  return ((hour % 24) + 24) % 24;
+}
+
+/** The landing zone's solar time, for save files. */
+export function getDayClock(): number {
+  return clock;
+}
+
+export function setDayClock(hours: number) {
+  clock = ((hours % 24) + 24) % 24;
+  updateSunDirection();
+  const player = queries.player.first;
+  wasNight = !!player && nightFactor(player.object3d.position) > 0.5;
+}
+
+events.on("game:restart", () => {
+  setDayClock(landingHour);
+  wasNight = false; // the player is headed back to the pad
+  wasUnderground = false;
+  lampOn = false;
+});
+
+/** Fixed tick; scheduled to run only during active play (whilePlaying). */
+export function updateDayNightSystem(dt: number) {
+  clock = (clock + (dt * 24) / dayLength) % 24;
+  updateSunDirection();
+
+  // Nightfall and sunrise where the player stands
+  const player = queries.player.first;
+  if (!player) return;
+  const night = nightFactor(player.object3d.position);
+  const lamp = keyBindings.lamp[0];
+  const lampHint = lamp ? ` · HELMET LAMP [${keyLabel(lamp)}]` : "";
+  if (!wasNight && night > 0.5) {
+    wasNight = true;
+    events.emit("log:message", `NIGHTFALL — SUIT HEATERS DRAWING O₂${lampHint}`, "warn");
+  } else if (wasNight && night < 0.5) {
+    wasNight = false;
+    events.emit("log:message", "SUNRISE — SUIT TEMPERATURE NOMINAL", "info");
+  }
+
+  // Into the caves: no daylight down there at any hour
+  const shelter = caveShelter(player.object3d.position);
+  if (!wasUnderground && shelter > 0.6) {
+    wasUnderground = true;
+    events.emit("log:message", `NO DAYLIGHT BELOW GROUND${lampHint}`, "info");
+  } else if (wasUnderground && shelter < 0.2) {
+    wasUnderground = false;
+  }
+}
+
+// --- Helmet lamp and HUD clock (render) ---------------------------------------
+
+const LAMP_INTENSITY = 140;
+let lampOn = false;
+let lamp: THREE.SpotLight | null = null;
+let clockEl: HTMLElement | null = null;
+let clockText = "";
+
+/** Lamp state for the HUD (and anything that cares who is lit up). */
+export function isLampOn(): boolean {
+  return lampOn;
+}
+
+/**
+ * Render-frame: toggle and aim the helmet lamp, and tick the HUD clock.
+ * The lamp is a single shadowless spot that stays in the scene at zero
+ * intensity when off — adding and removing a light recompiles every lit
+ * material.
+ */
+export function updateDayNightVisuals() {
+  if (inputManager.consumePressed("lamp")) lampOn = !lampOn;
+  if (HEADLESS) return;
+
+  const player = queries.player.first;
+  if (!player?.object3d) return;
+  const pos = player.object3d.position;
+
+  if (!lamp) {
+    lamp = new THREE.SpotLight(0xe6f4ff, 0, 45, 0.42, 0.55, 1.4);
+    lamp.name = "HelmetLamp";
+    lamp.castShadow = false;
+    renderer.scene.add(lamp);
+    renderer.scene.add(lamp.target);
+  }
+  lamp.intensity = lampOn && !player.playerControl?.seated ? LAMP_INTENSITY : 0;
+  if (lamp.intensity > 0) {
+    // Helmet height, pointing where the camera looks
+    _up.copy(pos).normalize();
+    lamp.position.copy(pos).addScaledVector(_up, 0.7);
+    renderer.camera.getWorldDirection(_pa);
+    lamp.target.position.copy(lamp.position).addScaledVector(_pa, 10);
+    lamp.target.updateMatrixWorld();
+  }
+
+  clockEl ??= document.getElementById("solar-clock");
+  if (!clockEl) return;
+  const hour = localSolarHour(pos);
+  const hh = Math.floor(hour).toString().padStart(2, "0");
+  const mm = Math.floor((hour % 1) * 60).toString().padStart(2, "0");
+  const night = nightFactor(pos);
+  const phase = night > 0.95 ? "NIGHT" : night < 0.05 ? "DAY" : hour < 12 ? "DAWN" : "DUSK";
+  const text = `LOCAL ${hh}:${mm} · ${phase}${lampOn ? " · LAMP" : ""}`;
+  if (text !== clockText) {
+    clockText = text;
+    clockEl.textContent = text;
+    clockEl.classList.toggle("night", night > 0.5);
+  }
+}
@@ -2,11 +2,13 @@ import * as THREE from "three";
 import { queries } from "../World";
 import { events } from "../../utils/EventBus";
 import { gameState } from "../../core/GameState";
+import { isExtractionObjective } from "../../managers/MissionManager";
 
 /**
- * Dropship extraction: once every relay node is online the pad powers up,
- * and reaching it boards the player and launches the ship — an actual
- * liftoff the camera watches, not a hard cut to a menu.
+ * Dropship extraction: once the mission's objective is to board (LOST
+ * SIGNAL's Act III) the pad powers up, and reaching it boards the player and
+ * launches the ship — an actual liftoff the camera watches, not a hard cut
+ * to a menu.
  */
 
 const LAUNCH_DURATION = 14; // seconds of visible ascent before the ship winks out
@@ -30,13 +32,8 @@ export function updateDropshipSystem(delta: number, elapsed: number) {
   const playerEntity = queries.player.entities[0];
   const playerPos = playerEntity.object3d.position;
 
-  // Count active beacons
-  const beacons = queries.beacons.entities;
-  const totalBeacons = beacons.length;
-  const collectedBeacons = beacons.filter((b) => b.beacon?.collected).length;
-
-  // Activate extraction if all beacons have been located
-  if (totalBeacons > 0 && collectedBeacons >= totalBeacons) {
+  // Activate extraction once the mission calls the player home
+  if (isExtractionObjective()) {
     if (!dropship.extractionActive) {
       dropship.extractionActive = true;
       events.emit("log:message", "EXTRACTION PAD ACTIVATED — RETURN TO DROPSHIP", "warn");
@@ -72,7 +69,7 @@ export function updateDropshipSystem(delta: number, elapsed: number) {
       dropship.activated = true;
       // Board the player: the camera stays put and watches the ship leave
       playerEntity.object3d.visible = false;
-      events.emit("mission:complete");
+      events.emit("dropship:boarded");
       events.emit("log:message", "EXTRACTION COMPLETE — DEPARTING ORBIT", "success");
     }
   }
@@ -1,22 +1,52 @@
+import * as THREE from "three";
 import { queries } from "../World";
 import { events } from "../../utils/EventBus";
 import { audioManager } from "../../managers/AudioManager";
-import { gameState } from "../../core/GameState";
+import { suitLeakRate } from "./SuitSystem";
+import { difficulty } from "../../core/Difficulty";
+import { nightFactor } from "./DayNightSystem";
+import { inAirPocket } from "../factories/Caves";
 
 let wasRefueling = false; // edge-detect zone entry for the HUD message
+events.on("game:restart", () => {
+  wasRefueling = false;
+});
 
+// Both scaled by difficulty.oxygenDrain
 const BASE_DRAIN_RATE = 0.35;      // ~100 O₂ ≈ 4.75 minutes at baseline
 const SPRINT_DRAIN_RATE = 1.5;     // sprinting burns ~4x oxygen
 const HAZARD_BONUS_DRAIN = 5.0;    // stacks on top of base when in a hazard zone
 const REFUEL_RATE = 30.0;          // per second inside a refuel zone
+const POCKET_REFUEL_RATE = 8.0;    // per second in a cave air pocket: the suit scrubs what's trapped
 const DROPSHIP_REFUEL_RADIUS = 10.0;
 const BEACON_REFUEL_RADIUS = 4.0;
+const CABIN_DRAIN_FACTOR = 0.35;   // rover cabin air: seated drain (vents included)
+const NIGHT_COLD_DRAIN = 0.45;     // suit heaters at full night: +45% base/sprint drain
+const SLOPE_EXERTION = 1.2;        // × ground slope (0..1): +40% on a 0.34 cliff face
 
-export function updateOxygenSystem(delta: number) {
-  // Oxygen only ticks during active play — not on the start screen,
-  // not after death, not after extraction.
-  if (!gameState.isPlaying) return;
+/**
+ * Estimated O₂ (percent of a full tank) to cover `meters` on foot, at a
+ * walk and at a sprint, with the suit's current leak — the orbital map's
+ * route readout. Flat ground, no vents, no refuel stops.
+ */
+export function routeOxygenCost(meters: number, walkSpeed: number, sprintSpeed: number) {
+  const leak = suitLeakRate();
+  return {
+    walk: (meters / walkSpeed) * (BASE_DRAIN_RATE * difficulty.oxygenDrain + leak),
+    sprint: (meters / sprintSpeed) * (SPRINT_DRAIN_RATE * difficulty.oxygenDrain + leak),
+  };
+}
+
+/** Moving across the surface (not just pressed into it by the ground stick). */
+function isWalking(velocity: { x: number; y: number; z: number }, position: THREE.Vector3): boolean {
+  const len = position.length();
+  const vertical = (velocity.x * position.x + velocity.y * position.y + velocity.z * position.z) / len;
+  const speedSq = velocity.x ** 2 + velocity.y ** 2 + velocity.z ** 2;
+  return speedSq - vertical * vertical > 1;
+}
 
+/** Fixed tick; scheduled to run only during active play (whilePlaying). */
+export function updateOxygenSystem(delta: number) {
   for (const player of queries.player) {
     const { playerControl, object3d } = player;
     if (!playerControl) continue;
@@ -30,6 +60,12 @@ export function updateOxygenSystem(delta: number) {
     if (playerControl.isSprinting) {
       drainRate = SPRINT_DRAIN_RATE;
     }
+    drainRate *= difficulty.oxygenDrain * (1 + NIGHT_COLD_DRAIN * nightFactor(playerPos));
+    // Climbing: moving on foot over steep ground works the suit harder
+    const ground = playerControl.ground;
+    if (ground && !playerControl.seated && playerControl.grounded && isWalking(playerControl.velocity, playerPos)) {
+      drainRate *= 1 + SLOPE_EXERTION * ground.slope;
+    }
 
     // Hazard proximity drain
     for (const hazard of queries.hazards) {
@@ -41,6 +77,9 @@ export function updateOxygenSystem(delta: number) {
         drainRate += HAZARD_BONUS_DRAIN * proximity;
       }
     }
+    // A breached suit leaks on top of everything else (SuitSystem)
+    drainRate += suitLeakRate();
+    if (playerControl.seated) drainRate *= CABIN_DRAIN_FACTOR;
 
     // Refuel zones: uncollected beacons and the dropship pad
     let isRefueling = false;
@@ -61,16 +100,24 @@ export function updateOxygenSystem(delta: number) {
       }
     }
 
+    // ...and the sealed air pockets in the caves, slower
+    const pocket = !isRefueling && inAirPocket(playerPos);
+    if (pocket) isRefueling = true;
+
     // Announce the refuel zone so pads and nodes read as purposeful places
     if (isRefueling && !wasRefueling && playerControl.oxygen < playerControl.maxOxygen - 1) {
-      events.emit("log:message", "O₂ REPLENISHING — SUPPLY UPLINK ACTIVE", "info");
+      events.emit(
+        "log:message",
+        pocket ? "O₂ REPLENISHING — SEALED AIR POCKET" : "O₂ REPLENISHING — SUPPLY UPLINK ACTIVE",
+        "info",
+      );
     }
     wasRefueling = isRefueling;
 
     if (isRefueling) {
       playerControl.oxygen = Math.min(
         playerControl.maxOxygen,
-        playerControl.oxygen + REFUEL_RATE * delta,
+        playerControl.oxygen + (pocket ? POCKET_REFUEL_RATE : REFUEL_RATE) * delta,
       );
     } else {
       playerControl.oxygen = Math.max(
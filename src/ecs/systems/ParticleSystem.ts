@@ -3,10 +3,14 @@ import { renderer } from "../../core/Renderer";
 import { queries } from "../World";
 import { events } from "../../utils/EventBus";
 import type { AstronautRig } from "../factories/AstronautFactory";
+import type { Biome } from "../factories/Terrain";
+import type { StampKind } from "../factories/PlanetTerrain";
+import { weatherAt, windAt } from "./WeatherSystem";
 
 /**
  * Particle system managing ambient dust motes, jetpack thruster trails and
- * ground dust bursts (landings, footsteps).
+ * ground dust bursts (landings, footsteps). In a dust storm the motes
+ * thicken, yellow and ride the wind.
  */
 
 // Ambient floating dust motes
@@ -14,8 +18,12 @@ let ambientDust: THREE.Points | null = null;
 let dustPositions: Float32Array;
 let dustVelocities: Float32Array;
 let dustAlphas: Float32Array;
-const DUST_COUNT = 300;
+const DUST_COUNT = 300; // calm air
+const DUST_STORM_COUNT = 1200; // full storm (the buffers are sized for it)
 const DUST_SPREAD = 40;
+const DUST_CALM_COLOR = new THREE.Color(0xccddff);
+const DUST_STORM_COLOR = new THREE.Color(0xc9a27a);
+const _wind = new THREE.Vector3();
 
 // Backpack jetpack thrusters
 let jetpackParticles: THREE.Points | null = null;
@@ -33,19 +41,47 @@ let burstLifetimes: Float32Array;
 const BURST_COUNT = 180;
 let burstIndex = 0;
 
+// Kicked-up dust takes the color of the ground it came from
+const GROUND_DUST: Record<Biome, THREE.Color> = {
+  plains: new THREE.Color(0xb08560), // regolith
+  mesa: new THREE.Color(0xa68a72),
+  range: new THREE.Color(0x8c6f5e),
+  peak: new THREE.Color(0xc4b8ae), // pale ash
+  cliff: new THREE.Color(0x7a6258),
+  scar: new THREE.Color(0x7d7296), // slate-violet grit
+  scarFloor: new THREE.Color(0x6f8590), // cold silt
+  cave: new THREE.Color(0x5a5468), // rock flour
+};
+// ...and a dent in the ground throws up what it dug into
+const DEFORM_DUST: Record<StampKind, THREE.Color> = {
+  crater: new THREE.Color(0x4a403c), // soot
+  scoop: new THREE.Color(0xc08858), // subsoil
+};
+
 const _bNormal = new THREE.Vector3();
 const _bFeet = new THREE.Vector3();
 const _bTangentA = new THREE.Vector3();
 const _bTangentB = new THREE.Vector3();
 
-/** Kick a ring of dust out from the player's feet along the surface. */
-function spawnGroundBurst(count: number, speed: number) {
+/**
+ * Kick a ring of dust out along the surface: from the player's feet, or
+ * from `at` (a surface point) in `color`.
+ */
+function spawnGroundBurst(count: number, speed: number, at?: THREE.Vector3, color?: THREE.Color) {
   if (!burstParticles) return;
   const player = queries.player.first;
   if (!player) return;
-
-  _bNormal.copy(player.object3d.position).normalize();
-  _bFeet.copy(player.object3d.position).addScaledVector(_bNormal, -0.75);
+  // One pool, one color: the latest burst retints the dust still settling
+  const material = burstParticles.material as THREE.ShaderMaterial;
+  material.uniforms.uColor.value.copy(color ?? GROUND_DUST[player.playerControl.ground?.biome ?? "plains"]);
+
+  if (at) {
+    _bNormal.copy(at).normalize();
+    _bFeet.copy(at);
+  } else {
+    _bNormal.copy(player.object3d.position).normalize();
+    _bFeet.copy(player.object3d.position).addScaledVector(_bNormal, -0.75);
+  }
 
   // Tangent basis on the sphere surface
   _bTangentA.set(0, 0, 1).cross(_bNormal);
@@ -81,11 +117,11 @@ function spawnGroundBurst(count: number, speed: number) {
 export function initParticleSystem() {
   // 1. Ambient floating dust setup
   const dustGeometry = new THREE.BufferGeometry();
-  dustPositions = new Float32Array(DUST_COUNT * 3);
-  dustVelocities = new Float32Array(DUST_COUNT * 3);
-  dustAlphas = new Float32Array(DUST_COUNT);
+  dustPositions = new Float32Array(DUST_STORM_COUNT * 3);
+  dustVelocities = new Float32Array(DUST_STORM_COUNT * 3);
+  dustAlphas = new Float32Array(DUST_STORM_COUNT);
 
-  for (let i = 0; i < DUST_COUNT; i++) {
+  for (let i = 0; i < DUST_STORM_COUNT; i++) {
     dustPositions[i * 3] = (Math.random() - 0.5) * DUST_SPREAD;
     dustPositions[i * 3 + 1] = Math.random() * 15;
     dustPositions[i * 3 + 2] = (Math.random() - 0.5) * DUST_SPREAD;
@@ -99,10 +135,11 @@ export function initParticleSystem() {
 
   dustGeometry.setAttribute("position", new THREE.BufferAttribute(dustPositions, 3));
   dustGeometry.setAttribute("alpha", new THREE.BufferAttribute(dustAlphas, 1));
+  dustGeometry.setDrawRange(0, DUST_COUNT);
 
   const dustMaterial = new THREE.ShaderMaterial({
     uniforms: {
-      uColor: { value: new THREE.Color(0xccddff) },
+      uColor: { value: DUST_CALM_COLOR.clone() },
       uTime: { value: 0 },
     },
     vertexShader: `
@@ -202,7 +239,7 @@ export function initParticleSystem() {
 
   const burstMaterial = new THREE.ShaderMaterial({
     uniforms: {
-      uColor: { value: new THREE.Color(0xb08560) }, // kicked-up regolith
+      uColor: { value: GROUND_DUST.plains.clone() }, // kicked-up regolith
     },
     vertexShader: `
       attribute float lifetime;
@@ -247,6 +284,10 @@ export function initParticleSystem() {
     if (player?.playerControl?.isSprinting) spawnGroundBurst(3, 1.2);
   });
   events.on("player:jump", () => spawnGroundBurst(8, 2.0));
+  events.on("terrain:deformed", (position, kind) => {
+    if (kind === "crater") spawnGroundBurst(30, 4.5, position, DEFORM_DUST.crater);
+    else spawnGroundBurst(6, 2.2, position, DEFORM_DUST.scoop);
+  });
 }
 
 export function updateParticleSystem(delta: number, elapsed: number) {
@@ -260,10 +301,18 @@ export function updateParticleSystem(delta: number, elapsed: number) {
     const posAttr = ambientDust.geometry.getAttribute("position") as THREE.BufferAttribute;
     const alphaAttr = ambientDust.geometry.getAttribute("alpha") as THREE.BufferAttribute;
 
-    for (let i = 0; i < DUST_COUNT; i++) {
-      dustPositions[i * 3] += dustVelocities[i * 3] * delta;
-      dustPositions[i * 3 + 1] += dustVelocities[i * 3 + 1] * delta;
-      dustPositions[i * 3 + 2] += dustVelocities[i * 3 + 2] * delta;
+    // Storms: more motes, dust-colored, blown along (twice the wind the player feels)
+    const storm = weatherAt(playerPos);
+    const count = Math.round(DUST_COUNT + storm * (DUST_STORM_COUNT - DUST_COUNT));
+    ambientDust.geometry.setDrawRange(0, count);
+    const material = ambientDust.material as THREE.ShaderMaterial;
+    material.uniforms.uColor.value.copy(DUST_CALM_COLOR).lerp(DUST_STORM_COLOR, storm);
+    windAt(playerPos, _wind).multiplyScalar(2 * delta);
+
+    for (let i = 0; i < count; i++) {
+      dustPositions[i * 3] += dustVelocities[i * 3] * delta + _wind.x;
+      dustPositions[i * 3 + 1] += dustVelocities[i * 3 + 1] * delta + _wind.y;
+      dustPositions[i * 3 + 2] += dustVelocities[i * 3 + 2] * delta + _wind.z;
 
       const dx = dustPositions[i * 3] - playerPos.x;
       const dy = dustPositions[i * 3 + 1] - playerPos.y;
@@ -1,6 +1,7 @@
 import * as THREE from "three";
 import RAPIER from "@dimforge/rapier3d-compat";
 import { queries } from "../World";
+import { physicsManager } from "../../managers/PhysicsManager";
 
 /**
  * Transform sync with render interpolation.
@@ -47,6 +48,23 @@ export function capturePhysicsSnapshot() {
   }
 }
 
+/**
+ * Move a body instantly (restart, save restore). Its colliders follow right
+ * away — the character controller queries them before the next step — and
+ * the interpolation history is dropped so frames don't blend across the jump.
+ */
+export function teleportEntity(
+  entity: { object3d: THREE.Object3D; rigidBody: RAPIER.RigidBody },
+  position: { x: number; y: number; z: number },
+  rotation?: { x: number; y: number; z: number; w: number },
+) {
+  entity.rigidBody.setTranslation(position, true);
+  if (rotation) entity.rigidBody.setRotation(rotation, true);
+  physicsManager.world.propagateModifiedBodyPositionsToColliders();
+  entity.object3d.position.set(position.x, position.y, position.z);
+  snapshots.delete(entity);
+}
+
 /** Called once per render frame with the interpolation factor [0..1]. */
 export function updatePhysicsSystem(alpha: number) {
   for (const entity of queries.physics) {
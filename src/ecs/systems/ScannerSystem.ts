@@ -5,10 +5,14 @@ import { renderer } from "../../core/Renderer";
 import { events } from "../../utils/EventBus";
 import { audioManager } from "../../managers/AudioManager";
 import { gameState } from "../../core/GameState";
+import { frameTimers } from "../../core/Timers";
+import { weatherAt } from "./WeatherSystem";
 
 /**
  * Sonar scanner (F): expanding wireframe ping that highlights beacons in
- * range. Pure visual/feedback system — runs in the render phase.
+ * range and charts them, and any data pads it sweeps over, on the orbital
+ * map. Pure visual/feedback system — runs in the render phase. Dust
+ * storms cut the ping's reach (down to under half in a full storm).
  */
 
 let scannerMesh: THREE.Mesh | null = null;
@@ -17,6 +21,8 @@ let scannerActive = false;
 let scannerCooldown = 0;
 const SCANNER_MAX_RADIUS = 80;
 const SCANNER_SPEED = 45.0;
+const STORM_RANGE_LOSS = 0.55;
+let scannerRange = SCANNER_MAX_RADIUS;
 
 export function updateScannerSystem(delta: number) {
   const player = queries.player.first;
@@ -34,6 +40,7 @@ export function updateScannerSystem(delta: number) {
     scannerActive = true;
     scannerScale = 0.1;
     scannerCooldown = 3.0;
+    scannerRange = SCANNER_MAX_RADIUS * (1 - STORM_RANGE_LOSS * weatherAt(playerPos));
 
     if (!scannerMesh) {
       const geo = new THREE.SphereGeometry(1, 32, 16);
@@ -49,7 +56,13 @@ export function updateScannerSystem(delta: number) {
     scannerMesh.position.copy(playerPos);
     scannerMesh.scale.setScalar(0.1);
     renderer.scene.add(scannerMesh);
-    events.emit("log:message", "RADAR PING SENT — SCANNING FOR BEACONS", "info");
+    events.emit(
+      "log:message",
+      scannerRange < SCANNER_MAX_RADIUS * 0.9
+        ? `RADAR PING SENT — DUST INTERFERENCE, RANGE ${Math.round(scannerRange)}m`
+        : "RADAR PING SENT — SCANNING FOR BEACONS",
+      "info",
+    );
     audioManager.playScannerPing();
   }
 
@@ -58,7 +71,7 @@ export function updateScannerSystem(delta: number) {
     scannerMesh.position.copy(playerPos);
     scannerMesh.scale.setScalar(scannerScale);
 
-    const op = 0.25 * (1.0 - scannerScale / SCANNER_MAX_RADIUS);
+    const op = 0.25 * (1.0 - scannerScale / scannerRange);
     (scannerMesh.material as THREE.MeshBasicMaterial).opacity = Math.max(0.0, op);
 
     for (const beacon of queries.beacons) {
@@ -66,6 +79,7 @@ export function updateScannerSystem(delta: number) {
       const dist = playerPos.distanceTo(beacon.object3d.position);
       if (dist <= scannerScale && !(beacon as any)._pingedThisScan) {
         (beacon as any)._pingedThisScan = true;
+        beacon.beacon.discovered = true;
         events.emit("log:message", `RADAR: BEACON DETECTED — RANGE: ${Math.round(dist)}m`, "info");
 
         // Visual highlight flash
@@ -75,15 +89,23 @@ export function updateScannerSystem(delta: number) {
           const origEmInt = ud.crystalMat.emissiveIntensity;
           ud.light.intensity = 24.0;
           ud.crystalMat.emissiveIntensity = 8.0;
-          setTimeout(() => {
+          frameTimers.after(1.5, () => {
             if (ud.light) ud.light.intensity = origLightInt;
             if (ud.crystalMat) ud.crystalMat.emissiveIntensity = origEmInt;
-          }, 1500);
+          });
         }
       }
     }
 
-    if (scannerScale >= SCANNER_MAX_RADIUS) {
+    // Data pads the ping sweeps over are charted on the orbital map
+    for (const { pickup, object3d } of queries.pickups) {
+      if (pickup.kind !== "datapad" || pickup.collected || pickup.scanned) continue;
+      if (playerPos.distanceTo(object3d.position) > scannerScale) continue;
+      pickup.scanned = true;
+      events.emit("log:message", "RADAR: MERIDIAN DATA PAD CHARTED", "info");
+    }
+
+    if (scannerScale >= scannerRange) {
       scannerActive = false;
       renderer.scene.remove(scannerMesh);
       for (const beacon of queries.beacons) {
@@ -0,0 +1,117 @@
+import { queries } from "../World";
+import { events } from "../../utils/EventBus";
+import { gameState } from "../../core/GameState";
+import { audioManager } from "../../managers/AudioManager";
+import { cachePosition } from "../factories/CacheFactory";
+
+/**
+ * Suit integrity: the player's `health` component.
+ *
+ * Hard landings, storm-spawn lunges and standing in a toxic vent wear the
+ * suit down. Integrity never ends a run by itself — a damaged suit leaks,
+ * and OxygenSystem adds `suitLeakRate()` on top of the normal drain, so a
+ * shredded suit turns every leg into a race. The supply cache and the
+ * dropship pad patch it back up. The rover cab shields the suit from vents
+ * and lunges.
+ */
+
+const SAFE_LANDING_SPEED = 13.0; // m/s — about a 4.7m drop
+const FALL_DAMAGE_PER_MS = 3.0; // integrity per m/s over the safe speed
+const HAZARD_CORROSION = 3.0; // per second at a vent's center
+const LEAK_THRESHOLD = 0.6; // below this fraction the suit starts leaking
+const MAX_LEAK_RATE = 1.2; // O₂ per second at zero integrity
+const REPAIR_RATE = 20.0; // per second at a repair point
+const CACHE_REPAIR_RADIUS = 5.0;
+const DROPSHIP_REPAIR_RADIUS = 10.0;
+const CRITICAL_FRACTION = 0.25;
+
+let wasRepairing = false;
+let wasLeaking = false;
+let wasCritical = false;
+
+events.on("game:restart", () => {
+  wasRepairing = false;
+  wasLeaking = false;
+  wasCritical = false;
+});
+
+// Fall damage: the character controller reports every hard landing
+events.on("player:land", (impactSpeed) => {
+  if (!gameState.isPlaying || impactSpeed <= SAFE_LANDING_SPEED) return;
+  const damage = (impactSpeed - SAFE_LANDING_SPEED) * FALL_DAMAGE_PER_MS;
+  damageSuit(damage);
+  if (damage >= 10) {
+    events.emit("log:message", `HARD LANDING — SUIT INTEGRITY -${Math.round(damage)}%`, "warn");
+  }
+});
+
+/** Take `amount` off the suit's integrity (no-op while seated in the rover). */
+export function damageSuit(amount: number) {
+  const player = queries.player.first;
+  const health = player?.health;
+  if (!player || !health || player.playerControl.seated || amount <= 0) return;
+
+  health.current = Math.max(0, health.current - amount);
+  events.emit("player:health:changed", health.current, health.max);
+  audioManager.playSuitImpact(Math.min(1, amount / 30));
+}
+
+/** Extra O₂ drain per second from a damaged suit (OxygenSystem). */
+export function suitLeakRate(): number {
+  const health = queries.player.first?.health;
+  if (!health) return 0;
+  const fraction = health.current / health.max;
+  if (fraction >= LEAK_THRESHOLD) return 0;
+  return MAX_LEAK_RATE * (1 - fraction / LEAK_THRESHOLD);
+}
+
+/** Fixed tick; scheduled to run only during active play (whilePlaying). */
+export function updateSuitSystem(dt: number) {
+  const player = queries.player.first;
+  const health = player?.health;
+  if (!player || !health) return;
+  const pc = player.playerControl;
+  const playerPos = player.object3d.position;
+  const before = health.current;
+
+  // Vent exposure corrodes the suit, stronger toward the center
+  if (!pc.seated) {
+    for (const { hazard, object3d } of queries.hazards) {
+      const dist = playerPos.distanceTo(object3d.position);
+      if (dist < hazard.radius) {
+        health.current -= HAZARD_CORROSION * (1 - dist / hazard.radius) * dt;
+      }
+    }
+    health.current = Math.max(0, health.current);
+  }
+
+  // Repair points: the supply cache and the dropship pad
+  const dropship = queries.dropships.first;
+  const repairing =
+    (cachePosition.lengthSq() > 0 &&
+      playerPos.distanceTo(cachePosition) < CACHE_REPAIR_RADIUS) ||
+    (!!dropship && playerPos.distanceTo(dropship.object3d.position) < DROPSHIP_REPAIR_RADIUS);
+
+  if (repairing && !wasRepairing && health.current < health.max - 1) {
+    events.emit("log:message", "SUIT REPAIR — SEALANT APPLIED", "info");
+  }
+  wasRepairing = repairing;
+  if (repairing) health.current = Math.min(health.max, health.current + REPAIR_RATE * dt);
+
+  if (health.current !== before) {
+    events.emit("player:health:changed", health.current, health.max);
+  }
+
+  // Edge-triggered warnings as the suit degrades
+  const fraction = health.current / health.max;
+  const leaking = fraction < LEAK_THRESHOLD;
+  const critical = fraction < CRITICAL_FRACTION;
+  if (leaking && !wasLeaking) {
+    events.emit("log:message", "⚠ SUIT BREACH — O₂ LEAKING", "warn");
+  }
+  if (critical && !wasCritical) {
+    events.emit("log:message", "⚠ SUIT INTEGRITY CRITICAL — SEEK REPAIR", "danger");
+  }
+  wasLeaking = leaking;
+  wasCritical = critical;
+}
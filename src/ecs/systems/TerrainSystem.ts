@@ -0,0 +1,462 @@
+import * as THREE from "three";
+import RAPIER from "@dimforge/rapier3d-compat";
+import { queries } from "../World";
+import { renderer, type QualityPreset } from "../../core/Renderer";
+import { physicsManager } from "../../managers/PhysicsManager";
+import { HEADLESS } from "../../core/Headless";
+import { getWorldSeed } from "../../core/WorldSeed";
+import { events } from "../../utils/EventBus";
+import {
+  MAX_CHUNK_LEVEL,
+  buildChunkSurface,
+  chunkCenter,
+  chunkIndices,
+  chunkKey,
+  chunkSize,
+  locateChunk,
+  subdivideChunk,
+  type ChunkAddress,
+  type ChunkSurface,
+  type ChunkWorkerRequest,
+  type ChunkWorkerResult,
+} from "../factories/PlanetChunks";
+import { setTerrainStamps, type StampKind, type TerrainStamp } from "../factories/PlanetTerrain";
+import { caveNetwork } from "../factories/Caves";
+
+/**
+ * The planet surface, streamed in chunks (PlanetChunks) around what needs it.
+ *
+ *  - COLLIDERS (fixed tick): Rapier trimeshes for the finest-level chunks
+ *    within reach of the player and the rover, built synchronously and from
+ *    sim state only, so a replay streams the same ground tick for tick.
+ *  - RENDER LOD (render frame): a quadtree per cube face that splits toward
+ *    the camera and merges toward the horizon. Chunks are built by a Web
+ *    Worker; until a chunk's finer children arrive, the chunk itself keeps
+ *    drawing, so the ground never has holes.
+ *
+ * Both evaluate the one terrain function, and the nearest render chunks are
+ * the collider chunks vertex for vertex.
+ *
+ *  - DEFORMATION: craters and cutter scoops (`deformTerrain`) are stamps in
+ *    the terrain function itself, so `getPlanetHeight` answers with the dent.
+ *    Only the chunks a stamp touches are rebuilt — colliders at once, render
+ *    chunks as the worker gets to them (the old mesh draws meanwhile).
+ *  - CAVES: chunks over the cave mouth leave it open (PlanetChunks); the
+ *    caves themselves are their own mesh and collider (CaveFactory).
+ */
+
+// --- Colliders ---------------------------------------------------------------
+
+const COLLIDER_LEVEL = MAX_CHUNK_LEVEL;
+const COLLIDER_REACH = 30; // build every chunk this close to an anchor (m)...
+const COLLIDER_KEEP = 45; // ...and drop them past this
+const RESCAN_DISTANCE = 4; // re-scan once an anchor has moved this far
+const SCAN_STEP = 3; // sample spacing of the scan (well under a chunk's 9.8m)
+
+// --- Render LOD --------------------------------------------------------------
+
+// Split a chunk once the camera is within this many chunk-widths of its middle
+const SPLIT_DISTANCE: Record<QualityPreset, number> = { low: 1.4, medium: 1.8, high: 2.2 };
+const MAX_IN_FLIGHT = 4; // worker jobs outstanding at once
+const INLINE_BUILDS = 2; // per frame, when no worker could be started
+
+// --- Deformation ---------------------------------------------------------------
+
+const MAX_STAMPS = 192; // past this the oldest marks weather away
+const SCOOP_MERGE = 0.6; // × radius: a dig this close deepens the scoop already there
+const MAX_SCOOP_DEPTH = 3; // m
+const SCOOP_WALL = 2; // scoop radius ≥ depth × this: a pit you can walk out of
+
+interface Planet {
+  root: THREE.Object3D;
+  material: THREE.Material;
+  body: RAPIER.RigidBody;
+  radius: number;
+}
+
+interface ChunkNode {
+  chunk: ChunkAddress;
+  /** Surface point in the chunk's middle (planet space). */
+  center: THREE.Vector3;
+  size: number;
+  mesh: THREE.Mesh | null;
+  /** Worker job id while building; 0 when idle. */
+  job: number;
+  /** Built before the ground under it was deformed: re-mesh when drawn. */
+  stale: boolean;
+  children: ChunkNode[] | null;
+}
+
+let planet: Planet | null = null;
+
+const colliders = new Map<string, { chunk: ChunkAddress; collider: RAPIER.Collider; center: THREE.Vector3 }>();
+const scannedAt: THREE.Vector3[] = [];
+const COLLIDER_INDICES = chunkIndices(false);
+
+let roots: ChunkNode[] = [];
+const RENDER_INDICES = chunkIndices(true);
+let worker: Worker | null = null;
+const jobs = new Map<number, ChunkNode>();
+let nextJob = 1;
+const wanted: ChunkNode[] = [];
+
+let stamps: TerrainStamp[] = [];
+
+const _up = new THREE.Vector3();
+const _t1 = new THREE.Vector3();
+const _t2 = new THREE.Vector3();
+const _dir = new THREE.Vector3();
+const _eye = new THREE.Vector3();
+const _cell: ChunkAddress = { face: 0, level: 0, x: 0, y: 0 };
+
+/**
+ * Take over a freshly created planet: its root object for the render chunks,
+ * the terrain material, and the fixed body the collider chunks hang from.
+ */
+export function attachTerrain(target: Planet) {
+  detachTerrain();
+  planet = target;
+  stamps = [];
+  setTerrainStamps(stamps);
+  if (HEADLESS) return;
+
+  // The six faces are built here, so the planet is whole from the first frame
+  roots = [0, 1, 2, 3, 4, 5].map((face) => makeNode({ face, level: 0, x: 0, y: 0 }));
+  for (const node of roots) applySurface(node, buildChunkSurface(node.chunk, target.radius, true));
+  try {
+    worker = new Worker(new URL("../factories/PlanetChunk.worker.ts", import.meta.url), { type: "module" });
+    worker.onmessage = (e: MessageEvent<ChunkWorkerResult>) => receiveChunk(e.data);
+    worker.onerror = (e) => {
+      console.warn("Planet chunk worker failed; building chunks on the main thread", e.message);
+      abandonWorker();
+    };
+    post({ type: "seed", seed: getWorldSeed() });
+    post({ type: "stamps", stamps });
+    post({ type: "caves", caves: caveNetwork() });
+  } catch (err) {
+    console.warn("Planet chunk worker unavailable; building chunks on the main thread", err);
+    worker = null;
+  }
+}
+
+/** Fall back to main-thread builds; chunks that were in flight get asked for again. */
+function abandonWorker() {
+  for (const node of jobs.values()) node.job = 0;
+  jobs.clear();
+  worker?.terminate();
+  worker = null;
+}
+
+function detachTerrain() {
+  clearColliders();
+  for (const node of roots) discardTree(node);
+  roots = [];
+  abandonWorker();
+  planet = null;
+}
+
+// --- Colliders ---------------------------------------------------------------
+
+function clearColliders() {
+  for (const { collider } of colliders.values()) physicsManager.world.removeCollider(collider, false);
+  colliders.clear();
+  scannedAt.length = 0;
+}
+
+// A restart rebuilds around the spawn from scratch, exactly like a fresh boot
+events.on("game:restart", clearColliders);
+
+function addCollider(chunk: ChunkAddress, key: string) {
+  if (!planet) return;
+  const surface = buildChunkSurface(chunk, planet.radius, false);
+  const desc = RAPIER.ColliderDesc.trimesh(surface.positions, surface.indices ?? COLLIDER_INDICES);
+  colliders.set(key, {
+    chunk,
+    collider: physicsManager.world.createCollider(desc, planet.body),
+    center: chunkCenter(chunk, planet.radius, new THREE.Vector3()),
+  });
+}
+
+/** Every chunk within COLLIDER_REACH of `anchor` (planet space), built if missing. */
+function scanAround(anchor: THREE.Vector3) {
+  const radius = planet!.radius;
+  _up.copy(anchor).normalize();
+  _t1.set(0, 1, 0);
+  if (Math.abs(_up.y) > 0.9) _t1.set(1, 0, 0);
+  _t1.cross(_up).normalize();
+  _t2.crossVectors(_up, _t1);
+
+  for (let a = -COLLIDER_REACH; a <= COLLIDER_REACH; a += SCAN_STEP) {
+    for (let b = -COLLIDER_REACH; b <= COLLIDER_REACH; b += SCAN_STEP) {
+      if (a * a + b * b > COLLIDER_REACH * COLLIDER_REACH) continue;
+      _dir.copy(_up).addScaledVector(_t1, a / radius).addScaledVector(_t2, b / radius);
+      locateChunk(_dir, COLLIDER_LEVEL, _cell);
+      const key = chunkKey(_cell);
+      if (!colliders.has(key)) addCollider({ ..._cell }, key);
+    }
+  }
+}
+
+/**
+ * Fixed tick: keep collider chunks under the player and the rover. Reads
+ * rigid-body translations (sim state), never the interpolated scene graph.
+ */
+export function updateTerrainSystem() {
+  if (!planet) return;
+  const origin = planet.root.position;
+
+  const anchors: THREE.Vector3[] = [];
+  for (const entity of [...queries.player, ...queries.vehicles]) {
+    if (!entity.rigidBody) continue;
+    const t = entity.rigidBody.translation();
+    anchors.push(new THREE.Vector3(t.x, t.y, t.z).sub(origin));
+  }
+
+  let moved = anchors.length !== scannedAt.length;
+  for (let i = 0; i < anchors.length && !moved; i++) {
+    moved = anchors[i].distanceToSquared(scannedAt[i]) > RESCAN_DISTANCE * RESCAN_DISTANCE;
+  }
+  if (!moved) return;
+
+  scannedAt.length = 0;
+  for (const anchor of anchors) {
+    scannedAt.push(anchor);
+    scanAround(anchor);
+  }
+
+  for (const [key, chunk] of colliders) {
+    const near = anchors.some((a) => a.distanceToSquared(chunk.center) < COLLIDER_KEEP * COLLIDER_KEEP);
+    if (near) continue;
+    physicsManager.world.removeCollider(chunk.collider, false);
+    colliders.delete(key);
+  }
+}
+
+// --- Render LOD --------------------------------------------------------------
+
+function makeNode(chunk: ChunkAddress): ChunkNode {
+  const radius = planet!.radius;
+  return {
+    chunk,
+    center: chunkCenter(chunk, radius, new THREE.Vector3()),
+    size: chunkSize(chunk.level, radius),
+    mesh: null,
+    job: 0,
+    stale: false,
+    children: null,
+  };
+}
+
+function makeGeometry(surface: ChunkSurface): THREE.BufferGeometry {
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute("position", new THREE.BufferAttribute(surface.positions, 3));
+  geometry.setAttribute("normal", new THREE.BufferAttribute(surface.normals!, 3));
+  geometry.setAttribute("color", new THREE.BufferAttribute(surface.colors!, 3));
+  // Each chunk owns its index copy: disposing a geometry frees its index too
+  geometry.setIndex(new THREE.BufferAttribute(surface.indices ?? RENDER_INDICES.slice(), 1));
+  geometry.computeBoundingSphere();
+  return geometry;
+}
+
+/** Give a chunk its built surface: a new mesh, or new geometry for a re-mesh. */
+function applySurface(node: ChunkNode, surface: ChunkSurface) {
+  if (node.mesh) {
+    node.mesh.geometry.dispose();
+    node.mesh.geometry = makeGeometry(surface);
+    return;
+  }
+  const mesh = new THREE.Mesh(makeGeometry(surface), planet!.material);
+  mesh.receiveShadow = true;
+  // The planet never casts: the sun's shadow frustum is a 50m box around the
+  // player, and a whole extra planet render bought almost nothing visually.
+  mesh.castShadow = false;
+  mesh.visible = false;
+  planet!.root.add(mesh);
+  node.mesh = mesh;
+}
+
+function discardTree(node: ChunkNode) {
+  if (node.mesh) {
+    node.mesh.removeFromParent();
+    node.mesh.geometry.dispose();
+    node.mesh = null;
+  }
+  if (node.job) jobs.delete(node.job);
+  node.job = 0;
+  for (const child of node.children ?? []) discardTree(child);
+  node.children = null;
+}
+
+/** Whether this chunk's area is on screen now, by itself or its descendants. */
+function isDrawn(node: ChunkNode): boolean {
+  if (node.mesh?.visible) return true;
+  return node.children !== null && node.children.every(isDrawn);
+}
+
+function hideTree(node: ChunkNode) {
+  if (node.mesh) node.mesh.visible = false;
+  for (const child of node.children ?? []) hideTree(child);
+}
+
+/** Draw this chunk if it is built; otherwise ask for it. */
+function show(node: ChunkNode): boolean {
+  if (node.mesh) {
+    node.mesh.visible = true;
+    if (node.stale && !node.job) wanted.push(node);
+    return true;
+  }
+  if (!node.job) wanted.push(node);
+  return false;
+}
+
+/**
+ * Walk the quadtree for this frame. Returns whether the chunk's area is
+ * covered — by the chunk itself or by its built descendants.
+ */
+function visit(node: ChunkNode, eye: THREE.Vector3, split: number): boolean {
+  if (node.chunk.level < MAX_CHUNK_LEVEL && eye.distanceTo(node.center) < split * node.size) {
+    node.children ??= subdivideChunk(node.chunk).map(makeNode);
+    let covered = true;
+    for (const child of node.children) covered = visit(child, eye, split) && covered;
+    if (covered) {
+      if (node.mesh) node.mesh.visible = false;
+      return true;
+    }
+    // Children still building: this chunk stands in for them meanwhile
+    for (const child of node.children) hideTree(child);
+    return show(node);
+  }
+
+  if (node.children && node.mesh) {
+    for (const child of node.children) discardTree(child);
+    node.children = null;
+  }
+  // Coarsening to a chunk that isn't built yet: the finer ones stay as they are
+  return show(node) || (node.children !== null && node.children.every(isDrawn));
+}
+
+function post(msg: ChunkWorkerRequest) {
+  worker?.postMessage(msg);
+}
+
+function receiveChunk(result: ChunkWorkerResult) {
+  const node = jobs.get(result.id);
+  jobs.delete(result.id);
+  if (!node || !planet) return; // discarded while it was building
+  node.job = 0;
+  applySurface(node, result);
+}
+
+/** Render frame: refine toward the camera, coarsen behind it, queue builds. */
+export function updateTerrainVisuals() {
+  if (!planet || !roots.length) return;
+  _eye.copy(renderer.camera.position).sub(planet.root.position);
+  const split = SPLIT_DISTANCE[renderer.quality];
+
+  wanted.length = 0;
+  for (const node of roots) visit(node, _eye, split);
+  if (!wanted.length) return;
+
+  // Nearest chunks first
+  wanted.sort((a, b) => a.center.distanceToSquared(_eye) - b.center.distanceToSquared(_eye));
+  if (!worker) {
+    for (const node of wanted.slice(0, INLINE_BUILDS)) {
+      node.stale = false;
+      applySurface(node, buildChunkSurface(node.chunk, planet.radius, true));
+    }
+    return;
+  }
+  for (const node of wanted) {
+    if (jobs.size >= MAX_IN_FLIGHT) break;
+    node.job = nextJob++;
+    node.stale = false;
+    jobs.set(node.job, node);
+    post({ type: "build", id: node.job, chunk: node.chunk, radius: planet.radius });
+  }
+}
+
+// --- Deformation ---------------------------------------------------------------
+
+/** Re-mesh every render chunk within `reach` of `center` (planet space; Infinity: all). */
+function markStale(node: ChunkNode, center: THREE.Vector3, reach: number) {
+  if (node.center.distanceTo(center) > reach + node.size) return;
+  if (node.mesh || node.job) node.stale = true;
+  for (const child of node.children ?? []) markStale(child, center, reach);
+}
+
+/** Rebuild what the ground change within `reach` of `center` touched. */
+function refreshArea(center: THREE.Vector3, reach: number) {
+  setTerrainStamps(stamps);
+  post({ type: "stamps", stamps });
+  for (const node of roots) markStale(node, center, reach);
+
+  // Collect first: a rebuilt chunk re-enters the map under the same key
+  const margin = chunkSize(COLLIDER_LEVEL, planet!.radius);
+  const touched = [...colliders].filter(([, entry]) => entry.center.distanceTo(center) <= reach + margin);
+  for (const [key, entry] of touched) {
+    physicsManager.world.removeCollider(entry.collider, false);
+    colliders.delete(key);
+    addCollider(entry.chunk, key);
+  }
+}
+
+/**
+ * Dent the ground at `position` (world space, on the surface): a blast
+ * crater, or a cutter scoop — digging where a scoop already is deepens and
+ * widens that one instead. Sizes in meters.
+ */
+export function deformTerrain(position: THREE.Vector3, kind: StampKind, radius: number, depth: number) {
+  if (!planet) return;
+  const R = planet.radius;
+  const dir = _dir.copy(position).sub(planet.root.position).normalize();
+
+  let stamp: TerrainStamp | undefined;
+  if (kind === "scoop") {
+    stamp = stamps.find(
+      (s) =>
+        s.kind === "scoop" &&
+        Math.acos(Math.min(1, s.dir.x * dir.x + s.dir.y * dir.y + s.dir.z * dir.z)) < s.radius * SCOOP_MERGE,
+    );
+  }
+  if (stamp) {
+    const deeper = Math.min(MAX_SCOOP_DEPTH, stamp.depth * R + depth);
+    stamp.depth = deeper / R;
+    stamp.radius = Math.max(stamp.radius, (deeper * SCOOP_WALL) / R);
+  } else {
+    stamp = { kind, dir: { x: dir.x, y: dir.y, z: dir.z }, radius: radius / R, depth: depth / R };
+    stamps.push(stamp);
+  }
+
+  // Oldest marks weather away; their ground comes back
+  const center = dir.clone().multiplyScalar(R);
+  while (stamps.length > MAX_STAMPS) {
+    const old = stamps.shift()!;
+    refreshArea(new THREE.Vector3(old.dir.x, old.dir.y, old.dir.z).multiplyScalar(R), old.radius * R * 1.5);
+  }
+  refreshArea(center, stamp.radius * R * 1.5);
+  events.emit("terrain:deformed", position, kind);
+}
+
+/** Replace the whole deformation layer, rebuilding everything. */
+function setStamps(list: TerrainStamp[]) {
+  stamps = list;
+  if (!planet) return;
+  clearColliders();
+  setTerrainStamps(stamps);
+  post({ type: "stamps", stamps });
+  for (const node of roots) markStale(node, _eye, Infinity);
+}
+
+// A restart puts the ground back as generated
+events.on("game:restart", () => {
+  if (stamps.length) setStamps([]);
+});
+
+/** The deformation layer, for save files. */
+export function serializeTerrain(): TerrainStamp[] {
+  return stamps.map((s) => ({ ...s, dir: { ...s.dir } }));
+}
+
+export function restoreTerrain(saved: TerrainStamp[]) {
+  setStamps(saved.map((s) => ({ ...s, dir: { ...s.dir } })));
+}
@@ -0,0 +1,406 @@
+import * as THREE from "three";
+import RAPIER from "@dimforge/rapier3d-compat";
+import { queries } from "../World";
+import { inputManager } from "../../managers/InputManager";
+import { physicsManager } from "../../managers/PhysicsManager";
+import { audioManager } from "../../managers/AudioManager";
+import { events } from "../../utils/EventBus";
+import { gameState } from "../../core/GameState";
+import { resetCharacterSystem } from "./CharacterSystem";
+import { teleportEntity } from "./PhysicsSystem";
+import {
+  CHASSIS,
+  SUSPENSION_DROOP,
+  SUSPENSION_REST,
+  WHEEL_MOUNTS,
+  WHEEL_RADIUS,
+} from "../factories/VehicleFactory";
+
+/**
+ * Rover: enter/exit, suspension, drive and battery (fixed tick), wheel and
+ * light animation (render tick).
+ *
+ * The chassis is kinematic and moved the same way the player is — velocity
+ * tracked in world space, gravity toward the planet center, and a KCC sweep
+ * so rocks and cliffs stop it. Each wheel is a raycast along the chassis'
+ * down axis; its spring pushes along the chassis up, so on a slope the
+ * rover rests on its suspension while gravity's downhill component rolls it.
+ * The chassis orientation follows the plane through the four wheel contacts
+ * (or levels out to the planet normal in the air), then yaws with steering.
+ *
+ * E (`action`) enters within reach and exits to the driver's side. While
+ * seated the player rides along hidden, breathing cabin air (OxygenSystem),
+ * and the rover spends its battery — recharged on the landing pad and at
+ * relay nodes that are back online.
+ */
+
+// --- Tuning ---------------------------------------------------------------
+const GRAVITY = 18.0; // m/s², same as the character controller
+const SPRING = 15.0; // per wheel, m/s² per meter of compression
+const DAMPING = 2.7; // per wheel, m/s² per m/s of compression rate
+const BUMP_STOP = 150.0; // extra stiffness near full compression
+const ENGINE_ACCEL = 6.0; // m/s² at full throttle
+const BRAKE_DECEL = 14.0;
+const MAX_SPEED = 14.0; // forward, m/s
+const MAX_REVERSE = 5.0;
+const ROLL_DRAG = 0.35; // coasting speed decay rate
+const PARK_BRAKE = 6.0; // decay rate with nobody aboard
+const GRIP = 9.0; // sideways velocity decay rate with four wheels down
+const STEER_RATE = 1.3; // max yaw rate, rad/s
+const STEER_RESPONSE = 6.0;
+const ALIGN_RATE_GROUND = 12.0; // chassis → contact plane
+const ALIGN_RATE_AIR = 1.5; // chassis → planet normal while airborne
+
+const ENTER_RADIUS = 3.5;
+const SEAT_HEIGHT = 0.6; // seated player above the chassis center
+
+// Battery: ~420m at full throttle, more when cruising. The longer relay
+// legs need a charge first, so the network of online nodes is the route.
+const BATTERY_IDLE_DRAIN = 0.15; // per second while seated
+const BATTERY_DRIVE_DRAIN = 3.3; // per second at full throttle
+const BATTERY_CHARGE_RATE = 12.0;
+const PAD_CHARGE_RADIUS = 12.0;
+const RELAY_CHARGE_RADIUS = 8.0;
+const BATTERY_LOW = 20;
+
+const WHEEL_RAY_LENGTH = SUSPENSION_REST + SUSPENSION_DROOP + WHEEL_RADIUS;
+
+// --- Single-rover state ------------------------------------------------------
+const lastNormal = new THREE.Vector3();
+let hasLastNormal = false;
+let wasCharging = false;
+let wasInRange = false;
+let lastBatteryPercent = -1;
+
+// --- Scratch objects (no per-tick allocations) ------------------------------
+const _pos = new THREE.Vector3();
+const _normal = new THREE.Vector3();
+const _vel = new THREE.Vector3();
+const _quat = new THREE.Quaternion();
+const _turn = new THREE.Quaternion();
+const _up = new THREE.Vector3();
+const _forward = new THREE.Vector3();
+const _right = new THREE.Vector3();
+const _mount = new THREE.Vector3();
+const _down = new THREE.Vector3();
+const _groundUp = new THREE.Vector3();
+const _across = new THREE.Vector3();
+const _along = new THREE.Vector3();
+const _exit = new THREE.Vector3();
+const contacts = WHEEL_MOUNTS.map(() => new THREE.Vector3());
+const _ray = new RAPIER.Ray({ x: 0, y: 0, z: 0 }, { x: 0, y: -1, z: 0 });
+const IDENTITY = new THREE.Quaternion();
+
+function aimRay(origin: THREE.Vector3, dir: THREE.Vector3) {
+  _ray.origin.x = origin.x;
+  _ray.origin.y = origin.y;
+  _ray.origin.z = origin.z;
+  _ray.dir.x = dir.x;
+  _ray.dir.y = dir.y;
+  _ray.dir.z = dir.z;
+}
+
+type Rover = (typeof queries.vehicles.entities)[number];
+type Player = (typeof queries.player.entities)[number];
+
+/** Forget per-run rover state (restart, save restore). */
+export function resetVehicleSystem() {
+  hasLastNormal = false;
+  wasCharging = false;
+  wasInRange = false;
+  lastBatteryPercent = -1;
+  audioManager.setRoverEngine(0);
+}
+
+events.on("game:restart", resetVehicleSystem);
+
+/** Put the player in the driver's seat (also used by save restore). */
+export function seatPlayer(player: Player, rover: Rover) {
+  const pc = player.playerControl;
+  pc.seated = true;
+  pc.isSprinting = false;
+  pc.isJetpacking = false;
+  rover.vehicle.occupied = true;
+  player.collider?.setEnabled(false);
+  player.object3d.visible = false;
+  teleportEntity(player, seatPosition(rover));
+  audioManager.setJetpackActive(false);
+  events.emit("vehicle:enter");
+  events.emit("vehicle:battery:changed", rover.vehicle.battery, rover.vehicle.maxBattery);
+}
+
+/** Climb out to the driver's side and hand control back to the character. */
+function unseatPlayer(player: Player, rover: Rover) {
+  const pc = player.playerControl;
+  const { vehicle } = rover;
+
+  // Driver's side (left), dropped onto whatever is below — terrain, rock, pad
+  const t = rover.rigidBody.translation();
+  const r = rover.rigidBody.rotation();
+  _quat.set(r.x, r.y, r.z, r.w);
+  _pos.set(t.x, t.y, t.z);
+  _normal.copy(_pos).normalize();
+  _right.set(1, 0, 0).applyQuaternion(_quat);
+  _exit.copy(_pos).addScaledVector(_right, -(CHASSIS.x + 1.0)).addScaledVector(_normal, 2.5);
+  aimRay(_exit, _down.copy(_normal).negate());
+  const hit = physicsManager.world.castRay(
+    _ray,
+    6,
+    true,
+    RAPIER.QueryFilterFlags.EXCLUDE_SENSORS,
+    undefined,
+    undefined,
+    rover.rigidBody,
+  );
+  if (hit) _exit.addScaledVector(_normal, -hit.timeOfImpact + 1.0);
+
+  pc.seated = false;
+  vehicle.occupied = false;
+  vehicle.throttle = 0;
+  player.collider?.setEnabled(true);
+  player.object3d.visible = true;
+  teleportEntity(player, _exit);
+  // Step off with the rover's momentum along the ground
+  _vel.set(vehicle.velocity.x, vehicle.velocity.y, vehicle.velocity.z).projectOnPlane(_normal);
+  pc.velocity = { x: _vel.x, y: _vel.y, z: _vel.z };
+  pc.grounded = false;
+  resetCharacterSystem();
+  audioManager.setRoverEngine(0);
+  events.emit("vehicle:exit");
+}
+
+function seatPosition(rover: Rover): { x: number; y: number; z: number } {
+  const t = rover.rigidBody.translation();
+  const r = rover.rigidBody.rotation();
+  _up.set(0, 1, 0).applyQuaternion(_quat.set(r.x, r.y, r.z, r.w));
+  return { x: t.x + _up.x * SEAT_HEIGHT, y: t.y + _up.y * SEAT_HEIGHT, z: t.z + _up.z * SEAT_HEIGHT };
+}
+
+/** One 60Hz simulation tick. */
+export function updateVehicleSystem(dt: number) {
+  const rover = queries.vehicles.first;
+  const player = queries.player.first;
+  if (!rover || !player) return;
+
+  const { vehicle, rigidBody, collider, characterController: kcc } = rover;
+  const pc = player.playerControl;
+  const playing = gameState.isPlaying;
+
+  // --- Enter / exit (E) ---
+  const t0 = rigidBody.translation();
+  _pos.set(t0.x, t0.y, t0.z);
+  const p = player.rigidBody.translation();
+  const inRange = !pc.seated && _pos.distanceTo(_exit.set(p.x, p.y, p.z)) < ENTER_RADIUS;
+  if (inRange && !wasInRange && playing) {
+    events.emit("log:message", "ROVER — PRESS E TO DRIVE", "info");
+  }
+  wasInRange = inRange;
+
+  if (inputManager.consumePressed("action") && playing) {
+    if (pc.seated) unseatPlayer(player, rover);
+    else if (inRange) seatPlayer(player, rover);
+  }
+
+  if (!kcc) return;
+
+  // Safety net: NaN or fell through the planet → back to the park spot
+  if (!isFinite(_pos.lengthSq()) || (player.spawnPoint && _pos.length() < player.spawnPoint.safeRadius)) {
+    teleportEntity(rover, vehicle.park.position, vehicle.park.rotation);
+    vehicle.velocity = { x: 0, y: 0, z: 0 };
+    hasLastNormal = false;
+    return;
+  }
+
+  _normal.copy(_pos).normalize();
+  const r0 = rigidBody.rotation();
+  _quat.set(r0.x, r0.y, r0.z, r0.w);
+  _up.set(0, 1, 0).applyQuaternion(_quat);
+  _forward.set(0, 0, -1).applyQuaternion(_quat);
+  _right.set(1, 0, 0).applyQuaternion(_quat);
+
+  // --- Velocity: restore and parallel-transport to the new tangent frame ---
+  _vel.set(vehicle.velocity.x, vehicle.velocity.y, vehicle.velocity.z);
+  if (hasLastNormal) {
+    _turn.setFromUnitVectors(lastNormal, _normal);
+    _vel.applyQuaternion(_turn);
+  }
+  lastNormal.copy(_normal);
+  hasLastNormal = true;
+
+  // --- Suspension: one ray per wheel along the chassis down axis ---
+  _down.copy(_up).negate();
+  let wheelsDown = 0;
+  let suspension = 0;
+  WHEEL_MOUNTS.forEach((mount, i) => {
+    _mount.copy(mount).applyQuaternion(_quat).add(_pos);
+    aimRay(_mount, _down);
+    const hit = physicsManager.world.castRay(
+      _ray,
+      WHEEL_RAY_LENGTH,
+      true,
+      RAPIER.QueryFilterFlags.EXCLUDE_SENSORS,
+      undefined,
+      collider,
+      rigidBody,
+      (c) => c !== player.collider,
+    );
+    const reach = hit ? hit.timeOfImpact : WHEEL_RAY_LENGTH;
+    contacts[i].copy(_mount).addScaledVector(_down, reach);
+
+    const previous = vehicle.compression[i];
+    const compression = hit ? WHEEL_RAY_LENGTH - reach : 0;
+    vehicle.compression[i] = compression;
+    if (!hit) return;
+
+    wheelsDown++;
+    // Springs push, never pull; the damper only acts while touching
+    const rate = previous > 0 ? (compression - previous) / dt : 0;
+    let push = SPRING * compression + DAMPING * rate;
+    const bottomOut = compression - (SUSPENSION_DROOP + SUSPENSION_REST * 0.8);
+    if (bottomOut > 0) push += BUMP_STOP * bottomOut;
+    suspension += Math.max(0, push);
+  });
+  const traction = wheelsDown / WHEEL_MOUNTS.length;
+
+  _vel.addScaledVector(_up, suspension * dt);
+  _vel.addScaledVector(_normal, -GRAVITY * dt);
+
+  // --- Drive input (seated, playing, charge left) ---
+  const input = pc.seated && playing ? inputManager.getDirection() : { x: 0, z: 0 };
+  const hasCharge = vehicle.battery > 0;
+  const throttle = hasCharge ? -input.z : 0;
+  vehicle.throttle = throttle;
+  vehicle.steer += (input.x - vehicle.steer) * (1 - Math.exp(-STEER_RESPONSE * dt));
+
+  // --- Traction: longitudinal drive/brake and sideways grip ---
+  let along = _vel.dot(_forward);
+  const sideways = _vel.dot(_right);
+  if (traction > 0) {
+    let targetAlong = along;
+    if (throttle !== 0 && Math.sign(throttle) !== Math.sign(along) && Math.abs(along) > 0.5) {
+      // Opposite input brakes before it reverses
+      targetAlong = along - Math.sign(along) * Math.min(Math.abs(along), BRAKE_DECEL * dt);
+    } else if (throttle !== 0) {
+      const top = throttle > 0 ? MAX_SPEED : MAX_REVERSE;
+      const wanted = throttle * top;
+      targetAlong = along + THREE.MathUtils.clamp(wanted - along, -ENGINE_ACCEL * dt, ENGINE_ACCEL * dt);
+    } else {
+      const drag = vehicle.occupied ? ROLL_DRAG : PARK_BRAKE;
+      targetAlong = along * Math.exp(-drag * dt);
+    }
+    const targetSideways = sideways * Math.exp(-GRIP * dt);
+    _vel.addScaledVector(_forward, (targetAlong - along) * traction);
+    _vel.addScaledVector(_right, (targetSideways - sideways) * traction);
+    along = _vel.dot(_forward);
+  }
+  vehicle.wheelSpin = (vehicle.wheelSpin + (along * dt) / WHEEL_RADIUS) % (Math.PI * 2);
+
+  // --- Orientation: yaw with steering, settle onto the contact plane ---
+  if (traction > 0) {
+    const grip = THREE.MathUtils.clamp(along / 4, -1, 1);
+    const yawRate = -vehicle.steer * STEER_RATE * grip * (1 - 0.4 * Math.min(1, Math.abs(along) / MAX_SPEED));
+    _turn.setFromAxisAngle(_up, yawRate * dt);
+    _quat.premultiply(_turn);
+  }
+  if (wheelsDown >= 3) {
+    // Plane through the wheel contacts: left→right and rear→front spans
+    _across.copy(contacts[1]).add(contacts[3]).sub(contacts[0]).sub(contacts[2]);
+    _along.copy(contacts[0]).add(contacts[1]).sub(contacts[2]).sub(contacts[3]);
+    _groundUp.crossVectors(_across, _along).normalize();
+    if (_groundUp.dot(_normal) < 0.3) _groundUp.copy(_normal);
+  } else {
+    _groundUp.copy(_normal);
+  }
+  const alignRate = wheelsDown > 0 ? ALIGN_RATE_GROUND : ALIGN_RATE_AIR;
+  _up.set(0, 1, 0).applyQuaternion(_quat);
+  _turn.setFromUnitVectors(_up, _groundUp);
+  _turn.slerp(IDENTITY, Math.exp(-alignRate * dt));
+  _quat.premultiply(_turn).normalize();
+
+  // --- Move the chassis through its KCC ---
+  kcc.setUp({ x: _normal.x, y: _normal.y, z: _normal.z });
+  kcc.computeColliderMovement(
+    collider,
+    { x: _vel.x * dt, y: _vel.y * dt, z: _vel.z * dt },
+    RAPIER.QueryFilterFlags.EXCLUDE_SENSORS,
+    undefined,
+    (c) => c !== player.collider,
+  );
+  const moved = kcc.computedMovement();
+  const next = { x: _pos.x + moved.x, y: _pos.y + moved.y, z: _pos.z + moved.z };
+  rigidBody.setNextKinematicTranslation(next);
+  rigidBody.setNextKinematicRotation(_quat);
+
+  // Keep only the velocity the world allowed (no speed banked against a rock)
+  vehicle.velocity = { x: moved.x / dt, y: moved.y / dt, z: moved.z / dt };
+
+  // --- Battery ---
+  let charging = false;
+  const dropship = queries.dropships.first;
+  if (dropship && _pos.distanceTo(dropship.object3d.position) < PAD_CHARGE_RADIUS) charging = true;
+  for (const { beacon, object3d } of queries.beacons) {
+    if (beacon.collected && _pos.distanceTo(object3d.position) < RELAY_CHARGE_RADIUS) charging = true;
+  }
+  if (charging) {
+    vehicle.battery = Math.min(vehicle.maxBattery, vehicle.battery + BATTERY_CHARGE_RATE * dt);
+  } else if (vehicle.occupied) {
+    const drain = BATTERY_IDLE_DRAIN + BATTERY_DRIVE_DRAIN * Math.abs(throttle);
+    const before = vehicle.battery;
+    vehicle.battery = Math.max(0, vehicle.battery - drain * dt);
+    const low = (vehicle.battery / vehicle.maxBattery) * 100;
+    if (before > 0 && vehicle.battery === 0) {
+      events.emit("log:message", "ROVER BATTERY DEPLETED — DRIVE SYSTEMS OFFLINE", "danger");
+    } else if ((before / vehicle.maxBattery) * 100 > BATTERY_LOW && low <= BATTERY_LOW) {
+      events.emit("log:message", "ROVER BATTERY LOW — FIND A CHARGER", "warn");
+    }
+  }
+  if (charging && !wasCharging && vehicle.occupied && vehicle.battery < vehicle.maxBattery - 1) {
+    events.emit("log:message", "ROVER CHARGING — POWER UPLINK ACTIVE", "info");
+  }
+  wasCharging = charging;
+
+  const percent = Math.round((vehicle.battery / vehicle.maxBattery) * 100);
+  if (percent !== lastBatteryPercent) {
+    lastBatteryPercent = percent;
+    events.emit("vehicle:battery:changed", vehicle.battery, vehicle.maxBattery);
+  }
+
+  // --- Carry the driver ---
+  if (pc.seated) {
+    _up.set(0, 1, 0).applyQuaternion(_quat);
+    player.rigidBody.setNextKinematicTranslation({
+      x: next.x + _up.x * SEAT_HEIGHT,
+      y: next.y + _up.y * SEAT_HEIGHT,
+      z: next.z + _up.z * SEAT_HEIGHT,
+    });
+    pc.velocity = { ...vehicle.velocity };
+    pc.grounded = wheelsDown > 0;
+    audioManager.setRoverEngine(Math.abs(throttle) * 0.7 + Math.min(1, Math.abs(along) / MAX_SPEED) * 0.3);
+  }
+}
+
+/** Render-phase visuals: wheel travel, spin and steering; brake lights. */
+export function updateVehicleVisuals() {
+  for (const { object3d, vehicle } of queries.vehicles) {
+    const wheels = object3d.userData.wheels as THREE.Group[] | undefined;
+    if (!wheels) continue;
+
+    wheels.forEach((pivot, i) => {
+      // Airborne wheels hang at full droop
+      const drop = vehicle.compression[i] > 0
+        ? WHEEL_RAY_LENGTH - WHEEL_RADIUS - vehicle.compression[i]
+        : SUSPENSION_REST + SUSPENSION_DROOP;
+      pivot.position.y = WHEEL_MOUNTS[i].y - THREE.MathUtils.clamp(drop, 0, SUSPENSION_REST + SUSPENSION_DROOP);
+      if (i < 2) pivot.rotation.y = -vehicle.steer * 0.45;
+      pivot.children[0].rotation.x = -vehicle.wheelSpin;
+    });
+
+    const tailMat = object3d.userData.tailMat as THREE.MeshBasicMaterial | undefined;
+    if (tailMat) {
+      _vel.set(vehicle.velocity.x, vehicle.velocity.y, vehicle.velocity.z);
+      _forward.set(0, 0, -1).applyQuaternion(object3d.quaternion);
+      const braking = vehicle.throttle !== 0 && Math.sign(vehicle.throttle) !== Math.sign(_vel.dot(_forward));
+      tailMat.color.setHex(braking || vehicle.throttle < 0 ? 0xff2222 : 0x661111);
+    }
+  }
+}
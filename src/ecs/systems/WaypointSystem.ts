@@ -2,17 +2,22 @@ import * as THREE from "three";
 import { queries } from "../World";
 import { renderer } from "../../core/Renderer";
 import { getMissionTarget } from "../../managers/MissionManager";
+import { mapPins, removeMapPin } from "../../core/MapPins";
+import { events } from "../../utils/EventBus";
+import { weatherAt } from "./WeatherSystem";
 
 /**
  * Screen-space waypoint markers (DOM overlay).
  *
  * ONE marker for the current mission objective (cache → current relay node →
- * dropship), plus small hint markers for Meridian data pads within earshot.
+ * dropship), plus small hint markers for Meridian data pads within earshot
+ * and for the parked rover once the player has walked away from it, and one
+ * per route pin dropped on the orbital map (a pin clears once reached).
  * A single target keeps the screen readable and makes each act's goal
  * unambiguous. Markers clamp to the screen edge with a direction arrow when
  * the target is off-screen or behind the camera — on a spherical planet
  * targets are usually over the horizon, so this is the player's primary
- * navigation tool.
+ * navigation tool. In a dust storm the markers shake with interference.
  */
 
 interface Marker {
@@ -29,6 +34,9 @@ const _world = new THREE.Vector3();
 const _proj = new THREE.Vector3();
 const _camSpace = new THREE.Vector3();
 
+const STORM_JITTER = 14; // px at full storm strength
+let jitter = 0;
+
 function getMarker(key: string, label: string, className: string): Marker {
   let marker = markers.get(key);
   if (marker) return marker;
@@ -97,6 +105,11 @@ function placeMarker(marker: Marker, target: THREE.Vector3, playerPos: THREE.Vec
     marker.icon.style.transform = "";
   }
 
+  if (jitter > 0) {
+    x += (Math.random() - 0.5) * jitter;
+    y += (Math.random() - 0.5) * jitter;
+  }
+
   marker.root.style.display = "flex";
   marker.root.style.left = `${x}px`;
   marker.root.style.top = `${y}px`;
@@ -104,6 +117,8 @@ function placeMarker(marker: Marker, target: THREE.Vector3, playerPos: THREE.Vec
 }
 
 const DATA_HINT_RADIUS = 70;
+const ROVER_HINT_MIN = 25;
+const PIN_REACHED_RADIUS = 6;
 const _touched = new Set<string>();
 
 export function updateWaypointSystem() {
@@ -117,6 +132,7 @@ export function updateWaypointSystem() {
 
   const playerPos = player.object3d.position;
   renderer.camera.updateMatrixWorld();
+  jitter = STORM_JITTER * weatherAt(playerPos);
   _touched.clear();
 
   // The single mission objective marker
@@ -147,6 +163,34 @@ export function updateWaypointSystem() {
     _touched.add(key);
   }
 
+  // Where the rover was left, while on foot and out of arm's reach
+  const rover = queries.vehicles.first;
+  if (rover && !player.playerControl.seated) {
+    const roverPos = rover.object3d.position;
+    if (playerPos.distanceTo(roverPos) > ROVER_HINT_MIN) {
+      const marker = getMarker("rover", "ROVER", "waypoint-rover");
+      _world.copy(roverPos);
+      _world.addScaledVector(_world.clone().normalize(), 2.5);
+      placeMarker(marker, _world, playerPos);
+      _touched.add("rover");
+    }
+  }
+
+  // Route pins from the orbital map
+  for (const pin of [...mapPins]) {
+    if (playerPos.distanceTo(pin.position) < PIN_REACHED_RADIUS) {
+      removeMapPin(pin.num);
+      events.emit("log:message", `ROUTE PIN ${pin.num} REACHED`, "success");
+      continue;
+    }
+    const key = `pin${pin.num}`;
+    const marker = getMarker(key, `PIN ${pin.num}`, "waypoint-pin");
+    _world.copy(pin.position);
+    _world.addScaledVector(_world.clone().normalize(), 2.5);
+    placeMarker(marker, _world, playerPos);
+    _touched.add(key);
+  }
+
   // Hide any marker not placed this frame (collected pads, act changes)
   for (const [key, marker] of markers) {
     if (!_touched.has(key)) marker.root.style.display = "none";
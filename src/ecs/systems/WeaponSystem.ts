@@ -5,12 +5,23 @@ import { inputManager } from "../../managers/InputManager";
 import { audioManager } from "../../managers/AudioManager";
 import { gameState } from "../../core/GameState";
 import { events } from "../../utils/EventBus";
-import { damageCreature } from "./CreatureSystem";
+import { HEADLESS } from "../../core/Headless";
+import { damageCreature, isCreatureTargetable } from "./CreatureSystem";
+import { deformTerrain } from "./TerrainSystem";
+import { getPlanetHeight } from "../factories/PlanetFactory";
+import { ARCHETYPES } from "../creatures";
 
 /**
  * The arc cutter — Vasquez's mining tool, salvaged at the supply cache.
  * Hitscan beam with a heat budget instead of ammo: fire in bursts, vent,
  * fire again. Overheating locks the trigger, so rhythm beats spam.
+ *
+ * Mining mode (the cutter_mode toggle) does what the tool was built for: a
+ * shot that misses every creature bites into the ground in front of you,
+ * and holding on one spot digs a pit.
+ *
+ * An armored creature (the storm heart) only takes hits on its weak points,
+ * with a tighter aim assist; a beam that meets its armor first glances off.
  */
 
 const FIRE_INTERVAL = 0.18; // ~5.5 shots/s held
@@ -22,14 +33,24 @@ const RANGE = 60;
 const HIT_RADIUS_BASE = 0.9;
 const HIT_RADIUS_PER_M = 0.07;
 const HIT_RADIUS_MAX = 2.4;
+const WEAK_POINT_RADIUS = 0.8; // weak points want an actual aim
 const HEAT_PER_SHOT = 12;
 const COOL_RATE = 30; // per second while not firing
 const OVERHEAT_LOCK_UNTIL = 35; // vent down to this before refire
+// Mining: the beam reaches ground this close; each bite scoops this much
+const MINE_RANGE = 12;
+const SCOOP_RADIUS = 0.9;
+const SCOOP_DEPTH = 0.22;
+
+const PLANET_RADIUS = 200;
+
+export type CutterMode = "combat" | "mining";
 
 let heat = 0;
 let overheated = false;
 let fireCooldown = 0;
 let beamLife = 0;
+let mode: CutterMode = "combat";
 
 let beamMesh: THREE.Mesh | null = null;
 let beamMat: THREE.MeshBasicMaterial | null = null;
@@ -38,6 +59,19 @@ let heatRow: HTMLElement | null = null;
 let heatBar: HTMLElement | null = null;
 let hudTick = 0;
 
+// In-place restart: cold cutter, and the heat gauge goes until it's salvaged again
+events.on("game:restart", () => {
+  heat = 0;
+  overheated = false;
+  fireCooldown = 0;
+  beamLife = 0;
+  mode = "combat";
+  if (beamMesh) beamMesh.visible = false;
+  heatRow?.remove();
+  heatRow = null;
+  heatBar = null;
+});
+
 const _origin = new THREE.Vector3();
 const _dirV = new THREE.Vector3();
 const _muzzle = new THREE.Vector3();
@@ -45,6 +79,7 @@ const _toTarget = new THREE.Vector3();
 const _hitPoint = new THREE.Vector3();
 const _mid = new THREE.Vector3();
 const _target = new THREE.Vector3();
+const _armor = new THREE.Vector3();
 const UP = new THREE.Vector3(0, 1, 0);
 
 function ensureBeam() {
@@ -64,41 +99,105 @@ function ensureBeam() {
 }
 
 function ensureHUD() {
-  if (heatRow) return;
+  if (heatRow || HEADLESS) return;
   const vitals = document.getElementById("panel-vitals");
   if (!vitals) return;
   heatRow = document.createElement("div");
   heatRow.className = "stat-row";
   heatRow.innerHTML =
-    `<span class="label">CUTTER</span>` +
+    `<span class="label cutter-label">CUTTER</span>` +
     `<div class="bar-container"><div class="bar cutter-bar" style="width:0%"></div></div>`;
   vitals.appendChild(heatRow);
   heatBar = heatRow.querySelector(".cutter-bar");
 }
 
+/**
+ * First point where the ray leaves open air within `maxT` (marched against
+ * the terrain function, then bisected), into `out`. None from underground:
+ * cave rock isn't the terrain function's, and the surface overhead isn't
+ * in reach.
+ */
+function groundAlong(origin: THREE.Vector3, dir: THREE.Vector3, maxT: number, out: THREE.Vector3): boolean {
+  const STEP = 0.25;
+  const below = (t: number) => {
+    out.copy(origin).addScaledVector(dir, t);
+    return out.length() < getPlanetHeight(out, PLANET_RADIUS);
+  };
+  if (below(0)) return false;
+  let prev = 0;
+  for (let t = STEP; t <= maxT; t += STEP) {
+    if (!below(t)) {
+      prev = t;
+      continue;
+    }
+    let lo = prev;
+    let hi = t;
+    for (let i = 0; i < 8; i++) {
+      const mid = (lo + hi) / 2;
+      if (below(mid)) hi = mid;
+      else lo = mid;
+    }
+    below(hi);
+    return true;
+  }
+  return false;
+}
+
 function fire(playerUpDir: THREE.Vector3) {
   renderer.camera.getWorldPosition(_origin);
   renderer.camera.getWorldDirection(_dirV);
 
-  // Nearest creature along the beam
+  // Nearest creature (or weak point, or armor) along the beam
   let best: (typeof queries.creatures.entities)[number] | null = null;
   let bestT = Infinity;
-  for (const entity of queries.creatures) {
-    if (entity.creature.state === "dying") continue;
-    _toTarget.copy(entity.object3d.position).addScaledVector(playerUpDir, 0.4).sub(_origin);
+  let bestPoint = -1; // weak point id; ARMOR when it glanced off
+  const ARMOR = -2;
+  const consider = (entity: typeof best, at: THREE.Vector3, assist: number, point: number) => {
+    _toTarget.copy(at).sub(_origin);
     const t = _toTarget.dot(_dirV);
-    if (t < 0.5 || t > RANGE) continue;
+    if (t < 0.5 || t > RANGE) return;
     const perpSq = _toTarget.lengthSq() - t * t;
-    const allowed = Math.min(HIT_RADIUS_BASE + t * HIT_RADIUS_PER_M, HIT_RADIUS_MAX);
+    const allowed = Math.min(HIT_RADIUS_BASE + t * HIT_RADIUS_PER_M, assist);
     if (perpSq < allowed * allowed && t < bestT) {
       best = entity;
       bestT = t;
+      bestPoint = point;
+    }
+  };
+  for (const entity of queries.creatures) {
+    if (!isCreatureTargetable(entity)) continue;
+    const archetype = ARCHETYPES[entity.creature.type];
+    if (!archetype.weakPoints) {
+      _target.copy(entity.object3d.position).addScaledVector(playerUpDir, 0.4);
+      consider(entity, _target, HIT_RADIUS_MAX, -1);
+      continue;
+    }
+    for (const point of archetype.weakPoints(entity)) {
+      consider(entity, point.position, WEAK_POINT_RADIUS, point.id);
+    }
+    // The armor: where the beam enters its sphere
+    const radius = archetype.armor?.(entity, _armor) ?? 0;
+    if (radius <= 0) continue;
+    _armor.sub(_origin);
+    const t = _armor.dot(_dirV);
+    const perpSq = _armor.lengthSq() - t * t;
+    if (perpSq >= radius * radius) continue;
+    const enter = t - Math.sqrt(radius * radius - perpSq);
+    if (enter > 0.5 && enter < RANGE && enter < bestT) {
+      best = entity;
+      bestT = enter;
+      bestPoint = ARMOR;
     }
   }
 
-  if (best) {
+  if (best && bestPoint === ARMOR) {
+    _hitPoint.copy(_origin).addScaledVector(_dirV, bestT);
+    events.emit("creature:deflected");
+  } else if (best) {
     _hitPoint.copy(_origin).addScaledVector(_dirV, bestT);
-    damageCreature(best, DAMAGE);
+    damageCreature(best, DAMAGE, bestPoint);
+  } else if (mode === "mining" && groundAlong(_origin, _dirV, MINE_RANGE, _hitPoint)) {
+    deformTerrain(_hitPoint, "scoop", SCOOP_RADIUS, SCOOP_DEPTH);
   } else {
     _hitPoint.copy(_origin).addScaledVector(_dirV, RANGE);
   }
@@ -132,14 +231,26 @@ function fire(playerUpDir: THREE.Vector3) {
 
 /** Fixed tick: trigger, heat, hitscan. */
 export function updateWeaponSystem(dt: number) {
+  // Consumed even without the cutter, so an early tap doesn't flip it later
+  const toggled = inputManager.consumePressed("cutter_mode");
   const player = queries.player.first;
   if (!player?.playerControl?.hasCutter) return;
   ensureHUD();
 
+  if (toggled && gameState.isPlaying) {
+    mode = mode === "combat" ? "mining" : "combat";
+    events.emit("log:message", mode === "mining" ? "CUTTER — MINING MODE" : "CUTTER — COMBAT MODE", "info");
+    const label = heatRow?.querySelector(".cutter-label");
+    if (label) label.textContent = mode === "mining" ? "CUTTER · MINE" : "CUTTER";
+  }
+
   fireCooldown = Math.max(0, fireCooldown - dt);
 
   const wantsFire =
-    gameState.isPlaying && inputManager.getAction("fire") > 0 && !overheated;
+    gameState.isPlaying &&
+    inputManager.getAction("fire") > 0 &&
+    !overheated &&
+    !player.playerControl.seated;
 
   if (wantsFire && fireCooldown <= 0) {
     const upDir = player.object3d.position.clone().normalize();
@@ -170,6 +281,7 @@ export function weaponDebug() {
     locked: inputManager.pointerLocked,
     playing: gameState.isPlaying,
     hasCutter: !!queries.player.first?.playerControl?.hasCutter,
+    mode,
   };
 }
 
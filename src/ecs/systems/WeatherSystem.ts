@@ -0,0 +1,287 @@
+import * as THREE from "three";
+import { queries } from "../World";
+import { renderer } from "../../core/Renderer";
+import { events } from "../../utils/EventBus";
+import { seedStream } from "../../core/WorldSeed";
+import { setStormLevel } from "../../core/Sun";
+import { caveShelter } from "../factories/Caves";
+
+/**
+ * Weather: dust storms that cross the planet as fronts. Each storm is a cap
+ * of the sphere whose center travels along a great circle; where it passes,
+ * wind shoves the player (CharacterSystem), fog and dust thicken (here and
+ * ParticleSystem), waypoint markers shake (WaypointSystem) and the sonar
+ * ping loses range (ScannerSystem). Every effect reads `weatherAt()` — the
+ * strongest storm at a position, 0..1. Under a cave roof there is none.
+ *
+ * Regional storms come on a seeded schedule (sim time, so a replay sees the
+ * same weather). Scripted events — the mission's act storm — are storms too,
+ * usually planet-wide, started by their owner with `startWeatherEvent()`;
+ * the schedule holds while one is running.
+ */
+
+const PLANET_RADIUS = 200;
+
+// Schedule (sim seconds)
+const FIRST_STORM = { min: 120, max: 210 };
+const STORM_GAP = { min: 150, max: 300 }; // from one storm's end to the next
+const STORM_LIFE = { min: 70, max: 110 };
+const STORM_RAMP = 15; // build-up and die-down
+// Footprint radius (radians of arc: ~70–110m) and ground speed (m/s)
+const STORM_RADIUS = { min: 0.35, max: 0.55 };
+const STORM_SPEED = { min: 1.5, max: 3 };
+
+const WIND_SPEED = 5.5; // m/s at full strength, before gusts
+const BASE_FOG_DENSITY = 0.004;
+const STORM_FOG_DENSITY = 0.012;
+
+// Log when a regional storm reaches the player and when it has passed
+const ARRIVE_LEVEL = 0.25;
+const PASSED_LEVEL = 0.1;
+
+export interface DustStorm {
+  /** Set for scripted events (the id they were started with). */
+  id?: string;
+  /** Storm center, a unit vector; travels about `axis` at `speed` rad/s. */
+  center: THREE.Vector3;
+  axis: THREE.Vector3;
+  speed: number;
+  /** Footprint, radians of arc from the center (π: planet-wide). */
+  radius: number;
+  /** Peak strength, 0..1. */
+  strength: number;
+  age: number;
+  duration: number;
+  /** Seconds to build to full strength, and to die back down (0: no fade). */
+  rampIn: number;
+  rampOut: number;
+}
+
+type Vec3 = { x: number; y: number; z: number };
+
+export interface WeatherSave {
+  seed: number;
+  nextStorm: number;
+  storms: (Omit<DustStorm, "center" | "axis"> & { center: Vec3; axis: Vec3 })[];
+}
+
+const storms: DustStorm[] = [];
+let nextStorm = 0;
+let inStorm = false;
+
+// Deterministic schedule and storm tracks
+const WEATHER_SEED = 0x57a7;
+let seed = seedStream(WEATHER_SEED);
+function rand() {
+  seed |= 0;
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+}
+const between = (range: { min: number; max: number }) => range.min + rand() * (range.max - range.min);
+
+const _up = new THREE.Vector3();
+const _dir = new THREE.Vector3();
+const _heading = new THREE.Vector3();
+const _gust = new THREE.Vector3();
+
+function resetWeather() {
+  storms.length = 0;
+  seed = seedStream(WEATHER_SEED);
+  nextStorm = between(FIRST_STORM);
+  inStorm = false;
+}
+resetWeather();
+
+// Reseeded at each landing: the world seed is only final once the run starts
+events.on("game:start", resetWeather);
+events.on("game:restart", resetWeather);
+
+/** A storm's strength over its life: ramps in, holds, ramps out. */
+function envelope(storm: DustStorm): number {
+  const rampIn = storm.rampIn > 0 ? Math.min(1, storm.age / storm.rampIn) : 1;
+  const rampOut = storm.rampOut > 0 ? Math.min(1, (storm.duration - storm.age) / storm.rampOut) : 1;
+  return storm.strength * Math.max(0, Math.min(rampIn, rampOut));
+}
+
+/** One storm's strength at a direction from the planet's center (unit vector). */
+function stormAt(storm: DustStorm, up: THREE.Vector3): number {
+  const strength = envelope(storm);
+  if (strength <= 0 || storm.radius >= Math.PI) return strength;
+  const angle = Math.acos(THREE.MathUtils.clamp(up.dot(storm.center), -1, 1));
+  return strength * (1 - THREE.MathUtils.smoothstep(angle, storm.radius * 0.55, storm.radius));
+}
+
+/** The strongest storm over a world position, rock overhead or not. */
+function skyAt(position: THREE.Vector3): number {
+  _up.copy(position).normalize();
+  let level = 0;
+  for (const storm of storms) level = Math.max(level, stormAt(storm, _up));
+  return level;
+}
+
+/** Storm strength at a world position, 0 (clear) .. 1 (full storm; less in a cave). */
+export function weatherAt(position: THREE.Vector3): number {
+  const level = skyAt(position);
+  return level && level * (1 - caveShelter(position));
+}
+
+/**
+ * Wind at a world position (m/s, along the surface) into `out`: each storm
+ * blows the way its front travels, in gusts. Caves are out of it.
+ */
+export function windAt(position: THREE.Vector3, out: THREE.Vector3): THREE.Vector3 {
+  out.set(0, 0, 0);
+  if (!storms.length) return out;
+  _up.copy(position).normalize();
+  for (const storm of storms) {
+    const level = stormAt(storm, _up);
+    if (level <= 0) continue;
+    _gust.crossVectors(storm.axis, _up);
+    const len = _gust.length();
+    if (len < 1e-4) continue; // at the ends of the track's axis: calm
+    const gust = 0.75 + 0.25 * Math.sin(storm.age * 1.3) * Math.sin(storm.age * 0.47 + 1);
+    out.addScaledVector(_gust, (WIND_SPEED * level * gust) / len);
+  }
+  return out.multiplyScalar(1 - caveShelter(position));
+}
+
+/**
+ * Start a scripted weather event (replacing any with the same `id`): a storm
+ * over the player that builds for `rampIn` seconds. Pass `age` to pick it
+ * up part-way through (a restored save). Planet-wide unless `radius` says
+ * otherwise.
+ */
+export function startWeatherEvent(
+  id: string,
+  options: { duration: number; rampIn: number; rampOut?: number; radius?: number; strength?: number; age?: number },
+) {
+  stopWeatherEvent(id);
+  const player = queries.player.first;
+  const center = player ? player.object3d.position.clone().normalize() : new THREE.Vector3(0, 1, 0);
+  const storm = makeStorm(center, options.radius ?? Math.PI, STORM_SPEED.min / PLANET_RADIUS);
+  Object.assign(storm, {
+    id,
+    duration: options.duration,
+    rampIn: options.rampIn,
+    rampOut: options.rampOut ?? 0,
+    strength: options.strength ?? 1,
+    age: options.age ?? 0,
+  });
+  storms.push(storm);
+}
+
+export function stopWeatherEvent(id: string) {
+  const i = storms.findIndex((storm) => storm.id === id);
+  if (i >= 0) storms.splice(i, 1);
+}
+
+/** A storm whose track passes through `through` on a random heading. */
+function makeStorm(through: THREE.Vector3, radius: number, speed: number): DustStorm {
+  _up.copy(through).normalize();
+  // Random tangent heading at the pass point; the track's axis is normal to both
+  _dir.set(rand() - 0.5, rand() - 0.5, rand() - 0.5).projectOnPlane(_up);
+  if (_dir.lengthSq() < 1e-6) _dir.set(1, 0, 0).projectOnPlane(_up);
+  _heading.copy(_dir.normalize());
+  const axis = new THREE.Vector3().crossVectors(_up, _heading).normalize();
+  return {
+    center: _up.clone(),
+    axis,
+    speed,
+    radius,
+    strength: 1,
+    age: 0,
+    duration: 0,
+    rampIn: STORM_RAMP,
+    rampOut: STORM_RAMP,
+  };
+}
+
+/** Schedule the next regional storm: one whose front crosses the player's path. */
+function spawnRegionalStorm(playerPos: THREE.Vector3) {
+  const radius = between(STORM_RADIUS);
+  const speed = between(STORM_SPEED) / PLANET_RADIUS;
+  const storm = makeStorm(playerPos, radius, speed);
+  storm.duration = between(STORM_LIFE);
+  storm.strength = 0.7 + rand() * 0.3;
+  // Slide the track sideways (a near miss, or dead on) ...
+  const miss = (rand() - 0.5) * radius;
+  _heading.crossVectors(storm.axis, storm.center);
+  storm.axis.applyAxisAngle(_heading, miss);
+  storm.center.projectOnPlane(storm.axis).normalize();
+  // ... and start it upwind, so it is overhead mid-life if the player stays put
+  storm.center.applyAxisAngle(storm.axis, (-storm.speed * storm.duration) / 2);
+  storms.push(storm);
+}
+
+/** Fixed tick; scheduled to run only during active play (whilePlaying). */
+export function updateWeatherSystem(dt: number) {
+  const player = queries.player.first;
+  if (!player) return;
+  const playerPos = player.object3d.position;
+
+  for (let i = storms.length - 1; i >= 0; i--) {
+    const storm = storms[i];
+    storm.age += dt;
+    storm.center.applyAxisAngle(storm.axis, storm.speed * dt);
+    if (storm.age >= storm.duration) storms.splice(i, 1);
+  }
+
+  // Regional storms wait while a scripted event has the sky
+  const scripted = storms.some((storm) => storm.id !== undefined);
+  if (!scripted) {
+    nextStorm -= dt;
+    if (nextStorm <= 0 && !storms.length) {
+      spawnRegionalStorm(playerPos);
+      nextStorm = storms[storms.length - 1].duration + between(STORM_GAP);
+    }
+  }
+
+  // Arrival and passing are the sky's: ducking into a cave passes nothing
+  const level = skyAt(playerPos);
+  if (!inStorm && level > ARRIVE_LEVEL) {
+    inStorm = true;
+    if (!scripted) {
+      events.emit("log:message", "DUST STORM — HIGH WINDS · SCANNER RANGE REDUCED", "warn");
+    }
+  } else if (inStorm && level < PASSED_LEVEL) {
+    inStorm = false;
+    if (!scripted) events.emit("log:message", "DUST STORM PASSED — VISIBILITY CLEARING", "info");
+  }
+}
+
+/** Render-frame: fog density and storm tint where the player stands. */
+export function updateWeatherVisuals() {
+  const player = queries.player.first;
+  const level = player?.object3d ? weatherAt(player.object3d.position) : 0;
+  const fog = renderer.scene.fog as THREE.FogExp2 | null;
+  if (fog) fog.density = BASE_FOG_DENSITY + level * (STORM_FOG_DENSITY - BASE_FOG_DENSITY);
+  // The sun rig tints the fog toward storm slate (and the time of day)
+  setStormLevel(level);
+}
+
+const vec = (v: THREE.Vector3): Vec3 => ({ x: v.x, y: v.y, z: v.z });
+
+/** Storms in the sky and the schedule, for save files. */
+export function serializeWeather(): WeatherSave {
+  return {
+    seed,
+    nextStorm,
+    storms: storms.map((storm) => ({ ...storm, center: vec(storm.center), axis: vec(storm.axis) })),
+  };
+}
+
+export function restoreWeather(saved: WeatherSave) {
+  seed = saved.seed;
+  nextStorm = saved.nextStorm;
+  storms.length = 0;
+  for (const storm of saved.storms) {
+    storms.push({
+      ...storm,
+      center: new THREE.Vector3(storm.center.x, storm.center.y, storm.center.z),
+      axis: new THREE.Vector3(storm.axis.x, storm.axis.y, storm.axis.z),
+    });
+  }
+  inStorm = false;
+}
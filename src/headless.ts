@@ -0,0 +1,152 @@
+import { engine } from "./core/Engine";
+import { DEFAULT_WORLD_SEED, getWorldSeed, setWorldSeed } from "./core/WorldSeed";
+import { gameState } from "./core/GameState";
+import { scheduler } from "./core/Scheduler";
+import { physicsManager } from "./managers/PhysicsManager";
+import { missionManager, missionState } from "./managers/MissionManager";
+import { replayManager, type ReplayFile } from "./managers/ReplayManager";
+import { saveManager, type SaveSnapshot } from "./managers/SaveManager";
+import type { MissionDef } from "./core/MissionScript";
+import { DIFFICULTY_PRESETS, setDifficulty, type DifficultyData } from "./core/Difficulty";
+import { createWorld } from "./ecs/factories/WorldFactory";
+import { charDiag } from "./ecs/systems/CharacterSystem";
+import { queries } from "./ecs/World";
+import { events } from "./utils/EventBus";
+
+/**
+ * Headless entry point: the full simulation with no canvas, DOM or audio.
+ *
+ * Boots Rapier, builds the same world as the browser (createWorld), starts
+ * the mission and then advances only when asked — `step(n)` runs n exact
+ * 1/60s ticks through Engine.fixedUpdate, as fast as the CPU allows. Balance
+ * scripts and CI load this through scripts/headless.mjs (Vite's SSR loader
+ * resolves the TypeScript and `?raw` shader imports under Node).
+ */
+
+export interface HeadlessOptions {
+  /** Echo mission log messages to the console, stamped with sim time. */
+  log?: boolean;
+  /** Play this recording back instead of running with idle input. */
+  replay?: ReplayFile;
+  /** Resume from this save instead of starting on the pad. */
+  resume?: SaveSnapshot;
+  /** World seed (default: the original world). Replays and saves bring their own. */
+  seed?: number;
+  /** Mission script to play (default: LOST SIGNAL). */
+  mission?: MissionDef;
+  /** Difficulty preset or custom values (default: STANDARD). Replays and saves bring their own. */
+  difficulty?: keyof typeof DIFFICULTY_PRESETS | DifficultyData;
+}
+
+export type HeadlessSim = Awaited<ReturnType<typeof bootHeadless>>;
+
+export async function bootHeadless(options: HeadlessOptions = {}) {
+  // A typo in a balance script must not quietly run another world or preset
+  const { seed, difficulty: preset } = options;
+  if (seed !== undefined && !(Number.isInteger(seed) && seed >= 0 && seed <= 0xffffffff)) {
+    throw new Error(`Invalid world seed ${seed}: expected an integer from 0 to 4294967295`);
+  }
+  if (typeof preset === "string" && !Object.keys(DIFFICULTY_PRESETS).includes(preset)) {
+    throw new Error(
+      `Unknown difficulty "${preset}": expected ${Object.keys(DIFFICULTY_PRESETS).join(", ")}`,
+    );
+  }
+  await physicsManager.init();
+  setWorldSeed(
+    options.replay?.seed ?? options.resume?.seed ?? options.seed ?? DEFAULT_WORLD_SEED,
+  );
+  const difficulty = options.difficulty ?? "standard";
+  setDifficulty(
+    typeof difficulty === "string" ? DIFFICULTY_PRESETS[difficulty] : difficulty,
+    false,
+  );
+  const player = createWorld();
+  if (options.mission) missionManager.loadMission(options.mission);
+
+  if (options.log) {
+    events.on("log:message", (text, type) => {
+      console.log(`[${engine.simTime.toFixed(2)}s] ${type.toUpperCase().padEnd(7)} ${text}`);
+    });
+  }
+
+  if (options.replay) {
+    replayManager.load(options.replay);
+    // Reproduce the pad settle the recording saw while on the start screen
+    engine.step(Math.max(0, options.replay.preTicks - charDiag.ticks));
+  }
+
+  if (options.resume) saveManager.resume(options.resume);
+
+  events.emit("game:start");
+  // The browser has rendered (and built the camera rig) before any tick
+  engine.syncFrame();
+
+  return {
+    engine,
+    player,
+    queries,
+    missionState,
+    replay: replayManager,
+    saves: saveManager,
+    scheduler,
+
+    /**
+     * Play the loaded replay to its end, frame by frame with the recorded
+     * deltas (plain step() would bypass the recorded frame timing).
+     */
+    runReplay() {
+      while (replayManager.isPlaying) engine.stepFrame(1 / 60);
+    },
+
+    /** Restart in place (as after a game over) and begin the new run. */
+    restart() {
+      events.emit("game:restart");
+      events.emit("game:start");
+      engine.syncFrame();
+    },
+
+    /** Advance exactly `ticks` fixed steps. */
+    step(ticks = 1) {
+      engine.step(ticks);
+    },
+
+    /** Advance by (at least) `seconds` of simulation time. */
+    runFor(seconds: number) {
+      engine.step(Math.ceil(seconds * 60));
+    },
+
+    /**
+     * Step until `done()` is true or the run ends (game over / extraction),
+     * giving up after `maxSeconds` of sim time. Returns whether `done()` hit.
+     */
+    runUntil(done: () => boolean, maxSeconds = 900): boolean {
+      const maxTicks = Math.ceil(maxSeconds * 60);
+      for (let i = 0; i < maxTicks; i++) {
+        if (done()) return true;
+        if (!gameState.isPlaying) return false;
+        engine.step(1);
+      }
+      return done();
+    },
+
+    /** Plain-JSON summary of the run so far. */
+    summary() {
+      const pc = player.playerControl;
+      const p = player.object3d.position;
+      return {
+        seed: getWorldSeed(),
+        simTime: engine.simTime,
+        phase: gameState.phase,
+        mission: { ...missionState },
+        stats: missionManager.getStats(),
+        oxygen: pc.oxygen,
+        fuel: pc.jetpackFuel,
+        integrity: player.health?.current,
+        position: { x: p.x, y: p.y, z: p.z },
+        grounded: charDiag.grounded,
+        creatures: queries.creatures.entities.length,
+        replay: replayManager.status(),
+      };
+    },
+  };
+}
@@ -1,11 +1,7 @@
 import { engine } from "./core/Engine";
-import { createPlayer } from "./ecs/factories/PlayerFactory";
-import { createPlanet, getPlanetHeight } from "./ecs/factories/PlanetFactory";
-import { createBeacons, BEACON_DIRECTIONS } from "./ecs/factories/BeaconFactory";
-import { createHazards } from "./ecs/factories/HazardFactory";
-import { createLandingZone } from "./ecs/factories/DropshipFactory";
-import { createPickups, createDataPads } from "./ecs/factories/PickupFactory";
-import { createSupplyCache } from "./ecs/factories/CacheFactory";
+import { scheduler } from "./core/Scheduler";
+import { getPlanetHeight } from "./ecs/factories/PlanetFactory";
+import { createWorld, PLANET_RADIUS } from "./ecs/factories/WorldFactory";
 import { missionManager, missionState } from "./managers/MissionManager";
 import { initParticleSystem } from "./ecs/systems/ParticleSystem";
 import * as THREE from "three";
@@ -13,10 +9,12 @@ import { renderer } from "./core/Renderer";
 import { createSun } from "./core/Sun";
 import { uiManager } from "./managers/UIManager";
 import { settingsMenu } from "./managers/SettingsMenu";
+import { orbitalMap } from "./managers/OrbitalMap";
+import { touchControls } from "./managers/TouchControls";
+import { pauseMenu } from "./managers/PauseMenu";
 import { assetManager } from "./managers/AssetManager";
-import { physicsManager } from "./managers/PhysicsManager";
 import { debugManager } from "./managers/DebugManager";
-import RAPIER from "@dimforge/rapier3d-compat";
+import type { ReplayFile } from "./managers/ReplayManager";
 
 // Global Error Overlay for debugging black screens
 window.addEventListener('error', (e) => {
@@ -37,159 +35,13 @@ import "./styles/style.css";
 import skyboxVertexShader from "./shaders/skybox.vertex.glsl?raw";
 import skyboxFragmentShader from "./shaders/skybox.fragment.glsl?raw";
 
-// A 200m-radius planet: ~1.25km around the equator. Big enough to feel like
-// a world, small enough that every beacon is a purposeful 1–3 minute traverse
-// against the oxygen clock.
-const PLANET_RADIUS = 200;
-
-/**
- * Scatter rock formations across the spherical surface.
- * Keeps the landing zone and beacon sites clear.
- */
-function createWorldClutter(planetRadius: number) {
-  const count = 160;
-
-  const geometries = [
-    new THREE.DodecahedronGeometry(1.0, 0),
-    new THREE.OctahedronGeometry(1.2, 0),
-    new THREE.TetrahedronGeometry(1.4, 0),
-  ];
-
-  const material = new THREE.MeshStandardMaterial({
-    color: 0x8a6a52,
-    roughness: 0.9,
-    metalness: 0.05,
-    flatShading: true,
-  });
-
-  const rocksPerType = Math.floor(count / geometries.length);
-  const dummy = new THREE.Object3D();
-  const pole = new THREE.Vector3(0, 1, 0);
-
-  const isClearOf = (dir: THREE.Vector3) => {
-    if (dir.dot(pole) > 0.95) return false; // landing zone
-    for (const beaconDir of BEACON_DIRECTIONS) {
-      if (dir.dot(beaconDir) > 0.997) return false; // ~15m around each beacon
-    }
-    return true;
-  };
-
-  geometries.forEach((geo) => {
-    const mesh = new THREE.InstancedMesh(geo, material, rocksPerType);
-
-    for (let i = 0; i < rocksPerType; i++) {
-      let dir;
-      do {
-        dir = new THREE.Vector3(
-          Math.random() - 0.5,
-          Math.random() - 0.5,
-          Math.random() - 0.5
-        ).normalize();
-      } while (!isClearOf(dir));
-
-      const height = getPlanetHeight(dir, planetRadius);
-      const pos = dir.clone().multiplyScalar(height);
-
-      dummy.position.set(pos.x, pos.y, pos.z);
-
-      const uprightQuat = new THREE.Quaternion().setFromUnitVectors(new THREE.Vector3(0, 1, 0), dir);
-      dummy.quaternion.copy(uprightQuat);
-
-      dummy.rotateY(Math.random() * Math.PI * 2);
-      dummy.rotateX((Math.random() - 0.5) * 0.3);
-      dummy.rotateZ((Math.random() - 0.5) * 0.3);
-
-      const scale = 0.4 + Math.random() * 1.8;
-      dummy.scale.setScalar(scale);
-      dummy.updateMatrix();
-      mesh.setMatrixAt(i, dummy.matrix);
-
-      // Physical collider for each rock
-      const rigidBodyDesc = RAPIER.RigidBodyDesc.fixed()
-        .setTranslation(pos.x, pos.y, pos.z)
-        .setRotation(uprightQuat);
-      const rockBody = physicsManager.world.createRigidBody(rigidBodyDesc);
-      const colliderDesc = RAPIER.ColliderDesc.ball(scale * 0.75);
-      physicsManager.world.createCollider(colliderDesc, rockBody);
-    }
-
-    mesh.castShadow = true;
-    mesh.receiveShadow = true;
-    renderer.scene.add(mesh);
-  });
-
-  // Emissive crystal clusters — night-side landmarks and pure eye candy.
-  // Visual only: no colliders, players walk straight through.
-  const crystalGeo = new THREE.ConeGeometry(0.22, 1.4, 5);
-  const crystalMat = new THREE.MeshStandardMaterial({
-    color: 0x8844cc,
-    emissive: 0xaa55ff,
-    emissiveIntensity: 1.3,
-    roughness: 0.2,
-    metalness: 0.1,
-    flatShading: true,
-  });
-
-  const clusterCount = 22;
-  const crystalsPerCluster = 5;
-  const crystalMesh = new THREE.InstancedMesh(
-    crystalGeo,
-    crystalMat,
-    clusterCount * crystalsPerCluster,
-  );
-
-  let ci = 0;
-  for (let c = 0; c < clusterCount; c++) {
-    let dir;
-    do {
-      dir = new THREE.Vector3(
-        Math.random() - 0.5,
-        Math.random() - 0.5,
-        Math.random() - 0.5,
-      ).normalize();
-    } while (!isClearOf(dir));
-
-    const clusterUpright = new THREE.Quaternion().setFromUnitVectors(
-      new THREE.Vector3(0, 1, 0),
-      dir,
-    );
-
-    for (let k = 0; k < crystalsPerCluster; k++) {
-      // Jitter each shard around the cluster center along the surface
-      const jitter = dir
-        .clone()
-        .add(
-          new THREE.Vector3(
-            (Math.random() - 0.5) * 0.012,
-            (Math.random() - 0.5) * 0.012,
-            (Math.random() - 0.5) * 0.012,
-          ),
-        )
-        .normalize();
-      const height = getPlanetHeight(jitter, planetRadius);
-      const pos = jitter.clone().multiplyScalar(height + 0.2);
-
-      dummy.position.copy(pos);
-      dummy.quaternion.copy(clusterUpright);
-      dummy.rotateX((Math.random() - 0.5) * 0.9);
-      dummy.rotateZ((Math.random() - 0.5) * 0.9);
-      dummy.scale.set(
-        0.7 + Math.random() * 0.6,
-        0.6 + Math.random() * 1.3,
-        0.7 + Math.random() * 0.6,
-      );
-      dummy.updateMatrix();
-      crystalMesh.setMatrixAt(ci++, dummy.matrix);
-    }
-  }
-  crystalMesh.castShadow = true;
-  renderer.scene.add(crystalMesh);
-}
-
 async function bootstrap() {
   // Initialize Managers
   uiManager;
   settingsMenu;
+  orbitalMap;
+  touchControls;
+  pauseMenu;
   missionManager;
   debugManager;
 
@@ -201,36 +53,16 @@ async function bootstrap() {
 
   // --- Lighting Setup ---
 
-  // Hemisphere light for natural ambient bounce — strong enough that the
-  // shadow side of objects still reads as shape, never as a black cutout.
-  const hemiLight = new THREE.HemisphereLight(
-    0x9d8bd6, // Sky color (nebula violet)
-    0x5a3a28, // Ground color (warm rust bounce)
-    0.7,
-  );
-  renderer.scene.add(hemiLight);
-
-  // Ambient fill
-  const ambientLight = new THREE.AmbientLight(0x353050, 0.45);
-  renderer.scene.add(ambientLight);
-
-  // Sun with a player-following shadow frustum
+  // Sun, bounce/fill lights and fog, following the time of day
   createSun(renderer.scene);
 
-  // Opposite fill light (weaker, cool-toned)
-  const fillLight = new THREE.DirectionalLight(0x7799dd, 0.4);
-  fillLight.position.set(-50, -20, -30);
-  renderer.scene.add(fillLight);
-
-  // Atmospheric haze — dusty mauve matched to the sky horizon so terrain
-  // dissolves into the sky instead of into gray soup.
-  renderer.scene.fog = new THREE.FogExp2(0x38203e, 0.004);
-
   // Generate Procedural Skybox
   const skyboxGeo = new THREE.SphereGeometry(4000, 48, 48);
   const skyboxMat = new THREE.ShaderMaterial({
     uniforms: {
       uTime: { value: 0 },
+      uSunDir: { value: new THREE.Vector3(0, 1, 0) },
+      uDaylight: { value: 1 },
     },
     vertexShader: skyboxVertexShader,
     fragmentShader: skyboxFragmentShader,
@@ -241,29 +73,13 @@ async function bootstrap() {
   skybox.name = "Skybox";
   renderer.scene.add(skybox);
 
-  // --- World Generation (Spherical Planet) ---
-  createPlanet({ x: 0, y: 0, z: 0 }, PLANET_RADIUS);
-  createLandingZone(PLANET_RADIUS);
-  createWorldClutter(PLANET_RADIUS);
-
-  // Gameplay entities
-  createBeacons(PLANET_RADIUS, getPlanetHeight);
-  createHazards(PLANET_RADIUS, getPlanetHeight);
-  createPickups(PLANET_RADIUS);
-  createSupplyCache(PLANET_RADIUS);
-  createDataPads(PLANET_RADIUS);
+  // Terrain, colliders, gameplay entities and the player (shared with the
+  // headless runner)
+  createWorld();
 
   // Initialize particles
   initParticleSystem();
 
-  // Spawn player on the landing pad next to the dropship. Height is derived
-  // from the pad surface (which sits at pole height − 0.05), not the noise
-  // field under the spawn point, so the capsule always drops cleanly onto it.
-  const poleHeight = getPlanetHeight(new THREE.Vector3(0, 1, 0), PLANET_RADIUS);
-  const spawnDir = new THREE.Vector3(0.02, 1.0, 0.0).normalize();
-  const spawnPos = spawnDir.clone().multiplyScalar(poleHeight + 1.5);
-  createPlayer({ x: spawnPos.x, y: spawnPos.y, z: spawnPos.z });
-
   console.log("ASTRA: LOST SIGNAL — Game initialized");
 
   // Auto quality: if the player never chose a tier, measure real frame cost
@@ -276,7 +92,8 @@ async function bootstrap() {
     /* private browsing */
   }
   if (!storedQuality) {
-    events.on("game:start", () => {
+    // Once per page: an in-place restart emits game:start again
+    events.once("game:start", () => {
       // Measure REAL frames per second (frame-counter deltas) — main-thread
       // frameMs misses GPU-bound stalls, which is exactly what weak
       // integrated GPUs produce.
@@ -392,6 +209,20 @@ async function bootstrap() {
       const p = queries.dropships.first?.object3d?.position;
       return p ? { x: p.x, y: p.y, z: p.z } : null;
     },
+    // Replays: the run recorded so far, or queue one to play on game start.
+    async getReplay() {
+      const { replayManager } = await import("./managers/ReplayManager");
+      return replayManager.getRecording();
+    },
+    async loadReplay(replay: ReplayFile) {
+      const { replayManager } = await import("./managers/ReplayManager");
+      replayManager.load(replay);
+    },
+    // Saves: snapshot the run now (optionally into a slot).
+    async getSave(slot?: "auto" | "1" | "2" | "3") {
+      const { saveManager } = await import("./managers/SaveManager");
+      return slot ? saveManager.save(slot) : saveManager.snapshot();
+    },
     getPerf: () => ({
       frameMs: engine.frameMs,
       frameMsMax: engine.frameMsMax,
@@ -399,6 +230,9 @@ async function bootstrap() {
       drawCalls: renderer.renderer.info.render.calls,
       triangles: renderer.renderer.info.render.triangles,
     }),
+    // Per-system ms per frame, and runtime toggles (see core/Scheduler.ts)
+    getSystemTimings: () => scheduler.timings(),
+    setSystemEnabled: (name: string, enabled: boolean) => scheduler.setEnabled(name, enabled),
     // Test-only: drop the player onto the surface point in direction (x,y,z).
     teleport(x: number, y: number, z: number) {
       const player = queries.player.first;
@@ -1,4 +1,17 @@
 import { events } from "../utils/EventBus";
+import type { Biome } from "../ecs/factories/Terrain";
+
+// Footstep bandpass per ground type: center (Hz, up to +85% random), Q, level
+const FOOTSTEP_TONES: Record<Biome, { freq: number; q: number; gain: number }> = {
+  plains: { freq: 320, q: 1.2, gain: 1 },
+  mesa: { freq: 380, q: 1.4, gain: 1 },
+  range: { freq: 520, q: 2.2, gain: 1.1 },
+  peak: { freq: 700, q: 2.6, gain: 0.9 }, // brittle ash crust
+  cliff: { freq: 600, q: 3, gain: 1.2 },
+  scar: { freq: 260, q: 1.6, gain: 0.9 },
+  scarFloor: { freq: 200, q: 1, gain: 0.8 }, // fine silt, muffled
+  cave: { freq: 450, q: 4, gain: 1.3 }, // bare rock, ringing
+};
 
 class AudioManager {
   private ctx: AudioContext | null = null;
@@ -7,6 +20,8 @@ class AudioManager {
   // Nodes
   private ambientGain: GainNode | null = null;
   private jetpackGain: GainNode | null = null;
+  private roverGain: GainNode | null = null;
+  private roverOsc: OscillatorNode | null = null;
   private noiseBuffer: AudioBuffer | null = null;
 
   // States
@@ -15,7 +30,7 @@ class AudioManager {
   constructor() {
     // Feel SFX are event-driven; every handler no-ops until init() runs
     // (which happens on the start-screen click, satisfying autoplay policy).
-    events.on("player:footstep", () => this.playFootstep());
+    events.on("player:footstep", (ground) => this.playFootstep(ground));
     events.on("player:land", (impactSpeed) =>
       this.playLanding(Math.min(1, impactSpeed / 20)),
     );
@@ -158,6 +173,31 @@ class AudioManager {
     }
   }
 
+  /**
+   * Rover motor hum, 0 (off) .. 1 (flat out). Called every tick while
+   * driving; the node is built on first use.
+   */
+  public setRoverEngine(level: number) {
+    if (!this.ctx) return;
+    if (!this.roverGain) {
+      if (level <= 0) return;
+      this.roverOsc = this.ctx.createOscillator();
+      this.roverOsc.type = "sawtooth";
+      const filter = this.ctx.createBiquadFilter();
+      filter.type = "lowpass";
+      filter.frequency.value = 320;
+      this.roverGain = this.ctx.createGain();
+      this.roverGain.gain.value = 0;
+      this.roverOsc.connect(filter);
+      filter.connect(this.roverGain);
+      this.roverGain.connect(this.ctx.destination);
+      this.roverOsc.start();
+    }
+    const now = this.ctx.currentTime;
+    this.roverGain.gain.setTargetAtTime(level > 0 ? 0.05 + level * 0.1 : 0, now, 0.1);
+    this.roverOsc!.frequency.setTargetAtTime(45 + level * 70, now, 0.15);
+  }
+
   public playLowOxygenWarning() {
     if (!this.ctx) return;
     
@@ -190,8 +230,11 @@ class AudioManager {
     return this.noiseBuffer;
   }
 
-  /** Short filtered noise tap — regolith crunch underfoot. */
-  public playFootstep() {
+  /**
+   * Short filtered noise tap — regolith crunch underfoot, pitched by the
+   * ground: loose dust is soft and low, bare rock sharp and bright.
+   */
+  public playFootstep(ground: Biome = "plains") {
     if (!this.ctx) return;
     const buffer = this.getNoiseBuffer();
     if (!buffer) return;
@@ -201,12 +244,13 @@ class AudioManager {
 
     const filter = this.ctx.createBiquadFilter();
     filter.type = "bandpass";
-    filter.frequency.value = 320 + Math.random() * 280; // vary each step
-    filter.Q.value = 1.2;
+    const tone = FOOTSTEP_TONES[ground];
+    filter.frequency.value = tone.freq * (1 + Math.random() * 0.85); // vary each step
+    filter.Q.value = tone.q;
 
     const gain = this.ctx.createGain();
     const t = this.ctx.currentTime;
-    gain.gain.setValueAtTime(0.07, t);
+    gain.gain.setValueAtTime(0.07 * tone.gain, t);
     gain.gain.exponentialRampToValueAtTime(0.001, t + 0.09);
 
     src.connect(filter);
@@ -253,6 +297,41 @@ class AudioManager {
     }
   }
 
+  /** Suit damage: a bright visor crack over a short hiss of escaping air. */
+  public playSuitImpact(intensity: number) {
+    if (!this.ctx) return;
+    const t = this.ctx.currentTime;
+
+    const osc = this.ctx.createOscillator();
+    osc.type = "triangle";
+    osc.frequency.setValueAtTime(1400, t);
+    osc.frequency.exponentialRampToValueAtTime(500, t + 0.08);
+    const oscGain = this.ctx.createGain();
+    oscGain.gain.setValueAtTime(0.08 + 0.1 * intensity, t);
+    oscGain.gain.exponentialRampToValueAtTime(0.001, t + 0.1);
+    osc.connect(oscGain);
+    oscGain.connect(this.ctx.destination);
+    osc.start(t);
+    osc.stop(t + 0.12);
+
+    const buffer = this.getNoiseBuffer();
+    if (buffer) {
+      const src = this.ctx.createBufferSource();
+      src.buffer = buffer;
+      const filter = this.ctx.createBiquadFilter();
+      filter.type = "highpass";
+      filter.frequency.value = 3000;
+      const gain = this.ctx.createGain();
+      gain.gain.setValueAtTime(0.06 * intensity, t + 0.05);
+      gain.gain.exponentialRampToValueAtTime(0.001, t + 0.3);
+      src.connect(filter);
+      filter.connect(gain);
+      gain.connect(this.ctx.destination);
+      src.start(t + 0.05);
+      src.stop(t + 0.3);
+    }
+  }
+
   /** Airy upward whoosh on takeoff. */
   public playJump() {
     if (!this.ctx) return;
@@ -365,6 +444,47 @@ class AudioManager {
     });
   }
 
+  /**
+   * The storm heart: a slow falling groan under a grinding crack, when it
+   * rises, changes phase, or slams the ground.
+   */
+  public playBossRoar() {
+    if (!this.ctx) return;
+    const t = this.ctx.currentTime;
+    [46, 61, 69].forEach((freq, i) => {
+      const osc = this.ctx!.createOscillator();
+      const gain = this.ctx!.createGain();
+      osc.type = i === 0 ? "sawtooth" : "square";
+      osc.frequency.setValueAtTime(freq * 1.5, t);
+      osc.frequency.exponentialRampToValueAtTime(freq, t + 1.1);
+      gain.gain.setValueAtTime(0.0001, t);
+      gain.gain.exponentialRampToValueAtTime(0.09, t + 0.12);
+      gain.gain.exponentialRampToValueAtTime(0.001, t + 1.4);
+      osc.connect(gain);
+      gain.connect(this.ctx!.destination);
+      osc.start(t);
+      osc.stop(t + 1.45);
+    });
+  }
+
+  /** Wet rising gulp when a spitter lets a glob go. */
+  public playCreatureSpit() {
+    if (!this.ctx) return;
+    const t = this.ctx.currentTime;
+    const osc = this.ctx.createOscillator();
+    const gain = this.ctx.createGain();
+    osc.type = "sine";
+    osc.frequency.setValueAtTime(140, t);
+    osc.frequency.exponentialRampToValueAtTime(520, t + 0.14);
+    gain.gain.setValueAtTime(0.0001, t);
+    gain.gain.exponentialRampToValueAtTime(0.1, t + 0.03);
+    gain.gain.exponentialRampToValueAtTime(0.001, t + 0.2);
+    osc.connect(gain);
+    gain.connect(this.ctx.destination);
+    osc.start(t);
+    osc.stop(t + 0.22);
+  }
+
   /** Glassy shatter when a storm-spawn dies. */
   public playCreatureDeath() {
     if (!this.ctx) return;
@@ -1,10 +1,23 @@
 import * as THREE from "three";
 import { physicsManager } from "./PhysicsManager";
 import { renderer } from "../core/Renderer";
+import { HEADLESS } from "../core/Headless";
+import { scheduler } from "../core/Scheduler";
+import { isBound } from "../core/KeyBindings";
+import { queries } from "../ecs/World";
+import { appendNavGridLines } from "../ecs/factories/NavGrid";
+import { appendRouteLines } from "../ecs/creatures/Navigation";
+
+const FRAME_BUDGET_MS = 1000 / 60;
+const TIMINGS_REFRESH_FRAMES = 15;
+const NAV_RANGE = 30; // m of the nav grid drawn round the player
 
 export class DebugManager {
   private lineSegments: THREE.LineSegments;
+  private navLines: THREE.LineSegments;
   private enabled: boolean = false; // Disabled by default in production
+  private timingsPanel: HTMLElement | null = null;
+  private timingsFrame = 0;
 
   constructor() {
     // Create the Three.js object to hold physics debug lines
@@ -19,9 +32,23 @@ export class DebugManager {
 
     renderer.scene.add(this.lineSegments);
 
-    // Toggle with F3
+    // The creature nav grid round the player, and the routes being walked
+    this.navLines = new THREE.LineSegments(
+      new THREE.BufferGeometry(),
+      new THREE.LineBasicMaterial({ vertexColors: true }),
+    );
+    this.navLines.frustumCulled = false;
+    this.navLines.visible = false;
+    renderer.scene.add(this.navLines);
+
+    // Toggle with F3 (rebindable)
+    if (HEADLESS) return;
+    this.timingsPanel = document.createElement("div");
+    this.timingsPanel.className = "debug-timings";
+    this.timingsPanel.style.display = "none";
+    document.body.appendChild(this.timingsPanel);
     window.addEventListener("keydown", (e) => {
-      if (e.code === "F3") {
+      if (isBound("debug", e.code)) {
         e.preventDefault();
         this.setEnabled(!this.enabled);
       }
@@ -29,7 +56,13 @@ export class DebugManager {
   }
 
   public update() {
-    if (!this.enabled || !physicsManager.world) return;
+    if (!this.enabled) return;
+    if (++this.timingsFrame >= TIMINGS_REFRESH_FRAMES) {
+      this.timingsFrame = 0;
+      this.renderTimings();
+      this.renderNav();
+    }
+    if (!physicsManager.world) return;
 
     // Get the debug rendering buffers from Rapier
     const { vertices, colors } = physicsManager.world.debugRender();
@@ -45,9 +78,42 @@ export class DebugManager {
     );
   }
 
+  /**
+   * Per-system cost table, slowest first. A system that takes a large share
+   * of the 60 FPS frame budget on its own is flagged.
+   */
+  private renderTimings() {
+    if (!this.timingsPanel) return;
+    const timings = scheduler.timings().sort((a, b) => b.avgMs - a.avgMs);
+    const total = timings.reduce((sum, t) => sum + t.avgMs, 0);
+    const rows = timings.map((t) => {
+      const hot = t.avgMs > FRAME_BUDGET_MS * 0.25 ? " hot" : "";
+      const off = t.enabled ? "" : " off";
+      return `<div class="row${hot}${off}"><span>${t.name}</span><span>${t.phase}</span><span>${t.avgMs.toFixed(2)}ms</span></div>`;
+    });
+    this.timingsPanel.innerHTML =
+      `<div class="row head"><span>SYSTEMS</span><span></span><span>${total.toFixed(2)}ms</span></div>` +
+      rows.join("");
+  }
+
+  /** Rebuild the nav overlay (on the timings' cadence: it needn't follow every frame). */
+  private renderNav() {
+    const player = queries.player.first;
+    if (!player?.object3d) return;
+    const vertices: number[] = [];
+    const colors: number[] = [];
+    appendNavGridLines(player.object3d.position, NAV_RANGE, vertices, colors);
+    appendRouteLines(vertices, colors);
+    this.navLines.geometry.setAttribute("position", new THREE.Float32BufferAttribute(vertices, 3));
+    this.navLines.geometry.setAttribute("color", new THREE.Float32BufferAttribute(colors, 3));
+  }
+
   public setEnabled(value: boolean) {
     this.enabled = value;
     this.lineSegments.visible = value;
+    this.navLines.visible = value;
+    if (this.timingsPanel) this.timingsPanel.style.display = value ? "block" : "none";
+    this.timingsFrame = TIMINGS_REFRESH_FRAMES;
     console.log(`Debug rendering: ${value ? "ON" : "OFF"}`);
   }
 }
@@ -1,3 +1,8 @@
+import { HEADLESS } from "../core/Headless";
+import { cameraSettings } from "../core/CameraSettings";
+import { actionsForCode, keyBindings } from "../core/KeyBindings";
+import { events } from "../utils/EventBus";
+
 // Simple Input Action mapping
 export type InputAction =
   | "move_forward"
@@ -10,27 +15,70 @@ export type InputAction =
   | "free_look"
   | "camera_mode"
   | "scanner"
-  | "fire";
+  | "fire"
+  | "lamp"
+  | "cutter_mode";
+
+/**
+ * Every action, in a fixed order. Replay files store held/pressed actions as
+ * bitmasks indexed by this list — append new actions, never reorder.
+ */
+export const INPUT_ACTIONS: readonly InputAction[] = [
+  "move_forward",
+  "move_backward",
+  "move_left",
+  "move_right",
+  "jump",
+  "sprint",
+  "action",
+  "free_look",
+  "camera_mode",
+  "scanner",
+  "fire",
+  "lamp",
+  "cutter_mode",
+];
+
+/**
+ * Gamepad buttons (standard mapping) → actions. The left trigger doubles as
+ * jump so it can be held for the jetpack; two buttons may share an action.
+ */
+const PAD_BUTTONS: [number, InputAction][] = [
+  [0, "jump"], // A / Cross
+  [2, "action"], // X / Square: rover
+  [3, "camera_mode"], // Y / Triangle
+  [4, "sprint"], // LB
+  [5, "scanner"], // RB
+  [6, "jump"], // LT: jump, hold in the air for the jetpack
+  [7, "fire"], // RT
+  [10, "sprint"], // left stick click
+  [12, "lamp"], // d-pad up
+  [13, "cutter_mode"], // d-pad down
+];
+const TRIGGER_THRESHOLD = 0.35;
+
+/**
+ * Dead zone and response curve (CameraSettings) for one stick: deflection
+ * inside the dead zone reads as zero, the rest is rescaled to 0..1 and
+ * raised to the curve exponent, keeping the stick's direction.
+ */
+function shapeStick(x: number, y: number): { x: number; y: number } {
+  const mag = Math.hypot(x, y);
+  const dz = cameraSettings.stickDeadZone;
+  if (mag <= dz || mag === 0) return { x: 0, y: 0 };
+  const shaped = Math.pow(Math.min(1, (mag - dz) / (1 - dz)), cameraSettings.stickCurve);
+  return { x: (x / mag) * shaped, y: (y / mag) * shaped };
+}
 
 export class InputManager {
+  // Held keys and mouse buttons by code ("KeyW", "Mouse0"); actions come
+  // from the player's bindings (core/KeyBindings.ts)
   private keys: Record<string, boolean> = {};
 
-  // Map actions to specific keys
-  private keyMap: Record<string, InputAction> = {
-    KeyW: "move_forward",
-    KeyS: "move_backward",
-    KeyA: "move_left",
-    KeyD: "move_right",
-    Space: "jump",
-    ShiftLeft: "sprint",
-    ShiftRight: "sprint",
-    KeyE: "action",
-    AltLeft: "free_look",
-    KeyV: "camera_mode",
-    KeyF: "scanner",
-  };
-
   constructor() {
+    // Headless runs have no devices; input stays idle unless injected.
+    if (HEADLESS) return;
+
     window.addEventListener("keydown", (e) => this.onKeyDown(e));
     window.addEventListener("keyup", (e) => this.onKeyUp(e));
 
@@ -39,14 +87,14 @@ export class InputManager {
     document.addEventListener("mousemove", this.onMouseMove);
     document.addEventListener("wheel", this.onWheel, { passive: true });
     document.addEventListener("mousedown", (e) => {
-      // Fire only counts in-game (pointer locked), never on menus
-      if (e.button === 0 && this.pointerLocked) {
-        this.fireHeld = true;
-        this.pressedActions.add("fire");
-      }
+      // Mouse buttons only count in-game (pointer locked), never on menus
+      if (!this.pointerLocked || this.injectedHeld) return;
+      const code = `Mouse${e.button}`;
+      this.keys[code] = true;
+      this.pressBound(code);
     });
     document.addEventListener("mouseup", (e) => {
-      if (e.button === 0) this.fireHeld = false;
+      this.keys[`Mouse${e.button}`] = false;
     });
 
     // Auto lock on canvas click
@@ -55,19 +103,48 @@ export class InputManager {
         this.lockPointer();
       }
     });
+
+    // Gamepads: hot-plug, and rumble on hard landings and storm-spawn hits
+    window.addEventListener("gamepadconnected", (e) => this.onGamepadConnected(e.gamepad));
+    window.addEventListener("gamepaddisconnected", (e) => this.onGamepadDisconnected(e.gamepad));
+    events.on("player:land", (impactSpeed) => {
+      if (impactSpeed > 8) this.rumble(Math.min(1, impactSpeed / 25), 0.4, 160);
+    });
+    events.on("creature:lunge:hit", () => this.rumble(0.9, 0.7, 260));
+    events.on("creature:spit:hit", () => this.rumble(0.4, 0.5, 180));
+
+    // Keys tapped in a menu must not act the moment play resumes
+    events.on("game:resume", () => {
+      this.pressedActions.clear();
+      this.pressLog = [];
+    });
   }
 
   private onKeyDown(event: KeyboardEvent) {
     this.keys[event.code] = true;
-    if (!event.repeat) {
-      const action = this.keyMap[event.code];
-      if (action) this.pressedActions.add(action);
+    if (!event.repeat && !this.injectedHeld) this.pressBound(event.code);
+  }
+
+  /** Press every gameplay action bound to `code` (menu keys listen themselves). */
+  private pressBound(code: string) {
+    for (const action of actionsForCode(code)) {
+      if ((INPUT_ACTIONS as readonly string[]).includes(action)) this.press(action as InputAction);
     }
   }
 
+  /** Mouse buttons read as released while the pointer is free (menus). */
+  private isDown(code: string): boolean {
+    return !!this.keys[code] && (this.pointerLocked || !code.startsWith("Mouse"));
+  }
+
   // Actions pressed since they were last consumed (edge detection).
   private pressedActions = new Set<InputAction>();
 
+  private press(action: InputAction) {
+    this.pressedActions.add(action);
+    this.pressLog.push(action);
+  }
+
   /**
    * Returns true exactly once per physical key press. Use for toggles and
    * buffered actions (jump); use getAction() for held state.
@@ -86,13 +163,24 @@ export class InputManager {
 
   // Mouse handling
   public pointerLocked: boolean = false;
-  private fireHeld = false;
   // Accumulate mouse movement between frames (don't overwrite!)
   public mouseDelta = { x: 0, y: 0 };
   public scrollDelta = 0;
 
+  /** Playing with a mouse (pointer locked) or on a touch screen. */
+  public get inputActive(): boolean {
+    return this.pointerLocked || this.touchActive;
+  }
+
   public lockPointer() {
-    document.body.requestPointerLock();
+    // Touch screens have nothing to lock (and some browsers lack the API)
+    if (this.touchActive || !document.body.requestPointerLock) return;
+    const request: unknown = document.body.requestPointerLock();
+    if (request instanceof Promise) {
+      request.catch(() => {
+        /* lock refused; the next click retries */
+      });
+    }
   }
 
   private onPointerLockChange = () => {
@@ -100,7 +188,7 @@ export class InputManager {
   };
 
   private onMouseMove = (event: MouseEvent) => {
-    if (this.pointerLocked) {
+    if (this.pointerLocked && !this.injectedHeld) {
       // Accumulate — multiple mousemove events can fire per frame
       this.mouseDelta.x += event.movementX || 0;
       this.mouseDelta.y += event.movementY || 0;
@@ -108,6 +196,7 @@ export class InputManager {
   };
 
   private onWheel = (event: WheelEvent) => {
+    if (this.injectedHeld) return;
     this.scrollDelta += event.deltaY;
   };
 
@@ -117,19 +206,169 @@ export class InputManager {
     this.scrollDelta = 0;
   }
 
-  // Returns 0 or 1 for now (could be extended for analog sticks)
-  public getAction(action: InputAction): number {
-    if (action === "fire") return this.fireHeld && this.pointerLocked ? 1.0 : 0.0;
-    for (const [key, mappedAction] of Object.entries(this.keyMap)) {
-      if (mappedAction === action && this.keys[key]) {
-        return 1.0;
-      }
+  // --- Replay support ---------------------------------------------------
+  // The recorder drains the presses that arrived since the last frame;
+  // playback swaps the devices out for the recorded state (ReplayManager).
+  private pressLog: InputAction[] = [];
+  private injectedHeld: Set<InputAction> | null = null;
+  private injectedMove: { x: number; z: number } | null = null;
+
+  /** Presses (edges) that arrived since the last call, in arrival order. */
+  public takePresses(): InputAction[] {
+    const presses = this.pressLog;
+    this.pressLog = [];
+    return presses;
+  }
+
+  /** True while a replay drives input; device events are ignored. */
+  public get isInjected(): boolean {
+    return this.injectedHeld !== null;
+  }
+
+  /**
+   * Replace device input for one frame: `held` answers getAction(),
+   * `pressed` edges queue for consumePressed(), the mouse/scroll deltas are
+   * what the frame saw, and `move` is the analog stick movement, if any.
+   */
+  public inject(
+    held: Set<InputAction>,
+    pressed: InputAction[],
+    mouseX: number,
+    mouseY: number,
+    scroll: number,
+    move: { x: number; z: number } | null = null,
+  ) {
+    this.injectedHeld = held;
+    this.injectedMove = move;
+    for (const action of pressed) this.pressedActions.add(action);
+    this.mouseDelta.x = mouseX;
+    this.mouseDelta.y = mouseY;
+    this.scrollDelta = scroll;
+  }
+
+  /** Hand input back to the devices (end of replay). */
+  public releaseInjection() {
+    this.injectedHeld = null;
+    this.injectedMove = null;
+    this.pressedActions.clear();
+    this.pressLog = [];
+    this.resetMouseDelta();
+  }
+
+  // --- Gamepad ------------------------------------------------------------
+  // One pad drives the game: the first connected, or the next one when it is
+  // unplugged. The Gamepad API has no events for input, so the Engine polls
+  // it once per frame before the frame's input is sampled.
+  private padIndex: number | null = null;
+  private padHeld = new Set<InputAction>();
+  private padMove: { x: number; z: number } | null = null;
+  /** Right stick after dead zone and curve (x right, y down), -1..1. */
+  public lookAxis = { x: 0, y: 0 };
+
+  /** Movement from the left stick or touch stick this frame (null: keys decide). */
+  public get analogMove(): { x: number; z: number } | null {
+    return this.injectedHeld ? null : (this.padMove ?? this.touchMove);
+  }
+
+  public pollGamepad() {
+    if (HEADLESS || this.padIndex === null) return;
+    const pad = navigator.getGamepads()[this.padIndex];
+    if (!pad) return;
+
+    const held = new Set<InputAction>();
+    for (const [index, action] of PAD_BUTTONS) {
+      const button = pad.buttons[index];
+      if (button && (button.pressed || button.value > TRIGGER_THRESHOLD)) held.add(action);
     }
-    return 0.0;
+    if (!this.injectedHeld) {
+      for (const action of held) if (!this.padHeld.has(action)) this.press(action);
+    }
+    this.padHeld = held;
+
+    const move = shapeStick(pad.axes[0] ?? 0, pad.axes[1] ?? 0);
+    this.padMove = move.x !== 0 || move.y !== 0 ? { x: move.x, z: move.y } : null;
+    this.lookAxis = shapeStick(pad.axes[2] ?? 0, pad.axes[3] ?? 0);
+  }
+
+  /** Dual-motor rumble on the active pad (no-op without one, or in a replay). */
+  public rumble(strong: number, weak: number, durationMs: number) {
+    if (HEADLESS || this.padIndex === null || this.injectedHeld) return;
+    const pad = navigator.getGamepads()[this.padIndex];
+    pad?.vibrationActuator
+      ?.playEffect("dual-rumble", {
+        duration: durationMs,
+        strongMagnitude: strong,
+        weakMagnitude: weak,
+      })
+      .catch(() => {
+        /* no haptics on this pad */
+      });
+  }
+
+  private onGamepadConnected(pad: Gamepad) {
+    events.emit("log:message", "CONTROLLER CONNECTED", "info");
+    if (this.padIndex === null) this.padIndex = pad.index;
+  }
+
+  private onGamepadDisconnected(pad: Gamepad) {
+    if (pad.index !== this.padIndex) return;
+    this.padHeld.clear();
+    this.padMove = null;
+    this.lookAxis = { x: 0, y: 0 };
+    const next = navigator.getGamepads().find((p) => p && p.connected && p.index !== pad.index);
+    this.padIndex = next ? next.index : null;
+    events.emit("log:message", "CONTROLLER DISCONNECTED", "warn");
   }
 
-  // Returns a normalized direction vector (x, y)
+  // --- Touch ------------------------------------------------------------------
+  // The on-screen stick, look region and buttons (TouchControls) feed these;
+  // touchActive turns on with the first touch and stays on for the page.
+  public touchActive = false;
+  private touchHeld = new Set<InputAction>();
+  private touchMove: { x: number; z: number } | null = null;
+
+  /** An on-screen button went down or up (down is a press, like a key). */
+  public setTouchAction(action: InputAction, down: boolean) {
+    if (down && !this.touchHeld.has(action) && !this.injectedHeld) this.press(action);
+    if (down) this.touchHeld.add(action);
+    else this.touchHeld.delete(action);
+  }
+
+  /** On-screen stick deflection (x right, z back), or null when released. */
+  public setTouchMove(move: { x: number; z: number } | null) {
+    this.touchMove = move;
+  }
+
+  /** Drag on the look region, in pixels; reads like mouse movement. */
+  public addTouchLook(dx: number, dy: number) {
+    if (this.injectedHeld) return;
+    this.mouseDelta.x += dx;
+    this.mouseDelta.y += dy;
+  }
+
+  /** Drop every held touch control (menus opened over them). */
+  public releaseTouch() {
+    this.touchHeld.clear();
+    this.touchMove = null;
+  }
+
+  // Returns 0 or 1: held buttons and triggers are digital; the sticks are
+  // read through getDirection() and lookAxis
+  public getAction(action: InputAction): number {
+    if (this.injectedHeld) return this.injectedHeld.has(action) ? 1.0 : 0.0;
+    if (this.padHeld.has(action) || this.touchHeld.has(action)) return 1.0;
+    return keyBindings[action].some((code) => this.isDown(code)) ? 1.0 : 0.0;
+  }
+
+  /**
+   * Movement direction (x right, z back). Keys give a unit vector; a
+   * gamepad's left stick or the touch stick takes over while deflected and
+   * is analog — magnitude below 1 walks slower.
+   */
   public getDirection(): { x: number; z: number } {
+    const analog = this.injectedHeld ? this.injectedMove : this.analogMove;
+    if (analog) return { x: analog.x, z: analog.z };
+
     const forward =
       this.getAction("move_forward") - this.getAction("move_backward");
     const right = this.getAction("move_right") - this.getAction("move_left");
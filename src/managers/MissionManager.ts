@@ -2,41 +2,63 @@ import * as THREE from "three";
 import { events } from "../utils/EventBus";
 import { gameState } from "../core/GameState";
 import { queries } from "../ecs/World";
-import { renderer } from "../core/Renderer";
 import { audioManager } from "./AudioManager";
+import { HEADLESS } from "../core/Headless";
+import { simTimers, frameTimers, type TimerHandle } from "../core/Timers";
 import {
-  ACT_CARDS,
-  BEACON_ORDER,
-  BEACON_LOGS,
-  CACHE_LOG,
-  DATA_PADS,
-  EVAC_SECONDS,
-  WIN_LINES,
-} from "../core/MissionData";
+  difficulty,
+  waveCount,
+  recordHardcoreRun,
+  readHardcoreRecord,
+  DIFFICULTY_LABELS,
+} from "../core/Difficulty";
+import { DATA_PADS } from "../core/MissionData";
+import {
+  validateMission,
+  type MissionAct,
+  type MissionAction,
+  type MissionCountdown,
+  type MissionDef,
+  type MissionObjective,
+  type MissionTarget as TargetRef,
+} from "../core/MissionScript";
+import { LOST_SIGNAL } from "../core/missions/LostSignal";
 import { cachePosition } from "../ecs/factories/CacheFactory";
+import { BEACON_DIRECTIONS } from "../ecs/factories/BeaconFactory";
+import { getPlanetHeight } from "../ecs/factories/PlanetFactory";
 import { spawnWave, clearCreatures } from "../ecs/systems/CreatureSystem";
+import { configureDay } from "../ecs/systems/DayNightSystem";
+import { startWeatherEvent } from "../ecs/systems/WeatherSystem";
+import { inputManager } from "./InputManager";
 
 /**
- * The mission director: owns the three-act structure, the single active
- * objective, transmissions (story playback), the Act III storm/countdown,
- * and the end-of-run stats. Systems read `missionState` to know what the
- * player should be doing; the WaypointSystem asks `getMissionTarget()`
- * where to point.
+ * The mission director: interprets a mission script (core/MissionScript) —
+ * the active act and objective, transmissions (story playback), rewards,
+ * the act countdown and triggers, and the end-of-run stats. Systems read
+ * `missionState` to know what the player should be doing; the
+ * WaypointSystem asks `getMissionTarget()` where to point.
  *
- *   Act I   — reach the Meridian supply cache (learn to navigate)
- *   Act II  — bring the three relay nodes online, in sequence
- *   Act III — storm breaks; reach the dropship before the countdown ends
+ * The campaign is LOST SIGNAL (core/missions/LostSignal.ts) unless another
+ * mission is loaded before the run starts.
  */
 
+const PLANET_RADIUS = 200;
+
 export const missionState = {
-  /** -1 before the game starts; 0..2 = act index into ACT_CARDS. */
+  /** -1 before the game starts; otherwise the act index into the mission. */
   actIndex: -1,
+  /** Active objective within the act (= its objective count once done). */
+  objectiveIndex: 0,
+  /** Progress toward a counted objective: items, kills or seconds survived. */
+  objectiveProgress: 0,
   /** Which beacon (BeaconFactory index) is the live objective. */
-  currentBeaconIndex: BEACON_ORDER[0],
+  currentBeaconIndex: 0,
   beaconsOnline: 0,
   cacheFound: false,
+  /** The act countdown (LOST SIGNAL's evacuation) is running. */
   evacActive: false,
-  evacRemaining: EVAC_SECONDS,
+  /** Countdown seconds left; reads as the mission's first countdown before then. */
+  evacRemaining: 0,
 };
 
 export interface MissionTarget {
@@ -50,46 +72,101 @@ const _target: MissionTarget = {
   className: "",
   position: new THREE.Vector3(),
 };
+const _dir = new THREE.Vector3();
 
-/** The single navigation target for the current act (null = no marker). */
+/** The single navigation target for the current objective (null = no marker). */
 export function getMissionTarget(): MissionTarget | null {
-  switch (missionState.actIndex) {
-    case 0: {
-      if (missionState.cacheFound) return null;
-      _target.label = "SUPPLY CACHE";
-      _target.className = "waypoint-cache";
-      _target.position.copy(cachePosition);
-      return _target;
-    }
-    case 1: {
-      for (const b of queries.beacons) {
-        if (!b.object3d || !b.beacon || b.beacon.collected) continue;
-        if (b.object3d.userData.index !== missionState.currentBeaconIndex) continue;
-        _target.label = `RELAY ${missionState.beaconsOnline + 1}/3`;
-        _target.className = "waypoint-beacon";
-        _target.position.copy(b.object3d.position);
-        return _target;
-      }
-      return null;
+  const objective = missionManager.activeObjective();
+  if (!objective?.marker || !("target" in objective)) return null;
+  if (!resolveTarget(objective.target, _target.position)) return null;
+  _target.label = objective.marker.label;
+  _target.className = objective.marker.className;
+  return _target;
+}
+
+/** True while the active objective is boarding the dropship (DropshipSystem). */
+export function isExtractionObjective(): boolean {
+  const objective = missionManager.activeObjective();
+  return objective?.type === "activate" && objective.target === "dropship";
+}
+
+/** World position of a target; false once it is gone (collected, launched). */
+function resolveTarget(target: TargetRef, out: THREE.Vector3): boolean {
+  if (target === "cache") {
+    out.copy(cachePosition);
+    return true;
+  }
+  if (target === "dropship") {
+    const dropship = queries.dropships.first;
+    if (!dropship || dropship.dropship.activated) return false;
+    out.copy(dropship.object3d.position);
+    return true;
+  }
+  if ("relay" in target) {
+    for (const { beacon, object3d } of queries.beacons) {
+      if (object3d.userData.index !== target.relay) continue;
+      if (beacon.collected) return false;
+      out.copy(object3d.position);
+      return true;
     }
-    case 2: {
-      const dropship = queries.dropships.first;
-      if (!dropship?.object3d || dropship.dropship?.activated) return null;
-      _target.label = "DROPSHIP";
-      _target.className = "waypoint-extract";
-      _target.position.copy(dropship.object3d.position);
-      return _target;
+    return false;
+  }
+  _dir.fromArray(target.dir).normalize();
+  out.copy(_dir).multiplyScalar(getPlanetHeight(_dir, PLANET_RADIUS));
+  return true;
+}
+
+/** missionState at landing for `mission`. */
+function initialState(mission: MissionDef): typeof missionState {
+  let firstRelay = 0;
+  let firstCountdown = 0;
+  for (const act of [...mission.acts].reverse()) {
+    if (act.countdown) firstCountdown = act.countdown.seconds;
+    for (const objective of [...act.objectives].reverse()) {
+      const relay = relayOf(objective);
+      if (relay !== null) firstRelay = relay;
     }
-    default:
-      return null;
   }
+  return {
+    actIndex: -1,
+    objectiveIndex: 0,
+    objectiveProgress: 0,
+    currentBeaconIndex: firstRelay,
+    beaconsOnline: 0,
+    cacheFound: false,
+    evacActive: false,
+    evacRemaining: firstCountdown,
+  };
+}
+
+function relayOf(objective: MissionObjective): number | null {
+  return objective.type === "activate" && typeof objective.target === "object"
+    ? objective.target.relay
+    : null;
+}
+
+/** An act countdown's length on the current difficulty. */
+function countdownSeconds(countdown: MissionCountdown): number {
+  return countdown.seconds * difficulty.stormTime;
 }
 
-const EVAC_WARNINGS = [120, 60, 30, 10];
-const BASE_FOG_DENSITY = 0.004;
-const STORM_FOG_DENSITY = 0.012;
-const BASE_FOG_COLOR = new THREE.Color(0x38203e); // dusty mauve (matches main.ts)
-const STORM_FOG_COLOR = new THREE.Color(0x1d242c); // cold storm slate
+/** Weather event id of an act countdown's storm. */
+const ACT_STORM = "act-storm";
+
+export interface MissionSave {
+  /** Pre-scripting saves lack objectiveIndex/objectiveProgress. */
+  state: typeof missionState;
+  stats: { time: number; distance: number; o2Collected: number; padsFound: number; kills: number };
+  /** Act triggers already spent, by index. */
+  fired?: number[];
+  /** Seconds until each timed act trigger fires next, by index. */
+  timers?: number[];
+  /** Pre-scripting saves: the Act III warnings given and the spawn timer. */
+  warned?: number[];
+  evacSpawnTimer?: number;
+  pendingAct: number;
+  pendingActIn: number;
+}
 
 class MissionManager {
   private objectivePanel!: HTMLElement;
@@ -108,54 +185,163 @@ class MissionManager {
   private txQueue: { header: string; body: string }[] = [];
   private txVisible = false;
 
+  private mission: MissionDef = LOST_SIGNAL;
   private stats = { time: 0, distance: 0, o2Collected: 0, padsFound: 0, kills: 0 };
   private lastPos = new THREE.Vector3();
   private hasLastPos = false;
   private tick = 0;
-  private warned = new Set<number>();
   private ended = false;
-  private evacSpawnTimer = 0;
+
+  // The current act's triggers: once-only ones already spent, and the
+  // seconds until each timed one fires next.
+  private fired = new Set<number>();
+  private timers: number[] = [];
+
+  // Act transitions count down in sim time, so the story advances the same
+  // way in the browser and in headless runs stepped faster than real time.
+  private pendingAct = -1;
+  private actTimer: TimerHandle | null = null;
 
   constructor() {
-    this.buildDOM();
+    validateMission(this.mission, BEACON_DIRECTIONS.length);
+    configureDay(this.mission.day);
+    Object.assign(missionState, initialState(this.mission));
+    if (!HEADLESS) this.buildDOM();
 
     events.on("game:start", () => {
-      // Let the landing settle before the first title card
-      window.setTimeout(() => this.startAct(0), 1600);
+      this.scheduleAct(0, this.mission.startDelay);
     });
 
-    events.on("beacon:collected", () => this.onBeaconOnline());
+    // BeaconSystem only boots the relay the mission points at
+    events.on("beacon:collected", () => this.onRelayOnline(missionState.currentBeaconIndex));
+
+    events.on("dropship:boarded", () => {
+      if (isExtractionObjective()) this.completeObjective();
+    });
 
     events.on("datapad:collected", (loreIndex: number) => {
       this.stats.padsFound++;
       const pad = DATA_PADS[loreIndex];
       if (pad) this.queueTransmission(pad.header, pad.body);
+      this.countProgress("datapad");
     });
 
     events.on("pickup:collected", (amount: number) => {
       this.stats.o2Collected += amount;
+      this.countProgress("o2");
     });
 
     events.on("creature:killed", () => {
       this.stats.kills++;
+      this.countProgress("kill");
     });
 
     events.on("mission:complete", () => this.onWin());
     events.on("game:over", () => {
+      if (!this.ended) this.recordPermadeath(false);
       this.ended = true;
-      this.objectivePanel.style.display = "none";
+      if (!HEADLESS) this.objectivePanel.style.display = "none";
       clearCreatures();
     });
+    events.on("game:restart", () => this.reset());
+  }
+
+  /**
+   * Play `mission` instead of the current one. Call before the run starts
+   * (or before a restart); throws if the script doesn't check out.
+   */
+  public loadMission(mission: MissionDef) {
+    validateMission(mission, BEACON_DIRECTIONS.length);
+    this.mission = mission;
+    configureDay(mission.day);
+    this.reset();
+  }
+
+  public get current(): MissionDef {
+    return this.mission;
+  }
+
+  /** The objective the player is working on (null between acts and before landing). */
+  public activeObjective(): MissionObjective | null {
+    return this.mission.acts[missionState.actIndex]?.objectives[missionState.objectiveIndex] ?? null;
   }
 
   /** Snapshot of the run stats (win screen + smoke test). */
   public getStats() {
-    return { ...this.stats };
+    return { ...this.stats, difficulty: DIFFICULTY_LABELS[difficulty.preset] };
+  }
+
+  /** Progress, stats and pending timers for a save file. */
+  public serialize(): MissionSave {
+    return {
+      state: { ...missionState },
+      stats: { ...this.stats },
+      fired: [...this.fired],
+      timers: [...this.timers],
+      pendingAct: this.pendingAct,
+      pendingActIn: this.actTimer?.remaining ?? 0,
+    };
+  }
+
+  /** Resume from a save: no act card, just the objective HUD as it was. */
+  public restore(saved: MissionSave) {
+    Object.assign(missionState, saved.state);
+    this.stats = { ...saved.stats };
+    if (saved.pendingAct >= 0) this.scheduleAct(saved.pendingAct, saved.pendingActIn);
+    else this.cancelAct();
+    this.hasLastPos = false;
+    this.ended = false;
+
+    const act = this.mission.acts[missionState.actIndex];
+    this.resetTriggers(act);
+    if (saved.fired) this.fired = new Set(saved.fired);
+    if (saved.timers) this.timers = [...saved.timers];
+    if (saved.state.objectiveIndex === undefined) this.restoreLegacy(saved, act);
+    if (act?.countdown) this.startActStorm(act.countdown);
+
+    if (HEADLESS) return;
+    this.objectivePanel.style.display = missionState.actIndex >= 0 ? "" : "none";
+    this.objectivePanel.classList.toggle("objective-evac", missionState.evacActive);
+    this.updateObjectiveText();
+  }
+
+  /** Saves from before mission scripting: rebuild the cursor from the old flags. */
+  private restoreLegacy(saved: MissionSave, act: MissionAct | undefined) {
+    const { actIndex, beaconsOnline, cacheFound } = missionState;
+    const done = actIndex === 0 ? Number(cacheFound) : actIndex === 1 ? beaconsOnline : 0;
+    missionState.objectiveIndex = Math.min(done, act?.objectives.length ?? 0);
+    missionState.objectiveProgress = 0;
+    act?.triggers?.forEach((trigger, i) => {
+      if ("countdown" in trigger && saved.warned?.includes(trigger.countdown)) this.fired.add(i);
+      if ("every" in trigger && saved.evacSpawnTimer !== undefined) this.timers[i] = saved.evacSpawnTimer;
+    });
+  }
+
+  /** In-place restart: back to the pre-landing state (the weather clears itself). */
+  private reset() {
+    Object.assign(missionState, initialState(this.mission));
+    this.stats = { time: 0, distance: 0, o2Collected: 0, padsFound: 0, kills: 0 };
+    this.hasLastPos = false;
+    this.tick = 0;
+    this.ended = false;
+    this.fired.clear();
+    this.timers = [];
+    this.cancelAct();
+
+    if (HEADLESS) return;
+    this.objectivePanel.style.display = "none";
+    this.objectivePanel.classList.remove("objective-evac");
+    this.actCard.classList.remove("visible");
+    // A transmission on screen finishes on its own timer; drop the backlog
+    this.txQueue.length = 0;
   }
 
   /** Fixed-tick update, called from the engine at 60Hz. */
   public update(dt: number) {
-    if (this.ended || !gameState.isPlaying || missionState.actIndex < 0) return;
+    if (this.ended || !gameState.isPlaying) return;
+
+    const act = this.mission.acts[missionState.actIndex];
+    if (!act) return;
 
     const player = queries.player.first;
     if (!player?.object3d) return;
@@ -170,128 +356,263 @@ class MissionManager {
     this.lastPos.copy(playerPos);
     this.hasLastPos = true;
 
-    // Act I: reach the supply cache
-    if (missionState.actIndex === 0 && !missionState.cacheFound) {
-      if (playerPos.distanceTo(cachePosition) < 5) {
-        missionState.cacheFound = true;
-        this.queueTransmission(CACHE_LOG.header, CACHE_LOG.body);
-        const pc = player.playerControl;
-        if (pc) {
-          pc.oxygen = Math.min(pc.maxOxygen, pc.oxygen + 25);
-          events.emit("player:oxygen:changed", pc.oxygen, pc.maxOxygen);
-          // Vasquez's arc cutter — the run's power-up lives in the cache
-          pc.hasCutter = true;
-          events.emit(
-            "log:message",
-            "ARC CUTTER SALVAGED — HOLD [LMB] TO FIRE",
-            "success",
-          );
-        }
-        events.emit("log:message", "SUPPLY CACHE RECOVERED — O₂ +25%", "success");
-        window.setTimeout(() => this.startAct(1), 2600);
+    // Objectives the interpreter polls; the rest complete on events
+    const objective = this.activeObjective();
+    if (objective?.type === "reach") {
+      if (
+        resolveTarget(objective.target, _target.position) &&
+        playerPos.distanceTo(_target.position) < objective.radius
+      ) {
+        this.completeObjective();
       }
+    } else if (objective?.type === "survive") {
+      missionState.objectiveProgress += dt;
+      if (missionState.objectiveProgress >= objective.seconds) this.completeObjective();
     }
 
-    // Act III: storm wall + evacuation countdown
-    if (missionState.actIndex === 2 && missionState.evacActive) {
+    // The act countdown: warnings, and failure at zero (its storm is weather)
+    if (act.countdown && missionState.evacActive) {
+      const countdown = act.countdown;
       missionState.evacRemaining = Math.max(0, missionState.evacRemaining - dt);
 
-      const progress = 1 - missionState.evacRemaining / EVAC_SECONDS;
-      const fog = renderer.scene.fog as THREE.FogExp2 | null;
-      if (fog) {
-        fog.density = BASE_FOG_DENSITY + progress * (STORM_FOG_DENSITY - BASE_FOG_DENSITY);
-        fog.color.copy(BASE_FOG_COLOR).lerp(STORM_FOG_COLOR, progress);
-      }
-
-      for (const w of EVAC_WARNINGS) {
-        if (missionState.evacRemaining <= w && !this.warned.has(w)) {
-          this.warned.add(w);
-          events.emit("log:message", `STORM WALL: T-${w} SECONDS`, "danger");
-          audioManager.playLowOxygenWarning();
-        }
-      }
+      act.triggers?.forEach((trigger, i) => {
+        if (!("countdown" in trigger) || this.fired.has(i)) return;
+        if (missionState.evacRemaining > trigger.countdown) return;
+        this.fired.add(i);
+        this.runActions(trigger.actions);
+      });
 
       if (missionState.evacRemaining <= 0) {
         missionState.evacActive = false;
-        events.emit("game:over", "THE STORM CLOSED IN");
-        events.emit("log:message", "ATMOSPHERIC COLLAPSE — SUIT INTEGRITY LOST", "danger");
+        events.emit("game:over", countdown.failReason);
+        events.emit("log:message", countdown.failLog, "danger");
         return;
       }
-
-      // The storm hunts: spawn pursuers along the evac run. Killing them
-      // drops the O₂ that keeps the sprint alive.
-      this.evacSpawnTimer -= dt;
-      if (this.evacSpawnTimer <= 0) {
-        this.evacSpawnTimer = 22;
-        if (player.playerControl?.hasCutter) spawnWave(2, playerPos);
-      }
     }
 
+    // Timed triggers
+    act.triggers?.forEach((trigger, i) => {
+      if ("countdown" in trigger || this.fired.has(i)) return;
+      this.timers[i] -= dt;
+      if (this.timers[i] > 0) return;
+      if ("every" in trigger) this.timers[i] = trigger.every;
+      else this.fired.add(i);
+      this.runActions(trigger.actions);
+    });
+
     // Throttled HUD refresh (~4Hz is plenty for a distance readout)
     if (++this.tick % 15 === 0) this.refreshObjectiveHUD(playerPos);
   }
 
   // --- Act flow ---
 
+  /** Start act `index` after `delay` seconds of simulation time. */
+  private scheduleAct(index: number, delay: number) {
+    this.cancelAct();
+    this.pendingAct = index;
+    this.actTimer = simTimers.after(delay, () => {
+      this.pendingAct = -1;
+      this.actTimer = null;
+      // Held, never fired, once the run is over
+      if (!this.ended && gameState.isPlaying) this.startAct(index);
+    });
+  }
+
+  private cancelAct() {
+    this.actTimer?.cancel();
+    this.actTimer = null;
+    this.pendingAct = -1;
+  }
+
   private startAct(index: number) {
-    missionState.actIndex = index;
-    const card = ACT_CARDS[index];
-    if (!card) return;
+    const act = this.enterAct(index);
+    if (!act) return;
+    const { card } = act;
 
-    this.actNum.textContent = card.num;
-    this.actTitle.textContent = card.title;
-    this.actSub.textContent = card.sub;
-    this.actCard.classList.add("visible");
-    window.setTimeout(() => this.actCard.classList.remove("visible"), 4200);
+    this.showActCard(card);
     audioManager.playUIClick();
 
     events.emit("log:message", `${card.num} — ${card.title}`, "warn");
-    this.objectivePanel.style.display = "";
+    if (!HEADLESS) this.objectivePanel.style.display = "";
     this.updateObjectiveText();
 
-    if (index === 2) {
+    if (act.countdown && !HEADLESS) this.objectivePanel.classList.add("objective-evac");
+    this.runActions(act.onStart);
+    this.runActions(act.objectives[0].onStart);
+  }
+
+  /** Point the mission at act `index`: cursor, triggers and countdown, no fanfare. */
+  private enterAct(index: number): MissionAct | undefined {
+    missionState.actIndex = index;
+    missionState.objectiveIndex = 0;
+    missionState.objectiveProgress = 0;
+    const act = this.mission.acts[index];
+    this.resetTriggers(act);
+    if (act?.countdown) {
       missionState.evacActive = true;
-      this.evacSpawnTimer = 9; // breather after the final arena before pursuit starts
-      this.objectivePanel.classList.add("objective-evac");
-      events.emit("log:message", "STORM FRONT INBOUND — RETURN TO THE DROPSHIP", "danger");
-      audioManager.playLowOxygenWarning();
+      missionState.evacRemaining = countdownSeconds(act.countdown);
+      this.startActStorm(act.countdown);
     }
+    return act;
   }
 
-  private onBeaconOnline() {
-    // Safety: if the player somehow reaches a relay before the cache,
-    // fold Act I silently and continue the chain.
-    if (missionState.actIndex < 1) missionState.actIndex = 1;
+  /**
+   * The countdown's storm as a planet-wide weather event that builds to full
+   * strength as time runs out — picked up part-way when resuming a save.
+   */
+  private startActStorm(countdown: MissionCountdown) {
+    if (!countdown.storm || !missionState.evacActive) return;
+    const seconds = countdownSeconds(countdown);
+    startWeatherEvent(ACT_STORM, {
+      duration: seconds,
+      rampIn: seconds,
+      age: seconds - missionState.evacRemaining,
+    });
+  }
 
-    const legIndex = missionState.beaconsOnline;
-    const log = BEACON_LOGS[legIndex];
-    if (log) this.queueTransmission(log.header, log.body);
+  private resetTriggers(act: MissionAct | undefined) {
+    this.fired.clear();
+    this.timers = (act?.triggers ?? []).map((trigger) =>
+      "at" in trigger ? trigger.at : "every" in trigger ? (trigger.first ?? trigger.every) : 0,
+    );
+  }
 
-    missionState.beaconsOnline++;
-    if (missionState.beaconsOnline < BEACON_ORDER.length) {
-      missionState.currentBeaconIndex = BEACON_ORDER[missionState.beaconsOnline];
+  /** Apply the active objective's rewards and move the cursor on. */
+  private completeObjective() {
+    const act = this.mission.acts[missionState.actIndex];
+    const objective = this.activeObjective();
+    if (!act || !objective) return;
+
+    if (objective.type === "reach" && objective.target === "cache") missionState.cacheFound = true;
+    this.runActions(objective.onComplete);
+
+    const completed = missionState.objectiveIndex;
+    missionState.objectiveIndex++;
+    missionState.objectiveProgress = 0;
+
+    const next = act.objectives[missionState.objectiveIndex];
+    if (next) {
+      const relay = this.nextRelay();
+      if (relay !== null) missionState.currentBeaconIndex = relay;
       this.updateObjectiveText();
-      events.emit(
-        "log:message",
-        `NEXT RELAY NODE MARKED — ${missionState.beaconsOnline + 1}/3`,
-        "warn",
-      );
-    } else {
-      window.setTimeout(() => this.startAct(2), 3200);
+      this.runActions(next.onStart);
+    } else if (missionState.actIndex < this.mission.acts.length - 1) {
+      const relay = this.nextRelay();
+      if (relay !== null) missionState.currentBeaconIndex = relay;
+      this.scheduleAct(missionState.actIndex + 1, act.nextActDelay);
+    }
+    events.emit("mission:objective:complete", missionState.actIndex, completed);
+
+    if (!next && missionState.actIndex === this.mission.acts.length - 1) {
+      events.emit("mission:complete");
+    }
+  }
+
+  /** Relay of the first activate-relay objective still ahead, from the cursor on. */
+  private nextRelay(): number | null {
+    const pos = this.findAhead((objective) => relayOf(objective) !== null);
+    return pos ? relayOf(this.mission.acts[pos.act].objectives[pos.objective]) : null;
+  }
+
+  private findAhead(match: (objective: MissionObjective) => boolean) {
+    const { acts } = this.mission;
+    for (let a = Math.max(0, missionState.actIndex); a < acts.length; a++) {
+      const from = a === missionState.actIndex ? missionState.objectiveIndex : 0;
+      for (let o = from; o < acts[a].objectives.length; o++) {
+        if (match(acts[a].objectives[o])) return { act: a, objective: o };
+      }
     }
+    return null;
+  }
+
+  private onRelayOnline(relay: number) {
+    missionState.beaconsOnline++;
+
+    const pos = this.findAhead((objective) => relayOf(objective) === relay);
+    if (!pos) return;
+    // Safety: a relay reached before its act folds the acts in between
+    // silently and continues the chain from there.
+    if (pos.act !== missionState.actIndex) {
+      if (this.pendingAct >= 0 && this.pendingAct <= pos.act) this.cancelAct();
+      this.enterAct(pos.act);
+    }
+    missionState.objectiveIndex = pos.objective;
+    this.completeObjective();
+  }
+
+  /** Count an event toward a collect/kill objective. */
+  private countProgress(what: "o2" | "datapad" | "kill") {
+    const objective = this.activeObjective();
+    if (!objective) return;
+    const count =
+      objective.type === "kill" && what === "kill"
+        ? objective.count
+        : objective.type === "collect" && objective.item === what
+          ? objective.count
+          : 0;
+    if (count === 0) return;
+    missionState.objectiveProgress++;
+    if (missionState.objectiveProgress >= count) this.completeObjective();
+  }
+
+  private runActions(actions: MissionAction[] | undefined) {
+    if (!actions) return;
+    const player = queries.player.first;
+    for (const action of actions) {
+      switch (action.type) {
+        case "log":
+          events.emit("log:message", action.text, action.level);
+          break;
+        case "transmission":
+          this.queueTransmission(action.header, action.body);
+          break;
+        case "oxygen": {
+          const pc = player?.playerControl;
+          if (!pc) break;
+          pc.oxygen = Math.min(pc.maxOxygen, pc.oxygen + action.amount);
+          events.emit("player:oxygen:changed", pc.oxygen, pc.maxOxygen);
+          break;
+        }
+        case "integrity": {
+          const health = player?.health;
+          if (!health) break;
+          health.current = Math.min(health.max, health.current + action.amount);
+          events.emit("player:health:changed", health.current, health.max);
+          break;
+        }
+        case "cutter":
+          if (player) player.playerControl.hasCutter = true;
+          break;
+        case "alarm":
+          audioManager.playLowOxygenWarning();
+          break;
+        case "spawnWave":
+          if (!player || (action.armedOnly && !player.playerControl.hasCutter)) break;
+          spawnWave(waveCount(action.count), player.object3d.position, action.creatures);
+          break;
+      }
+    }
+  }
+
+  /** Count a finished HARDCORE run toward the record (not replays). */
+  private recordPermadeath(extracted: boolean) {
+    if (!difficulty.permadeath || HEADLESS || inputManager.isInjected) return;
+    recordHardcoreRun(extracted, this.stats.time);
   }
 
   private onWin() {
+    if (!this.ended) this.recordPermadeath(true);
     this.ended = true;
-    this.objectivePanel.style.display = "none";
     clearCreatures();
+    if (HEADLESS) return;
+    this.objectivePanel.style.display = "none";
 
     const screen = document.getElementById("mission-complete-screen");
     const content = screen?.querySelector(".overlay-content");
     if (!content) return;
 
     const reason = content.querySelector(".overlay-reason");
-    if (reason) reason.textContent = WIN_LINES[0];
+    if (reason) reason.textContent = this.mission.win.headline;
 
     const mm = Math.floor(this.stats.time / 60);
     const ss = Math.floor(this.stats.time % 60).toString().padStart(2, "0");
@@ -303,49 +624,65 @@ class MissionManager {
       `<div><span>STORM-SPAWN DOWN</span><span>${this.stats.kills}</span></div>`,
       `<div><span>O₂ RECOVERED</span><span>${Math.round(this.stats.o2Collected)}%</span></div>`,
       `<div><span>MERIDIAN LOGS</span><span>${this.stats.padsFound}/${DATA_PADS.length}</span></div>`,
+      `<div><span>DIFFICULTY</span><span>${DIFFICULTY_LABELS[difficulty.preset]}</span></div>`,
     ].join("");
+    if (difficulty.permadeath) {
+      const record = readHardcoreRecord();
+      statsDiv.innerHTML += `<div><span>HARDCORE EXTRACTIONS</span><span>${record.extractions}/${record.runs} · STREAK ${record.streak}</span></div>`;
+    }
     const prompt = content.querySelector(".overlay-prompt");
     content.insertBefore(statsDiv, prompt);
 
     const epitaph = document.createElement("p");
     epitaph.className = "mission-epitaph";
-    epitaph.textContent = WIN_LINES[1];
+    epitaph.textContent = this.mission.win.epitaph;
     content.insertBefore(epitaph, prompt);
   }
 
   // --- HUD ---
 
+  private showActCard(card: MissionAct["card"]) {
+    if (HEADLESS) return;
+    this.actNum.textContent = card.num;
+    this.actTitle.textContent = card.title;
+    this.actSub.textContent = card.sub;
+    this.actCard.classList.add("visible");
+    frameTimers.after(4.2, () => this.actCard.classList.remove("visible"));
+  }
+
   private updateObjectiveText() {
-    const card = ACT_CARDS[missionState.actIndex];
-    this.objectiveAct.textContent = card ? card.num : "";
-    switch (missionState.actIndex) {
-      case 0:
-        this.objectiveText.textContent = "RECOVER THE MERIDIAN SUPPLY CACHE";
-        break;
-      case 1:
-        this.objectiveText.textContent = `BRING RELAY NODE ${missionState.beaconsOnline + 1}/3 ONLINE`;
-        break;
-      case 2:
-        this.objectiveText.textContent = "REACH THE DROPSHIP";
-        break;
-    }
+    if (HEADLESS) return;
+    const act = this.mission.acts[missionState.actIndex];
+    this.objectiveAct.textContent = act ? act.card.num : "";
+    // Between acts the finished objective's line stays up
+    const objective = this.activeObjective();
+    if (objective) this.objectiveText.textContent = objective.text;
   }
 
   private refreshObjectiveHUD(playerPos: THREE.Vector3) {
-    const target = getMissionTarget();
-    let line = target ? `${Math.round(playerPos.distanceTo(target.position))}m` : "";
-    if (missionState.actIndex === 2 && missionState.evacActive) {
+    if (HEADLESS) return;
+    const parts: string[] = [];
+    if (missionState.evacActive) {
       const t = Math.ceil(missionState.evacRemaining);
       const mm = Math.floor(t / 60);
       const ss = (t % 60).toString().padStart(2, "0");
-      line = `T-${mm}:${ss}${line ? " — " + line : ""}`;
+      parts.push(`T-${mm}:${ss}`);
+    }
+    const target = getMissionTarget();
+    if (target) parts.push(`${Math.round(playerPos.distanceTo(target.position))}m`);
+    const objective = this.activeObjective();
+    if (objective?.type === "collect" || objective?.type === "kill") {
+      parts.push(`${missionState.objectiveProgress}/${objective.count}`);
+    } else if (objective?.type === "survive") {
+      parts.push(`${Math.ceil(objective.seconds - missionState.objectiveProgress)}s`);
     }
-    this.objectiveDist.textContent = line;
+    this.objectiveDist.textContent = parts.join(" — ");
   }
 
   // --- Transmissions (queued so logs never overwrite each other) ---
 
   private queueTransmission(header: string, body: string) {
+    if (HEADLESS) return;
     this.txQueue.push({ header, body });
     this.pumpTransmissions();
   }
@@ -362,14 +699,16 @@ class MissionManager {
     audioManager.playUIClick();
 
     // Hold long enough to read, scaled by length
-    const hold = Math.min(15000, 4500 + tx.body.length * 38);
-    window.setTimeout(() => {
-      this.txPanel.classList.remove("visible");
-      window.setTimeout(() => {
+    const hold = Math.min(15, 4.5 + tx.body.length * 0.038);
+    frameTimers.sequence([
+      hold,
+      () => this.txPanel.classList.remove("visible"),
+      0.7,
+      () => {
         this.txVisible = false;
         this.pumpTransmissions();
-      }, 700);
-    }, hold);
+      },
+    ]);
   }
 
   private buildDOM() {
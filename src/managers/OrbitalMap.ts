@@ -0,0 +1,577 @@
+import * as THREE from "three";
+import { events } from "../utils/EventBus";
+import { gameState } from "../core/GameState";
+import { HEADLESS } from "../core/Headless";
+import { queries } from "../ecs/World";
+import { cachePosition } from "../ecs/factories/CacheFactory";
+import { getPlanetGlobe, getPlanetHeight } from "../ecs/factories/PlanetFactory";
+import { routeOxygenCost } from "../ecs/systems/OxygenSystem";
+import { isBound, keyBindings, keyLabel } from "../core/KeyBindings";
+import { addMapPin, clearMapPins, mapPins, removeMapPin, MAX_MAP_PINS } from "../core/MapPins";
+import { getMissionTarget } from "./MissionManager";
+import { inputManager } from "./InputManager";
+import { audioManager } from "./AudioManager";
+
+/**
+ * Orbital map, toggled with M (Esc also closes).
+ *
+ * The planet from orbit, painted with the terrain's own biome vertex colors
+ * (the map shares the planet geometry), with the player, the relays the
+ * scanner has found, hazard vents, the supply cache, the dropship, the rover
+ * and scanned data pads marked on it. Drag to turn the globe, scroll to zoom,
+ * click the surface to drop a route pin and click a pin to lift it again.
+ * Pins get their own waypoint markers in the world (WaypointSystem).
+ *
+ * Great-circle routes run from the player to the mission objective and to
+ * every pin; the route planner lists each one's surface distance and the O₂
+ * it costs on foot (OxygenSystem.routeOxygenCost).
+ *
+ * The map draws into its own canvas with its own small WebGL renderer,
+ * created the first time it opens; the run keeps going underneath it, so
+ * the O₂ clock does not stop while the player plans.
+ */
+
+const PLANET_RADIUS = 200;
+const ROUTE_SEGMENTS = 48;
+const ROUTE_LIFT = 3; // meters above the terrain, so routes don't sink into ridges
+const REFRESH_INTERVAL = 0.2; // seconds between route/readout rebuilds
+const PIN_PICK_RADIUS = 12; // clicks this close to a pin remove it
+const CLICK_SLOP = 4; // pixels of drag still treated as a click
+const ZOOM = { min: 300, max: 900, initial: 560 };
+
+const COLORS = {
+  player: 0xffffff,
+  relay: 0x00ffcc,
+  relayOnline: 0x44ff88,
+  hazard: 0xff3344,
+  cache: 0xffaa44,
+  dropship: 0xff8844,
+  rover: 0x88ffaa,
+  datapad: 0xaa66ff,
+  pin: 0xffee66,
+  objective: 0x00ffcc,
+};
+
+interface Route {
+  label: string;
+  target: THREE.Vector3;
+  color: number;
+  /** Pin number, for the remove button (absent for the objective route). */
+  pin?: number;
+}
+
+const _n = new THREE.Vector3();
+const _a = new THREE.Vector3();
+const _b = new THREE.Vector3();
+const _p = new THREE.Vector3();
+const _prev = new THREE.Vector3();
+
+/**
+ * Surface point `t` of the way along the great circle from `a` to `b` (unit
+ * vectors), lifted `lift` meters above the terrain.
+ */
+function greatCirclePoint(a: THREE.Vector3, b: THREE.Vector3, t: number, lift: number, out: THREE.Vector3) {
+  const angle = a.angleTo(b);
+  const sin = Math.sin(angle);
+  if (sin < 1e-4) {
+    out.copy(a);
+  } else {
+    out
+      .copy(a)
+      .multiplyScalar(Math.sin((1 - t) * angle) / sin)
+      .addScaledVector(b, Math.sin(t * angle) / sin)
+      .normalize();
+  }
+  return out.multiplyScalar(getPlanetHeight(out, PLANET_RADIUS) + lift);
+}
+
+class OrbitalMap {
+  private root!: HTMLDivElement;
+  private canvas!: HTMLCanvasElement;
+  private planner!: HTMLDivElement;
+  private open = false;
+  private gameStarted = false;
+
+  private gl: THREE.WebGLRenderer | null = null;
+  private scene = new THREE.Scene();
+  private camera = new THREE.PerspectiveCamera(38, 1, 1, 4000);
+  private view = new THREE.Spherical(ZOOM.initial, Math.PI / 2, 0);
+  private globe: THREE.Mesh | null = null;
+  private markerGeometry = new THREE.SphereGeometry(1, 12, 8);
+  private markers: THREE.Mesh[] = [];
+  private markersPlaced = 0;
+  private routeLines: THREE.Line[] = [];
+  private refreshTimer = 0;
+  private lastClock: number | null = null;
+  private elapsed = 0;
+  private plannerKey: string | null = null;
+  private plannerRows: { row: HTMLElement; dist: HTMLElement; o2: HTMLElement }[] = [];
+
+  private drag: { x: number; y: number; moved: number } | null = null;
+  private raycaster = new THREE.Raycaster();
+
+  constructor() {
+    if (HEADLESS) return;
+
+    this.scene.add(new THREE.AmbientLight(0xb8b0d8, 0.9));
+    // Key light rides with the camera, so the face turned to the viewer is lit
+    const key = new THREE.DirectionalLight(0xffffff, 1.6);
+    key.position.set(0.4, 0.6, 1);
+    this.camera.add(key);
+    this.scene.add(this.camera);
+
+    this.root = this.buildDom();
+    document.body.appendChild(this.root);
+
+    events.on("game:start", () => {
+      this.gameStarted = true;
+    });
+    events.on("game:restart", () => {
+      if (this.open) this.close();
+    });
+
+    window.addEventListener("keydown", (e) => {
+      if (!this.gameStarted) return;
+      if (isBound("orbital_map", e.code)) this.toggle();
+      else if (e.code === "Escape" && this.open) this.close();
+    });
+    window.addEventListener("resize", () => {
+      if (this.open) this.resize();
+    });
+  }
+
+  public toggle() {
+    this.open ? this.close() : this.show();
+  }
+
+  private show() {
+    const player = queries.player.first;
+    if (!player) return;
+    this.open = true;
+    this.root.style.display = "flex";
+    this.ensureRenderer();
+    this.ensureGlobe();
+    this.resize();
+
+    // Open centered over the player
+    const zoom = this.view.radius;
+    this.view.setFromVector3(player.object3d.position);
+    this.view.radius = zoom;
+    this.refreshTimer = 0;
+    this.lastClock = null;
+
+    events.emit("menu:toggle", "map", true);
+    document.exitPointerLock();
+    audioManager.playUIClick();
+  }
+
+  private close() {
+    this.open = false;
+    this.drag = null;
+    this.root.style.display = "none";
+    events.emit("menu:toggle", "map", false);
+    if (!gameState.isPaused) inputManager.lockPointer();
+    audioManager.playUIClick();
+  }
+
+  /** Render-phase tick (scheduled after the world visuals); idle while closed. */
+  public update(clock: number) {
+    if (!this.open || !this.gl) return;
+    const player = queries.player.first;
+    if (!player) return;
+    // Wall-clock seconds: the game is paused (render dt 0) while the map is open
+    const dt = this.lastClock === null ? 0 : Math.min(0.1, clock - this.lastClock);
+    this.lastClock = clock;
+    this.elapsed += dt;
+
+    this.camera.position.setFromSpherical(this.view);
+    this.camera.lookAt(0, 0, 0);
+
+    this.placeMarkers(player.object3d.position);
+
+    this.refreshTimer -= dt;
+    if (this.refreshTimer <= 0) {
+      this.refreshTimer = REFRESH_INTERVAL;
+      this.refreshRoutes(player);
+    }
+
+    this.gl.render(this.scene, this.camera);
+  }
+
+  // --- Globe ------------------------------------------------------------------
+
+  private ensureRenderer() {
+    if (this.gl) return;
+    this.gl = new THREE.WebGLRenderer({ canvas: this.canvas, antialias: true, alpha: true });
+    this.gl.setPixelRatio(Math.min(window.devicePixelRatio, 1.5));
+    this.gl.setClearColor(0x000000, 0);
+  }
+
+  /**
+   * The planet's coarse globe mesh (vertex colors included) under a plain lit
+   * material. Re-checked on every open: a new world seed rebuilds the planet.
+   */
+  private ensureGlobe() {
+    const geometry = getPlanetGlobe();
+    if (!geometry) return;
+    if (this.globe?.geometry === geometry) return;
+
+    if (this.globe) {
+      this.scene.remove(this.globe);
+      (this.globe.material as THREE.Material).dispose();
+    }
+    this.globe = new THREE.Mesh(geometry, new THREE.MeshLambertMaterial({ vertexColors: true }));
+    this.scene.add(this.globe);
+  }
+
+  private resize() {
+    const size = Math.floor(Math.min(window.innerHeight * 0.72, window.innerWidth * 0.58));
+    this.gl?.setSize(size, size);
+    this.camera.aspect = 1;
+    this.camera.updateProjectionMatrix();
+  }
+
+  // --- Markers ----------------------------------------------------------------
+
+  private placeMarkers(playerPos: THREE.Vector3) {
+    this.markersPlaced = 0;
+    // Icons keep a constant on-screen size as the view zooms
+    const scale = this.view.radius / ZOOM.initial;
+
+    for (const { beacon, object3d } of queries.beacons) {
+      if (!beacon.discovered && !beacon.collected) continue;
+      this.marker(object3d.position, beacon.collected ? COLORS.relayOnline : COLORS.relay, 3.2 * scale);
+    }
+    for (const { hazard, object3d } of queries.hazards) {
+      // Vents at their true size: the area to route around
+      this.marker(object3d.position, COLORS.hazard, hazard.radius * 0.8, 0.45);
+    }
+    for (const { pickup, object3d } of queries.pickups) {
+      if (pickup.kind !== "datapad" || !pickup.scanned || pickup.collected) continue;
+      this.marker(object3d.position, COLORS.datapad, 2.4 * scale);
+    }
+    if (cachePosition.lengthSq() > 0) this.marker(cachePosition, COLORS.cache, 3 * scale);
+    const dropship = queries.dropships.first;
+    if (dropship) this.marker(dropship.object3d.position, COLORS.dropship, 4 * scale);
+    const rover = queries.vehicles.first;
+    if (rover) this.marker(rover.object3d.position, COLORS.rover, 2.4 * scale);
+    for (const pin of mapPins) this.marker(pin.position, COLORS.pin, 3 * scale);
+
+    const target = getMissionTarget();
+    if (target) {
+      const pulse = 1 + 0.35 * Math.sin(this.elapsed * 5);
+      this.marker(target.position, COLORS.objective, 4.5 * scale * pulse, 0.35);
+    }
+
+    // The player last, so it draws over anything it stands on
+    this.marker(playerPos, COLORS.player, 3.6 * scale);
+
+    for (let i = this.markersPlaced; i < this.markers.length; i++) {
+      this.markers[i].visible = false;
+    }
+  }
+
+  private marker(position: THREE.Vector3, color: number, size: number, opacity = 1) {
+    let mesh = this.markers[this.markersPlaced];
+    if (!mesh) {
+      mesh = new THREE.Mesh(
+        this.markerGeometry,
+        new THREE.MeshBasicMaterial({ transparent: true, depthWrite: false }),
+      );
+      mesh.renderOrder = 1;
+      this.markers.push(mesh);
+      this.scene.add(mesh);
+    }
+    this.markersPlaced++;
+
+    const material = mesh.material as THREE.MeshBasicMaterial;
+    material.color.setHex(color);
+    material.opacity = opacity;
+    mesh.visible = true;
+    mesh.position.copy(position).addScaledVector(_n.copy(position).normalize(), 1.5);
+    mesh.scale.setScalar(size);
+  }
+
+  // --- Routes -----------------------------------------------------------------
+
+  private routes(): Route[] {
+    const routes: Route[] = [];
+    const target = getMissionTarget();
+    if (target) {
+      routes.push({ label: `OBJECTIVE · ${target.label}`, target: target.position, color: COLORS.objective });
+    }
+    for (const pin of mapPins) {
+      routes.push({ label: `PIN ${pin.num}`, target: pin.position, color: COLORS.pin, pin: pin.num });
+    }
+    return routes;
+  }
+
+  /** Rebuild the great-circle lines and the route planner readout. */
+  private refreshRoutes(player: NonNullable<typeof queries.player.first>) {
+    const { speed, sprintSpeed, maxOxygen } = player.playerControl;
+    const from = player.object3d.position;
+    const routes = this.routes();
+
+    // Rows are rebuilt only when the set of routes changes; otherwise the
+    // numbers update in place, so a pin's remove button stays clickable.
+    const key = routes.map((r) => r.label).join("|");
+    if (key !== this.plannerKey) {
+      this.plannerKey = key;
+      this.plannerRows = routes.map((route) => this.plannerRow(route));
+      const rows = this.plannerRows.map((r) => r.row);
+      if (rows.length === 0) {
+        const empty = document.createElement("div");
+        empty.className = "map-empty";
+        empty.textContent = "CLICK THE SURFACE TO DROP A ROUTE PIN";
+        rows.push(empty);
+      }
+      this.planner.replaceChildren(...rows);
+    }
+
+    routes.forEach((route, i) => {
+      const line = this.routeLine(i);
+      line.visible = true;
+      (line.material as THREE.LineBasicMaterial).color.setHex(route.color);
+
+      _a.copy(from).normalize();
+      _b.copy(route.target).normalize();
+      const positions = line.geometry.getAttribute("position") as THREE.BufferAttribute;
+      let meters = 0;
+      for (let s = 0; s <= ROUTE_SEGMENTS; s++) {
+        greatCirclePoint(_a, _b, s / ROUTE_SEGMENTS, ROUTE_LIFT, _p);
+        positions.setXYZ(s, _p.x, _p.y, _p.z);
+        if (s > 0) meters += _p.distanceTo(_prev);
+        _prev.copy(_p);
+      }
+      positions.needsUpdate = true;
+      line.geometry.computeBoundingSphere();
+
+      const cost = routeOxygenCost(meters, speed, sprintSpeed);
+      const { dist, o2 } = this.plannerRows[i];
+      dist.textContent = `${Math.round(meters)}m`;
+      o2.textContent = `${Math.ceil((cost.walk / maxOxygen) * 100)}% · ${Math.ceil((cost.sprint / maxOxygen) * 100)}%`;
+    });
+    for (let i = routes.length; i < this.routeLines.length; i++) this.routeLines[i].visible = false;
+  }
+
+  private routeLine(i: number): THREE.Line {
+    let line = this.routeLines[i];
+    if (!line) {
+      const geometry = new THREE.BufferGeometry();
+      geometry.setAttribute(
+        "position",
+        new THREE.BufferAttribute(new Float32Array((ROUTE_SEGMENTS + 1) * 3), 3),
+      );
+      line = new THREE.Line(geometry, new THREE.LineBasicMaterial());
+      this.routeLines.push(line);
+      this.scene.add(line);
+    }
+    return line;
+  }
+
+  private plannerRow(route: Route) {
+    const row = document.createElement("div");
+    row.className = "map-route";
+    row.style.setProperty("--route-color", `#${route.color.toString(16).padStart(6, "0")}`);
+
+    const name = document.createElement("span");
+    name.className = "map-route-name";
+    name.textContent = route.label;
+    row.appendChild(name);
+
+    const dist = document.createElement("span");
+    row.appendChild(dist);
+
+    const o2 = document.createElement("span");
+    o2.title = "Estimated O₂ on foot: walking · sprinting";
+    row.appendChild(o2);
+
+    const remove = document.createElement("button");
+    remove.className = "map-route-remove";
+    if (route.pin !== undefined) {
+      const num = route.pin;
+      remove.textContent = "✕";
+      remove.addEventListener("click", () => {
+        removeMapPin(num);
+        this.refreshTimer = 0;
+        audioManager.playUIClick();
+      });
+    } else {
+      remove.disabled = true;
+    }
+    row.appendChild(remove);
+    return { row, dist, o2 };
+  }
+
+  // --- Pointer ----------------------------------------------------------------
+
+  private onPointerDown = (e: PointerEvent) => {
+    this.drag = { x: e.clientX, y: e.clientY, moved: 0 };
+    this.canvas.setPointerCapture(e.pointerId);
+  };
+
+  private onPointerMove = (e: PointerEvent) => {
+    if (!this.drag) return;
+    const dx = e.clientX - this.drag.x;
+    const dy = e.clientY - this.drag.y;
+    this.drag.x = e.clientX;
+    this.drag.y = e.clientY;
+    this.drag.moved += Math.abs(dx) + Math.abs(dy);
+
+    // Turn slower when zoomed in, so the surface tracks the cursor
+    const rate = 0.005 * (this.view.radius / ZOOM.initial);
+    this.view.theta -= dx * rate;
+    this.view.phi = THREE.MathUtils.clamp(this.view.phi - dy * rate, 0.12, Math.PI - 0.12);
+  };
+
+  private onPointerUp = (e: PointerEvent) => {
+    const drag = this.drag;
+    this.drag = null;
+    if (drag && drag.moved <= CLICK_SLOP) this.pick(e);
+  };
+
+  private onWheel = (e: WheelEvent) => {
+    e.preventDefault();
+    this.view.radius = THREE.MathUtils.clamp(this.view.radius * (1 + e.deltaY * 0.001), ZOOM.min, ZOOM.max);
+  };
+
+  /** Click on the globe: lift the pin under the cursor, or drop a new one. */
+  private pick(e: PointerEvent) {
+    if (!this.globe) return;
+    const rect = this.canvas.getBoundingClientRect();
+    const ndc = new THREE.Vector2(
+      ((e.clientX - rect.left) / rect.width) * 2 - 1,
+      -((e.clientY - rect.top) / rect.height) * 2 + 1,
+    );
+    this.camera.position.setFromSpherical(this.view);
+    this.camera.lookAt(0, 0, 0);
+    this.raycaster.setFromCamera(ndc, this.camera);
+    const hit = this.raycaster.intersectObject(this.globe)[0];
+    if (!hit) return;
+
+    const existing = mapPins.find((p) => p.position.distanceTo(hit.point) < PIN_PICK_RADIUS);
+    if (existing) {
+      removeMapPin(existing.num);
+    } else {
+      const pin = addMapPin(hit.point);
+      if (!pin) {
+        events.emit("log:message", `ALL ${MAX_MAP_PINS} ROUTE PINS IN USE`, "warn");
+        return;
+      }
+      events.emit("log:message", `ROUTE PIN ${pin.num} PLACED`, "info");
+    }
+    this.refreshTimer = 0;
+    audioManager.playUIClick();
+  }
+
+  // --- DOM construction -------------------------------------------------------
+
+  private buildDom(): HTMLDivElement {
+    const root = document.createElement("div");
+    root.id = "orbital-map";
+    root.style.display = "none";
+
+    const panel = document.createElement("div");
+    panel.className = "map-panel";
+
+    this.canvas = document.createElement("canvas");
+    this.canvas.className = "map-globe";
+    this.canvas.addEventListener("pointerdown", this.onPointerDown);
+    this.canvas.addEventListener("pointermove", this.onPointerMove);
+    this.canvas.addEventListener("pointerup", this.onPointerUp);
+    this.canvas.addEventListener("wheel", this.onWheel, { passive: false });
+    // Keep InputManager's click-to-lock off this canvas
+    this.canvas.addEventListener("click", (e) => e.stopPropagation());
+    this.canvas.addEventListener("contextmenu", (e) => e.preventDefault());
+    panel.appendChild(this.canvas);
+
+    const side = document.createElement("div");
+    side.className = "map-side";
+
+    const title = document.createElement("h2");
+    title.textContent = "ORBITAL MAP";
+    side.appendChild(title);
+
+    side.appendChild(this.legend());
+
+    const plannerTitle = document.createElement("div");
+    plannerTitle.className = "map-subtitle";
+    plannerTitle.textContent = "ROUTE PLANNER";
+    side.appendChild(plannerTitle);
+
+    const header = document.createElement("div");
+    header.className = "map-route map-route-head";
+    for (const text of ["ROUTE", "DIST", "O₂ WALK · RUN", ""]) {
+      const cell = document.createElement("span");
+      cell.textContent = text;
+      header.appendChild(cell);
+    }
+    side.appendChild(header);
+
+    this.planner = document.createElement("div");
+    this.planner.className = "map-planner";
+    side.appendChild(this.planner);
+
+    const hint = document.createElement("div");
+    hint.className = "map-hint";
+    hint.textContent = "DRAG TO TURN · SCROLL TO ZOOM · CLICK TO PIN / UNPIN";
+    side.appendChild(hint);
+
+    const buttons = document.createElement("div");
+    buttons.className = "settings-buttons";
+
+    const clear = document.createElement("button");
+    clear.className = "btn-hud";
+    clear.textContent = "CLEAR PINS";
+    clear.addEventListener("click", () => {
+      clearMapPins();
+      this.refreshTimer = 0;
+      audioManager.playUIClick();
+    });
+    buttons.appendChild(clear);
+
+    const close = document.createElement("button");
+    close.className = "btn-hud";
+    const labelClose = () => {
+      const key = keyBindings.orbital_map[0];
+      close.textContent = key ? `CLOSE  [${keyLabel(key)}]` : "CLOSE";
+    };
+    labelClose();
+    events.on("bindings:changed", labelClose);
+    close.addEventListener("click", () => this.close());
+    buttons.appendChild(close);
+    side.appendChild(buttons);
+
+    panel.appendChild(side);
+    root.appendChild(panel);
+    return root;
+  }
+
+  private legend(): HTMLDivElement {
+    const legend = document.createElement("div");
+    legend.className = "map-legend";
+    const entries: [string, number][] = [
+      ["YOU", COLORS.player],
+      ["RELAY (SCANNED)", COLORS.relay],
+      ["RELAY ONLINE", COLORS.relayOnline],
+      ["HAZARD VENT", COLORS.hazard],
+      ["SUPPLY CACHE", COLORS.cache],
+      ["DROPSHIP", COLORS.dropship],
+      ["ROVER", COLORS.rover],
+      ["DATA PAD", COLORS.datapad],
+      ["ROUTE PIN", COLORS.pin],
+    ];
+    for (const [label, color] of entries) {
+      const item = document.createElement("div");
+      const swatch = document.createElement("span");
+      swatch.className = "map-swatch";
+      swatch.style.background = `#${color.toString(16).padStart(6, "0")}`;
+      item.appendChild(swatch);
+      item.appendChild(document.createTextNode(label));
+      legend.appendChild(item);
+    }
+    return legend;
+  }
+}
+
+export const orbitalMap = new OrbitalMap();
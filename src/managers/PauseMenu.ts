@@ -0,0 +1,133 @@
+import { events } from "../utils/EventBus";
+import { gameState } from "../core/GameState";
+import { HEADLESS } from "../core/Headless";
+import { inputManager } from "./InputManager";
+import { audioManager } from "./AudioManager";
+import { settingsMenu } from "./SettingsMenu";
+import { uiManager } from "./UIManager";
+
+/**
+ * Pause screen and the owner of the `paused` phase.
+ *
+ * The game pauses — no fixed ticks, so no oxygen drain, no storm-spawn, no
+ * countdown — whenever the pause screen, the settings panel or the orbital
+ * map is open. The pause screen itself opens when play loses the pointer
+ * (Esc), when the tab is hidden, and from the touch MENU button. Settings
+ * opened from here return here when closed.
+ */
+class PauseMenu {
+  private root: HTMLDivElement | null = null;
+  private visible = false;
+  /** Overlay menus open right now ("settings", "map"). */
+  private openMenus = new Set<string>();
+  /** Settings were opened from the pause screen; come back to it. */
+  private returnHere = false;
+
+  constructor() {
+    if (HEADLESS) return;
+    this.root = this.buildDom();
+    document.body.appendChild(this.root);
+
+    document.addEventListener("pointerlockchange", () => {
+      if (!inputManager.pointerLocked && gameState.isPlaying) this.open();
+    });
+    document.addEventListener("visibilitychange", () => {
+      if (document.hidden && gameState.isPlaying) this.open();
+    });
+
+    events.on("menu:toggle", (menu, open) => {
+      if (open) {
+        this.openMenus.add(menu);
+        if (this.visible) {
+          this.returnHere = true;
+          this.hide();
+        }
+        events.emit("game:pause");
+        return;
+      }
+      this.openMenus.delete(menu);
+      if (this.openMenus.size > 0) return;
+      if (this.returnHere) {
+        this.returnHere = false;
+        this.show();
+      } else {
+        events.emit("game:resume");
+      }
+    });
+    events.on("game:restart", () => {
+      this.returnHere = false;
+      this.hide();
+    });
+  }
+
+  /** Pause and show the pause screen (no-op unless a run is in play). */
+  public open() {
+    if (!gameState.isPlaying || this.openMenus.size > 0) return;
+    events.emit("game:pause");
+    this.show();
+    document.exitPointerLock();
+  }
+
+  private resume() {
+    this.hide();
+    events.emit("game:resume");
+    inputManager.lockPointer();
+    audioManager.playUIClick();
+  }
+
+  private show() {
+    if (!this.root) return;
+    this.visible = true;
+    this.root.style.display = "flex";
+  }
+
+  private hide() {
+    if (!this.root) return;
+    this.visible = false;
+    this.root.style.display = "none";
+  }
+
+  // --- DOM construction -----------------------------------------------------
+
+  private buildDom(): HTMLDivElement {
+    const root = document.createElement("div");
+    root.id = "pause-menu";
+    root.style.display = "none";
+
+    const panel = document.createElement("div");
+    panel.className = "settings-panel pause-panel";
+
+    const title = document.createElement("h2");
+    title.textContent = "PAUSED";
+    panel.appendChild(title);
+
+    const buttons = document.createElement("div");
+    buttons.className = "settings-buttons pause-buttons";
+    buttons.append(
+      this.button("RESUME", () => this.resume()),
+      this.button("SETTINGS", () => settingsMenu.toggle()),
+      this.button("RESTART RUN", () => {
+        audioManager.playUIClick();
+        uiManager.restart();
+      }),
+      this.button("QUIT TO TITLE", () => {
+        audioManager.playUIClick();
+        uiManager.quitToTitle();
+      }),
+    );
+    panel.appendChild(buttons);
+
+    root.appendChild(panel);
+    return root;
+  }
+
+  private button(label: string, onClick: () => void): HTMLButtonElement {
+    const btn = document.createElement("button");
+    btn.className = "btn-hud";
+    btn.textContent = label;
+    btn.addEventListener("click", onClick);
+    return btn;
+  }
+}
+
+export const pauseMenu = new PauseMenu();
@@ -0,0 +1,394 @@
+import { HEADLESS } from "../core/Headless";
+import { DEFAULT_WORLD_SEED, getWorldSeed } from "../core/WorldSeed";
+import { gameState } from "../core/GameState";
+import { cameraSettings, type CameraSettingsData } from "../core/CameraSettings";
+import {
+  difficulty,
+  setDifficulty,
+  DIFFICULTY_PRESETS,
+  type DifficultyData,
+} from "../core/Difficulty";
+import { inputManager, INPUT_ACTIONS, type InputAction } from "./InputManager";
+import { saveManager, type SaveSnapshot } from "./SaveManager";
+import { missionState } from "./MissionManager";
+import { charDiag } from "../ecs/systems/CharacterSystem";
+import { queries } from "../ecs/World";
+import { events } from "../utils/EventBus";
+import { isBound } from "../core/KeyBindings";
+
+/**
+ * Deterministic input recording and replay.
+ *
+ * Every run records, from game:start until the run ends, what each frame fed
+ * the simulation: its delta (which decides how many 60Hz ticks run and the
+ * interpolation alpha the camera rig sees), the held actions, the presses
+ * that arrived, mouse/scroll deltas, analog stick movement and the resulting
+ * camera yaw/pitch. Playback swaps the devices and the clock out for that
+ * stream and runs the same Engine path, so the run repeats tick for tick —
+ * in the browser (drop the file on the start screen) or headless
+ * (`npm run simulate -- --replay`).
+ *
+ * Once per second of sim time the recording also stores a checksum of
+ * charDiag + missionState; playback compares them and reports the first tick
+ * that differs, which is where a desync (or a nondeterminism bug) started.
+ */
+
+/**
+ * Run-length encoded frame:
+ * [repeat, delta, held, pressed, mouseX, mouseY, scroll, yaw, pitch,
+ *  moveX?, moveZ?]. `held`/`pressed` are bitmasks over INPUT_ACTIONS; the
+ * move pair is only present on frames a gamepad stick drove movement.
+ */
+export type ReplayFrame = [
+  number, number, number, number, number, number, number, number, number,
+  number?, number?,
+];
+
+export interface ReplayFile {
+  format: "astra-replay";
+  version: 1;
+  /** World seed the run was recorded on (absent: the default world). */
+  seed?: number;
+  /** Fixed ticks the player existed before game:start (settling on the pad). */
+  preTicks: number;
+  /** Engine clock when the first recorded frame began. */
+  simTime: number;
+  accumulator: number;
+  /** The save the run resumed from, if it didn't start on the pad. */
+  resume?: SaveSnapshot;
+  /** Difficulty of the run (absent in replays from before difficulty: STANDARD). */
+  difficulty?: DifficultyData;
+  /** The recorder's camera settings (boom length and shake move the aim ray). */
+  camera: CameraSettingsData;
+  /** Recorded frames (sum of repeats). */
+  frameCount: number;
+  frames: ReplayFrame[];
+  /** [tick since game:start, checksum], once per CHECKSUM_INTERVAL ticks. */
+  checksums: [number, number][];
+}
+
+export interface ReplayClock {
+  delta: number;
+  simTime: number;
+  accumulator: number;
+}
+
+const CHECKSUM_INTERVAL = 60; // one per second of sim time
+
+function fnv1a(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/**
+ * Hash of the controller output and mission progress. charDiag.ticks counts
+ * from boot rather than from game:start, so it stays out.
+ */
+export function stateChecksum(): number {
+  const v = (p: { x: number; y: number; z: number }) =>
+    `${p.x.toFixed(3)},${p.y.toFixed(3)},${p.z.toFixed(3)}`;
+  return fnv1a(
+    [
+      v(charDiag.desired),
+      v(charDiag.moved),
+      v(charDiag.camForward),
+      charDiag.vertical.toFixed(3),
+      charDiag.grounded ? 1 : 0,
+      missionState.actIndex,
+      missionState.currentBeaconIndex,
+      missionState.beaconsOnline,
+      missionState.cacheFound ? 1 : 0,
+      missionState.evacActive ? 1 : 0,
+      missionState.evacRemaining.toFixed(2),
+    ].join("|"),
+  );
+}
+
+export class ReplayManager {
+  private mode: "idle" | "recording" | "playing" = "idle";
+  /** Fixed ticks since game:start. */
+  private tick = 0;
+  private clock: ReplayClock = { delta: 0, simTime: 0, accumulator: 0 };
+  private firstFrame = false;
+
+  // Recording
+  private recording: ReplayFile | null = null;
+  private current: ReplayFrame | null = null;
+
+  // Playback
+  private pending: ReplayFile | null = null;
+  private playing: ReplayFile | null = null;
+  private frameIndex = -1;
+  private frameLeft = 0;
+  private expected = new Map<number, number>();
+  private viewerCamera: CameraSettingsData | null = null;
+  private held = new Set<InputAction>();
+  private pressed: InputAction[] = [];
+  public desyncTick: number | null = null;
+
+  constructor() {
+    events.on("game:start", () => this.begin());
+
+    if (HEADLESS) return;
+
+    // F8 saves the run so far — attach it to the bug report
+    window.addEventListener("keydown", (e) => {
+      if (isBound("save_replay", e.code)) {
+        e.preventDefault();
+        this.download();
+      }
+    });
+
+    // Drop a replay file on the start screen to watch it
+    const startScreen = document.getElementById("start-screen");
+    startScreen?.addEventListener("dragover", (e) => e.preventDefault());
+    startScreen?.addEventListener("drop", (e) => {
+      e.preventDefault();
+      const file = e.dataTransfer?.files[0];
+      if (file) void this.loadFromFile(file);
+    });
+  }
+
+  public get isPlaying(): boolean {
+    return this.mode === "playing";
+  }
+
+  /** Queue a replay; it plays from the next game:start. */
+  public load(replay: ReplayFile) {
+    if (replay?.format !== "astra-replay" || replay.version !== 1) {
+      throw new Error("Not an ASTRA replay file (or an unsupported version)");
+    }
+    const seed = replay.seed ?? DEFAULT_WORLD_SEED;
+    if (seed !== getWorldSeed()) {
+      throw new Error(`Replay was recorded on world seed ${seed} (this world: ${getWorldSeed()})`);
+    }
+    this.pending = replay;
+  }
+
+  /** The current (or last finished) recording, if any. */
+  public getRecording(): ReplayFile | null {
+    return this.recording;
+  }
+
+  public status() {
+    return { mode: this.mode, tick: this.tick, desyncTick: this.desyncTick };
+  }
+
+  /**
+   * Called by the Engine at the top of every frame with its own delta and
+   * clock. Recording captures the frame's input; playback injects the
+   * recorded input and returns the recorded timing instead.
+   */
+  public beginFrame(delta: number, simTime: number, accumulator: number): ReplayClock {
+    const clock = this.clock;
+    clock.delta = delta;
+    clock.simTime = simTime;
+    clock.accumulator = accumulator;
+
+    if (this.mode === "recording") {
+      const rec = this.recording!;
+      if (this.firstFrame) {
+        rec.simTime = simTime;
+        rec.accumulator = accumulator;
+        this.firstFrame = false;
+      }
+      let held = 0;
+      INPUT_ACTIONS.forEach((action, bit) => {
+        if (inputManager.getAction(action) > 0) held |= 1 << bit;
+      });
+      let pressed = 0;
+      for (const action of inputManager.takePresses()) pressed |= 1 << INPUT_ACTIONS.indexOf(action);
+      const m = inputManager.mouseDelta;
+      this.current = [1, delta, held, pressed, m.x, m.y, inputManager.scrollDelta, 0, 0];
+      const move = inputManager.analogMove;
+      if (move) this.current.push(move.x, move.z);
+    } else if (this.mode === "playing") {
+      const frame = this.nextFrame();
+      if (!frame) {
+        this.finishPlayback();
+        return clock;
+      }
+      if (this.firstFrame) {
+        clock.simTime = this.playing!.simTime;
+        clock.accumulator = this.playing!.accumulator;
+        this.firstFrame = false;
+      }
+      clock.delta = frame[1];
+
+      this.held.clear();
+      this.pressed.length = 0;
+      INPUT_ACTIONS.forEach((action, bit) => {
+        if (frame[2] & (1 << bit)) this.held.add(action);
+        if (frame[3] & (1 << bit)) this.pressed.push(action);
+      });
+      const move = frame.length > 9 ? { x: frame[9]!, z: frame[10]! } : null;
+      inputManager.inject(this.held, this.pressed, frame[4], frame[5], frame[6], move);
+
+      // Pin the look: the camera rig skips mouse integration while injected,
+      // so the recorder's sensitivity/smoothing can't make the view drift
+      const pc = queries.player.first?.playerControl;
+      if (pc) {
+        pc.yaw = frame[7];
+        pc.pitch = frame[8];
+      }
+    }
+    return clock;
+  }
+
+  /** Called by the Engine after the frame's camera update. */
+  public endFrame() {
+    if (this.mode === "playing") {
+      if (!this.peekFrame()) this.finishPlayback();
+      return;
+    }
+    if (this.mode !== "recording" || !this.current) return;
+    const frame = this.current;
+    this.current = null;
+    const pc = queries.player.first?.playerControl;
+    frame[7] = pc?.yaw ?? 0;
+    frame[8] = pc?.pitch ?? 0;
+
+    // Run-length encode: steady frame rates with idle input collapse
+    const rec = this.recording!;
+    rec.frameCount++;
+    const last = rec.frames[rec.frames.length - 1];
+    const same =
+      last && last.length === frame.length && frame.every((value, i) => i === 0 || value === last[i]);
+    if (same) last[0]++;
+    else rec.frames.push(frame);
+
+    // The run is over — keep the recording for F8 but stop growing it
+    if (!gameState.isPlaying) this.mode = "idle";
+  }
+
+  /** Called by Engine.fixedUpdate after every tick. */
+  public afterTick() {
+    if (this.mode === "idle") return;
+    this.tick++;
+    if (this.tick % CHECKSUM_INTERVAL !== 0) return;
+
+    const checksum = stateChecksum();
+    if (this.mode === "recording") {
+      this.recording!.checksums.push([this.tick, checksum]);
+      return;
+    }
+
+    const expected = this.expected.get(this.tick);
+    if (expected !== undefined && expected !== checksum && this.desyncTick === null) {
+      this.desyncTick = this.tick;
+      const at = `TICK ${this.tick} (${(this.tick / 60).toFixed(1)}s)`;
+      console.warn(`Replay desync at ${at}`);
+      events.emit("log:message", `REPLAY: DESYNC AT ${at}`, "warn");
+    }
+  }
+
+  private begin() {
+    this.tick = 0;
+    this.firstFrame = true;
+    this.current = null;
+    inputManager.takePresses();
+
+    if (this.pending) {
+      const replay = this.pending;
+      this.pending = null;
+      this.playing = replay;
+      this.frameIndex = -1;
+      this.frameLeft = 0;
+      this.expected = new Map(replay.checksums);
+      this.desyncTick = null;
+      this.viewerCamera = { ...cameraSettings };
+      Object.assign(cameraSettings, replay.camera);
+      // For this session only; a resumed save re-applies the same on its tick
+      setDifficulty(replay.difficulty ?? DIFFICULTY_PRESETS.standard, false);
+      if (replay.resume) saveManager.resume(replay.resume);
+      inputManager.releaseInjection();
+      this.mode = "playing";
+      events.emit("log:message", "REPLAY: PLAYBACK STARTED", "info");
+      return;
+    }
+
+    const resume = saveManager.pendingResume;
+    this.recording = {
+      format: "astra-replay",
+      version: 1,
+      seed: getWorldSeed(),
+      preTicks: charDiag.ticks,
+      resume: resume ?? undefined,
+      // A resumed save switches to its own difficulty on the first tick
+      difficulty: { ...(resume ? resume.difficulty ?? DIFFICULTY_PRESETS.standard : difficulty) },
+      simTime: 0,
+      accumulator: 0,
+      camera: { ...cameraSettings },
+      frameCount: 0,
+      frames: [],
+      checksums: [],
+    };
+    this.mode = "recording";
+  }
+
+  private nextFrame(): ReplayFrame | null {
+    const frames = this.playing?.frames;
+    if (!frames) return null;
+    if (this.frameLeft === 0) {
+      this.frameIndex++;
+      if (!frames[this.frameIndex]) return null;
+      this.frameLeft = frames[this.frameIndex][0];
+    }
+    this.frameLeft--;
+    return frames[this.frameIndex];
+  }
+
+  private peekFrame(): ReplayFrame | null {
+    const frames = this.playing?.frames;
+    if (!frames) return null;
+    return this.frameLeft > 0 ? frames[this.frameIndex] : (frames[this.frameIndex + 1] ?? null);
+  }
+
+  private finishPlayback() {
+    this.mode = "idle";
+    this.playing = null;
+    inputManager.releaseInjection();
+    if (this.viewerCamera) Object.assign(cameraSettings, this.viewerCamera);
+    this.viewerCamera = null;
+
+    const inSync = this.desyncTick === null;
+    const result = inSync ? "IN SYNC" : `DESYNC AT TICK ${this.desyncTick}`;
+    events.emit("log:message", `REPLAY: FINISHED — ${result}`, inSync ? "success" : "warn");
+  }
+
+  private download() {
+    if (!this.recording) return;
+    const blob = new Blob([JSON.stringify(this.recording)], { type: "application/json" });
+    const link = document.createElement("a");
+    link.href = URL.createObjectURL(blob);
+    link.download = `astra-replay-${new Date().toISOString().replace(/[:.]/g, "-")}.json`;
+    link.click();
+    URL.revokeObjectURL(link.href);
+    events.emit("log:message", "REPLAY SAVED", "info");
+  }
+
+  private async loadFromFile(file: File) {
+    const prompt = document.querySelector("#start-prompt .blink");
+    try {
+      const replay = JSON.parse(await file.text()) as ReplayFile;
+      // The world is built once per page load: a replay from another seed
+      // needs a reload on that seed
+      const seed = replay?.seed ?? DEFAULT_WORLD_SEED;
+      if (replay?.format === "astra-replay" && seed !== getWorldSeed()) {
+        if (prompt) prompt.textContent = `▶ REPLAY NEEDS ?seed=${seed} — CLICK TO BEGIN ◀`;
+        return;
+      }
+      this.load(replay);
+      if (prompt) prompt.textContent = "▶ REPLAY LOADED — CLICK TO PLAY ◀";
+    } catch (err) {
+      console.error("Replay load failed:", err);
+      if (prompt) prompt.textContent = "▶ INVALID REPLAY — CLICK TO BEGIN ◀";
+    }
+  }
+}
+
+export const replayManager = new ReplayManager();
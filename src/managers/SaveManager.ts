@@ -0,0 +1,428 @@
+import * as THREE from "three";
+import { HEADLESS } from "../core/Headless";
+import { DEFAULT_WORLD_SEED, getWorldSeed } from "../core/WorldSeed";
+import { gameState } from "../core/GameState";
+import {
+  difficulty,
+  setDifficulty,
+  DIFFICULTY_LABELS,
+  DIFFICULTY_PRESETS,
+  type DifficultyData,
+} from "../core/Difficulty";
+import { BEACON_ORDER } from "../core/MissionData";
+import { queries, world } from "../ecs/World";
+import type { Entity } from "../ecs/components";
+import { renderer } from "../core/Renderer";
+import { inputManager } from "./InputManager";
+import { missionManager, type MissionSave } from "./MissionManager";
+import { mapPins, restoreMapPins } from "../core/MapPins";
+import { createO2Shard } from "../ecs/factories/PickupFactory";
+import type { TerrainStamp } from "../ecs/factories/PlanetTerrain";
+import type { CreatureType } from "../ecs/creatures";
+import { syncBeaconProgress } from "../ecs/systems/BeaconSystem";
+import { resetCharacterSystem } from "../ecs/systems/CharacterSystem";
+import { teleportEntity } from "../ecs/systems/PhysicsSystem";
+import { skipIntro } from "../ecs/systems/CameraSystem";
+import { getDayClock, setDayClock } from "../ecs/systems/DayNightSystem";
+import { restoreWeather, serializeWeather, type WeatherSave } from "../ecs/systems/WeatherSystem";
+import { restoreTerrain, serializeTerrain } from "../ecs/systems/TerrainSystem";
+import { resetVehicleSystem, seatPlayer } from "../ecs/systems/VehicleSystem";
+import {
+  clearCreatures,
+  getCreatureSeed,
+  restoreCreature,
+  setCreatureSeed,
+} from "../ecs/systems/CreatureSystem";
+import { events } from "../utils/EventBus";
+
+/**
+ * Save and resume mid-mission.
+ *
+ * A save is a plain-JSON snapshot of everything a run accumulates on top of
+ * the generated world: mission progress and stats, the player's suit and
+ * momentum, which relays and pickups are spent, the living storm-spawn with
+ * their AI state, the weather, the craters and scoops in the ground, the rover, the dropship, and what the orbital
+ * map has charted (scanned relays and pads, route pins). The world itself is never
+ * stored — createWorld() rebuilds it identically from the world seed the save
+ * records, and the snapshot is applied on top on the first tick after
+ * game:start.
+ *
+ * Slots live in localStorage: "auto" (written when a relay comes online or
+ * the supply cache is found) and three manual slots from the settings panel.
+ * A save resumes on the difficulty it was made on; dying on a permadeath
+ * difficulty deletes every permadeath save.
+ */
+
+export type SaveSlot = "auto" | "1" | "2" | "3";
+
+export const SAVE_SLOTS: SaveSlot[] = ["auto", "1", "2", "3"];
+
+type Vec3 = { x: number; y: number; z: number };
+
+export interface SaveSnapshot {
+  format: "astra-save";
+  version: 1;
+  /** Wall-clock time of the save (ms since epoch), for the slot list. */
+  savedAt: number;
+  /** World seed of the run (absent: the default world). */
+  seed?: number;
+  /** Difficulty of the run (absent in saves from before difficulty: STANDARD). */
+  difficulty?: DifficultyData;
+  /** Solar time at the landing zone, hours (absent in saves from before day/night: landing time). */
+  dayClock?: number;
+  /** Storms in the sky and the weather schedule (absent in saves from before weather: clear skies). */
+  weather?: WeatherSave;
+  /** Craters and cutter scoops (absent in saves from before deformation: untouched ground). */
+  terrain?: TerrainStamp[];
+  mission: MissionSave;
+  player: {
+    position: Vec3;
+    velocity: Vec3;
+    oxygen: number;
+    jetpackFuel: number;
+    /** Suit integrity (absent in saves from before the suit model: intact). */
+    integrity?: number;
+    hasCutter: boolean;
+    yaw: number;
+    pitch: number;
+    cameraMode: "Explore" | "Focus";
+  };
+  beacons: { index: number; collected: boolean; booting: boolean; discovered?: boolean }[];
+  /** Names of the placed canisters and data pads not yet collected. */
+  pickups: string[];
+  /** Data pads caught by a scanner ping (absent in saves from before the orbital map). */
+  scannedPads?: string[];
+  /** Orbital map route pins. */
+  pins?: (Vec3 & { num: number })[];
+  /** Dropped O₂ shards still on the ground. */
+  shards: Vec3[];
+  creatures: {
+    seed: number;
+    alive: {
+      position: Vec3;
+      quaternion: { x: number; y: number; z: number; w: number };
+      /** Its archetype is absent in saves from before there was more than one: a crawler. */
+      creature: Omit<NonNullable<Entity["creature"]>, "type"> & { type?: CreatureType };
+    }[];
+  };
+  dropship: { activated: boolean; extractionActive: boolean } | null;
+  /** Where the rover was left (absent in saves from before the rover). */
+  rover?: {
+    position: Vec3;
+    quaternion: { x: number; y: number; z: number; w: number };
+    velocity: Vec3;
+    battery: number;
+    occupied: boolean;
+  };
+}
+
+const STORAGE_PREFIX = "astra.save.v1.";
+
+const vec = (v: Vec3): Vec3 => ({ x: v.x, y: v.y, z: v.z });
+
+const isSameWorld = (save: SaveSnapshot) => (save.seed ?? DEFAULT_WORLD_SEED) === getWorldSeed();
+
+/** Short human label for a save, e.g. "ACT II · RELAYS 1/3". */
+export function describeSave(save: SaveSnapshot): string {
+  const card = missionManager.current.acts[save.mission.state.actIndex]?.card;
+  const act = card ? card.num : "LANDING";
+  const relays = `${act} · RELAYS ${save.mission.state.beaconsOnline}/${BEACON_ORDER.length}`;
+  const preset = save.difficulty?.preset ?? "standard";
+  return preset === "standard" ? relays : `${relays} · ${DIFFICULTY_LABELS[preset]}`;
+}
+
+class SaveManager {
+  /** Snapshot to apply on the first tick of the next run. */
+  private pending: SaveSnapshot | null = null;
+  private pendingAutosave = false;
+  private continueList: HTMLDivElement | null = null;
+
+  constructor() {
+    // Only the objectives the mission marks for it. Deferred to the next
+    // tick: a relay's O₂ bonus lands after the mission director has
+    // advanced the objective.
+    events.on("mission:objective:complete", (act, objective) => {
+      if (missionManager.current.acts[act]?.objectives[objective]?.autosave) this.pendingAutosave = true;
+    });
+    events.on("game:restart", () => {
+      this.pendingAutosave = false;
+      // Back on the start screen (quit to title): list what is saved now
+      if (!HEADLESS) this.buildContinueList();
+    });
+    events.on("game:over", () => {
+      if (difficulty.permadeath && !inputManager.isInjected) this.clearPermadeathSaves();
+    });
+
+    if (!HEADLESS) this.buildContinueList();
+  }
+
+  /** Queue a snapshot; it is restored on the first tick after game:start. */
+  public resume(save: SaveSnapshot) {
+    if (save?.format !== "astra-save" || save.version !== 1) {
+      throw new Error("Not an ASTRA save (or an unsupported version)");
+    }
+    if (!isSameWorld(save)) {
+      throw new Error(`Save is from world seed ${save.seed} (this world: ${getWorldSeed()})`);
+    }
+    this.pending = save;
+  }
+
+  /** The snapshot queued for the next run, if any. */
+  public get pendingResume(): SaveSnapshot | null {
+    return this.pending;
+  }
+
+  /** Read a slot (null when empty, unreadable or from an older version). */
+  public read(slot: SaveSlot): SaveSnapshot | null {
+    try {
+      const raw = localStorage.getItem(STORAGE_PREFIX + slot);
+      if (!raw) return null;
+      const save = JSON.parse(raw) as SaveSnapshot;
+      return save.format === "astra-save" && save.version === 1 ? save : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /** Permadeath: the run is over for good, and so are its saves. */
+  private clearPermadeathSaves() {
+    for (const slot of SAVE_SLOTS) {
+      if (!this.read(slot)?.difficulty?.permadeath) continue;
+      try {
+        localStorage.removeItem(STORAGE_PREFIX + slot);
+      } catch {
+        /* storage unavailable — nothing was saved there */
+      }
+    }
+  }
+
+  /** Snapshot the run into `slot`. Returns the snapshot (null if no run). */
+  public save(slot: SaveSlot): SaveSnapshot | null {
+    const save = this.snapshot();
+    if (!save) return null;
+    try {
+      localStorage.setItem(STORAGE_PREFIX + slot, JSON.stringify(save));
+    } catch {
+      /* private browsing / headless — the snapshot is still returned */
+    }
+    return save;
+  }
+
+  /** Capture the current run (null before a player exists). */
+  public snapshot(): SaveSnapshot | null {
+    const player = queries.player.first;
+    if (!player) return null;
+    const pc = player.playerControl;
+
+    const pickups: string[] = [];
+    const scannedPads: string[] = [];
+    const shards: Vec3[] = [];
+    for (const { name, pickup, object3d } of queries.pickups) {
+      if (pickup.collected) continue;
+      if (name?.startsWith("O2Shard_")) shards.push(vec(object3d.position));
+      else if (name) pickups.push(name);
+      if (name && pickup.scanned) scannedPads.push(name);
+    }
+
+    const dropship = queries.dropships.first?.dropship;
+    const rover = queries.vehicles.first;
+
+    return {
+      format: "astra-save",
+      version: 1,
+      savedAt: Date.now(),
+      seed: getWorldSeed(),
+      difficulty: { ...difficulty },
+      dayClock: getDayClock(),
+      weather: serializeWeather(),
+      terrain: serializeTerrain(),
+      mission: missionManager.serialize(),
+      player: {
+        position: vec(player.rigidBody.translation()),
+        velocity: vec(pc.velocity),
+        oxygen: pc.oxygen,
+        jetpackFuel: pc.jetpackFuel ?? 0,
+        integrity: player.health?.current,
+        hasCutter: !!pc.hasCutter,
+        yaw: pc.yaw ?? 0,
+        pitch: pc.pitch ?? 0,
+        cameraMode: pc.cameraMode ?? "Explore",
+      },
+      beacons: queries.beacons.entities.map(({ beacon, object3d }) => ({
+        index: object3d.userData.index,
+        collected: beacon.collected,
+        booting: !!beacon.booting,
+        discovered: !!beacon.discovered,
+      })),
+      pickups,
+      scannedPads,
+      pins: mapPins.map((p) => ({ num: p.num, ...vec(p.position) })),
+      shards,
+      creatures: {
+        seed: getCreatureSeed(),
+        alive: queries.creatures.entities
+          .filter((c) => c.creature.state !== "dying")
+          .map(({ object3d, creature }) => ({
+            position: vec(object3d.position),
+            quaternion: {
+              x: object3d.quaternion.x,
+              y: object3d.quaternion.y,
+              z: object3d.quaternion.z,
+              w: object3d.quaternion.w,
+            },
+            creature: {
+              ...creature,
+              lungeDir: creature.lungeDir && { ...creature.lungeDir },
+            },
+          })),
+      },
+      dropship: dropship
+        ? { activated: dropship.activated, extractionActive: dropship.extractionActive }
+        : null,
+      rover: rover && {
+        position: vec(rover.rigidBody.translation()),
+        quaternion: { ...rover.rigidBody.rotation() },
+        velocity: vec(rover.vehicle.velocity),
+        battery: rover.vehicle.battery,
+        occupied: rover.vehicle.occupied,
+      },
+    };
+  }
+
+  /**
+   * Fixed-tick hook, called by the Engine before the systems run: applies a
+   * queued resume, then writes any autosave requested during the last tick.
+   */
+  public update() {
+    if (!gameState.isPlaying) return;
+
+    if (this.pending && queries.player.first) {
+      const save = this.pending;
+      this.pending = null;
+      this.apply(save);
+    }
+
+    if (this.pendingAutosave) {
+      this.pendingAutosave = false;
+      // Replays drive injected input — never overwrite the player's own run
+      if (inputManager.isInjected) return;
+      if (this.save("auto")) events.emit("log:message", "PROGRESS SAVED", "info");
+    }
+  }
+
+  private apply(save: SaveSnapshot) {
+    const player = queries.player.first!;
+    const pc = player.playerControl;
+
+    // Difficulty first: it sets how many canisters the world holds
+    setDifficulty(save.difficulty ?? DIFFICULTY_PRESETS.standard, false);
+
+    // The ground before anything is set down on it
+    if (save.terrain) restoreTerrain(save.terrain);
+
+    // Player: suit, momentum and look
+    teleportEntity(player, save.player.position);
+    if (save.dayClock !== undefined) setDayClock(save.dayClock);
+    if (save.weather) restoreWeather(save.weather);
+    pc.velocity = { ...save.player.velocity };
+    pc.oxygen = save.player.oxygen;
+    pc.jetpackFuel = save.player.jetpackFuel;
+    if (player.health) player.health.current = save.player.integrity ?? player.health.max;
+    pc.hasCutter = save.player.hasCutter;
+    pc.yaw = save.player.yaw;
+    pc.pitch = save.player.pitch;
+    pc.cameraMode = save.player.cameraMode;
+    resetCharacterSystem();
+    skipIntro();
+
+    // Relays
+    for (const { beacon, object3d } of queries.beacons) {
+      const saved = save.beacons.find((b) => b.index === object3d.userData.index);
+      if (!saved) continue;
+      beacon.collected = saved.collected;
+      beacon.booting = saved.booting;
+      beacon.discovered = !!saved.discovered;
+    }
+    syncBeaconProgress();
+
+    // Pickups: the world spawned them all; drop the ones already taken
+    const remaining = new Set(save.pickups);
+    const scanned = new Set(save.scannedPads ?? []);
+    for (const entity of [...queries.pickups.entities]) {
+      if (entity.name && remaining.has(entity.name)) {
+        entity.pickup.scanned = scanned.has(entity.name);
+        continue;
+      }
+      renderer.scene.remove(entity.object3d);
+      world.remove(entity);
+    }
+    for (const s of save.shards) {
+      // createO2Shard lifts its drop point off the ground; the save already has
+      const shard = createO2Shard(new THREE.Vector3(s.x, s.y, s.z));
+      shard.object3d.position.set(s.x, s.y, s.z);
+    }
+
+    // Storm-spawn
+    clearCreatures();
+    setCreatureSeed(save.creatures.seed);
+    for (const c of save.creatures.alive) restoreCreature(c.position, c.quaternion, c.creature);
+
+    // Dropship
+    const dropship = queries.dropships.first?.dropship;
+    if (dropship && save.dropship) Object.assign(dropship, save.dropship);
+
+    // Rover, with the player back in the seat if they saved while driving
+    const rover = queries.vehicles.first;
+    if (rover && save.rover) {
+      teleportEntity(rover, save.rover.position, save.rover.quaternion);
+      rover.vehicle.velocity = { ...save.rover.velocity };
+      rover.vehicle.battery = save.rover.battery;
+      resetVehicleSystem();
+      if (save.rover.occupied) seatPlayer(player, rover);
+    }
+
+    missionManager.restore(save.mission);
+    restoreMapPins(save.pins ?? []);
+
+    // HUD readouts
+    events.emit("player:oxygen:changed", pc.oxygen, pc.maxOxygen);
+    events.emit("player:fuel:changed", pc.jetpackFuel ?? 0, pc.maxJetpackFuel ?? 0);
+    if (player.health) events.emit("player:health:changed", player.health.current, player.health.max);
+    events.emit("log:message", `RUN RESUMED — ${describeSave(save)}`, "success");
+  }
+
+  // --- Start screen -----------------------------------------------------------
+
+  /**
+   * "Continue" entries under the start prompt, one per slot filled on this
+   * world seed (a save only makes sense on the world it was made in). Picking
+   * one queues it and lets the click bubble on to the start screen, which
+   * starts the run as usual.
+   */
+  private buildContinueList() {
+    const prompt = document.getElementById("start-prompt");
+    if (!prompt) return;
+    this.continueList?.remove();
+    this.continueList = null;
+
+    const saves = SAVE_SLOTS.map((slot) => [slot, this.read(slot)] as const).filter(
+      ([, save]) => save && isSameWorld(save),
+    );
+    if (saves.length === 0) return;
+
+    const list = document.createElement("div");
+    list.className = "continue-list";
+    for (const [slot, save] of saves) {
+      const button = document.createElement("button");
+      button.className = "btn-hud";
+      const name = slot === "auto" ? "AUTOSAVE" : `SLOT ${slot}`;
+      button.textContent = `CONTINUE ${name} — ${describeSave(save!)}`;
+      button.addEventListener("click", () => this.resume(save!));
+      list.appendChild(button);
+    }
+    prompt.after(list);
+    this.continueList = list;
+  }
+}
+
+export const saveManager = new SaveManager();
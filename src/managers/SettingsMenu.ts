@@ -1,6 +1,8 @@
 import { events } from "../utils/EventBus";
+import { gameState } from "../core/GameState";
 import { inputManager } from "./InputManager";
 import { audioManager } from "./AudioManager";
+import { saveManager, describeSave, type SaveSlot } from "./SaveManager";
 import {
   cameraSettings,
   saveCameraSettings,
@@ -8,18 +10,36 @@ import {
   CAMERA_LIMITS,
   type CameraSettingsData,
 } from "../core/CameraSettings";
+import {
+  keyBindings,
+  bindKey,
+  unbindKey,
+  resetKeyBindings,
+  bindingConflicts,
+  isBound,
+  keyLabel,
+  BINDING_LABELS,
+  MENU_ACTIONS,
+  MAX_KEYS_PER_ACTION,
+  RESERVED_CODE,
+  type BindableAction,
+  type MenuAction,
+} from "../core/KeyBindings";
 
 /**
- * In-game camera settings panel, toggled with C (Esc also closes).
+ * In-game settings panel, toggled with C (Esc also closes).
  * Built entirely in code so index.html stays lean; sliders write straight
  * into the shared cameraSettings object, which CameraSystem reads every
- * frame — changes apply live while the panel is open.
+ * frame — changes apply live while the panel is open. The manual save slots
+ * and the key bindings live here too. The game is paused while it is open.
  */
 class SettingsMenu {
   private root: HTMLDivElement;
   private open = false;
   private gameStarted = false;
   private refreshers: Array<() => void> = [];
+  /** Action waiting for its next key or mouse button (the "+" was clicked). */
+  private capturing: BindableAction | null = null;
 
   constructor() {
     this.root = this.buildDom();
@@ -28,12 +48,18 @@ class SettingsMenu {
     events.on("game:start", () => {
       this.gameStarted = true;
     });
+    events.on("bindings:changed", () => this.refreshers.forEach((r) => r()));
 
     window.addEventListener("keydown", (e) => {
       if (!this.gameStarted) return;
-      if (e.code === "KeyC") this.toggle();
-      else if (e.code === "Escape" && this.open) this.close();
+      if (isBound("settings", e.code)) this.toggle();
+      else if (e.code === RESERVED_CODE && this.open) this.close();
     });
+
+    // While rebinding, the next key or button belongs to the panel alone:
+    // capture-phase listeners run before the game's and stop them.
+    window.addEventListener("keydown", this.onCaptureKey, { capture: true });
+    window.addEventListener("mousedown", this.onCaptureMouse, { capture: true });
   }
 
   public toggle() {
@@ -44,14 +70,18 @@ class SettingsMenu {
     this.open = true;
     this.root.style.display = "flex";
     this.refreshers.forEach((r) => r());
+    events.emit("menu:toggle", "settings", true);
     document.exitPointerLock();
     audioManager.playUIClick();
   }
 
   private close() {
+    this.capturing = null;
     this.open = false;
     this.root.style.display = "none";
-    inputManager.lockPointer();
+    events.emit("menu:toggle", "settings", false);
+    // Back to play, unless the pause menu took over again
+    if (!gameState.isPaused) inputManager.lockPointer();
     audioManager.playUIClick();
   }
 
@@ -83,6 +113,14 @@ class SettingsMenu {
       ),
     );
     panel.appendChild(this.checkbox("SCREEN SHAKE", "shake"));
+    panel.appendChild(
+      this.slider("STICK DEAD ZONE", "stickDeadZone", CAMERA_LIMITS.stickDeadZone, (v) =>
+        `${Math.round(v * 100)}%`,
+      ),
+    );
+    panel.appendChild(
+      this.slider("STICK CURVE", "stickCurve", CAMERA_LIMITS.stickCurve, (v) => `^${v.toFixed(1)}`),
+    );
 
     const buttons = document.createElement("div");
     buttons.className = "settings-buttons";
@@ -99,15 +137,172 @@ class SettingsMenu {
 
     const close = document.createElement("button");
     close.className = "btn-hud";
-    close.textContent = "CLOSE  [C]";
     close.addEventListener("click", () => this.close());
+    const refreshClose = () => {
+      const key = keyBindings.settings[0];
+      close.textContent = key ? `CLOSE  [${keyLabel(key)}]` : "CLOSE";
+    };
+    this.refreshers.push(refreshClose);
+    refreshClose();
     buttons.appendChild(close);
 
     panel.appendChild(buttons);
+
+    const saveTitle = document.createElement("h2");
+    saveTitle.className = "settings-subtitle";
+    saveTitle.textContent = "SAVE GAME";
+    panel.appendChild(saveTitle);
+    panel.appendChild(this.saveSlots());
+
+    const controlsTitle = document.createElement("h2");
+    controlsTitle.className = "settings-subtitle";
+    controlsTitle.textContent = "CONTROLS";
+    panel.appendChild(controlsTitle);
+    panel.appendChild(this.controls());
+
     root.appendChild(panel);
     return root;
   }
 
+  // --- Key bindings -----------------------------------------------------------
+
+  /**
+   * One row per action: its keys as chips (click one to unbind it) and a
+   * "+" that waits for the next key or mouse button. Keys bound to two
+   * actions are flagged, with a warning above the list.
+   */
+  private controls(): HTMLDivElement {
+    const section = document.createElement("div");
+    section.className = "bindings";
+
+    const warning = document.createElement("div");
+    warning.className = "bindings-warning";
+    section.appendChild(warning);
+    const refreshWarning = () => {
+      const conflicts = bindingConflicts();
+      warning.style.display = conflicts.length ? "block" : "none";
+      warning.textContent = conflicts
+        .map(({ code, actions }) => `⚠ ${keyLabel(code)}: ${actions.map((a) => BINDING_LABELS[a]).join(" + ")}`)
+        .join("  ");
+    };
+    this.refreshers.push(refreshWarning);
+    refreshWarning();
+
+    for (const action of Object.keys(BINDING_LABELS) as BindableAction[]) {
+      const row = document.createElement("div");
+      row.className = "binding-row";
+
+      const name = document.createElement("label");
+      name.textContent = BINDING_LABELS[action];
+      row.appendChild(name);
+
+      const keys = document.createElement("div");
+      keys.className = "binding-keys";
+      row.appendChild(keys);
+
+      const refresh = () => {
+        const conflicted = new Set(bindingConflicts().map((c) => c.code));
+        const chips: HTMLElement[] = keyBindings[action].map((code) => {
+          const chip = document.createElement("button");
+          chip.className = conflicted.has(code) ? "binding-key conflict" : "binding-key";
+          chip.textContent = keyLabel(code);
+          chip.title = "Click to unbind";
+          chip.addEventListener("click", () => {
+            unbindKey(action, code);
+            audioManager.playUIClick();
+          });
+          return chip;
+        });
+
+        if (this.capturing === action) {
+          const waiting = document.createElement("span");
+          waiting.className = "binding-capture";
+          waiting.textContent = "PRESS A KEY…  [ESC]";
+          chips.push(waiting);
+        } else if (keyBindings[action].length < MAX_KEYS_PER_ACTION) {
+          const add = document.createElement("button");
+          add.className = "binding-key binding-add";
+          add.textContent = "+";
+          add.addEventListener("click", () => {
+            this.capturing = action;
+            this.refreshers.forEach((r) => r());
+            audioManager.playUIClick();
+          });
+          chips.push(add);
+        }
+        keys.replaceChildren(...chips);
+      };
+      this.refreshers.push(refresh);
+      refresh();
+      section.appendChild(row);
+    }
+
+    const buttons = document.createElement("div");
+    buttons.className = "settings-buttons";
+    const reset = document.createElement("button");
+    reset.className = "btn-hud";
+    reset.textContent = "RESET CONTROLS";
+    reset.addEventListener("click", () => {
+      this.capturing = null;
+      resetKeyBindings();
+      audioManager.playUIClick();
+    });
+    buttons.appendChild(reset);
+    section.appendChild(buttons);
+    return section;
+  }
+
+  private onCaptureKey = (e: KeyboardEvent) => {
+    const action = this.capturing;
+    if (!action) return;
+    e.preventDefault();
+    e.stopImmediatePropagation();
+    this.capturing = null;
+    if (e.code !== RESERVED_CODE) bindKey(action, e.code);
+    this.refreshers.forEach((r) => r());
+    audioManager.playUIClick();
+  };
+
+  private onCaptureMouse = (e: MouseEvent) => {
+    const action = this.capturing;
+    // Menu keys are read from keyboard events only
+    if (!action || (MENU_ACTIONS as readonly string[]).includes(action as MenuAction)) return;
+    e.preventDefault();
+    e.stopImmediatePropagation();
+    // Swallow the click that follows, so it doesn't press whatever is under the cursor
+    window.addEventListener("click", (c) => c.stopImmediatePropagation(), { capture: true, once: true });
+    this.capturing = null;
+    bindKey(action, `Mouse${e.button}`);
+    this.refreshers.forEach((r) => r());
+  };
+
+  /** One button per manual slot, labelled with what it currently holds. */
+  private saveSlots(): HTMLDivElement {
+    const row = document.createElement("div");
+    row.className = "settings-buttons";
+
+    for (const slot of ["1", "2", "3"] as SaveSlot[]) {
+      const button = document.createElement("button");
+      button.className = "btn-hud";
+
+      const refresh = () => {
+        const save = saveManager.read(slot);
+        button.textContent = save ? `SLOT ${slot}: ${describeSave(save)}` : `SLOT ${slot}: EMPTY`;
+      };
+      this.refreshers.push(refresh);
+      refresh();
+
+      button.addEventListener("click", () => {
+        if (!saveManager.save(slot)) return;
+        refresh();
+        events.emit("log:message", `PROGRESS SAVED TO SLOT ${slot}`, "info");
+        audioManager.playUIClick();
+      });
+      row.appendChild(button);
+    }
+    return row;
+  }
+
   private slider(
     label: string,
     key: { [K in keyof CameraSettingsData]: CameraSettingsData[K] extends number ? K : never }[keyof CameraSettingsData],
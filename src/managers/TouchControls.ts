@@ -0,0 +1,223 @@
+import { HEADLESS } from "../core/Headless";
+import { events } from "../utils/EventBus";
+import { inputManager, type InputAction } from "./InputManager";
+import { pauseMenu } from "./PauseMenu";
+import { orbitalMap } from "./OrbitalMap";
+
+/**
+ * On-screen controls for tablets and phones, layered into the HUD.
+ *
+ *   left side  — floating move stick: it centers wherever the thumb lands
+ *   everywhere — drag to look (feeds mouseDelta, so sensitivity, smoothing
+ *                and invert-Y apply as for a mouse)
+ *   right side — buttons: fire, jump/jetpack, sprint, sonar, rover, camera,
+ *                helmet lamp, cutter mode
+ *   top center — orbital map and the pause menu
+ *
+ * Everything goes through InputManager, so replays record touch play like
+ * any other input. The layer switches on with the first touch (or a coarse
+ * pointer at load) and stays on; CSS rearranges it for portrait.
+ */
+
+/** Stick travel in CSS pixels for full deflection. */
+const STICK_RADIUS = 56;
+const STICK_DEAD_ZONE = 0.12;
+/** Touch drags are shorter than mouse sweeps for the same turn. */
+const LOOK_SCALE = 1.6;
+
+const BUTTONS: { action: InputAction; label: string; className: string }[] = [
+  { action: "fire", label: "FIRE", className: "touch-fire" },
+  { action: "jump", label: "JUMP", className: "touch-jump" },
+  { action: "sprint", label: "SPRINT", className: "touch-sprint" },
+  { action: "scanner", label: "SONAR", className: "touch-scanner" },
+  { action: "action", label: "ROVER", className: "touch-action" },
+  { action: "camera_mode", label: "CAM", className: "touch-camera" },
+  { action: "lamp", label: "LAMP", className: "touch-lamp" },
+  { action: "cutter_mode", label: "MINE", className: "touch-mine" },
+];
+
+class TouchControls {
+  private root: HTMLDivElement | null = null;
+  private stickBase: HTMLDivElement | null = null;
+  private stickKnob: HTMLDivElement | null = null;
+  // One finger per control, by pointerId
+  private stickPointer: number | null = null;
+  private stickOrigin = { x: 0, y: 0 };
+  private lookPointer: number | null = null;
+  private lookLast = { x: 0, y: 0 };
+
+  constructor() {
+    if (HEADLESS) return;
+    if (window.matchMedia?.("(pointer: coarse)").matches) this.activate();
+    window.addEventListener(
+      "pointerdown",
+      (e) => {
+        if (e.pointerType === "touch") this.activate();
+      },
+      { capture: true },
+    );
+
+    events.on("game:restart", () => this.releaseAll());
+    window.addEventListener("blur", () => this.releaseAll());
+  }
+
+  private activate() {
+    if (this.root) return;
+    inputManager.touchActive = true;
+    document.body.classList.add("touch");
+    this.root = this.buildDom();
+    (document.getElementById("hud") ?? document.body).appendChild(this.root);
+  }
+
+  private releaseAll() {
+    this.stickPointer = null;
+    this.lookPointer = null;
+    this.resetStick();
+    inputManager.releaseTouch();
+    this.root?.querySelectorAll(".touch-btn.held").forEach((b) => b.classList.remove("held"));
+  }
+
+  // --- Move stick -------------------------------------------------------------
+
+  private onStickDown = (e: PointerEvent) => {
+    if (this.stickPointer !== null || !this.stickBase) return;
+    this.stickPointer = e.pointerId;
+    (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+    this.stickOrigin = { x: e.clientX, y: e.clientY };
+    this.stickBase.classList.add("active");
+    this.stickBase.style.left = `${e.clientX}px`;
+    this.stickBase.style.top = `${e.clientY}px`;
+  };
+
+  private onStickMove = (e: PointerEvent) => {
+    if (e.pointerId !== this.stickPointer || !this.stickKnob) return;
+    let dx = e.clientX - this.stickOrigin.x;
+    let dy = e.clientY - this.stickOrigin.y;
+    const dist = Math.hypot(dx, dy);
+    if (dist > STICK_RADIUS) {
+      dx *= STICK_RADIUS / dist;
+      dy *= STICK_RADIUS / dist;
+    }
+    this.stickKnob.style.transform = `translate(${dx}px, ${dy}px)`;
+
+    // Rescale past the dead zone so a light push still walks slowly
+    const mag = Math.min(1, dist / STICK_RADIUS);
+    if (mag <= STICK_DEAD_ZONE) {
+      inputManager.setTouchMove(null);
+      return;
+    }
+    const scale = (mag - STICK_DEAD_ZONE) / (1 - STICK_DEAD_ZONE) / (Math.hypot(dx, dy) || 1);
+    inputManager.setTouchMove({ x: dx * scale, z: dy * scale });
+  };
+
+  private onStickUp = (e: PointerEvent) => {
+    if (e.pointerId !== this.stickPointer) return;
+    this.stickPointer = null;
+    this.resetStick();
+    inputManager.setTouchMove(null);
+  };
+
+  private resetStick() {
+    if (!this.stickBase || !this.stickKnob) return;
+    this.stickBase.classList.remove("active");
+    this.stickBase.style.left = "";
+    this.stickBase.style.top = "";
+    this.stickKnob.style.transform = "";
+  }
+
+  // --- Look region ------------------------------------------------------------
+
+  private onLookDown = (e: PointerEvent) => {
+    if (this.lookPointer !== null) return;
+    this.lookPointer = e.pointerId;
+    (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+    this.lookLast = { x: e.clientX, y: e.clientY };
+  };
+
+  private onLookMove = (e: PointerEvent) => {
+    if (e.pointerId !== this.lookPointer) return;
+    inputManager.addTouchLook(
+      (e.clientX - this.lookLast.x) * LOOK_SCALE,
+      (e.clientY - this.lookLast.y) * LOOK_SCALE,
+    );
+    this.lookLast = { x: e.clientX, y: e.clientY };
+  };
+
+  private onLookUp = (e: PointerEvent) => {
+    if (e.pointerId === this.lookPointer) this.lookPointer = null;
+  };
+
+  // --- DOM construction -------------------------------------------------------
+
+  private buildDom(): HTMLDivElement {
+    const root = document.createElement("div");
+    root.id = "touch-controls";
+    // Long-presses would otherwise open the text-selection / context menu
+    root.addEventListener("contextmenu", (e) => e.preventDefault());
+
+    const look = document.createElement("div");
+    look.className = "touch-look";
+    look.addEventListener("pointerdown", this.onLookDown);
+    look.addEventListener("pointermove", this.onLookMove);
+    look.addEventListener("pointerup", this.onLookUp);
+    look.addEventListener("pointercancel", this.onLookUp);
+    root.appendChild(look);
+
+    const stickZone = document.createElement("div");
+    stickZone.className = "touch-stick-zone";
+    this.stickBase = document.createElement("div");
+    this.stickBase.className = "touch-stick";
+    this.stickKnob = document.createElement("div");
+    this.stickKnob.className = "touch-stick-knob";
+    this.stickBase.appendChild(this.stickKnob);
+    stickZone.appendChild(this.stickBase);
+    stickZone.addEventListener("pointerdown", this.onStickDown);
+    stickZone.addEventListener("pointermove", this.onStickMove);
+    stickZone.addEventListener("pointerup", this.onStickUp);
+    stickZone.addEventListener("pointercancel", this.onStickUp);
+    root.appendChild(stickZone);
+
+    const buttons = document.createElement("div");
+    buttons.className = "touch-buttons";
+    for (const { action, label, className } of BUTTONS) {
+      buttons.appendChild(this.actionButton(action, label, className));
+    }
+    root.appendChild(buttons);
+
+    const menus = document.createElement("div");
+    menus.className = "touch-menus";
+    menus.appendChild(this.menuButton("MAP", () => orbitalMap.toggle()));
+    menus.appendChild(this.menuButton("MENU", () => pauseMenu.open()));
+    root.appendChild(menus);
+
+    return root;
+  }
+
+  private actionButton(action: InputAction, label: string, className: string): HTMLDivElement {
+    const btn = document.createElement("div");
+    btn.className = `touch-btn ${className}`;
+    btn.textContent = label;
+    const release = () => {
+      btn.classList.remove("held");
+      inputManager.setTouchAction(action, false);
+    };
+    btn.addEventListener("pointerdown", (e) => {
+      btn.setPointerCapture(e.pointerId);
+      btn.classList.add("held");
+      inputManager.setTouchAction(action, true);
+    });
+    btn.addEventListener("pointerup", release);
+    btn.addEventListener("pointercancel", release);
+    return btn;
+  }
+
+  private menuButton(label: string, onTap: () => void): HTMLButtonElement {
+    const btn = document.createElement("button");
+    btn.className = "touch-menu-btn";
+    btn.textContent = label;
+    btn.addEventListener("click", onTap);
+    return btn;
+  }
+}
+
+export const touchControls = new TouchControls();
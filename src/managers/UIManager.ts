@@ -2,6 +2,25 @@ import { events } from "../utils/EventBus";
 import { inputManager } from "./InputManager";
 import { audioManager } from "./AudioManager";
 import { renderer } from "../core/Renderer";
+import { getWorldSeed, parseWorldSeed } from "../core/WorldSeed";
+import { keyBindings, keyLabel, type BindableAction } from "../core/KeyBindings";
+import {
+  difficulty,
+  setDifficulty,
+  readHardcoreRecord,
+  DIFFICULTY_LABELS,
+  DIFFICULTY_LIMITS,
+  DIFFICULTY_PRESETS,
+  type DifficultyData,
+  type DifficultyPreset,
+} from "../core/Difficulty";
+
+const DIFFICULTY_NOTES: Record<DifficultyPreset, string> = {
+  story: "GENEROUS AIR · STORM-SPAWN CAN'T DRAIN YOUR SUIT · A SLOWER STORM",
+  standard: "THE MISSION AS BALANCED",
+  hardcore: "THIN AIR · FASTER, BIGGER SWARMS · DEATH ERASES YOUR SAVES",
+  custom: "YOUR OWN BALANCE",
+};
 
 export class UIManager {
   private startScreen = document.getElementById("start-screen") as HTMLElement;
@@ -20,6 +39,15 @@ export class UIManager {
   private signalText = document.getElementById("signal-text") as HTMLElement;
   private fuelBar = document.getElementById("fuel-bar") as HTMLElement;
   private fuelText = document.getElementById("fuel-text") as HTMLElement;
+  private integrityBar = document.getElementById("integrity-bar") as HTMLElement;
+  private integrityText = document.getElementById("integrity-text") as HTMLElement;
+  private roverRow = document.getElementById("rover-row") as HTMLElement;
+  private batteryBar = document.getElementById("battery-bar") as HTMLElement;
+  private batteryText = document.getElementById("battery-text") as HTMLElement;
+  private bossBar = document.getElementById("boss-bar") as HTMLElement;
+  private bossHealth = document.getElementById("boss-health") as HTMLElement;
+  private bossPhase = document.getElementById("boss-phase") as HTMLElement;
+  private armorHinted = false;
   private modeIndicator = document.getElementById("mode-indicator") as HTMLElement;
   private missionLog = document.getElementById("mission-log") as HTMLElement;
   private sprintIndicator = document.getElementById("sprint-indicator") as HTMLElement;
@@ -28,6 +56,8 @@ export class UIManager {
 
   private gameStarted = false;
   private isGameOver = false;
+  // The log's opening lines, restored when a run restarts
+  private initialLog = this.missionLog?.innerHTML ?? "";
 
   // Loading text rotation
   private loadingMessages = [
@@ -44,6 +74,44 @@ export class UIManager {
     this.initListeners();
     this.initStartScreen();
     this.startLoadingTextRotation();
+    this.renderControlsHint();
+    events.on("bindings:changed", () => this.renderControlsHint());
+  }
+
+  /** The bottom-right key legend, from the live key bindings. */
+  private renderControlsHint() {
+    const hint = document.getElementById("controls-hint");
+    if (!hint) return;
+    const first = (action: BindableAction) => {
+      const code = keyBindings[action][0];
+      return code ? keyLabel(code) : "—";
+    };
+    // Four single-letter movement keys read as one word ("WASD")
+    const move = (["move_forward", "move_left", "move_backward", "move_right"] as const).map(first);
+    const rows: [string, string][] = [
+      [move.every((k) => k.length === 1) ? move.join("") : move.join(" "), "MOVE"],
+      [first("sprint"), "SPRINT"],
+      [first("jump"), "JUMP / JETPACK"],
+      [first("fire"), "ARC CUTTER"],
+      [first("cutter_mode"), "CUTTER: COMBAT / MINING"],
+      [first("action"), "ROVER"],
+      [first("camera_mode"), "CAMERA"],
+      [first("lamp"), "HELMET LAMP"],
+      [first("orbital_map"), "ORBITAL MAP"],
+      [first("settings"), "SETTINGS"],
+      ["SCROLL", "ZOOM"],
+    ];
+    hint.replaceChildren(
+      ...rows.map(([key, label]) => {
+        const row = document.createElement("div");
+        row.className = "key-row";
+        const keyEl = document.createElement("span");
+        keyEl.className = "key";
+        keyEl.textContent = key;
+        row.append(keyEl, ` ${label}`);
+        return row;
+      }),
+    );
   }
 
   private assetsLoaded = false;
@@ -90,6 +158,165 @@ export class UIManager {
         startGame();
       }
     });
+
+    this.buildSeedField();
+    this.buildDifficultyPicker();
+  }
+
+  /**
+   * World seed field on the start screen. The world is generated once per
+   * page load, so a new seed reloads the page on `?seed=` (blank: default).
+   */
+  private buildSeedField() {
+    const content = this.startScreen?.querySelector(".start-content");
+    if (!content) return;
+
+    const field = document.createElement("div");
+    field.className = "seed-field";
+    field.innerHTML = `
+      <label for="seed-input">WORLD SEED</label>
+      <input id="seed-input" type="text" spellcheck="false" autocomplete="off" />
+      <button class="btn-hud" type="button">GENERATE</button>
+    `;
+    const input = field.querySelector("input")!;
+    input.value = String(getWorldSeed());
+
+    const generate = () => {
+      const url = new URL(window.location.href);
+      const seed = parseWorldSeed(input.value);
+      if (seed === null) url.searchParams.delete("seed");
+      else url.searchParams.set("seed", String(seed));
+      window.location.assign(url);
+    };
+
+    // Typing and clicking here must not start the run
+    field.addEventListener("click", (e) => e.stopPropagation());
+    input.addEventListener("keydown", (e) => {
+      e.stopPropagation();
+      if (e.key === "Enter") generate();
+    });
+    field.querySelector("button")!.addEventListener("click", generate);
+
+    content.appendChild(field);
+  }
+
+  /**
+   * Difficulty picker on the start screen: the presets, and sliders for each
+   * multiplier under CUSTOM. The choice persists (core/Difficulty).
+   */
+  private buildDifficultyPicker() {
+    const content = this.startScreen?.querySelector(".start-content");
+    if (!content) return;
+
+    const field = document.createElement("div");
+    field.className = "difficulty-field";
+    // Picking a difficulty must not start the run
+    field.addEventListener("click", (e) => e.stopPropagation());
+
+    const presets = document.createElement("div");
+    presets.className = "difficulty-presets";
+    const label = document.createElement("label");
+    label.textContent = "DIFFICULTY";
+    presets.appendChild(label);
+    const buttons = new Map<DifficultyPreset, HTMLButtonElement>();
+    for (const preset of ["story", "standard", "hardcore", "custom"] as const) {
+      const button = document.createElement("button");
+      button.className = "btn-hud";
+      button.type = "button";
+      button.textContent = DIFFICULTY_LABELS[preset];
+      button.addEventListener("click", () => {
+        const data = preset === "custom" ? difficulty : DIFFICULTY_PRESETS[preset];
+        setDifficulty({ ...data, preset });
+        audioManager.playUIClick();
+      });
+      buttons.set(preset, button);
+      presets.appendChild(button);
+    }
+    field.appendChild(presets);
+
+    const note = document.createElement("p");
+    note.className = "difficulty-note";
+    field.appendChild(note);
+
+    const custom = document.createElement("div");
+    custom.className = "difficulty-custom";
+    const percent = (v: number) => `${Math.round(v * 100)}%`;
+    const refreshers = [
+      this.difficultySlider(custom, "O₂ DRAIN", "oxygenDrain", percent),
+      this.difficultySlider(custom, "STORM-SPAWN DRAIN", "creatureDrain", percent),
+      this.difficultySlider(custom, "STORM-SPAWN SPEED", "creatureSpeed", percent),
+      this.difficultySlider(custom, "WAVE SIZE", "waveSize", percent),
+      this.difficultySlider(custom, "STORM TIMER", "stormTime", percent),
+      this.difficultySlider(custom, "O₂ CANISTERS", "pickups", percent),
+    ];
+    const permadeathRow = document.createElement("div");
+    permadeathRow.className = "settings-row";
+    const permadeathLabel = document.createElement("label");
+    permadeathLabel.textContent = "PERMADEATH";
+    const permadeath = document.createElement("input");
+    permadeath.type = "checkbox";
+    permadeath.addEventListener("change", () => {
+      setDifficulty({ ...difficulty, preset: "custom", permadeath: permadeath.checked });
+    });
+    permadeathRow.append(permadeathLabel, permadeath);
+    custom.appendChild(permadeathRow);
+    field.appendChild(custom);
+
+    const refresh = () => {
+      for (const [preset, button] of buttons) {
+        button.classList.toggle("active", preset === difficulty.preset);
+      }
+      let text = DIFFICULTY_NOTES[difficulty.preset];
+      if (difficulty.permadeath) {
+        const record = readHardcoreRecord();
+        if (record.runs > 0) text += ` — RECORD ${record.extractions}/${record.runs} EXTRACTED`;
+      }
+      note.textContent = text;
+      custom.style.display = difficulty.preset === "custom" ? "" : "none";
+      permadeath.checked = difficulty.permadeath;
+      refreshers.forEach((r) => r());
+    };
+    events.on("difficulty:changed", refresh);
+    refresh();
+
+    content.appendChild(field);
+  }
+
+  /** One CUSTOM multiplier slider; returns its refresher. */
+  private difficultySlider(
+    parent: HTMLElement,
+    label: string,
+    key: keyof typeof DIFFICULTY_LIMITS,
+    format: (v: number) => string,
+  ): () => void {
+    const limits = DIFFICULTY_LIMITS[key];
+    const row = document.createElement("div");
+    row.className = "settings-row";
+
+    const name = document.createElement("label");
+    name.textContent = label;
+
+    const input = document.createElement("input");
+    input.type = "range";
+    input.min = String(limits.min);
+    input.max = String(limits.max);
+    input.step = String(limits.step);
+
+    const value = document.createElement("span");
+    value.className = "settings-value";
+
+    input.addEventListener("input", () => {
+      const next: DifficultyData = { ...difficulty, preset: "custom" };
+      next[key] = parseFloat(input.value);
+      setDifficulty(next);
+    });
+
+    row.append(name, input, value);
+    parent.appendChild(row);
+    return () => {
+      input.value = String(difficulty[key]);
+      value.textContent = format(difficulty[key]);
+    };
   }
 
   private playInitialLogs() {
@@ -176,6 +403,63 @@ export class UIManager {
       }
     });
 
+    // 2c. Suit integrity: amber once it leaks, red when critical
+    events.on("player:health:changed", (current: number, max: number) => {
+      if (this.integrityBar) {
+        const percent = Math.max(0, (current / max) * 100);
+        this.integrityBar.style.width = `${percent}%`;
+        this.integrityBar.classList.toggle("breached", percent < 60 && percent >= 25);
+        this.integrityBar.classList.toggle("critical", percent < 25);
+        if (this.integrityText) {
+          this.integrityText.textContent = `${Math.round(percent)}%`;
+        }
+      }
+    });
+
+    // 2d. Rover: the battery row shows only while driving
+    events.on("vehicle:enter", () => {
+      if (this.roverRow) this.roverRow.style.display = "";
+    });
+    events.on("vehicle:exit", () => {
+      if (this.roverRow) this.roverRow.style.display = "none";
+    });
+    events.on("vehicle:battery:changed", (current: number, max: number) => {
+      if (this.batteryBar) {
+        const percent = Math.max(0, (current / max) * 100);
+        this.batteryBar.style.width = `${percent}%`;
+        this.batteryBar.classList.toggle("low", percent < 20);
+        if (this.batteryText) {
+          this.batteryText.textContent = `${Math.round(percent)}%`;
+        }
+      }
+    });
+
+    // 2e. Boss: the bar shows from the boss's first health report until it
+    // dies (or the run ends); a glancing shot earns one hint per fight
+    events.on("boss:health:changed", (current: number, max: number, stage: number) => {
+      if (!this.bossBar) return;
+      if (this.bossBar.style.display === "none") {
+        this.bossBar.style.display = "";
+        this.armorHinted = false;
+      }
+      this.bossHealth.style.width = `${Math.max(0, (current / max) * 100)}%`;
+      this.bossPhase.textContent = `PHASE ${"I".repeat(stage)}`;
+      this.bossBar.classList.toggle("enraged", stage >= 3);
+    });
+    events.on("creature:deflected", () => {
+      if (this.armorHinted) return;
+      this.armorHinted = true;
+      this.addLogMessage("ARMOR DEFLECTS THE CUTTER — AIM FOR THE GLOWING CRYSTALS", "warn");
+    });
+    const hideBoss = () => {
+      if (!this.bossBar) return;
+      this.bossBar.style.display = "none";
+      this.bossBar.classList.remove("enraged");
+    };
+    events.on("boss:defeated", hideBoss);
+    events.on("game:over", hideBoss);
+    events.on("game:restart", hideBoss);
+
     // 3. Signal strength
     events.on("signal:strength:changed", (strength: number) => {
       if (this.signalBar) {
@@ -209,18 +493,19 @@ export class UIManager {
           if (this.gameOverReason) {
             this.gameOverReason.textContent = reason;
           }
+          this.showPermadeathRecord();
         }
 
-        // Click to reload
-        this.gameOverScreen?.addEventListener("click", () => {
-          window.location.reload();
-        });
-
         // Release pointer
         document.exitPointerLock();
       }, 1500);
     });
 
+    // Click to retry — restarts in place, no page reload
+    this.gameOverScreen?.addEventListener("click", () => {
+      if (this.isGameOver) this.restart();
+    });
+
     // 7. Mission complete — hold long enough to watch the dropship lift off,
     // then fade the debrief in over it.
     events.on("mission:complete", () => {
@@ -236,14 +521,10 @@ export class UIManager {
       }, 6500);
     });
 
-    // 8. Pointer Lock UI
-    document.addEventListener("pointerlockchange", () => {
-      if (inputManager.pointerLocked) {
-        this.hud?.classList.remove("paused");
-      } else if (this.gameStarted) {
-        this.hud?.classList.add("paused");
-      }
-    });
+    // 8. Paused (pause menu, settings, orbital map): dim the HUD
+    events.on("game:pause", () => this.hud?.classList.add("paused"));
+    events.on("game:resume", () => this.hud?.classList.remove("paused"));
+    events.on("game:restart", () => this.hud?.classList.remove("paused"));
 
     // 9. Sprint indicator
     let sprintActive = false;
@@ -287,6 +568,56 @@ export class UIManager {
     }
   }
 
+  /**
+   * Retry after a game over without reloading: every system resets on
+   * game:restart, then game:start replays the intro descent.
+   */
+  /** New run in place (game over screen, pause menu): no page reload. */
+  public restart() {
+    this.resetRun();
+    events.emit("game:start");
+
+    this.playInitialLogs();
+    inputManager.lockPointer();
+  }
+
+  /** Abandon the run and show the start screen again (pause menu). */
+  public quitToTitle() {
+    this.resetRun();
+    this.gameStarted = false;
+    if (this.hud) this.hud.style.opacity = "0";
+    if (this.startScreen) {
+      this.startScreen.style.display = "";
+      this.startScreen.style.opacity = "1";
+    }
+  }
+
+  private resetRun() {
+    this.isGameOver = false;
+    this.gameOverScreen.style.display = "none";
+    if (this.missionLog) this.missionLog.innerHTML = this.initialLog;
+    if (this.roverRow) this.roverRow.style.display = "none";
+
+    events.emit("game:restart");
+  }
+
+  /** Under the game over reason on permadeath runs: saves gone, the record. */
+  private showPermadeathRecord() {
+    let line = document.getElementById("game-over-record");
+    if (!difficulty.permadeath) {
+      line?.remove();
+      return;
+    }
+    if (!line) {
+      line = document.createElement("p");
+      line.id = "game-over-record";
+      line.className = "overlay-record";
+      this.gameOverReason?.after(line);
+    }
+    const record = readHardcoreRecord();
+    line.textContent = `PERMADEATH — SAVES ERASED · ${record.extractions}/${record.runs} RUNS EXTRACTED`;
+  }
+
   private addLogMessage(text: string, type: string) {
     if (!this.missionLog) return;
 
@@ -1,5 +1,7 @@
 varying vec3 vWorldPosition;
 uniform float uTime;
+uniform vec3 uSunDir;   // toward the sun (DayNightSystem)
+uniform float uDaylight; // 0 at night .. 1 in full day, where the player stands
 
 float hash(vec3 p) {
     p = fract(p * 0.3183099 + 0.1);
@@ -41,14 +43,16 @@ void main() {
     vec3 color = vec3(0.008, 0.004, 0.015);
 
     // --- Multi-layered star system with time-based twinkling ---
-    
+    // Washed out (never gone) by day
+    float starFade = 1.0 - 0.85 * uDaylight;
+
     // Large bright warm stars
     float star1 = hash(floor(dir * 250.0));
     if (star1 > 0.9994) {
         float twinkle = 0.5 + 0.5 * sin(uTime * 2.5 + star1 * 100.0);
         float intensity = pow(hash(dir * 123.0), 8.0) * 8.0 * twinkle;
         vec3 starColor = mix(vec3(1.0, 0.9, 0.8), vec3(0.8, 0.9, 1.0), hash(dir * 77.0));
-        color += vec3(intensity) * starColor;
+        color += vec3(intensity) * starColor * starFade;
     }
 
     // Medium blue-white stars
@@ -56,20 +60,20 @@ void main() {
     if (star2 > 0.9996) {
         float twinkle = 0.4 + 0.6 * sin(uTime * 3.8 + star2 * 200.0);
         float intensity = pow(hash(dir * 456.0), 12.0) * 4.0 * twinkle;
-        color += vec3(intensity) * vec3(0.85, 0.92, 1.0);
+        color += vec3(intensity) * vec3(0.85, 0.92, 1.0) * starFade;
     }
 
     // Dense tiny background stars
     float star3 = hash(floor(dir * 1200.0));
     if (star3 > 0.9997) {
         float twinkle = 0.6 + 0.4 * sin(uTime * 1.5 + star3 * 300.0);
-        color += vec3(0.6, 0.65, 0.7) * (0.4 + 0.6 * twinkle);
+        color += vec3(0.6, 0.65, 0.7) * (0.4 + 0.6 * twinkle) * starFade;
     }
 
     // Ultra-faint star dust
     float star4 = hash(floor(dir * 2400.0));
     if (star4 > 0.9998) {
-        color += vec3(0.25, 0.28, 0.3);
+        color += vec3(0.25, 0.28, 0.3) * starFade;
     }
 
     // --- Nebula bands with slow time-based shifting ---
@@ -172,5 +176,17 @@ void main() {
     vec3 horizonColor = vec3(0.08, 0.03, 0.15); // Deep purple space haze
     color += horizonColor * horizonFactor * 0.5;
 
+    // --- Daylight: dusty mauve wash, warmer toward the sun ---
+    float sunDot = dot(dir, normalize(uSunDir));
+    vec3 dayColor = mix(vec3(0.22, 0.12, 0.24), vec3(0.42, 0.24, 0.2), pow(max(sunDot, 0.0), 3.0));
+    color = mix(color, color * 0.4 + dayColor, uDaylight * 0.75);
+
+    // --- The sun: hard disc, soft corona, and a wide glow that lingers ---
+    // through dusk (the disc itself is drawn whenever it's in view)
+    float disc = smoothstep(0.9994, 0.9997, sunDot);
+    float corona = pow(max(sunDot, 0.0), 400.0) * 0.8;
+    float glow = pow(max(sunDot, 0.0), 12.0) * (0.15 + 0.25 * uDaylight);
+    color += vec3(1.0, 0.86, 0.66) * (disc * 3.0 + corona) + vec3(0.5, 0.25, 0.12) * glow;
+
     gl_FragColor = vec4(color, 1.0);
 }
@@ -1,4 +1,7 @@
 import EventEmitter from "eventemitter3";
+import type { Vector3 } from "three";
+import type { Biome } from "../ecs/factories/Terrain";
+import type { StampKind } from "../ecs/factories/PlanetTerrain";
 
 // Define the events that can be emitted across the game
 export interface GameEvents {
@@ -8,7 +11,7 @@ export interface GameEvents {
   // Gameplay Events
   "player:jump": () => void;
   "player:land": (impactSpeed: number) => void;
-  "player:footstep": () => void;
+  "player:footstep": (ground: Biome) => void;
   "pickup:collected": (amount: number) => void;
   "player:health:changed": (current: number, max: number) => void;
   "player:oxygen:changed": (current: number, max: number) => void;
@@ -17,6 +20,11 @@ export interface GameEvents {
   "player:sprint:stop": () => void;
   "entity:destroyed": (entityId: number) => void;
 
+  // Rover
+  "vehicle:enter": () => void;
+  "vehicle:exit": () => void;
+  "vehicle:battery:changed": (current: number, max: number) => void;
+
   // Beacon Events
   "beacon:collected": (index: number, total: number) => void;
   "signal:strength:changed": (strength: number) => void;
@@ -25,16 +33,37 @@ export interface GameEvents {
   "mission:complete": () => void;
   "mission:failed": (reason: string) => void;
   "datapad:collected": (loreIndex: number) => void;
+  "mission:objective:complete": (act: number, objective: number) => void;
+  "dropship:boarded": () => void;
   "creature:killed": () => void;
+  "creature:lunge:hit": () => void;
+  /** A spat glob reached the suit. */
+  "creature:spit:hit": () => void;
+  /** The cutter glanced off armor: the body was hit, not a weak point. */
+  "creature:deflected": () => void;
+  /** A boss's health and fight phase (HUD bar); shown from its first report. */
+  "boss:health:changed": (current: number, max: number, stage: number) => void;
+  /** A boss entered a new phase (2, 3, …) at `position`: its adds come now. */
+  "boss:stage": (stage: number, position: Vector3) => void;
+  /** A boss died at `position`. */
+  "boss:defeated": (position: Vector3) => void;
+  /** The ground was dented at `position`: a blast crater or a cutter scoop. */
+  "terrain:deformed": (position: Vector3, kind: StampKind) => void;
 
   // Game State
   "game:start": () => void;
   "game:started": () => void;
   "game:over": (reason: string) => void;
   "game:restart": () => void;
+  "game:pause": () => void;
+  "game:resume": () => void;
+  "difficulty:changed": () => void;
 
   // UI
   "log:message": (text: string, type: "info" | "warn" | "success" | "danger") => void;
+  "bindings:changed": () => void;
+  /** An overlay menu ("settings", "map") opened or closed. */
+  "menu:toggle": (menu: string, open: boolean) => void;
 }
 
 class EventBus extends EventEmitter<GameEvents> {}
@@ -1,4 +1,5 @@
 import * as THREE from "three";
+import { HEADLESS } from "../core/Headless";
 
 /**
  * Procedural canvas textures — every surface detail in the game is generated
@@ -35,6 +36,12 @@ function toTextures(canvas: HTMLCanvasElement, bumpFrom?: HTMLCanvasElement) {
   return { map, bump };
 }
 
+// Headless runs have no canvas: materials get blank textures that are never
+// uploaded (nothing is drawn), so factories build unchanged.
+function blankTextures() {
+  return { map: new THREE.Texture(), bump: new THREE.Texture() };
+}
+
 /** Grease, dust streaks, and micro-scratches over any base. */
 function weather(
   ctx: CanvasRenderingContext2D,
@@ -60,6 +67,7 @@ function weather(
 
 /** Ship hull: paneling, rivets, worn edges. */
 export function hullTexture(base = "#8995a8") {
+  if (HEADLESS) return blankTextures();
   const size = 256;
   const [canvas, ctx] = makeCanvas(size);
   const rand = mulberry32(101);
@@ -109,6 +117,7 @@ export function hullTexture(base = "#8995a8") {
 
 /** Landing pad deck: concentric plates, radial seams, hazard ring. */
 export function deckTexture() {
+  if (HEADLESS) return blankTextures();
   const size = 512;
   const [canvas, ctx] = makeCanvas(size);
   const rand = mulberry32(202);
@@ -169,6 +178,7 @@ export function deckTexture() {
 
 /** EVA suit fabric: woven micro-pattern with faint seams. */
 export function suitTexture() {
+  if (HEADLESS) return blankTextures();
   const size = 128;
   const [canvas, ctx] = makeCanvas(size);
   const rand = mulberry32(303);
@@ -202,6 +212,7 @@ export function suitTexture() {
 
 /** Supply crate: brushed metal, stencil, hazard stripe. */
 export function crateTexture() {
+  if (HEADLESS) return blankTextures();
   const size = 256;
   const [canvas, ctx] = makeCanvas(size);
   const rand = mulberry32(404);
@@ -12,8 +12,9 @@ export class Time {
 
   public update(): void {
     const now = performance.now();
-    // Convert MS to Seconds
-    let delta = (now - this.current) / 1000;
+    // Convert MS to Seconds, in whole 0.1ms steps: performance.now() is
+    // coarsened that far anyway, and short deltas keep replay files small
+    let delta = Math.round((now - this.current) * 10) / 10000;
 
     // Cap delta to prevent huge jumps if the tab is inactive
     if (delta > 0.1) {